@@ -1,123 +1,74 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Button } from '@/components/ui/button';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
 // Using type-only imports for better TypeScript compliance
-import type { TranslationJob, SupportedLanguage } from '../../server/src/schema';
-import type { LanguageOption } from '../../server/src/handlers/get_supported_languages';
-import { VideoUpload } from '@/components/VideoUpload';
+import type { TranslationJob } from '../../server/src/schema';
+import { UploadPanel } from '@/components/UploadPanel';
 import { JobsList } from '@/components/JobsList';
+import { JobDetail } from '@/components/JobDetail';
+import { GlossaryManager } from '@/components/GlossaryManager';
+import { TranslationMemoryPanel } from '@/components/TranslationMemoryPanel';
+import { useUploadOptions } from '@/hooks/useUploadOptions';
+import { useJobs } from '@/hooks/useJobs';
+import { useJobEditor } from '@/hooks/useJobEditor';
+import { useGlossaries } from '@/hooks/useGlossaries';
+import { useTranslationMemory } from '@/hooks/useTranslationMemory';
+
+const getStatusColor = (status: TranslationJob['status']) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'processing':
+      return 'bg-blue-100 text-blue-800';
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    case 'failed':
+      return 'bg-red-100 text-red-800';
+    case 'cancelled':
+      return 'bg-gray-200 text-gray-700';
+    case 'retrying':
+      return 'bg-orange-100 text-orange-800';
+    case 'awaiting_review':
+      return 'bg-purple-100 text-purple-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
 
 function App() {
-  const [jobs, setJobs] = useState<TranslationJob[]>([]);
-  const [languages, setLanguages] = useState<LanguageOption[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-
-  // Load supported languages
-  const loadLanguages = useCallback(async () => {
-    try {
-      const result = await trpc.getSupportedLanguages.query();
-      setLanguages(result);
-    } catch (error) {
-      console.error('Failed to load languages:', error);
-    }
-  }, []);
-
-  // Load translation jobs
-  const loadJobs = useCallback(async () => {
-    try {
-      const result = await trpc.getTranslationJobs.query();
-      setJobs(result);
-    } catch (error) {
-      console.error('Failed to load jobs:', error);
+  const [activeTab, setActiveTab] = useState('upload');
+  const { languages, uploadPolicy, voices } = useUploadOptions();
+  const jobs = useJobs();
+  const glossaries = useGlossaries();
+  const memory = useTranslationMemory(activeTab === 'memory');
+  const editor = useJobEditor({
+    setError: jobs.setError,
+    onClose: () => {
+      jobs.loadJobs();
+      jobs.loadReviewQueue();
     }
-  }, []);
-
-  useEffect(() => {
-    loadLanguages();
-    loadJobs();
-  }, [loadLanguages, loadJobs]);
-
-  // Handle video upload
-  const handleVideoUpload = async (file: File, targetLanguage: SupportedLanguage) => {
-    setIsUploading(true);
-    setUploadError(null);
-    
-    try {
-      // Convert file to base64
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          if (typeof reader.result === 'string') {
-            // Remove data URL prefix to get just the base64 data
-            resolve(reader.result.split(',')[1]);
-          } else {
-            reject(new Error('Failed to read file'));
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-        reader.readAsDataURL(file);
-      });
-
-      const response = await trpc.uploadVideo.mutate({
-        filename: file.name,
-        file_data: base64,
-        target_language: targetLanguage
-      });
-
-      // Add new job to the list
-      setJobs((prev: TranslationJob[]) => [response, ...prev]);
-      
-      // Start polling for updates (in real app, use WebSocket or Server-Sent Events)
-      setTimeout(loadJobs, 2000);
-    } catch (error) {
-      console.error('Failed to upload video:', error);
-      setUploadError('Failed to upload video. Please try again.');
-    } finally {
-      setIsUploading(false);
-    }
-  };
+  });
 
-  // Refresh jobs periodically for demo purposes
-  useEffect(() => {
-    const interval = setInterval(loadJobs, 10000); // Poll every 10 seconds
-    return () => clearInterval(interval);
-  }, [loadJobs]);
-
-  const getStatusColor = (status: TranslationJob['status']) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800';
-      case 'completed':
-        return 'bg-green-100 text-green-800';
-      case 'failed':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
+  const handleEditJob = (id: number) => {
+    editor.open(id);
+    setActiveTab('jobs');
   };
 
-  const getProgressValue = (status: TranslationJob['status']) => {
-    switch (status) {
-      case 'pending':
-        return 0;
-      case 'processing':
-        return 50;
-      case 'completed':
-        return 100;
-      case 'failed':
-        return 0;
-      default:
-        return 0;
-    }
+  const editingJob = jobs.jobs.find((job) => job.id === editor.jobId) ?? null;
+
+  // The actions both job lists offer
+  const jobActions = {
+    projects: jobs.projects,
+    onCancel: jobs.cancelJob,
+    onRetry: jobs.retryJob,
+    onDownload: jobs.download,
+    onDownloadSubtitles: jobs.downloadSubtitles,
+    onEdit: handleEditJob,
+    onUpdateProject: jobs.updateProject,
+    onDownloadCombined: jobs.downloadCombined,
+    getStatusColor
   };
 
   return (
@@ -132,59 +83,159 @@ function App() {
           </p>
         </header>
 
-        <Tabs defaultValue="upload" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="upload">📤 Upload Video</TabsTrigger>
             <TabsTrigger value="jobs">📋 Translation Jobs</TabsTrigger>
+            <TabsTrigger value="review">
+              🔍 Review{jobs.reviewQueue.length > 0 && ` (${jobs.reviewQueue.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="glossaries">📖 Glossaries</TabsTrigger>
+            <TabsTrigger value="memory">🧠 Memory</TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload">
+            <UploadPanel
+              languages={languages}
+              uploadPolicy={uploadPolicy}
+              glossaries={glossaries.glossaries}
+              voices={voices}
+              onUploaded={jobs.addJobs}
+            />
+          </TabsContent>
+
+          <TabsContent value="jobs">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  📊 Translation Jobs
+                  {jobs.jobs.length > 0 && (
+                    <Badge variant="secondary">{jobs.jobs.length}</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Track the progress of your video translations
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {jobs.error && (
+                  <Alert className="mb-4 border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-800">
+                      {jobs.error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {editingJob ? (
+                  <JobDetail
+                    job={editingJob}
+                    segments={editor.segments}
+                    comments={editor.comments}
+                    violations={editor.violations}
+                    speakers={editor.speakers}
+                    voices={voices.filter((voice) => voice.language === editingJob.target_language)}
+                    streamUrl={editor.streamUrl}
+                    onBack={editor.close}
+                    onSave={editor.saveSegments}
+                    onRedub={editor.redub}
+                    onAddComment={editor.addComment}
+                    onApprove={editor.approve}
+                    onReject={editor.reject}
+                    onUpdateSpeaker={editor.updateSpeaker}
+                  />
+                ) : (
+                  <JobsList jobs={jobs.jobs} onRefresh={jobs.loadJobs} {...jobActions} />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="review">
             <Card className="shadow-lg">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  🎥 Upload Video for Translation
+                  🔍 Review Queue
+                  {jobs.reviewQueue.length > 0 && (
+                    <Badge variant="secondary">{jobs.reviewQueue.length}</Badge>
+                  )}
                 </CardTitle>
                 <CardDescription>
-                  Select a video file and choose your target language. Our AI will automatically detect the original language and create a dubbed version.
+                  Translations waiting for approval before they are dubbed, oldest first
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {uploadError && (
+                {jobs.reviewQueue.length === 0 ? (
+                  <p className="text-center py-12 text-gray-500">
+                    ✅ Nothing to review. Jobs uploaded with review required appear here once they are translated.
+                  </p>
+                ) : (
+                  <JobsList jobs={jobs.reviewQueue} onRefresh={jobs.loadReviewQueue} {...jobActions} />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="glossaries">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  📖 Glossaries
+                  {glossaries.glossaries.length > 0 && (
+                    <Badge variant="secondary">{glossaries.glossaries.length}</Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Terms that must be translated a certain way, or not at all, such as brand and product names
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {glossaries.error && (
                   <Alert className="mb-4 border-red-200 bg-red-50">
                     <AlertDescription className="text-red-800">
-                      {uploadError}
+                      {glossaries.error}
                     </AlertDescription>
                   </Alert>
                 )}
-                
-                <VideoUpload
+
+                <GlossaryManager
+                  glossaries={glossaries.glossaries}
+                  selected={glossaries.selected}
                   languages={languages}
-                  onUpload={handleVideoUpload}
-                  isUploading={isUploading}
+                  onSelect={glossaries.select}
+                  onCreate={glossaries.create}
+                  onRename={glossaries.rename}
+                  onDelete={glossaries.remove}
+                  onAddEntry={glossaries.addEntry}
+                  onUpdateEntry={glossaries.updateEntry}
+                  onDeleteEntry={glossaries.deleteEntry}
                 />
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="jobs">
+          <TabsContent value="memory">
             <Card className="shadow-lg">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  📊 Translation Jobs
-                  {jobs.length > 0 && (
-                    <Badge variant="secondary">{jobs.length}</Badge>
-                  )}
+                  🧠 Translation Memory
                 </CardTitle>
                 <CardDescription>
-                  Track the progress of your video translations
+                  Earlier translations, reused for recurring lines and offered as suggestions for similar ones
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <JobsList 
-                  jobs={jobs}
-                  onRefresh={loadJobs}
-                  getStatusColor={getStatusColor}
-                  getProgressValue={getProgressValue}
+                {memory.error && (
+                  <Alert className="mb-4 border-red-200 bg-red-50">
+                    <AlertDescription className="text-red-800">
+                      {memory.error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <TranslationMemoryPanel
+                  stats={memory.stats}
+                  onImport={memory.importMemory}
+                  onExport={memory.exportMemory}
                 />
               </CardContent>
             </Card>
@@ -195,4 +246,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { loadHls, loadHlsAudio, type HlsPlayback } from '@/utils/hls';
+import type { TranscriptSegment } from '../../../server/src/schema';
+
+// Drift between the video and the dubbed audio corrected while playing, in seconds
+const MAX_DRIFT_S = 0.15;
+
+// Select value for stream subtitles off
+const OFF = 'off';
+
+// Fades when toggling between the original and the dub, and when dragging the mix
+const TOGGLE_FADE_S = 0.3;
+const SLIDER_FADE_S = 0.05;
+
+// The two audio tracks routed through their own gain, so they can be mixed
+interface AudioMix {
+  context: AudioContext;
+  original: GainNode;
+  dubbed: GainNode;
+}
+
+interface DubPlayerProps {
+  // Signed link to the job's master playlist
+  url: string;
+  segments: TranscriptSegment[];
+  // Lets the page seek, e.g. to a segment clicked in the transcript
+  videoRef: RefObject<HTMLVideoElement | null>;
+  onActiveSegment: (id: number | null) => void;
+}
+
+const segmentAt = (segments: TranscriptSegment[], ms: number) => {
+  return segments.find((segment) => segment.start_ms <= ms && ms < segment.end_ms) ?? null;
+};
+
+// The video with its original audio and, on a second element kept at the
+// same position, the dub. A slider crossfades between them, and the package's
+// audio and subtitle renditions can be picked by language.
+export function DubPlayer({ url, segments, videoRef, onActiveSegment }: DubPlayerProps) {
+  const dubRef = useRef<HTMLAudioElement>(null);
+  const audioMixRef = useRef<AudioMix | null>(null);
+  const [playback, setPlayback] = useState<HlsPlayback | null>(null);
+  // Renditions played by the video and by the dub element
+  const [videoAudio, setVideoAudio] = useState(0);
+  const [dubAudio, setDubAudio] = useState(0);
+  const [hasOriginal, setHasOriginal] = useState(false);
+  const [streamSubtitles, setStreamSubtitles] = useState(OFF);
+  // Share of the dub in what is heard: 0 is the original only, 1 the dub only
+  const [mix, setMix] = useState(1);
+  const [showSource, setShowSource] = useState(true);
+  const [showTranslation, setShowTranslation] = useState(true);
+  const [active, setActive] = useState<TranscriptSegment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the original audio with the video and the dub on its own. Packages
+  // of sources without audio only have the dub, which then plays with the video.
+  useEffect(() => {
+    const video = videoRef.current;
+    const dub = dubRef.current;
+    if (!video || !dub) return;
+
+    let cancelled = false;
+    const sessions: HlsPlayback[] = [];
+    // A session that loads after the player moved on is destroyed right away
+    const keep = (session: HlsPlayback) => {
+      sessions.push(session);
+      if (cancelled) session.destroy();
+      return !cancelled;
+    };
+    const onError = (failure: Error) => setError(failure.message);
+    const start = async () => {
+      setError(null);
+      setPlayback(null);
+      setStreamSubtitles(OFF);
+      try {
+        const playback = await loadHls(video, url, onError);
+        if (!keep(playback)) return;
+        const dubbed = Math.max(0, playback.audio.findIndex((track) => track.default));
+        const original = playback.audio.findIndex((_, index) => index !== dubbed);
+        playback.selectAudio(original < 0 ? dubbed : original);
+        if (original >= 0 && !keep(await loadHlsAudio(dub, url, playback.audio, dubbed, onError))) return;
+        // A new stream starts on the dub, like its audio graph
+        setMix(1);
+        setVideoAudio(original < 0 ? dubbed : original);
+        setDubAudio(dubbed);
+        setHasOriginal(original >= 0);
+        setPlayback(playback);
+      } catch (failure) {
+        console.error('Failed to load stream:', failure);
+        if (!cancelled) {
+          setError(failure instanceof Error ? failure.message : 'Failed to load the stream.');
+        }
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      sessions.forEach((session) => session.destroy());
+    };
+  }, [url, videoRef]);
+
+  // Route both elements through gains once there are two to mix. An element
+  // can only be connected once, so the elements are keyed by the stream and
+  // the graph is rebuilt with them.
+  useEffect(() => {
+    const video = videoRef.current;
+    const dub = dubRef.current;
+    if (!hasOriginal || !video || !dub) return;
+
+    const context = new AudioContext();
+    const connect = (media: HTMLMediaElement) => {
+      const gain = context.createGain();
+      context.createMediaElementSource(media).connect(gain).connect(context.destination);
+      return gain;
+    };
+    const audioMix = { context, original: connect(video), dubbed: connect(dub) };
+    // The mix starts on the dub
+    audioMix.original.gain.value = 0;
+    audioMixRef.current = audioMix;
+
+    return () => {
+      audioMixRef.current = null;
+      context.close().catch((failure) => console.error('Failed to close audio context:', failure));
+    };
+  }, [hasOriginal, url, videoRef]);
+
+  // Keep the dub where the video is; the video's controls drive both
+  useEffect(() => {
+    const video = videoRef.current;
+    const dub = dubRef.current;
+    if (!hasOriginal || !video || !dub) return;
+
+    const follow = () => {
+      if (Math.abs(dub.currentTime - video.currentTime) > MAX_DRIFT_S) {
+        dub.currentTime = video.currentTime;
+      }
+    };
+    const play = () => {
+      // Audio contexts start suspended until the page has been interacted with
+      audioMixRef.current?.context.resume();
+      follow();
+      dub.play().catch((failure) => console.error('Failed to play dubbed audio:', failure));
+    };
+    const pause = () => dub.pause();
+    const seek = () => {
+      dub.currentTime = video.currentTime;
+    };
+    const rate = () => {
+      dub.playbackRate = video.playbackRate;
+    };
+    const volume = () => {
+      dub.volume = video.volume;
+      dub.muted = video.muted;
+    };
+    const timeUpdate = () => {
+      if (!video.paused) follow();
+    };
+
+    const listeners: [string, () => void][] = [
+      ['playing', play],
+      ['pause', pause],
+      ['waiting', pause],
+      ['seeking', seek],
+      ['ratechange', rate],
+      ['volumechange', volume],
+      ['timeupdate', timeUpdate]
+    ];
+    listeners.forEach(([event, listener]) => video.addEventListener(event, listener));
+    return () => listeners.forEach(([event, listener]) => video.removeEventListener(event, listener));
+  }, [hasOriginal, url, videoRef]);
+
+  // Equal-power crossfade, so the level holds halfway
+  const fadeTo = (value: number, seconds: number) => {
+    setMix(value);
+    const audioMix = audioMixRef.current;
+    if (!audioMix) return;
+    const now = audioMix.context.currentTime;
+    const gains: [GainNode, number][] = [
+      [audioMix.original, Math.cos((value * Math.PI) / 2)],
+      [audioMix.dubbed, Math.sin((value * Math.PI) / 2)]
+    ];
+    for (const [gain, level] of gains) {
+      gain.gain.cancelScheduledValues(now);
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(level, now + seconds);
+    }
+  };
+
+  // The rendition heard most in the mix
+  const heardAudio = hasOriginal && mix >= 0.5 ? dubAudio : videoAudio;
+
+  // The dub element keeps its rendition; any other plays with the video
+  const selectAudio = (index: number) => {
+    if (!playback) return;
+    if (hasOriginal && index === dubAudio) {
+      fadeTo(1, TOGGLE_FADE_S);
+      return;
+    }
+    if (index !== videoAudio) {
+      playback.selectAudio(index);
+      setVideoAudio(index);
+    }
+    fadeTo(0, TOGGLE_FADE_S);
+  };
+
+  // Stream subtitles replace the ones drawn from the transcript
+  const selectStreamSubtitles = (value: string) => {
+    setStreamSubtitles(value);
+    playback?.selectSubtitles(value === OFF ? -1 : Number(value));
+    if (value !== OFF) {
+      setShowSource(false);
+      setShowTranslation(false);
+    }
+  };
+
+  const showTranscriptSubtitles = (show: (checked: boolean) => void) => (checked: boolean | 'indeterminate') => {
+    show(checked === true);
+    if (checked === true && streamSubtitles !== OFF) {
+      selectStreamSubtitles(OFF);
+    }
+  };
+
+  // Track the segment being spoken for the subtitles and the transcript
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setActive(segmentAt(segments, video.currentTime * 1000));
+    update();
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [segments, url, videoRef]);
+
+  useEffect(() => {
+    onActiveSegment(active?.id ?? null);
+  }, [active, onActiveSegment]);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <video key={url} ref={videoRef} controls className="w-full rounded-lg bg-black" />
+        <audio key={url} ref={dubRef} className="hidden" />
+        {active && (showSource || showTranslation) && (
+          <div className="pointer-events-none absolute inset-x-0 bottom-14 flex flex-col items-center gap-1 px-4 text-center">
+            {showTranslation && active.translated_text && (
+              <span className="rounded bg-black/75 px-2 py-0.5 text-lg text-white">{active.translated_text}</span>
+            )}
+            {showSource && (
+              <span className="rounded bg-black/60 px-2 py-0.5 text-sm text-gray-200">{active.source_text}</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        {hasOriginal && (
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" className="w-40" onClick={() => fadeTo(mix < 0.5 ? 1 : 0, TOGGLE_FADE_S)}>
+              {mix < 0.5 ? '🎙️ Hear the dub' : '🔊 Hear the original'}
+            </Button>
+            <span className="text-xs text-gray-500">Original</span>
+            <Slider
+              className="w-32"
+              aria-label="Mix of original and dubbed audio"
+              min={0}
+              max={100}
+              value={[Math.round(mix * 100)]}
+              onValueChange={([value]) => fadeTo(value / 100, SLIDER_FADE_S)}
+            />
+            <span className="text-xs text-gray-500">Dubbed</span>
+          </div>
+        )}
+        {playback && playback.audio.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span>🔊 Audio</span>
+            <Select value={String(heardAudio)} onValueChange={(value) => selectAudio(Number(value))}>
+              <SelectTrigger className="w-48" aria-label="Audio language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {playback.audio.map((rendition, index) => (
+                  <SelectItem key={index} value={String(index)}>{rendition.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {playback && playback.subtitles.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span>💬 Subtitles</span>
+            <Select value={streamSubtitles} onValueChange={selectStreamSubtitles}>
+              <SelectTrigger className="w-40" aria-label="Subtitles">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OFF}>Off</SelectItem>
+                {playback.subtitles.map((rendition, index) => (
+                  <SelectItem key={index} value={String(index)}>{rendition.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Checkbox id="show-translation" checked={showTranslation} onCheckedChange={showTranscriptSubtitles(setShowTranslation)} />
+          <label htmlFor="show-translation">Translated subtitles</label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox id="show-source" checked={showSource} onCheckedChange={showTranscriptSubtitles(setShowSource)} />
+          <label htmlFor="show-source">Source subtitles</label>
+        </div>
+      </div>
+    </div>
+  );
+}
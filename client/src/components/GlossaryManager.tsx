@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type {
+  AddGlossaryEntryInput,
+  CreateGlossaryInput,
+  Glossary,
+  GlossaryEntry,
+  GlossaryWithEntries,
+  SupportedLanguage,
+  UpdateGlossaryEntryInput
+} from '../../../server/src/schema';
+import type { LanguageOption } from '../../../server/src/handlers/get_supported_languages';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  // The glossary being edited, with its entries
+  selected: GlossaryWithEntries | null;
+  languages: LanguageOption[];
+  onSelect: (id: number) => void;
+  onCreate: (input: CreateGlossaryInput) => Promise<void>;
+  onRename: (id: number, name: string) => Promise<void>;
+  onDelete: (id: number) => Promise<void>;
+  onAddEntry: (input: AddGlossaryEntryInput) => Promise<void>;
+  onUpdateEntry: (input: UpdateGlossaryEntryInput) => Promise<void>;
+  onDeleteEntry: (id: number) => Promise<void>;
+}
+
+interface EntryDraft {
+  source_term: string;
+  target_term: string;
+  case_sensitive: boolean;
+  do_not_translate: boolean;
+}
+
+const emptyEntry: EntryDraft = { source_term: '', target_term: '', case_sensitive: false, do_not_translate: false };
+
+export function GlossaryManager({
+  glossaries,
+  selected,
+  languages,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onAddEntry,
+  onUpdateEntry,
+  onDeleteEntry
+}: GlossaryManagerProps) {
+  const [name, setName] = useState('');
+  const [sourceLanguage, setSourceLanguage] = useState<SupportedLanguage | ''>('');
+  const [targetLanguage, setTargetLanguage] = useState<SupportedLanguage | ''>('');
+  const [entry, setEntry] = useState<EntryDraft>(emptyEntry);
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const canCreate = name.trim() && sourceLanguage && targetLanguage && sourceLanguage !== targetLanguage;
+  const canAddEntry = entry.source_term.trim() && (entry.do_not_translate || entry.target_term.trim());
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCreate) return;
+    await onCreate({ name: name.trim(), source_language: sourceLanguage, target_language: targetLanguage });
+    setName('');
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !canAddEntry) return;
+    await onAddEntry({
+      glossary_id: selected.id,
+      source_term: entry.source_term.trim(),
+      target_term: entry.do_not_translate ? undefined : entry.target_term.trim(),
+      case_sensitive: entry.case_sensitive,
+      do_not_translate: entry.do_not_translate
+    });
+    setEntry(emptyEntry);
+  };
+
+  const handleRename = async () => {
+    if (!selected || !renaming?.trim()) return;
+    await onRename(selected.id, renaming.trim());
+    setRenaming(null);
+  };
+
+  const languageName = (code: SupportedLanguage) => languages.find((lang) => lang.code === code)?.name ?? code.toUpperCase();
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+      <div className="space-y-4">
+        <div className="space-y-1">
+          {glossaries.length === 0 && <p className="text-sm text-gray-500">No glossaries yet.</p>}
+          {glossaries.map((glossary: Glossary) => (
+            <button
+              key={glossary.id}
+              type="button"
+              onClick={() => onSelect(glossary.id)}
+              className={`w-full text-left rounded-lg border p-2 text-sm ${
+                selected?.id === glossary.id ? 'border-purple-400 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="font-medium text-gray-800">{glossary.name}</div>
+              <div className="text-xs text-gray-500">
+                {glossary.source_language.toUpperCase()} → {glossary.target_language.toUpperCase()}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-2 border-t pt-4">
+          <h4 className="text-sm font-medium text-gray-700">New glossary</h4>
+          <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={sourceLanguage} onValueChange={(value: SupportedLanguage) => setSourceLanguage(value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Source language" />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((lang: LanguageOption) => (
+                <SelectItem key={lang.code} value={lang.code}>{lang.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={targetLanguage} onValueChange={(value: SupportedLanguage) => setTargetLanguage(value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Target language" />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((lang: LanguageOption) => (
+                <SelectItem key={lang.code} value={lang.code}>{lang.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" className="w-full" disabled={!canCreate}>
+            ➕ Create glossary
+          </Button>
+        </form>
+      </div>
+
+      {selected ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            {renaming === null ? (
+              <div>
+                <h3 className="font-semibold text-gray-800">{selected.name}</h3>
+                <p className="text-sm text-gray-600">
+                  {languageName(selected.source_language)} → {languageName(selected.target_language)} •{' '}
+                  {selected.entries.length} term{selected.entries.length !== 1 ? 's' : ''}
+                </p>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input value={renaming} onChange={(e) => setRenaming(e.target.value)} />
+                <Button size="sm" disabled={!renaming.trim()} onClick={handleRename}>Save</Button>
+                <Button size="sm" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setRenaming(selected.name)}>
+                ✏️ Rename
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => {
+                  if (confirm(`Delete the glossary "${selected.name}"? Jobs using it continue without it.`)) {
+                    onDelete(selected.id);
+                  }
+                }}
+              >
+                🗑️ Delete
+              </Button>
+            </div>
+          </div>
+
+          <form onSubmit={handleAddEntry} className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-lg p-3">
+            <Input
+              className="w-48"
+              placeholder="Source term"
+              value={entry.source_term}
+              onChange={(e) => setEntry({ ...entry, source_term: e.target.value })}
+            />
+            <Input
+              className="w-48"
+              placeholder={entry.do_not_translate ? 'Kept as is' : 'Translation'}
+              value={entry.do_not_translate ? '' : entry.target_term}
+              disabled={entry.do_not_translate}
+              onChange={(e) => setEntry({ ...entry, target_term: e.target.value })}
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <Checkbox
+                checked={entry.do_not_translate}
+                onCheckedChange={(checked) => setEntry({ ...entry, do_not_translate: checked === true })}
+              />
+              Do not translate
+            </label>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <Checkbox
+                checked={entry.case_sensitive}
+                onCheckedChange={(checked) => setEntry({ ...entry, case_sensitive: checked === true })}
+              />
+              Match case
+            </label>
+            <Button type="submit" size="sm" disabled={!canAddEntry}>
+              ➕ Add term
+            </Button>
+          </form>
+
+          {selected.entries.length === 0 ? (
+            <p className="text-sm text-gray-500">This glossary has no terms yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source term</TableHead>
+                  <TableHead>Translation</TableHead>
+                  <TableHead className="w-28">Match case</TableHead>
+                  <TableHead className="w-20"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selected.entries.map((glossaryEntry: GlossaryEntry) => (
+                  <TableRow key={glossaryEntry.id}>
+                    <TableCell className="font-medium">{glossaryEntry.source_term}</TableCell>
+                    <TableCell>
+                      {glossaryEntry.do_not_translate ? (
+                        <Badge variant="outline">🔒 do not translate</Badge>
+                      ) : (
+                        glossaryEntry.target_term
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Match the case of ${glossaryEntry.source_term}`}
+                        checked={glossaryEntry.case_sensitive}
+                        onCheckedChange={(checked) => onUpdateEntry({ id: glossaryEntry.id, case_sensitive: checked === true })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => onDeleteEntry(glossaryEntry.id)}>
+                        🗑️
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-6xl mb-4">📖</div>
+          <p>Select a glossary to manage its terms, or create one for a language pair.</p>
+          <p className="text-sm mt-2">
+            Glossary terms are kept out of machine translation and replaced by their required translation, so brand
+            and product names come out right.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
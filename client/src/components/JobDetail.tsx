@@ -0,0 +1,375 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SpeakerList } from '@/components/SpeakerList';
+import { DubPlayer } from '@/components/DubPlayer';
+import type {
+  JobSpeaker,
+  SegmentComment,
+  SegmentEdit,
+  SegmentGlossaryViolations,
+  TranscriptSegment,
+  TranslationJobWithProgress,
+  UpdateJobSpeakerInput,
+  Voice
+} from '../../../server/src/schema';
+
+interface JobDetailProps {
+  job: TranslationJobWithProgress;
+  // null while the segments are loading
+  segments: TranscriptSegment[] | null;
+  comments: SegmentComment[];
+  // Segments whose translation does not follow the job's glossary
+  violations: SegmentGlossaryViolations[];
+  speakers: JobSpeaker[];
+  // Voices offered for the job's target language
+  voices: Voice[];
+  // Signed link to the job's streaming package, once it is dubbed
+  streamUrl: string | null;
+  onBack: () => void;
+  onSave: (jobId: number, updates: SegmentEdit[]) => Promise<void>;
+  onRedub: (jobId: number) => Promise<void>;
+  onAddComment: (segmentId: number, body: string) => Promise<void>;
+  onApprove: (jobId: number, comment?: string) => Promise<void>;
+  onReject: (jobId: number, reason: string) => Promise<void>;
+  onUpdateSpeaker: (input: UpdateJobSpeakerInput) => Promise<void>;
+}
+
+// What the editor holds for a segment; timings are edited in seconds
+interface SegmentDraft {
+  source_text: string;
+  translated_text: string;
+  start: string;
+  end: string;
+}
+
+const toDraft = (segment: TranscriptSegment): SegmentDraft => ({
+  source_text: segment.source_text,
+  translated_text: segment.translated_text ?? '',
+  start: (segment.start_ms / 1000).toFixed(2),
+  end: (segment.end_ms / 1000).toFixed(2)
+});
+
+// The fields of a draft that differ from the saved segment, or null if none do
+const toEdit = (segment: TranscriptSegment, draft: SegmentDraft): SegmentEdit | null => {
+  const edit: SegmentEdit = { id: segment.id, version: segment.version };
+  const startMs = Math.round(parseFloat(draft.start) * 1000);
+  const endMs = Math.round(parseFloat(draft.end) * 1000);
+
+  if (draft.source_text.trim() && draft.source_text !== segment.source_text) {
+    edit.source_text = draft.source_text;
+  }
+  if (draft.translated_text.trim() && draft.translated_text !== (segment.translated_text ?? '')) {
+    edit.translated_text = draft.translated_text;
+  }
+  if (Number.isFinite(startMs) && startMs !== segment.start_ms) {
+    edit.start_ms = startMs;
+  }
+  if (Number.isFinite(endMs) && endMs !== segment.end_ms) {
+    edit.end_ms = endMs;
+  }
+  return Object.keys(edit).length > 2 ? edit : null;
+};
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+// Edits are only accepted while no worker is running the job
+const canEdit = (status: TranslationJobWithProgress['status']) => {
+  return status !== 'processing' && status !== 'retrying';
+};
+
+export function JobDetail({
+  job,
+  segments,
+  comments,
+  violations,
+  speakers,
+  voices,
+  streamUrl,
+  onBack,
+  onSave,
+  onRedub,
+  onAddComment,
+  onApprove,
+  onReject,
+  onUpdateSpeaker
+}: JobDetailProps) {
+  const [drafts, setDrafts] = useState<Record<number, SegmentDraft>>({});
+  const [commentDrafts, setCommentDrafts] = useState<Record<number, string>>({});
+  const [reviewNote, setReviewNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const rowRefs = useRef<Record<number, HTMLTableRowElement | null>>({});
+  const [activeSegmentId, setActiveSegmentId] = useState<number | null>(null);
+
+  // Start over from the saved text whenever the segments are (re)loaded
+  useEffect(() => {
+    setDrafts(Object.fromEntries((segments ?? []).map((segment) => [segment.id, toDraft(segment)])));
+  }, [segments]);
+
+  // Follow playback through the transcript, without pulling the page away
+  // from a row being edited while paused
+  const handleActiveSegment = useCallback((id: number | null) => {
+    setActiveSegmentId(id);
+    if (id !== null && videoRef.current && !videoRef.current.paused) {
+      rowRefs.current[id]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, []);
+
+  const seekTo = (segment: TranscriptSegment) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = segment.start_ms / 1000;
+  };
+
+  const edits = (segments ?? [])
+    .map((segment) => drafts[segment.id] && toEdit(segment, drafts[segment.id]))
+    .filter((edit): edit is SegmentEdit => Boolean(edit));
+  const editedCount = (segments ?? []).filter((segment) => segment.needs_redub).length;
+  const editable = canEdit(job.status);
+
+  const updateDraft = (id: number, field: keyof SegmentDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(job.id, edits);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddComment = async (segmentId: number) => {
+    const body = commentDrafts[segmentId]?.trim();
+    if (!body) return;
+    await onAddComment(segmentId, body);
+    setCommentDrafts((prev) => ({ ...prev, [segmentId]: '' }));
+  };
+
+  const awaitingReview = job.status === 'awaiting_review';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-800">{job.original_filename}</h3>
+          <p className="text-sm text-gray-600">
+            Job #{job.id} • {job.detected_language?.toUpperCase() ?? '?'} → {job.target_language.toUpperCase()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onBack}>
+            ← Back to jobs
+          </Button>
+          <Button size="sm" variant="outline" disabled={!editable || edits.length === 0 || isSaving} onClick={handleSave}>
+            💾 Save {edits.length > 0 ? `${edits.length} change${edits.length !== 1 ? 's' : ''}` : 'changes'}
+          </Button>
+          <Button
+            size="sm"
+            disabled={job.status !== 'completed' || editedCount === 0 || edits.length > 0}
+            onClick={() => onRedub(job.id)}
+          >
+            🎙️ Re-dub edited segments
+          </Button>
+        </div>
+      </div>
+
+      {awaitingReview && (
+        <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 space-y-2">
+          <p className="text-sm text-purple-800">
+            🔍 This translation is waiting for your review. Correct segments and leave comments below, then approve it to
+            start dubbing or reject it with a reason.
+          </p>
+          <Textarea
+            value={reviewNote}
+            placeholder="Note for the approval, or the reason for rejecting"
+            onChange={(event) => setReviewNote(event.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" disabled={edits.length > 0} onClick={() => onApprove(job.id, reviewNote.trim() || undefined)}>
+              ✅ Approve
+            </Button>
+            <Button size="sm" variant="outline" disabled={!reviewNote.trim()} onClick={() => onReject(job.id, reviewNote.trim())}>
+              ❌ Reject
+            </Button>
+          </div>
+        </div>
+      )}
+      {!editable && (
+        <p className="text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg p-3">
+          ⚙️ The job is being processed. Segments can be edited once it has finished.
+        </p>
+      )}
+      {editedCount > 0 && job.status === 'completed' && (
+        <p className="text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded-lg p-3">
+          {editedCount} segment{editedCount !== 1 ? 's have' : ' has'} changed since the video was dubbed.
+          Re-dub to update the audio; only changed lines are synthesized again.
+        </p>
+      )}
+
+      {streamUrl && segments && (
+        <DubPlayer url={streamUrl} segments={segments} videoRef={videoRef} onActiveSegment={handleActiveSegment} />
+      )}
+
+      <SpeakerList speakers={speakers} voices={voices} editable={editable} onUpdate={onUpdateSpeaker} />
+
+      {segments === null ? (
+        <p className="text-sm text-gray-500">Loading segments...</p>
+      ) : segments.length === 0 ? (
+        <p className="text-sm text-gray-500">This job has no transcript yet.</p>
+      ) : (
+        <ScrollArea className="h-[600px] pr-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead className="w-28">Timing (s)</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Translation</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {segments.map((segment) => {
+                const draft = drafts[segment.id] ?? toDraft(segment);
+                return (
+                  <TableRow
+                    key={segment.id}
+                    ref={(row) => {
+                      rowRefs.current[segment.id] = row;
+                    }}
+                    className={`align-top ${segment.id === activeSegmentId ? 'bg-blue-50' : ''}`}
+                  >
+                    <TableCell className="text-gray-500">
+                      {segment.index + 1}
+                      {streamUrl && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="mt-1 h-6 px-1 text-xs"
+                          title="Play from here"
+                          onClick={() => seekTo(segment)}
+                        >
+                          ▶️ {formatTime(segment.start_ms)}
+                        </Button>
+                      )}
+                      {segment.needs_redub && <Badge variant="outline" className="mt-1 block w-fit">edited</Badge>}
+                    </TableCell>
+                    <TableCell className="space-y-1">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        aria-label={`Start of segment ${segment.index + 1}`}
+                        value={draft.start}
+                        disabled={!editable}
+                        onChange={(event) => updateDraft(segment.id, 'start', event.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        aria-label={`End of segment ${segment.index + 1}`}
+                        value={draft.end}
+                        disabled={!editable}
+                        onChange={(event) => updateDraft(segment.id, 'end', event.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {segment.speaker && (
+                        <div className="text-xs text-gray-500 mb-1">
+                          🗣️ {speakers.find((speaker) => speaker.label === segment.speaker)?.name ?? segment.speaker}
+                        </div>
+                      )}
+                      <Textarea
+                        value={draft.source_text}
+                        disabled={!editable}
+                        onChange={(event) => updateDraft(segment.id, 'source_text', event.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {segment.memory_match !== null && (
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge
+                            variant="outline"
+                            className={segment.memory_match === 100 ? 'text-green-700 border-green-300' : 'text-blue-700 border-blue-300'}
+                          >
+                            TM {segment.memory_match}%
+                          </Badge>
+                          {segment.memory_suggestion && editable && draft.translated_text !== segment.memory_suggestion && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-6 px-2 text-xs"
+                              title={segment.memory_suggestion}
+                              onClick={() => updateDraft(segment.id, 'translated_text', segment.memory_suggestion!)}
+                            >
+                              Use suggestion
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      <Textarea
+                        value={draft.translated_text}
+                        placeholder="Not translated yet"
+                        disabled={!editable}
+                        onChange={(event) => updateDraft(segment.id, 'translated_text', event.target.value)}
+                      />
+                      {segment.overrun_ms !== null && segment.overrun_ms > 0 && (
+                        <p className="mt-1 text-xs text-amber-800 bg-amber-50 rounded p-1">
+                          ⏱️ Dubbed speech runs {(segment.overrun_ms / 1000).toFixed(1)}s over, even at {segment.speech_rate}× speed
+                        </p>
+                      )}
+                      {violations
+                        .find((entry) => entry.segment_id === segment.id)
+                        ?.violations.map((violation) => (
+                          <p key={violation.entry_id} className="mt-1 text-xs text-amber-800 bg-amber-50 rounded p-1">
+                            📖 "{violation.source_term}" should read "{violation.expected_term}"
+                          </p>
+                        ))}
+                      {comments
+                        .filter((comment) => comment.segment_id === segment.id)
+                        .map((comment) => (
+                          <p key={comment.id} className="mt-1 text-xs text-gray-600 bg-yellow-50 rounded p-1">
+                            💬 {comment.author && <strong>{comment.author}: </strong>}{comment.body}
+                          </p>
+                        ))}
+                      <div className="mt-1 flex gap-1">
+                        <Input
+                          className="h-7 text-xs"
+                          placeholder="Add a comment"
+                          value={commentDrafts[segment.id] ?? ''}
+                          onChange={(event) => setCommentDrafts((prev) => ({ ...prev, [segment.id]: event.target.value }))}
+                          onKeyDown={(event) => {
+                            if (event.key === 'Enter') handleAddComment(segment.id);
+                          }}
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 px-2 text-xs"
+                          disabled={!commentDrafts[segment.id]?.trim()}
+                          onClick={() => handleAddComment(segment.id)}
+                        >
+                          Comment
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
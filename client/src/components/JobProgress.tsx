@@ -0,0 +1,111 @@
+import { Progress } from '@/components/ui/progress';
+import type { JobStage, TranslationJobWithProgress } from '../../../server/src/schema';
+
+interface JobProgressProps {
+  job: TranslationJobWithProgress;
+}
+
+const stageLabels: Record<string, string> = {
+  transcribe: 'Transcribing',
+  translate: 'Translating',
+  review: 'Waiting for review',
+  synthesize: 'Synthesizing speech',
+  mux: 'Muxing video'
+};
+
+const getStageLabel = (name: string) => {
+  return stageLabels[name] || name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const getStageIcon = (state: JobStage['state']) => {
+  switch (state) {
+    case 'completed':
+      return '✅';
+    case 'running':
+      return '⚙️';
+    case 'failed':
+      return '❌';
+    case 'skipped':
+      return '⏭️';
+    default:
+      return '⏳';
+  }
+};
+
+// Completed and skipped stages count fully, the running stage by its own percent
+const getOverallPercent = (job: TranslationJobWithProgress) => {
+  if (job.status === 'completed') return 100;
+  if (job.stages.length === 0) return 0;
+
+  const total = job.stages.reduce((sum: number, stage: JobStage) => {
+    if (stage.state === 'completed' || stage.state === 'skipped') return sum + 100;
+    if (stage.state === 'running') return sum + stage.percent;
+    return sum;
+  }, 0);
+  return Math.round(total / job.stages.length);
+};
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'Less than a minute remaining';
+  if (minutes === 1) return 'About 1 minute remaining';
+  return `About ${minutes} minutes remaining`;
+};
+
+const formatDuration = (stage: JobStage) => {
+  if (!stage.started_at || !stage.finished_at) return null;
+  const seconds = (stage.finished_at.getTime() - stage.started_at.getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+export function JobProgress({ job }: JobProgressProps) {
+  const percent = getOverallPercent(job);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>Progress</span>
+        <span>{percent}%</span>
+      </div>
+      <Progress value={percent} className="h-2" />
+
+      {job.status === 'processing' && job.estimated_remaining_ms !== null && (
+        <p className="text-xs text-gray-500 text-right">
+          ⏱️ {formatRemaining(job.estimated_remaining_ms)}
+        </p>
+      )}
+
+      {job.stages.length > 0 && (
+        <ol className="grid grid-cols-2 md:grid-cols-4 gap-2 pt-1">
+          {job.stages.map((stage: JobStage) => (
+            <li
+              key={stage.id}
+              className={`rounded border p-2 text-xs ${
+                stage.state === 'running'
+                  ? 'border-blue-300 bg-blue-50'
+                  : stage.state === 'failed'
+                    ? 'border-red-200 bg-red-50'
+                    : 'border-gray-200 bg-white'
+              }`}
+            >
+              <div className="flex items-center gap-1 font-medium text-gray-700">
+                <span>{getStageIcon(stage.state)}</span>
+                <span>{getStageLabel(stage.name)}</span>
+              </div>
+              <div className="text-gray-500 mt-1">
+                {stage.state === 'running' && `${stage.percent}%`}
+                {stage.state === 'completed' && (formatDuration(stage) || 'Done')}
+                {stage.state === 'pending' && 'Waiting'}
+                {stage.state === 'failed' && 'Failed'}
+                {stage.state === 'skipped' && 'Skipped'}
+              </div>
+              {stage.state === 'running' && (
+                <Progress value={stage.percent} className="h-1 mt-1" />
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
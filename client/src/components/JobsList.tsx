@@ -1,19 +1,83 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import type { TranslationJob } from '../../../server/src/schema';
+import { Checkbox } from '@/components/ui/checkbox';
+import { JobProgress } from '@/components/JobProgress';
+import type {
+  AudioTrackInfo,
+  DownloadKind,
+  Project,
+  SubtitleFormat,
+  SubtitleTrack,
+  TranslationJob,
+  TranslationJobWithProgress,
+  UpdateProjectInput
+} from '../../../server/src/schema';
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+interface JobGroup {
+  project_id: number | null;
+  jobs: TranslationJobWithProgress[];
+}
+
+// Jobs of one upload dubbed into several languages are shown together,
+// where the first of them appears in the list
+const groupJobs = (jobs: TranslationJobWithProgress[]): JobGroup[] => {
+  const groups: JobGroup[] = [];
+  const projects = new Map<number, JobGroup>();
+  for (const job of jobs) {
+    const existing = job.project_id === null ? undefined : projects.get(job.project_id);
+    if (existing) {
+      existing.jobs.push(job);
+      continue;
+    }
+    const group = { project_id: job.project_id, jobs: [job] };
+    groups.push(group);
+    if (job.project_id !== null) {
+      projects.set(job.project_id, group);
+    }
+  }
+  return groups;
+};
+
+// Warnings stages record in their output, e.g. when the separate stage had
+// to leave the dub without the background
+const stageWarning = (job: TranslationJobWithProgress, stage: string, key: string): string | null => {
+  return job.stages.find((entry) => entry.name === stage)?.output?.[key] ?? null;
+};
 
 interface JobsListProps {
-  jobs: TranslationJob[];
+  jobs: TranslationJobWithProgress[];
+  // Projects of the grouped jobs by id
+  projects: Record<number, Project>;
   onRefresh: () => void;
+  onCancel: (id: number) => Promise<void>;
+  onRetry: (id: number) => Promise<void>;
+  onDownload: (id: number, kind: DownloadKind) => Promise<void>;
+  onDownloadSubtitles: (id: number, track: SubtitleTrack, format: SubtitleFormat) => Promise<void>;
+  onEdit: (id: number) => void;
+  onUpdateProject: (input: UpdateProjectInput) => Promise<void>;
+  // Download the combined file of the project a job belongs to
+  onDownloadCombined: (jobId: number) => Promise<void>;
   getStatusColor: (status: TranslationJob['status']) => string;
-  getProgressValue: (status: TranslationJob['status']) => number;
 }
 
-export function JobsList({ jobs, onRefresh, getStatusColor, getProgressValue }: JobsListProps) {
+export function JobsList({
+  jobs,
+  projects,
+  onRefresh,
+  onCancel,
+  onRetry,
+  onDownload,
+  onDownloadSubtitles,
+  onEdit,
+  onUpdateProject,
+  onDownloadCombined,
+  getStatusColor
+}: JobsListProps) {
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -52,11 +116,344 @@ export function JobsList({ jobs, onRefresh, getStatusColor, getProgressValue }:
         return '✅';
       case 'failed':
         return '❌';
+      case 'cancelled':
+        return '🚫';
+      case 'retrying':
+        return '🔁';
+      case 'awaiting_review':
+        return '🔍';
       default:
         return '❓';
     }
   };
 
+  const formatDuration = (ms: number) => {
+    const totalSeconds = Math.round(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  };
+
+  const describeAudioTrack = (track: AudioTrackInfo) => {
+    return [
+      track.codec,
+      track.channel_layout,
+      track.sample_rate ? `${track.sample_rate / 1000} kHz` : null,
+      track.language
+    ].filter(Boolean).join(', ');
+  };
+
+  const canCancel = (status: TranslationJob['status']) => {
+    return status === 'pending' || status === 'processing' || status === 'retrying' || status === 'awaiting_review';
+  };
+
+  const canRetry = (status: TranslationJob['status']) => {
+    return status === 'failed' || status === 'cancelled';
+  };
+
+  // How a project's languages are delivered: a file per job, or one file
+  // with every language as its own audio track
+  const renderDelivery = (project: Project, projectJobs: TranslationJobWithProgress[]) => (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`combined-${project.id}`}
+          checked={project.output_mode === 'combined'}
+          onCheckedChange={(checked) => onUpdateProject({ id: project.id, output_mode: checked === true ? 'combined' : 'separate' })}
+        />
+        <label htmlFor={`combined-${project.id}`}>📦 One file with all languages</label>
+      </div>
+      {project.output_mode === 'combined' && (
+        <>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`embed-subtitles-${project.id}`}
+              checked={project.embed_subtitles}
+              onCheckedChange={(checked) => onUpdateProject({ id: project.id, embed_subtitles: checked === true })}
+            />
+            <label htmlFor={`embed-subtitles-${project.id}`}>Embed subtitles</label>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!project.combined_file_path}
+            onClick={() => onDownloadCombined(projectJobs[0].id)}
+          >
+            ⬇️ MKV ({project.combined_languages.length} of {projectJobs.length} languages)
+          </Button>
+          {project.combined_revision > project.combined_built_revision && (
+            <span className="text-xs text-gray-500">🔄 Updating...</span>
+          )}
+          {project.combined_error && (
+            <span className="text-xs text-red-700">⚠️ {project.combined_error}</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const renderJob = (job: TranslationJobWithProgress) => (
+    <Card key={job.id} className="shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-start">
+          <div className="space-y-1">
+            <CardTitle className="text-base flex items-center gap-2">
+              {getStatusEmoji(job.status)} {job.original_filename}
+            </CardTitle>
+            <CardDescription>
+              Job #{job.id} • Created {formatDate(job.created_at)}
+            </CardDescription>
+          </div>
+          <Badge className={getStatusColor(job.status)}>
+            {job.status.toUpperCase()}
+          </Badge>
+        </div>
+      </CardHeader>
+      
+      <CardContent className="space-y-4">
+        {/* Stage Progress */}
+        <JobProgress job={job} />
+
+        {/* Language Info */}
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <span className="text-gray-500">Source Language:</span>
+            <p className="font-medium">
+              {job.detected_language ? (
+                `🗣️ ${getLanguageName(job.detected_language)}`
+              ) : (
+                <span className="text-gray-400">🔍 Detecting...</span>
+              )}
+            </p>
+          </div>
+          <div>
+            <span className="text-gray-500">Target Language:</span>
+            <p className="font-medium">🎯 {getLanguageName(job.target_language)}</p>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {job.error_message && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-800 text-sm">
+              <strong>Error:</strong> {job.error_message}
+            </p>
+          </div>
+        )}
+
+        {/* Timing Warnings */}
+        {job.timing_warnings.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-amber-800 text-sm">
+              <strong>⏱️ Timing:</strong> {job.timing_warnings.length} segment{job.timing_warnings.length !== 1 ? 's' : ''} still
+              {job.timing_warnings.length !== 1 ? ' run' : ' runs'} over their time
+              ({job.timing_warnings.map((warning) => `#${warning.index + 1} +${(warning.overrun_ms / 1000).toFixed(1)}s`).join(', ')}).
+              Shorten the translation in the editor and re-dub.
+            </p>
+          </div>
+        )}
+
+        {/* Stage Warnings */}
+        {stageWarning(job, 'separate', 'background_warning') && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-amber-800 text-sm">
+              <strong>🎵 Background:</strong> {stageWarning(job, 'separate', 'background_warning')}.
+            </p>
+          </div>
+        )}
+        {stageWarning(job, 'mux', 'mux_warning') && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-amber-800 text-sm">
+              <strong>🎬 Video:</strong> {stageWarning(job, 'mux', 'mux_warning')}.
+            </p>
+          </div>
+        )}
+
+        {/* Completion Info */}
+        {job.status === 'completed' && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-2xl">🎉</span>
+              <span className="font-medium text-green-800">Translation completed!</span>
+            </div>
+            
+            {job.translated_file_path && (
+              <div className="space-y-2">
+                <Button
+                  size="sm"
+                  className="w-full bg-green-600 hover:bg-green-700"
+                  onClick={() => onDownload(job.id, 'video')}
+                >
+                  📥 Download Translated Video
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => onEdit(job.id)}
+                >
+                  ▶️ Compare original and dub
+                </Button>
+                <p className="text-xs text-green-700 text-center">
+                  Your video with dubbed audio is ready
+                </p>
+              </div>
+            )}
+            
+            {job.transcript && (
+              <div className="mt-4">
+                <Separator className="my-3" />
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm text-gray-700">Original Transcript:</h4>
+                  <div className="bg-white p-3 rounded border max-h-20 overflow-y-auto">
+                    <p className="text-sm text-gray-600">{job.transcript}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+            
+            {job.translated_transcript && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm text-gray-700">Translated Transcript:</h4>
+                <div className="bg-white p-3 rounded border max-h-20 overflow-y-auto">
+                  <p className="text-sm text-gray-600">{job.translated_transcript}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => onDownload(job.id, 'transcript')}
+                >
+                  📄 Download Transcript
+                </Button>
+                {([
+                  ['target', getLanguageName(job.target_language)],
+                  ['source', job.detected_language ? getLanguageName(job.detected_language) : null]
+                ] as const).map(([track, languageName]) => languageName && (
+                  <div key={track} className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-600">💬 {languageName} subtitles</span>
+                    <div className="flex gap-1">
+                      {SUBTITLE_FORMATS.map((format) => (
+                        <Button
+                          key={format}
+                          size="sm"
+                          variant="outline"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => onDownloadSubtitles(job.id, track, format)}
+                        >
+                          {format.toUpperCase()}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Processing Info */}
+        {job.status === 'processing' && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="flex items-center gap-2">
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-600 border-t-transparent"></div>
+              <span className="text-blue-800 text-sm">
+                Processing your video... This may take a few minutes.
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Pending Info */}
+        {job.status === 'pending' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <p className="text-yellow-800 text-sm">
+              📋 Your video is in the queue and will be processed shortly.
+            </p>
+          </div>
+        )}
+
+        {/* Retrying Info */}
+        {job.status === 'retrying' && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3">
+            <p className="text-orange-800 text-sm">
+              🔁 A step failed and will be retried
+              {job.next_attempt_at ? ` at ${formatDate(job.next_attempt_at)}` : ' shortly'}.
+            </p>
+          </div>
+        )}
+
+        {/* Review Info */}
+        {job.status === 'awaiting_review' && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
+            <p className="text-purple-800 text-sm">
+              🔍 The translation is waiting for a reviewer. Dubbing continues once it is approved.
+            </p>
+          </div>
+        )}
+
+        {/* Job Actions */}
+        {(canCancel(job.status) || canRetry(job.status) || job.transcript) && (
+          <div className="flex gap-2">
+            {canCancel(job.status) && (
+              <Button size="sm" variant="outline" onClick={() => onCancel(job.id)}>
+                🛑 Cancel
+              </Button>
+            )}
+            {canRetry(job.status) && (
+              <Button size="sm" variant="outline" onClick={() => onRetry(job.id)}>
+                🔁 Retry
+              </Button>
+            )}
+            {job.transcript && (
+              <Button size="sm" variant="outline" onClick={() => onEdit(job.id)}>
+                {job.status === 'awaiting_review' ? '🔍 Review' : '✏️ Edit transcript'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* File Paths (for debugging/development) */}
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer hover:text-gray-700">Technical Details</summary>
+          <div className="mt-2 space-y-1 font-mono bg-gray-50 p-2 rounded">
+            <div>Original: {job.original_file_path}</div>
+            {job.media_info && (
+              <>
+                <div>
+                  Container: {job.media_info.container.toUpperCase()}
+                  {job.media_info.duration_ms !== null && ` (${formatDuration(job.media_info.duration_ms)})`}
+                </div>
+                {job.media_info.video && (
+                  <div>
+                    Video: {job.media_info.video.codec}
+                    {job.media_info.video.width && job.media_info.video.height
+                      ? `, ${job.media_info.video.width}×${job.media_info.video.height}`
+                      : ''}
+                    {job.media_info.video.frame_rate ? `, ${job.media_info.video.frame_rate} fps` : ''}
+                  </div>
+                )}
+                {job.media_info.audio_tracks.map((track, index) => (
+                  <div key={index}>
+                    Audio{job.media_info!.audio_tracks.length > 1 ? ` #${index + 1}` : ''}: {describeAudioTrack(track)}
+                  </div>
+                ))}
+              </>
+            )}
+            {job.transcript_source && (
+              <div>Transcript: {job.transcript_source === 'subtitles' ? 'imported subtitles' : 'speech recognition'}</div>
+            )}
+            {job.translated_file_path && (
+              <div>Translated: {job.translated_file_path}</div>
+            )}
+            <div>Updated: {formatDate(job.updated_at)}</div>
+          </div>
+        </details>
+      </CardContent>
+    </Card>
+  );
+
   if (jobs.length === 0) {
     return (
       <div className="text-center py-12">
@@ -87,140 +484,22 @@ export function JobsList({ jobs, onRefresh, getStatusColor, getProgressValue }:
 
       <ScrollArea className="h-[600px] pr-4">
         <div className="space-y-4">
-          {jobs.map((job: TranslationJob) => (
-            <Card key={job.id} className="shadow-sm hover:shadow-md transition-shadow">
-              <CardHeader className="pb-3">
-                <div className="flex justify-between items-start">
-                  <div className="space-y-1">
-                    <CardTitle className="text-base flex items-center gap-2">
-                      {getStatusEmoji(job.status)} {job.original_filename}
-                    </CardTitle>
-                    <CardDescription>
-                      Job #{job.id} • Created {formatDate(job.created_at)}
-                    </CardDescription>
-                  </div>
-                  <Badge className={getStatusColor(job.status)}>
-                    {job.status.toUpperCase()}
-                  </Badge>
-                </div>
-              </CardHeader>
-              
-              <CardContent className="space-y-4">
-                {/* Progress Bar */}
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm text-gray-600">
-                    <span>Progress</span>
-                    <span>{getProgressValue(job.status)}%</span>
-                  </div>
-                  <Progress value={getProgressValue(job.status)} className="h-2" />
-                </div>
-
-                {/* Language Info */}
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-gray-500">Source Language:</span>
-                    <p className="font-medium">
-                      {job.detected_language ? (
-                        `🗣️ ${getLanguageName(job.detected_language)}`
-                      ) : (
-                        <span className="text-gray-400">🔍 Detecting...</span>
-                      )}
-                    </p>
-                  </div>
-                  <div>
-                    <span className="text-gray-500">Target Language:</span>
-                    <p className="font-medium">🎯 {getLanguageName(job.target_language)}</p>
-                  </div>
-                </div>
-
-                {/* Error Message */}
-                {job.error_message && (
-                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
-                    <p className="text-red-800 text-sm">
-                      <strong>Error:</strong> {job.error_message}
-                    </p>
-                  </div>
-                )}
-
-                {/* Completion Info */}
-                {job.status === 'completed' && (
-                  <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
-                    <div className="flex items-center gap-2">
-                      <span className="text-2xl">🎉</span>
-                      <span className="font-medium text-green-800">Translation completed!</span>
-                    </div>
-                    
-                    {job.translated_file_path && (
-                      <div className="space-y-2">
-                        <Button size="sm" className="w-full bg-green-600 hover:bg-green-700">
-                          📥 Download Translated Video
-                        </Button>
-                        <p className="text-xs text-green-700 text-center">
-                          Your video with dubbed audio is ready
-                        </p>
-                      </div>
-                    )}
-                    
-                    {job.transcript && (
-                      <div className="mt-4">
-                        <Separator className="my-3" />
-                        <div className="space-y-2">
-                          <h4 className="font-medium text-sm text-gray-700">Original Transcript:</h4>
-                          <div className="bg-white p-3 rounded border max-h-20 overflow-y-auto">
-                            <p className="text-sm text-gray-600">{job.transcript}</p>
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                    
-                    {job.translated_transcript && (
-                      <div className="space-y-2">
-                        <h4 className="font-medium text-sm text-gray-700">Translated Transcript:</h4>
-                        <div className="bg-white p-3 rounded border max-h-20 overflow-y-auto">
-                          <p className="text-sm text-gray-600">{job.translated_transcript}</p>
-                        </div>
-                        <Button size="sm" variant="outline" className="w-full">
-                          📄 Download Transcript
-                        </Button>
-                      </div>
-                    )}
-                  </div>
-                )}
-
-                {/* Processing Info */}
-                {job.status === 'processing' && (
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-                    <div className="flex items-center gap-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-600 border-t-transparent"></div>
-                      <span className="text-blue-800 text-sm">
-                        Processing your video... This may take a few minutes.
-                      </span>
-                    </div>
-                  </div>
-                )}
-
-                {/* Pending Info */}
-                {job.status === 'pending' && (
-                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-                    <p className="text-yellow-800 text-sm">
-                      📋 Your video is in the queue and will be processed shortly.
-                    </p>
-                  </div>
-                )}
-
-                {/* File Paths (for debugging/development) */}
-                <details className="text-xs text-gray-500">
-                  <summary className="cursor-pointer hover:text-gray-700">Technical Details</summary>
-                  <div className="mt-2 space-y-1 font-mono bg-gray-50 p-2 rounded">
-                    <div>Original: {job.original_file_path}</div>
-                    {job.translated_file_path && (
-                      <div>Translated: {job.translated_file_path}</div>
-                    )}
-                    <div>Updated: {formatDate(job.updated_at)}</div>
-                  </div>
-                </details>
-              </CardContent>
-            </Card>
+          {groupJobs(jobs).map((group: JobGroup) => group.project_id === null ? renderJob(group.jobs[0]) : (
+            <div key={`project-${group.project_id}`} className="border-l-4 border-purple-300 pl-3 space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="font-medium text-sm text-gray-700">
+                  🎬 {group.jobs[0].original_filename}
+                  <span className="text-gray-500 font-normal">
+                    {' '}• {group.jobs.map((job: TranslationJobWithProgress) => getLanguageName(job.target_language)).join(', ')}
+                  </span>
+                </p>
+                <Badge variant="outline">
+                  {group.jobs.filter((job: TranslationJobWithProgress) => job.status === 'completed').length} of {group.jobs.length} done
+                </Badge>
+              </div>
+              {group.project_id !== null && projects[group.project_id] && renderDelivery(projects[group.project_id], group.jobs)}
+              {group.jobs.map(renderJob)}
+            </div>
           ))}
         </div>
       </ScrollArea>
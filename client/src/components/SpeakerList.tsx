@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { JobSpeaker, SpeakingStyle, UpdateJobSpeakerInput, Voice, VoiceGender } from '../../../server/src/schema';
+
+interface SpeakerListProps {
+  speakers: JobSpeaker[];
+  // Offered in a select; without any, a voice is typed in
+  voices: Voice[];
+  // Voices cannot change while the job is being processed
+  editable: boolean;
+  onUpdate: (input: UpdateJobSpeakerInput) => Promise<void>;
+}
+
+// Select value for "no preference"; Radix selects cannot use an empty string
+const DEFAULT = 'default';
+
+const genders: VoiceGender[] = ['female', 'male', 'neutral'];
+const styles: SpeakingStyle[] = ['neutral', 'conversational', 'narration', 'cheerful', 'serious'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function SpeakerList({ speakers, voices: catalog, editable, onUpdate }: SpeakerListProps) {
+  // Names and voices are typed freely and saved when the field is left
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [voices, setVoices] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    setNames(Object.fromEntries(speakers.map((speaker) => [speaker.id, speaker.name])));
+    setVoices(Object.fromEntries(speakers.map((speaker) => [speaker.id, speaker.voice ?? ''])));
+  }, [speakers]);
+
+  const saveName = (speaker: JobSpeaker) => {
+    const name = names[speaker.id]?.trim();
+    if (name && name !== speaker.name) {
+      onUpdate({ id: speaker.id, name });
+    } else {
+      setNames((prev) => ({ ...prev, [speaker.id]: speaker.name }));
+    }
+  };
+
+  const saveVoice = (speaker: JobSpeaker) => {
+    const voice = voices[speaker.id]?.trim() || null;
+    if (voice !== speaker.voice) {
+      onUpdate({ id: speaker.id, voice });
+    }
+  };
+
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+      <h4 className="text-sm font-medium text-gray-700">🗣️ Speakers</h4>
+      {speakers.map((speaker: JobSpeaker) => (
+        <div key={speaker.id} className="flex flex-wrap items-center gap-2">
+          <Input
+            className="w-40"
+            aria-label={`Name of ${speaker.label}`}
+            value={names[speaker.id] ?? speaker.name}
+            onChange={(e) => setNames((prev) => ({ ...prev, [speaker.id]: e.target.value }))}
+            onBlur={() => saveName(speaker)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveName(speaker);
+            }}
+          />
+          {catalog.length > 0 ? (
+            <Select
+              value={speaker.voice ?? DEFAULT}
+              disabled={!editable}
+              onValueChange={(value) => onUpdate({ id: speaker.id, voice: value === DEFAULT ? null : value })}
+            >
+              <SelectTrigger className="w-40" aria-label={`Voice of ${speaker.name}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT}>Default voice</SelectItem>
+                {catalog.map((voice: Voice) => (
+                  <SelectItem key={voice.id} value={voice.id}>{voice.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              className="w-40"
+              aria-label={`Voice of ${speaker.name}`}
+              placeholder="Default voice"
+              value={voices[speaker.id] ?? ''}
+              disabled={!editable}
+              onChange={(e) => setVoices((prev) => ({ ...prev, [speaker.id]: e.target.value }))}
+              onBlur={() => saveVoice(speaker)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveVoice(speaker);
+              }}
+            />
+          )}
+          <Select
+            value={speaker.gender ?? DEFAULT}
+            disabled={!editable}
+            onValueChange={(value) => onUpdate({ id: speaker.id, gender: value === DEFAULT ? null : (value as VoiceGender) })}
+          >
+            <SelectTrigger className="w-36" aria-label={`Gender of ${speaker.name}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT}>Any gender</SelectItem>
+              {genders.map((gender) => (
+                <SelectItem key={gender} value={gender}>{capitalize(gender)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={speaker.style ?? DEFAULT}
+            disabled={!editable}
+            onValueChange={(value) => onUpdate({ id: speaker.id, style: value === DEFAULT ? null : (value as SpeakingStyle) })}
+          >
+            <SelectTrigger className="w-40" aria-label={`Speaking style of ${speaker.name}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT}>Default style</SelectItem>
+              {styles.map((style) => (
+                <SelectItem key={style} value={style}>{capitalize(style)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
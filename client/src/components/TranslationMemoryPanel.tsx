@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type {
+  ExportTranslationMemoryInput,
+  TranslationMemoryImportResult,
+  TranslationMemoryStats
+} from '../../../server/src/schema';
+
+interface TranslationMemoryPanelProps {
+  stats: TranslationMemoryStats[];
+  onImport: (content: string) => Promise<TranslationMemoryImportResult | null>;
+  onExport: (input: ExportTranslationMemoryInput) => Promise<void>;
+}
+
+export function TranslationMemoryPanel({ stats, onImport, onExport }: TranslationMemoryPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<TranslationMemoryImportResult | null>(null);
+
+  const total = stats.reduce((sum, pair) => sum + pair.entries, 0);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const result = await onImport(await file.text());
+      if (result) {
+        setLastImport(result);
+        setFile(null);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleImport} className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-lg p-3">
+        <Input
+          key={lastImport ? `imported-${lastImport.imported}` : 'empty'}
+          type="file"
+          accept=".tmx,application/x-tmx+xml,text/xml"
+          className="w-72"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+        <Button type="submit" size="sm" disabled={!file || isImporting}>
+          {isImporting ? 'Importing…' : '📥 Import TMX'}
+        </Button>
+        <Button type="button" size="sm" variant="outline" disabled={total === 0} onClick={() => onExport({})}>
+          📤 Export all
+        </Button>
+        {lastImport && (
+          <span className="text-sm text-gray-600">
+            Imported {lastImport.imported} translation{lastImport.imported !== 1 ? 's' : ''}
+            {lastImport.skipped > 0 && `, skipped ${lastImport.skipped} unit${lastImport.skipped !== 1 ? 's' : ''}`}
+          </span>
+        )}
+      </form>
+
+      {stats.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-6xl mb-4">🧠</div>
+          <p>The translation memory is empty.</p>
+          <p className="text-sm mt-2">
+            Translations are remembered when jobs complete or are approved, and recurring lines are reused in later
+            jobs. Import a TMX file to start from an existing memory.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Language pair</TableHead>
+              <TableHead>Translations</TableHead>
+              <TableHead className="w-32"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.map((pair: TranslationMemoryStats) => (
+              <TableRow key={`${pair.source_language}-${pair.target_language}`}>
+                <TableCell className="font-medium">
+                  {pair.source_language.toUpperCase()} → {pair.target_language.toUpperCase()}
+                </TableCell>
+                <TableCell>{pair.entries}</TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onExport({ source_language: pair.source_language, target_language: pair.target_language })}
+                  >
+                    📤 Export
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { VideoUpload } from '@/components/VideoUpload';
+import { trpc } from '@/utils/trpc';
+import { describeUploadError, uploadFileInChunks, type UploadOptions, type UploadProgress } from '@/utils/upload';
+import type { Glossary, SupportedLanguage, TranslationJob, UploadPolicy, Voice } from '../../../server/src/schema';
+import type { LanguageOption } from '../../../server/src/handlers/get_supported_languages';
+
+interface UploadPanelProps {
+  languages: LanguageOption[];
+  uploadPolicy: UploadPolicy | null;
+  glossaries: Glossary[];
+  voices: Voice[];
+  // Receives the jobs created from a finished upload
+  onUploaded: (jobs: TranslationJob[]) => void;
+}
+
+// The upload form with the progress and errors of the upload it runs
+export function UploadPanel({ languages, uploadPolicy, glossaries, voices, onUploaded }: UploadPanelProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+
+  // Speak a short sample with a voice before it is chosen
+  const handlePreviewVoice = async (voice: string, language: SupportedLanguage) => {
+    setUploadError(null);
+    try {
+      const preview = await trpc.previewVoice.mutate({ voice, language });
+      // Played from a blob URL, which the Content-Security-Policy allows for media
+      const bytes = Uint8Array.from(atob(preview.audio_base64), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: preview.mime_type }));
+      const audio = new Audio(url);
+      audio.addEventListener('ended', () => URL.revokeObjectURL(url), { once: true });
+      try {
+        await audio.play();
+      } catch (error) {
+        URL.revokeObjectURL(url);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Failed to preview voice:', error);
+      setUploadError(error instanceof Error ? error.message : 'Failed to preview voice.');
+    }
+  };
+
+  const handleVideoUpload = async (file: File, targetLanguages: SupportedLanguage[], options: UploadOptions) => {
+    setIsUploading(true);
+    setUploadError(null);
+    setUploadProgress(null);
+
+    try {
+      const response = await uploadFileInChunks(file, targetLanguages, options, setUploadProgress);
+      onUploaded(response.jobs);
+    } catch (error) {
+      console.error('Failed to upload video:', error);
+      const { message, resumable } = describeUploadError(error);
+      setUploadError(resumable ? `${message} Select the same file again to resume the upload.` : message);
+    } finally {
+      setIsUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🎥 Upload Video for Translation
+        </CardTitle>
+        <CardDescription>
+          Select a video file and choose your target language. Our AI will automatically detect the original language and create a dubbed version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {uploadError && (
+          <Alert className="mb-4 border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">
+              {uploadError}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <VideoUpload
+          languages={languages}
+          uploadPolicy={uploadPolicy}
+          glossaries={glossaries}
+          voices={voices}
+          onUpload={handleVideoUpload}
+          isUploading={isUploading}
+          uploadProgress={uploadProgress}
+          onPreviewVoice={handlePreviewVoice}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,31 +3,92 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import type { SupportedLanguage } from '../../../server/src/schema';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import type {
+  Glossary,
+  SubtitleAttachment,
+  SubtitleFormat,
+  SupportedLanguage,
+  UploadPolicy,
+  VideoContainer,
+  Voice
+} from '../../../server/src/schema';
 import type { LanguageOption } from '../../../server/src/handlers/get_supported_languages';
+import type { UploadOptions, UploadProgress } from '@/utils/upload';
 
 interface VideoUploadProps {
   languages: LanguageOption[];
-  onUpload: (file: File, targetLanguage: SupportedLanguage) => Promise<void>;
+  uploadPolicy: UploadPolicy | null;
+  glossaries: Glossary[];
+  voices: Voice[];
+  onUpload: (file: File, targetLanguages: SupportedLanguage[], options: UploadOptions) => Promise<void>;
   isUploading: boolean;
+  uploadProgress: UploadProgress | null;
+  onPreviewVoice: (voice: string, language: SupportedLanguage) => Promise<void>;
 }
 
-export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadProps) {
+// Select value for uploading without a glossary
+const NO_GLOSSARY = 'none';
+// Select value for the provider's default voice
+const DEFAULT_VOICE = 'default';
+// Select value for captions whose file declares their language
+const DECLARED_LANGUAGE = 'declared';
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+// The format follows the extension; the server detects it from the content otherwise
+const readSubtitles = async (file: File, language: string): Promise<SubtitleAttachment> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return {
+    content: await file.text(),
+    format: SUBTITLE_FORMATS.find((format) => format === extension),
+    language: language === DECLARED_LANGUAGE ? undefined : (language as SupportedLanguage)
+  };
+};
+
+// File extensions browsers may report without a video/* type (e.g. .mkv)
+const containerExtensions: Record<VideoContainer, string[]> = {
+  mp4: ['mp4', 'm4v'],
+  mov: ['mov', 'qt'],
+  mkv: ['mkv'],
+  webm: ['webm'],
+  avi: ['avi']
+};
+
+export function VideoUpload({
+  languages,
+  uploadPolicy,
+  glossaries,
+  voices,
+  onUpload,
+  isUploading,
+  uploadProgress,
+  onPreviewVoice
+}: VideoUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [targetLanguage, setTargetLanguage] = useState<SupportedLanguage | ''>('');
+  const [targetLanguages, setTargetLanguages] = useState<SupportedLanguage[]>([]);
+  const [requiresReview, setRequiresReview] = useState(false);
+  const [glossaryId, setGlossaryId] = useState(NO_GLOSSARY);
+  const [voice, setVoice] = useState(DEFAULT_VOICE);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [subtitleLanguage, setSubtitleLanguage] = useState(DECLARED_LANGUAGE);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [dragOver, setDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (file: File) => {
-    // Check if it's a video file
-    if (!file.type.startsWith('video/')) {
+    // Check if it's a video file; the server checks the actual contents
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const knownExtension = Object.values(containerExtensions).some((extensions) => extensions.includes(extension));
+    if (!file.type.startsWith('video/') && !knownExtension) {
       alert('Please select a video file');
       return;
     }
 
-    // Check file size (max 100MB for demo)
-    if (file.size > 100 * 1024 * 1024) {
-      alert('File size must be less than 100MB');
+    if (uploadPolicy && file.size > uploadPolicy.max_size_bytes) {
+      alert(`File size must be at most ${formatFileSize(uploadPolicy.max_size_bytes)}`);
       return;
     }
 
@@ -69,21 +130,58 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
       return;
     }
 
-    if (!targetLanguage) {
+    if (targetLanguages.length === 0) {
       alert('Please select a target language');
       return;
     }
 
-    await onUpload(selectedFile, targetLanguage);
+    await onUpload(selectedFile, targetLanguages, {
+      requires_review: requiresReview,
+      glossary_id: glossaryId === NO_GLOSSARY ? undefined : Number(glossaryId),
+      voice: voice === DEFAULT_VOICE ? undefined : voice,
+      subtitles: subtitleFile ? await readSubtitles(subtitleFile, subtitleLanguage) : undefined
+    });
     
     // Reset form on successful upload
     setSelectedFile(null);
-    setTargetLanguage('');
+    setTargetLanguages([]);
+    setGlossaryId(NO_GLOSSARY);
+    setVoice(DEFAULT_VOICE);
+    setSubtitleFile(null);
+    setSubtitleLanguage(DECLARED_LANGUAGE);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (subtitleInputRef.current) {
+      subtitleInputRef.current.value = '';
+    }
+  };
+
+  // Each language becomes a job of its own, in the order they were picked
+  const toggleLanguage = (code: SupportedLanguage, checked: boolean) => {
+    setTargetLanguages((prev: SupportedLanguage[]) =>
+      checked ? [...prev, code] : prev.filter((language: SupportedLanguage) => language !== code)
+    );
+    setGlossaryId(NO_GLOSSARY);
+    setVoice(DEFAULT_VOICE);
   };
 
+  // Glossaries and voices are for one language, so they are only offered
+  // when a single one is picked
+  const targetLanguage = targetLanguages.length === 1 ? targetLanguages[0] : null;
+
+  const handlePreview = async () => {
+    if (!targetLanguage || voice === DEFAULT_VOICE) return;
+    setIsPreviewing(true);
+    try {
+      await onPreviewVoice(voice, targetLanguage);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const languageVoices = voices.filter((option: Voice) => option.language === targetLanguage);
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -92,6 +190,10 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const uploadPercent = uploadProgress && uploadProgress.total_bytes > 0
+    ? Math.round((uploadProgress.uploaded_bytes / uploadProgress.total_bytes) * 100)
+    : 0;
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -153,7 +255,9 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
                   Drop your video here or click to browse
                 </h3>
                 <p className="text-gray-600 mb-4">
-                  Supports MP4, AVI, MOV, and other video formats • Max 100MB
+                  {uploadPolicy
+                    ? `Supports ${uploadPolicy.allowed_containers.map((name: VideoContainer) => name.toUpperCase()).join(', ')} • Max ${formatFileSize(uploadPolicy.max_size_bytes)}`
+                    : 'Supports MP4, MOV, MKV, WebM and AVI videos'}
                 </p>
                 <Button
                   type="button"
@@ -166,7 +270,7 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="video/*"
+                  accept="video/*,.mkv"
                   onChange={handleFileInputChange}
                   className="hidden"
                 />
@@ -178,35 +282,152 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
 
       {/* Language Selection */}
       <div className="space-y-2">
-        <label htmlFor="target-language" className="block text-sm font-medium text-gray-700">
-          🌍 Target Language
+        <span className="block text-sm font-medium text-gray-700">
+          🌍 Target Languages
+        </span>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {languages.map((lang: LanguageOption) => (
+            <div key={lang.code} className="flex items-center gap-2">
+              <Checkbox
+                id={`target-language-${lang.code}`}
+                checked={targetLanguages.includes(lang.code)}
+                onCheckedChange={(checked) => toggleLanguage(lang.code, checked === true)}
+                disabled={isUploading}
+              />
+              <label htmlFor={`target-language-${lang.code}`} className="text-sm text-gray-700">
+                {lang.name}
+              </label>
+            </div>
+          ))}
+        </div>
+        {targetLanguages.length > 1 && (
+          <p className="text-xs text-gray-500">
+            The video is uploaded once and dubbed into each language as a separate job. Glossaries and a default
+            voice can only be chosen for a single language; speaker voices can still be set on each job.
+          </p>
+        )}
+      </div>
+
+      {/* Subtitles: existing captions stand in for speech recognition */}
+      <div className="space-y-2">
+        <label htmlFor="subtitles" className="block text-sm font-medium text-gray-700">
+          💬 Captions (optional)
         </label>
-        <Select
-          value={targetLanguage}
-          onValueChange={(value: SupportedLanguage) => setTargetLanguage(value)}
+        <div className="flex flex-wrap gap-2">
+          <Input
+            ref={subtitleInputRef}
+            id="subtitles"
+            type="file"
+            accept=".srt,.vtt,.ass"
+            className="w-72"
+            onChange={(e) => setSubtitleFile(e.target.files?.[0] ?? null)}
+            disabled={isUploading}
+          />
+          {subtitleFile && (
+            <Select value={subtitleLanguage} onValueChange={setSubtitleLanguage} disabled={isUploading}>
+              <SelectTrigger aria-label="Caption language" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DECLARED_LANGUAGE}>Language declared in the file</SelectItem>
+                {languages.map((lang: LanguageOption) => (
+                  <SelectItem key={lang.code} value={lang.code}>
+                    {lang.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          An SRT, WebVTT or ASS file of the original speech is used as the transcript instead of speech recognition.
+        </p>
+      </div>
+
+      {/* Voice: the synthesizer's voices for the chosen language */}
+      {targetLanguage && languageVoices.length > 0 && (
+        <div className="space-y-2">
+          <label htmlFor="voice" className="block text-sm font-medium text-gray-700">
+            🎙️ Voice
+          </label>
+          <div className="flex gap-2">
+            <Select value={voice} onValueChange={setVoice} disabled={isUploading}>
+              <SelectTrigger id="voice" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_VOICE}>Default voice</SelectItem>
+                {languageVoices.map((option: Voice) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} ({option.gender}, {option.styles.join(', ')})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={voice === DEFAULT_VOICE || isPreviewing || isUploading}
+            >
+              {isPreviewing ? 'Playing…' : '▶️ Preview'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Glossary: only those translating into the chosen language apply */}
+      {targetLanguage && (
+        <div className="space-y-2">
+          <label htmlFor="glossary" className="block text-sm font-medium text-gray-700">
+            📖 Glossary
+          </label>
+          <Select value={glossaryId} onValueChange={setGlossaryId} disabled={isUploading}>
+            <SelectTrigger id="glossary" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_GLOSSARY}>No glossary</SelectItem>
+              {glossaries
+                .filter((glossary: Glossary) => glossary.target_language === targetLanguage)
+                .map((glossary: Glossary) => (
+                  <SelectItem key={glossary.id} value={String(glossary.id)}>
+                    {glossary.name} ({glossary.source_language.toUpperCase()} → {glossary.target_language.toUpperCase()})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Review */}
+      <div className="flex items-start gap-2">
+        <Checkbox
+          id="requires-review"
+          checked={requiresReview}
+          onCheckedChange={(checked) => setRequiresReview(checked === true)}
           disabled={isUploading}
-        >
-          <SelectTrigger className="w-full">
-            <SelectValue placeholder="Select the language you want the video translated to..." />
-          </SelectTrigger>
-          <SelectContent>
-            {languages.map((lang: LanguageOption) => (
-              <SelectItem key={lang.code} value={lang.code}>
-                {lang.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        />
+        <label htmlFor="requires-review" className="text-sm text-gray-700 leading-tight">
+          🔍 Require review before dubbing
+          <span className="block text-xs text-gray-500">
+            The job pauses after translation until a reviewer approves it.
+          </span>
+        </label>
       </div>
 
       {/* Upload Progress */}
       {isUploading && (
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
-            <span>Uploading and processing...</span>
-            <span>Please wait</span>
+            <span>{uploadPercent === 100 ? 'Verifying upload...' : 'Uploading...'}</span>
+            <span>
+              {uploadProgress
+                ? `${formatFileSize(uploadProgress.uploaded_bytes)} of ${formatFileSize(uploadProgress.total_bytes)}`
+                : 'Preparing...'}
+            </span>
           </div>
-          <Progress value={undefined} className="w-full" />
+          <Progress value={uploadPercent} className="w-full" />
         </div>
       )}
 
@@ -214,13 +435,13 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
       <Button 
         type="submit" 
         size="lg"
-        disabled={!selectedFile || !targetLanguage || isUploading}
+        disabled={!selectedFile || targetLanguages.length === 0 || isUploading}
         className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
       >
         {isUploading ? (
           <>
             <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
-            Processing Video...
+            Uploading Video...
           </>
         ) : (
           <>
@@ -229,11 +450,15 @@ export function VideoUpload({ languages, onUpload, isUploading }: VideoUploadPro
         )}
       </Button>
 
-      {selectedFile && targetLanguage && !isUploading && (
+      {selectedFile && targetLanguages.length > 0 && !isUploading && (
         <div className="text-center text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
           <p>
             Ready to translate <strong>{selectedFile.name}</strong> to{' '}
-            <strong>{languages.find((l: LanguageOption) => l.code === targetLanguage)?.name}</strong>
+            <strong>
+              {targetLanguages
+                .map((code: SupportedLanguage) => languages.find((l: LanguageOption) => l.code === code)?.name ?? code)
+                .join(', ')}
+            </strong>
           </p>
         </div>
       )}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type {
+  AddGlossaryEntryInput,
+  CreateGlossaryInput,
+  Glossary,
+  GlossaryWithEntries,
+  UpdateGlossaryEntryInput
+} from '../../../server/src/schema';
+
+// The glossaries, the one open with its terms, and the changes to them
+export function useGlossaries() {
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [selected, setSelected] = useState<GlossaryWithEntries | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGlossaries = useCallback(async () => {
+    try {
+      const result = await trpc.getGlossaries.query();
+      setGlossaries(result);
+    } catch (error) {
+      console.error('Failed to load glossaries:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGlossaries();
+  }, [loadGlossaries]);
+
+  // Run a glossary change and refresh the list and the open glossary
+  const update = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+      await loadGlossaries();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : `${failure}.`);
+    }
+  };
+
+  const select = (id: number) => update(async () => {
+    setSelected(await trpc.getGlossary.query({ id }));
+  }, 'Failed to load glossary');
+
+  const create = (input: CreateGlossaryInput) => update(async () => {
+    setSelected(await trpc.createGlossary.mutate(input));
+  }, 'Failed to create glossary');
+
+  const rename = (id: number, name: string) => update(async () => {
+    const glossary = await trpc.updateGlossary.mutate({ id, name });
+    setSelected((prev) => prev && { ...prev, ...glossary });
+  }, 'Failed to rename glossary');
+
+  const remove = (id: number) => update(async () => {
+    await trpc.deleteGlossary.mutate({ id });
+    setSelected(null);
+  }, 'Failed to delete glossary');
+
+  const addEntry = (input: AddGlossaryEntryInput) => update(async () => {
+    await trpc.addGlossaryEntry.mutate(input);
+    setSelected(await trpc.getGlossary.query({ id: input.glossary_id }));
+  }, 'Failed to add term');
+
+  const updateEntry = (input: UpdateGlossaryEntryInput) => update(async () => {
+    const entry = await trpc.updateGlossaryEntry.mutate(input);
+    setSelected(await trpc.getGlossary.query({ id: entry.glossary_id }));
+  }, 'Failed to update term');
+
+  const deleteEntry = (id: number) => update(async () => {
+    const entry = await trpc.deleteGlossaryEntry.mutate({ id });
+    setSelected(await trpc.getGlossary.query({ id: entry.glossary_id }));
+  }, 'Failed to delete term');
+
+  return { glossaries, selected, error, select, create, rename, remove, addEntry, updateEntry, deleteEntry };
+}
@@ -0,0 +1,179 @@
+import { useCallback, useState } from 'react';
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/utils/trpc';
+import type {
+  JobSpeaker,
+  SegmentComment,
+  SegmentEdit,
+  SegmentGlossaryViolations,
+  TranscriptSegment,
+  UpdateJobSpeakerInput
+} from '../../../server/src/schema';
+
+interface JobEditorOptions {
+  // Where failed actions are reported; null clears the message
+  setError: (message: string | null) => void;
+  // Called when the editor closes, e.g. after an approval, to refresh the lists
+  onClose: () => void;
+}
+
+// The job open in the editor: its transcript with comments, glossary
+// violations and speakers, the stream it plays, and the review actions
+export function useJobEditor({ setError, onClose }: JobEditorOptions) {
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[] | null>(null);
+  const [comments, setComments] = useState<SegmentComment[]>([]);
+  const [violations, setViolations] = useState<SegmentGlossaryViolations[]>([]);
+  const [speakers, setSpeakers] = useState<JobSpeaker[]>([]);
+
+  const loadSegments = useCallback(async (id: number) => {
+    try {
+      const [loadedSegments, loadedComments, loadedViolations, loadedSpeakers] = await Promise.all([
+        trpc.getTranscriptSegments.query({ job_id: id }),
+        trpc.getSegmentComments.query({ job_id: id }),
+        trpc.getGlossaryViolations.query({ job_id: id }),
+        trpc.getJobSpeakers.query({ job_id: id })
+      ]);
+      setSegments(loadedSegments);
+      setComments(loadedComments);
+      setViolations(loadedViolations);
+      setSpeakers(loadedSpeakers);
+    } catch (error) {
+      console.error('Failed to load segments:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load the transcript.');
+    }
+  }, [setError]);
+
+  // The streaming package of a dubbed job, played next to its transcript
+  const loadStream = useCallback(async (id: number) => {
+    try {
+      const links = await trpc.getDownloadLinks.query({ id });
+      setStreamUrl(links.hls_url);
+    } catch (error) {
+      console.error('Failed to load stream:', error);
+    }
+  }, []);
+
+  const clear = () => {
+    setStreamUrl(null);
+    setSegments(null);
+    setComments([]);
+    setViolations([]);
+    setSpeakers([]);
+  };
+
+  // Open the job's page: the player, when it has been dubbed, and the segment editor
+  const open = (id: number) => {
+    setError(null);
+    clear();
+    setJobId(id);
+    loadSegments(id);
+    loadStream(id);
+  };
+
+  const close = () => {
+    setJobId(null);
+    clear();
+    onClose();
+  };
+
+  // Save edited segments; the server refuses all of them if any was changed elsewhere
+  const saveSegments = async (id: number, updates: SegmentEdit[]) => {
+    setError(null);
+    try {
+      const saved = await trpc.bulkUpdateSegments.mutate({ job_id: id, updates });
+      setSegments((prev) => prev && prev.map((segment) => saved.find((entry) => entry.id === segment.id) ?? segment));
+      setViolations(await trpc.getGlossaryViolations.query({ job_id: id }));
+    } catch (error) {
+      console.error('Failed to save segments:', error);
+      if (error instanceof TRPCClientError && error.data?.code === 'CONFLICT') {
+        setError(`${error.message}. The latest version has been loaded; please apply your edits again.`);
+        await loadSegments(id);
+        return;
+      }
+      setError(error instanceof Error ? error.message : 'Failed to save segments.');
+    }
+  };
+
+  // Re-synthesize the edited segments and remux the video
+  const redub = async (id: number) => {
+    setError(null);
+    try {
+      await trpc.redubTranslationJob.mutate({ id });
+      close();
+    } catch (error) {
+      console.error('Failed to re-dub job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to re-dub job.');
+    }
+  };
+
+  // Rename a speaker or change its voice. A new voice marks the speaker's
+  // dubbed lines for re-dubbing, so the segments are reloaded.
+  const updateSpeaker = async (input: UpdateJobSpeakerInput) => {
+    setError(null);
+    try {
+      const speaker = await trpc.updateJobSpeaker.mutate(input);
+      setSpeakers((prev) => prev.map((entry) => (entry.id === speaker.id ? speaker : entry)));
+      if (input.voice !== undefined || input.gender !== undefined || input.style !== undefined) {
+        await loadSegments(speaker.job_id);
+      }
+    } catch (error) {
+      console.error('Failed to update speaker:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update speaker.');
+    }
+  };
+
+  // Leave a reviewer note on a segment
+  const addComment = async (segmentId: number, body: string) => {
+    setError(null);
+    try {
+      const comment = await trpc.addSegmentComment.mutate({ segment_id: segmentId, body });
+      setComments((prev) => [...prev, comment]);
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add comment.');
+    }
+  };
+
+  // Let a job waiting for review continue to dubbing
+  const approve = async (id: number, comment?: string) => {
+    setError(null);
+    try {
+      await trpc.approveTranslationJob.mutate({ id, comment });
+      close();
+    } catch (error) {
+      console.error('Failed to approve job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to approve job.');
+    }
+  };
+
+  // Send a job back; it fails with the reason and can be retried after corrections
+  const reject = async (id: number, reason: string) => {
+    setError(null);
+    try {
+      await trpc.rejectTranslationJob.mutate({ id, reason });
+      close();
+    } catch (error) {
+      console.error('Failed to reject job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reject job.');
+    }
+  };
+
+  return {
+    jobId,
+    streamUrl,
+    segments,
+    comments,
+    violations,
+    speakers,
+    open,
+    close,
+    saveSegments,
+    redub,
+    updateSpeaker,
+    addComment,
+    approve,
+    reject
+  };
+}
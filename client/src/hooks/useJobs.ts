@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type {
+  DownloadKind,
+  Project,
+  SubtitleFormat,
+  SubtitleTrack,
+  TranslationJob,
+  TranslationJobWithProgress,
+  UpdateProjectInput
+} from '../../../server/src/schema';
+
+// Jobs are polled, since the server does not push their progress
+const POLL_INTERVAL_MS = 10_000;
+
+// The job list, the review queue and the projects of their jobs, kept up to
+// date by polling, with the actions the lists offer on a job
+export function useJobs() {
+  const [jobs, setJobs] = useState<TranslationJobWithProgress[]>([]);
+  const [projects, setProjects] = useState<Record<number, Project>>({});
+  const [reviewQueue, setReviewQueue] = useState<TranslationJobWithProgress[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await trpc.getTranslationJobs.query();
+      setJobs(result);
+
+      // Projects carry how their languages are delivered
+      const projectIds = [...new Set(result.flatMap((job) => (job.project_id === null ? [] : [job.project_id])))];
+      const loaded = projectIds.length === 0 ? [] : await trpc.getProjects.query({ ids: projectIds });
+      setProjects(Object.fromEntries(loaded.map((project) => [project.id, project])));
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+    }
+  }, []);
+
+  // The jobs waiting for a reviewer, oldest first
+  const loadReviewQueue = useCallback(async () => {
+    try {
+      const result = await trpc.getReviewQueue.query();
+      setReviewQueue(result);
+    } catch (error) {
+      console.error('Failed to load review queue:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    loadReviewQueue();
+    const interval = setInterval(() => {
+      loadJobs();
+      loadReviewQueue();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadJobs, loadReviewQueue]);
+
+  // Add uploaded jobs to the list; they have no stage progress until a worker claims them
+  const addJobs = (added: TranslationJob[]) => {
+    setJobs((prev) => [
+      ...added.map((job) => ({ ...job, stages: [], estimated_remaining_ms: null, timing_warnings: [] })),
+      ...prev
+    ]);
+    setTimeout(loadJobs, 2000);
+  };
+
+  // Cancel a queued or running job
+  const cancelJob = async (id: number) => {
+    setError(null);
+    try {
+      await trpc.cancelTranslationJob.mutate({ id });
+      await loadJobs();
+    } catch (error) {
+      console.error('Failed to cancel job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel job.');
+    }
+  };
+
+  // Re-run a failed or cancelled job from its last completed stage
+  const retryJob = async (id: number) => {
+    setError(null);
+    try {
+      await trpc.retryTranslationJob.mutate({ id });
+      await loadJobs();
+    } catch (error) {
+      console.error('Failed to retry job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry job.');
+    }
+  };
+
+  // Fetch a freshly signed link and let the browser download it
+  const download = async (id: number, kind: DownloadKind) => {
+    setError(null);
+    try {
+      const links = await trpc.getDownloadLinks.query({ id });
+      const url = kind === 'video' ? links.video_url : links.transcript_url;
+      if (!url) {
+        setError('This file is not available for download yet.');
+        return;
+      }
+      window.location.assign(url);
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download file.');
+    }
+  };
+
+  const downloadCombined = async (jobId: number) => {
+    setError(null);
+    try {
+      const links = await trpc.getDownloadLinks.query({ id: jobId });
+      if (!links.combined_url) {
+        setError('The combined file is not available for download yet.');
+        return;
+      }
+      window.location.assign(links.combined_url);
+    } catch (error) {
+      console.error('Failed to download combined file:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download combined file.');
+    }
+  };
+
+  const downloadSubtitles = async (id: number, track: SubtitleTrack, format: SubtitleFormat) => {
+    setError(null);
+    try {
+      const links = await trpc.getDownloadLinks.query({ id });
+      const link = links.subtitles.find((entry) => entry.track === track && entry.format === format);
+      if (!link) {
+        setError('These subtitles are not available for download yet.');
+        return;
+      }
+      window.location.assign(link.url);
+    } catch (error) {
+      console.error('Failed to download subtitles:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download subtitles.');
+    }
+  };
+
+  const updateProject = async (input: UpdateProjectInput) => {
+    setError(null);
+    try {
+      const project = await trpc.updateProject.mutate(input);
+      setProjects((prev) => ({ ...prev, [project.id]: project }));
+    } catch (error) {
+      console.error('Failed to update project:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update project.');
+    }
+  };
+
+  return {
+    jobs,
+    projects,
+    reviewQueue,
+    error,
+    setError,
+    loadJobs,
+    loadReviewQueue,
+    addJobs,
+    cancelJob,
+    retryJob,
+    download,
+    downloadCombined,
+    downloadSubtitles,
+    updateProject
+  };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { ExportTranslationMemoryInput, TranslationMemoryStats } from '../../../server/src/schema';
+
+// Entry counts of the translation memory with its import and export.
+// Completed and approved jobs add to the memory, so the counts are
+// refreshed whenever it is shown.
+export function useTranslationMemory(shown: boolean) {
+  const [stats, setStats] = useState<TranslationMemoryStats[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const result = await trpc.getTranslationMemoryStats.query();
+      setStats(result);
+    } catch (error) {
+      console.error('Failed to load translation memory stats:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (shown) {
+      loadStats();
+    }
+  }, [shown, loadStats]);
+
+  const importMemory = async (content: string) => {
+    setError(null);
+    try {
+      const result = await trpc.importTranslationMemory.mutate({ content });
+      await loadStats();
+      return result;
+    } catch (error) {
+      console.error('Failed to import translation memory:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import translation memory.');
+      return null;
+    }
+  };
+
+  // The export is generated on request, so it is saved from memory rather than a link
+  const exportMemory = async (input: ExportTranslationMemoryInput) => {
+    setError(null);
+    try {
+      const result = await trpc.exportTranslationMemory.query(input);
+      const url = URL.createObjectURL(new Blob([result.content], { type: 'application/x-tmx+xml' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export translation memory:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export translation memory.');
+    }
+  };
+
+  return { stats, error, importMemory, exportMemory };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { UploadPolicy, Voice } from '../../../server/src/schema';
+import type { LanguageOption } from '../../../server/src/handlers/get_supported_languages';
+
+// What the server offers for new uploads: languages, upload limits and the
+// voices of the configured synthesizer, loaded once
+export function useUploadOptions() {
+  const [languages, setLanguages] = useState<LanguageOption[]>([]);
+  const [uploadPolicy, setUploadPolicy] = useState<UploadPolicy | null>(null);
+  const [voices, setVoices] = useState<Voice[]>([]);
+
+  useEffect(() => {
+    const loadLanguages = async () => {
+      try {
+        setLanguages(await trpc.getSupportedLanguages.query());
+      } catch (error) {
+        console.error('Failed to load languages:', error);
+      }
+    };
+
+    const loadUploadPolicy = async () => {
+      try {
+        setUploadPolicy(await trpc.getUploadPolicy.query());
+      } catch (error) {
+        console.error('Failed to load upload policy:', error);
+      }
+    };
+
+    // Every language's voices
+    const loadVoices = async () => {
+      try {
+        setVoices(await trpc.getVoices.query({}));
+      } catch (error) {
+        console.error('Failed to load voices:', error);
+      }
+    };
+
+    loadLanguages();
+    loadUploadPolicy();
+    loadVoices();
+  }, []);
+
+  return { languages, uploadPolicy, voices };
+}
@@ -0,0 +1,158 @@
+import Hls, { ErrorTypes, Events, type ErrorData } from 'hls.js';
+
+// Playback of the HLS packages of dubbed jobs through hls.js, with the
+// package's audio and WebVTT subtitle renditions selectable. Browsers without
+// Media Source Extensions (Safari on iPhone) play the master playlist natively.
+
+const PLAYLIST_TYPE = 'application/vnd.apple.mpegurl';
+
+export interface HlsAudioTrack {
+  name: string;
+  language: string | null;
+  default: boolean;
+  // Media playlist of the rendition; null when the stream is played natively
+  url: string | null;
+}
+
+export interface HlsSubtitleTrack {
+  name: string;
+  language: string | null;
+}
+
+export interface HlsPlayback {
+  // Audio renditions of the package
+  audio: HlsAudioTrack[];
+  selectAudio: (index: number) => void;
+  // Subtitle renditions of the package, shown on the media element
+  subtitles: HlsSubtitleTrack[];
+  // -1 turns subtitles off
+  selectSubtitles: (index: number) => void;
+  destroy: () => void;
+}
+
+interface NativeAudioTrack {
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+// Safari lists the audio renditions of natively played streams here
+const nativeAudioTracks = (media: HTMLMediaElement): NativeAudioTrack[] => {
+  const tracks = (media as unknown as { audioTracks?: ArrayLike<NativeAudioTrack> }).audioTracks;
+  return tracks ? Array.from(tracks) : [];
+};
+
+// Subtitle renditions of natively played streams
+const nativeSubtitleTracks = (media: HTMLMediaElement): TextTrack[] => {
+  return Array.from(media.textTracks).filter((track) => track.kind === 'subtitles' || track.kind === 'captions');
+};
+
+const streamError = (data: ErrorData): Error => {
+  if (data.response?.code === 403) {
+    return new Error('The stream link has expired.');
+  }
+  if (data.type === ErrorTypes.MEDIA_ERROR) {
+    return new Error('The browser could not decode the stream.');
+  }
+  return new Error(data.response?.code ? `The stream could not be loaded (${data.response.code}).` : 'The stream could not be loaded.');
+};
+
+// Load a playlist into a new hls.js instance, resolving once it is parsed.
+// Fatal errors after that go to onError.
+const attach = (media: HTMLMediaElement, url: string, onError: (error: Error) => void) => new Promise<Hls>((resolve, reject) => {
+  const hls = new Hls();
+  let parsed = false;
+  hls.on(Events.MANIFEST_PARSED, () => {
+    parsed = true;
+    resolve(hls);
+  });
+  hls.on(Events.ERROR, (_, data) => {
+    if (!data.fatal) return;
+    if (parsed) {
+      onError(streamError(data));
+    } else {
+      hls.destroy();
+      reject(streamError(data));
+    }
+  });
+  hls.loadSource(url);
+  hls.attachMedia(media);
+});
+
+const nativePlayback = async (media: HTMLMediaElement, url: string): Promise<HlsPlayback> => {
+  if (!media.canPlayType(PLAYLIST_TYPE)) {
+    throw new Error('This browser cannot play streams.');
+  }
+  media.src = url;
+  // The tracks are listed once the metadata is loaded
+  await new Promise<void>((resolve, reject) => {
+    media.addEventListener('loadedmetadata', () => resolve(), { once: true });
+    media.addEventListener('error', () => reject(new Error('The stream could not be loaded.')), { once: true });
+  });
+  const tracks = nativeAudioTracks(media);
+  const textTracks = nativeSubtitleTracks(media);
+  return {
+    audio: tracks.map((track) => ({ name: track.label, language: track.language || null, default: track.enabled, url: null })),
+    selectAudio: (index) => tracks.forEach((track, position) => {
+      track.enabled = position === index;
+    }),
+    subtitles: textTracks.map((track) => ({ name: track.label, language: track.language || null })),
+    selectSubtitles: (index) => textTracks.forEach((track, position) => {
+      track.mode = position === index ? 'showing' : 'disabled';
+    }),
+    destroy: () => {
+      // The element may already play a stream loaded after this one
+      if (media.src === url) {
+        media.removeAttribute('src');
+        media.load();
+      }
+    }
+  };
+};
+
+// Play a job's master playlist in a media element
+export const loadHls = async (media: HTMLMediaElement, masterUrl: string, onError: (error: Error) => void): Promise<HlsPlayback> => {
+  const url = new URL(masterUrl, window.location.href).href;
+  if (!Hls.isSupported()) {
+    return nativePlayback(media, url);
+  }
+
+  const hls = await attach(media, url, onError);
+  return {
+    audio: hls.audioTracks.map((track) => ({ name: track.name, language: track.lang ?? null, default: track.default, url: track.url })),
+    selectAudio: (index) => {
+      hls.audioTrack = index;
+    },
+    subtitles: hls.subtitleTracks.map((track) => ({ name: track.name, language: track.lang ?? null })),
+    selectSubtitles: (index) => {
+      hls.subtitleTrack = index;
+    },
+    destroy: () => hls.destroy()
+  };
+};
+
+// Play one audio rendition of a job's master playlist on its own, e.g. on a
+// second element next to the video
+export const loadHlsAudio = async (
+  media: HTMLMediaElement,
+  masterUrl: string,
+  audio: HlsAudioTrack[],
+  index: number,
+  onError: (error: Error) => void
+): Promise<HlsPlayback> => {
+  const rendition = audio[index];
+  if (!Hls.isSupported() || !rendition?.url) {
+    const playback = await nativePlayback(media, new URL(masterUrl, window.location.href).href);
+    playback.selectAudio(index);
+    return playback;
+  }
+
+  const hls = await attach(media, rendition.url, onError);
+  return {
+    audio: [{ ...rendition, default: true }],
+    selectAudio: () => {},
+    subtitles: [],
+    selectSubtitles: () => {},
+    destroy: () => hls.destroy()
+  };
+};
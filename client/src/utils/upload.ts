@@ -0,0 +1,227 @@
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/utils/trpc';
+import type { SubtitleAttachment, SupportedLanguage, UploadRejection, UploadResult } from '../../../server/src/schema';
+
+// Matches DEFAULT_CHUNK_SIZE on the server
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const CHUNK_ATTEMPTS = 3;
+const SESSION_KEY_PREFIX = 'upload-session:';
+
+export interface UploadProgress {
+  uploaded_bytes: number;
+  total_bytes: number;
+}
+
+// Settings passed on to the translation jobs created from the upload. A
+// glossary or voice can only be given for a single target language.
+export interface UploadOptions {
+  requires_review: boolean;
+  glossary_id?: number;
+  // Voice for speakers without one of their own; the provider's default when unset
+  voice?: string;
+  // Existing captions, used as the transcript instead of speech recognition
+  subtitles?: SubtitleAttachment;
+}
+
+// Identifies the same file picked again after a reload with the same settings,
+// so its session can be resumed. The session fixes the settings of its jobs,
+// so changing any of them starts a new one.
+const sessionKey = (file: File, targetLanguages: SupportedLanguage[], options: UploadOptions) => {
+  const settings = [targetLanguages.join(','), options.requires_review ? 'review' : '', options.glossary_id ?? '', options.voice ?? ''];
+  return `${SESSION_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}:${settings.join(':')}`;
+};
+
+// The server refused the file itself; retrying or resuming will not help
+export class UploadRejectedError extends Error {
+  rejection: UploadRejection;
+
+  constructor(message: string, rejection: UploadRejection) {
+    super(message);
+    this.name = 'UploadRejectedError';
+    this.rejection = rejection;
+  }
+}
+
+const getRejection = (error: unknown): UploadRejection | null => {
+  if (error instanceof UploadRejectedError) return error.rejection;
+  if (error instanceof TRPCClientError) return error.data?.upload_rejection ?? null;
+  return null;
+};
+
+const formatBytes = (bytes: number) => {
+  const units = ['bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${parseFloat((bytes / Math.pow(1024, i)).toFixed(1))} ${units[i]}`;
+};
+
+// User-facing explanation of a failed upload, and whether picking the same
+// file again can resume it
+export const describeUploadError = (error: unknown): { message: string; resumable: boolean } => {
+  const rejection = getRejection(error);
+
+  switch (rejection?.reason) {
+    case 'invalid_filename':
+      return { message: 'The file name cannot be used. Rename the file and try again.', resumable: false };
+    case 'file_too_large':
+      return {
+        message: rejection.max_size_bytes
+          ? `The file is too large. The maximum upload size is ${formatBytes(rejection.max_size_bytes)}.`
+          : 'The file is too large.',
+        resumable: false
+      };
+    case 'unsupported_type': {
+      const allowed = (rejection.allowed_containers ?? []).map((name) => name.toUpperCase()).join(', ');
+      const detected = rejection.detected_container
+        ? `${rejection.detected_container.toUpperCase()} videos are not accepted`
+        : 'This file is not a supported video';
+      return { message: allowed ? `${detected}. Accepted formats: ${allowed}.` : `${detected}.`, resumable: false };
+    }
+    case 'unreadable_media':
+      return { message: 'The video could not be read. It may be damaged or incompletely exported.', resumable: false };
+    case 'no_audio':
+      return { message: 'The video has no audio track, so there is nothing to translate.', resumable: false };
+  }
+
+  return {
+    message: error instanceof Error ? error.message : 'Failed to upload video.',
+    resumable: true
+  };
+};
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// XHR rather than fetch so upload progress events are available
+const putChunk = (url: string, data: ArrayBuffer, checksum: string, onProgress: (loaded: number) => void) => {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.setRequestHeader('X-Chunk-Checksum', checksum);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Chunk upload failed with status ${xhr.status}`;
+      let rejection: UploadRejection | null = null;
+      try {
+        const body = JSON.parse(xhr.responseText);
+        message = body.error || message;
+        rejection = body.upload_rejection ?? null;
+      } catch {
+        // Keep the status message when the body is not JSON
+      }
+      reject(rejection ? new UploadRejectedError(message, rejection) : new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading'));
+    xhr.send(data);
+  });
+};
+
+// Open a new upload session or pick up the one left behind by an interrupted upload
+const resumeOrCreateSession = async (file: File, targetLanguages: SupportedLanguage[], options: UploadOptions) => {
+  const key = sessionKey(file, targetLanguages, options);
+  const storedId = localStorage.getItem(key);
+
+  if (storedId) {
+    const existing = await trpc.getUploadSession.query({ id: storedId });
+    if (existing && existing.status === 'open') {
+      return existing;
+    }
+    localStorage.removeItem(key);
+  }
+
+  // Captions are only sent when the upload is finalized
+  const session = await trpc.createUploadSession.mutate({
+    filename: file.name,
+    size: file.size,
+    target_languages: targetLanguages,
+    chunk_size: CHUNK_SIZE,
+    requires_review: options.requires_review,
+    glossary_id: options.glossary_id,
+    voice: options.voice
+  });
+  localStorage.setItem(key, session.id);
+  return session;
+};
+
+const uploadChunks = async (
+  file: File,
+  targetLanguages: SupportedLanguage[],
+  options: UploadOptions,
+  onProgress: (progress: UploadProgress) => void
+): Promise<UploadResult> => {
+  const session = await resumeOrCreateSession(file, targetLanguages, options);
+  const received = new Set<number>(session.received_chunks);
+  const digests: ArrayBuffer[] = [];
+
+  const chunkBounds = (index: number) => {
+    const start = index * session.chunk_size;
+    return { start, end: Math.min(start + session.chunk_size, file.size) };
+  };
+
+  let uploadedBytes = session.received_chunks.reduce((sum: number, index: number) => {
+    const { start, end } = chunkBounds(index);
+    return sum + (end - start);
+  }, 0);
+  onProgress({ uploaded_bytes: uploadedBytes, total_bytes: file.size });
+
+  for (let index = 0; index < session.total_chunks; index++) {
+    const { start, end } = chunkBounds(index);
+    const data = await file.slice(start, end).arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    digests.push(digest);
+
+    if (received.has(index)) {
+      continue;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await putChunk(`/api/uploads/${session.id}/chunks/${index}`, data, toHex(digest), (loaded) => {
+          onProgress({ uploaded_bytes: uploadedBytes + loaded, total_bytes: file.size });
+        });
+        break;
+      } catch (error) {
+        if (attempt >= CHUNK_ATTEMPTS || error instanceof UploadRejectedError) {
+          throw error;
+        }
+      }
+    }
+
+    uploadedBytes += end - start;
+    onProgress({ uploaded_bytes: uploadedBytes, total_bytes: file.size });
+  }
+
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, index) => combined.set(new Uint8Array(digest), index * 32));
+  const checksum = toHex(await crypto.subtle.digest('SHA-256', combined));
+
+  const result = await trpc.finalizeUpload.mutate({ id: session.id, checksum, subtitles: options.subtitles });
+  localStorage.removeItem(sessionKey(file, targetLanguages, options));
+  return result;
+};
+
+// Upload a file in chunks and create a translation job per target language.
+// Chunks the server already has are skipped, failed chunks are retried, and
+// the final checksum (SHA-256 over the chunk digests) lets the server verify
+// the assembled file.
+export const uploadFileInChunks = async (
+  file: File,
+  targetLanguages: SupportedLanguage[],
+  options: UploadOptions,
+  onProgress: (progress: UploadProgress) => void
+): Promise<UploadResult> => {
+  try {
+    return await uploadChunks(file, targetLanguages, options, onProgress);
+  } catch (error) {
+    // A rejected file cannot be resumed, so forget its session
+    if (getRejection(error)) {
+      localStorage.removeItem(sessionKey(file, targetLanguages, options));
+    }
+    throw error;
+  }
+};
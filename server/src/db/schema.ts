@@ -1,4 +1,6 @@
-import { serial, text, pgTable, timestamp, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, pgEnum, integer, jsonb, bigint, real, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type MediaInfo } from '../schema';
 
 // Define enums for PostgreSQL
 export const supportedLanguagesEnum = pgEnum('supported_languages', [
@@ -9,9 +11,89 @@ export const translationStatusEnum = pgEnum('translation_status', [
   'pending',
   'processing',
   'completed',
-  'failed'
+  'failed',
+  'cancelled',
+  'retrying',
+  'awaiting_review'
 ]);
 
+export const stageStateEnum = pgEnum('stage_state', [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'skipped'
+]);
+
+export const voiceGenderEnum = pgEnum('voice_gender', ['female', 'male', 'neutral']);
+
+export const speakingStyleEnum = pgEnum('speaking_style', [
+  'neutral',
+  'conversational',
+  'narration',
+  'cheerful',
+  'serious'
+]);
+
+export const transcriptSourceEnum = pgEnum('transcript_source', [
+  'asr',
+  'subtitles'
+]);
+
+export const uploadStatusEnum = pgEnum('upload_status', [
+  'open',
+  'finalizing',
+  'completed'
+]);
+
+export const projectOutputModeEnum = pgEnum('project_output_mode', [
+  'separate',
+  'combined'
+]);
+
+// Terminology for one language pair
+export const glossariesTable = pgTable('glossaries', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  source_language: supportedLanguagesEnum('source_language').notNull(),
+  target_language: supportedLanguagesEnum('target_language').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const glossaryEntriesTable = pgTable('glossary_entries', {
+  id: serial('id').primaryKey(),
+  glossary_id: integer('glossary_id').notNull().references(() => glossariesTable.id, { onDelete: 'cascade' }),
+  source_term: text('source_term').notNull(),
+  target_term: text('target_term'), // Nullable - do-not-translate entries keep the source term
+  case_sensitive: boolean('case_sensitive').notNull().default(false),
+  do_not_translate: boolean('do_not_translate').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('glossary_entries_glossary_term').on(table.glossary_id, table.source_term)
+]);
+
+// A source video dubbed into several languages; its jobs share the file
+export const projectsTable = pgTable('projects', {
+  id: serial('id').primaryKey(),
+  original_filename: text('original_filename').notNull(),
+  original_file_path: text('original_file_path').notNull(),
+  media_info: jsonb('media_info').$type<MediaInfo>(), // Nullable - probed container, duration and tracks
+  // 'combined' also muxes every finished language into one file
+  output_mode: projectOutputModeEnum('output_mode').notNull().default('separate'),
+  embed_subtitles: boolean('embed_subtitles').notNull().default(false),
+  combined_file_path: text('combined_file_path'), // Nullable - set once the combined file has been built
+  combined_languages: supportedLanguagesEnum('combined_languages').array().notNull().default(sql`'{}'`),
+  // The combined file is rebuilt while combined_revision is ahead of combined_built_revision
+  combined_revision: integer('combined_revision').notNull().default(0),
+  combined_built_revision: integer('combined_built_revision').notNull().default(0),
+  combined_build_token: text('combined_build_token'), // Nullable - set by the worker building the combined file
+  combined_build_started_at: timestamp('combined_build_started_at'), // Nullable - when that build was claimed
+  combined_error: text('combined_error'), // Nullable - why the last build failed
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Translation jobs table
 export const translationJobsTable = pgTable('translation_jobs', {
   id: serial('id').primaryKey(),
@@ -21,18 +103,182 @@ export const translationJobsTable = pgTable('translation_jobs', {
   target_language: supportedLanguagesEnum('target_language').notNull(),
   status: translationStatusEnum('status').notNull().default('pending'),
   translated_file_path: text('translated_file_path'), // Nullable - populated when translation is complete
-  transcript: text('transcript'), // Nullable - original transcript
-  translated_transcript: text('translated_transcript'), // Nullable - translated transcript
+  transcript: text('transcript'), // Nullable - original transcript, derived from transcript_segments
+  translated_transcript: text('translated_transcript'), // Nullable - translated transcript, derived from transcript_segments
   error_message: text('error_message'), // Nullable - populated on failure
+  next_attempt_at: timestamp('next_attempt_at'), // Nullable - when a retrying job becomes eligible again
+  heartbeat_at: timestamp('heartbeat_at'), // Nullable - last sign of life from the worker holding the job
+  lease_token: text('lease_token'), // Nullable - identifies the claim of the worker holding the job
+  media_info: jsonb('media_info').$type<MediaInfo>(), // Nullable - probed container, duration and tracks
+  transcript_source: transcriptSourceEnum('transcript_source'), // Nullable - set once the transcript exists
+  requires_review: boolean('requires_review').notNull().default(false),
+  approved_at: timestamp('approved_at'), // Nullable - set when a reviewer approves the translation
+  glossary_id: integer('glossary_id').references(() => glossariesTable.id, { onDelete: 'set null' }), // Nullable - terminology to enforce
+  voice: text('voice'), // Nullable - voice for speakers without one of their own
+  project_id: integer('project_id').references(() => projectsTable.id, { onDelete: 'cascade' }), // Nullable - set for uploads into several languages
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Timed lines of a job's transcript and their translations, in playback order
+export const transcriptSegmentsTable = pgTable('transcript_segments', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  index: integer('index').notNull(),
+  start_ms: integer('start_ms').notNull(),
+  end_ms: integer('end_ms').notNull(),
+  speaker: text('speaker'), // Nullable - speaker label when the recognizer tells speakers apart
+  source_text: text('source_text').notNull(),
+  translated_text: text('translated_text'), // Nullable - populated by the translate stage
+  confidence: real('confidence'), // Nullable - recognizer confidence, 0-1
+  audio_path: text('audio_path'), // Nullable - synthesized speech for the translated text
+  needs_redub: boolean('needs_redub').notNull().default(false), // Edited since the audio was last assembled
+  version: integer('version').notNull().default(1), // Bumped on every write, for optimistic concurrency
+  memory_match: integer('memory_match'), // Nullable - best translation memory match in percent
+  memory_suggestion: text('memory_suggestion'), // Nullable - translation of a fuzzy memory match
+  speech_rate: real('speech_rate'), // Nullable - speed-up applied by the fit stage
+  dub_start_ms: integer('dub_start_ms'), // Nullable - where the fitted speech plays
+  dub_end_ms: integer('dub_end_ms'), // Nullable
+  overrun_ms: integer('overrun_ms'), // Nullable - time the speech still runs over; 0 when it fits
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('transcript_segments_job_index').on(table.job_id, table.index)
+]);
+
+// The speakers of a job's transcript and the voice each is dubbed with
+export const jobSpeakersTable = pgTable('job_speakers', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  label: text('label').notNull(), // Matches transcript_segments.speaker
+  name: text('name').notNull(),
+  voice: text('voice'), // Nullable - the synthesizer's default voice
+  gender: voiceGenderEnum('gender'), // Nullable - no preference
+  style: speakingStyleEnum('style'), // Nullable - no preference
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('job_speakers_job_label').on(table.job_id, table.label)
+]);
+
+// Translations learned from finished jobs or imported from TMX, one per
+// normalized source segment and language pair
+export const translationMemoryTable = pgTable('translation_memory', {
+  id: serial('id').primaryKey(),
+  source_language: supportedLanguagesEnum('source_language').notNull(),
+  target_language: supportedLanguagesEnum('target_language').notNull(),
+  source_text: text('source_text').notNull(),
+  normalized_source: text('normalized_source').notNull(), // Lookup key, see memory/fuzzy.ts
+  target_text: text('target_text').notNull(),
+  job_id: integer('job_id').references(() => translationJobsTable.id, { onDelete: 'set null' }), // Nullable - null for imports
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('translation_memory_pair_source').on(table.source_language, table.target_language, table.normalized_source)
+]);
+
+// Reviewer comments on transcript segments
+export const segmentCommentsTable = pgTable('segment_comments', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  segment_id: integer('segment_id').notNull().references(() => transcriptSegmentsTable.id, { onDelete: 'cascade' }),
+  author: text('author'), // Nullable - reviewer name, when given
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Pipeline stages of a job, one row per stage in execution order
+export const jobStagesTable = pgTable('job_stages', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  position: integer('position').notNull(),
+  state: stageStateEnum('state').notNull().default('pending'),
+  percent: integer('percent').notNull().default(0),
+  attempts: integer('attempts').notNull().default(0),
+  output: jsonb('output').$type<Record<string, string>>(), // Nullable - artifacts kept for resuming the job
+  started_at: timestamp('started_at'), // Nullable - set when the stage starts running
+  finished_at: timestamp('finished_at'), // Nullable - set when the stage completes or fails
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('job_stages_job_name').on(table.job_id, table.name)
+]);
+
+// Status transition history of a job
+export const jobEventsTable = pgTable('job_events', {
+  id: serial('id').primaryKey(),
+  job_id: integer('job_id').notNull().references(() => translationJobsTable.id, { onDelete: 'cascade' }),
+  from_status: translationStatusEnum('from_status').notNull(),
+  to_status: translationStatusEnum('to_status').notNull(),
+  message: text('message'), // Nullable - optional reason for the transition
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Resumable uploads: chunks are received in any order, then assembled on finalize
+export const uploadSessionsTable = pgTable('upload_sessions', {
+  id: text('id').primaryKey(),
+  filename: text('filename').notNull(),
+  target_languages: supportedLanguagesEnum('target_languages').array().notNull(), // One job each
+  total_size: bigint('total_size', { mode: 'number' }).notNull(),
+  chunk_size: integer('chunk_size').notNull(),
+  total_chunks: integer('total_chunks').notNull(),
+  received_chunks: integer('received_chunks').array().notNull().default(sql`'{}'::integer[]`),
+  status: uploadStatusEnum('status').notNull().default('open'),
+  finalizing_at: timestamp('finalizing_at'), // Nullable - when the finalize under way claimed the session
+  requires_review: boolean('requires_review').notNull().default(false),
+  glossary_id: integer('glossary_id').references(() => glossariesTable.id, { onDelete: 'set null' }), // Nullable - passed on to the job
+  voice: text('voice'), // Nullable - passed on to the job
+  job_id: integer('job_id').references(() => translationJobsTable.id), // Nullable - set when finalized
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const translationJobsRelations = relations(translationJobsTable, ({ many }) => ({
+  segments: many(transcriptSegmentsTable)
+}));
+
+export const transcriptSegmentsRelations = relations(transcriptSegmentsTable, ({ one }) => ({
+  job: one(translationJobsTable, {
+    fields: [transcriptSegmentsTable.job_id],
+    references: [translationJobsTable.id]
+  })
+}));
+
 // TypeScript types for the table schema
+export type Project = typeof projectsTable.$inferSelect;
+export type NewProject = typeof projectsTable.$inferInsert;
 export type TranslationJob = typeof translationJobsTable.$inferSelect; // For SELECT operations
 export type NewTranslationJob = typeof translationJobsTable.$inferInsert; // For INSERT operations
+export type TranscriptSegment = typeof transcriptSegmentsTable.$inferSelect;
+export type NewTranscriptSegment = typeof transcriptSegmentsTable.$inferInsert;
+export type JobSpeaker = typeof jobSpeakersTable.$inferSelect;
+export type NewJobSpeaker = typeof jobSpeakersTable.$inferInsert;
+export type TranslationMemoryEntry = typeof translationMemoryTable.$inferSelect;
+export type NewTranslationMemoryEntry = typeof translationMemoryTable.$inferInsert;
+export type SegmentComment = typeof segmentCommentsTable.$inferSelect;
+export type NewSegmentComment = typeof segmentCommentsTable.$inferInsert;
+export type JobStage = typeof jobStagesTable.$inferSelect;
+export type NewJobStage = typeof jobStagesTable.$inferInsert;
+export type JobEvent = typeof jobEventsTable.$inferSelect;
+export type NewJobEvent = typeof jobEventsTable.$inferInsert;
+export type Glossary = typeof glossariesTable.$inferSelect;
+export type NewGlossary = typeof glossariesTable.$inferInsert;
+export type GlossaryEntry = typeof glossaryEntriesTable.$inferSelect;
+export type NewGlossaryEntry = typeof glossaryEntriesTable.$inferInsert;
+export type UploadSession = typeof uploadSessionsTable.$inferSelect;
+export type NewUploadSession = typeof uploadSessionsTable.$inferInsert;
 
 // Export all tables for proper query building
 export const tables = { 
-  translationJobs: translationJobsTable 
+  projects: projectsTable,
+  translationJobs: translationJobsTable,
+  transcriptSegments: transcriptSegmentsTable,
+  segmentComments: segmentCommentsTable,
+  jobStages: jobStagesTable,
+  jobEvents: jobEventsTable,
+  uploadSessions: uploadSessionsTable,
+  glossaries: glossariesTable,
+  glossaryEntries: glossaryEntriesTable,
+  translationMemory: translationMemoryTable,
+  jobSpeakers: jobSpeakersTable
 };
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { TRPCError } from '@trpc/server';
+import { type SupportedLanguage, type TranslationStatus, type UploadRejection, type VideoContainer } from './schema';
+
+// A job was asked to move to a status that is not reachable from its current one
+export class InvalidStatusTransitionError extends TRPCError {
+  readonly from: TranslationStatus;
+  readonly to: TranslationStatus;
+
+  constructor(from: TranslationStatus, to: TranslationStatus) {
+    super({ code: 'CONFLICT', message: `Cannot move translation job from ${from} to ${to}` });
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// A job would enter a status without the fields that status requires
+export class MissingStatusFieldError extends TRPCError {
+  readonly status: TranslationStatus;
+  readonly field: string;
+
+  constructor(status: TranslationStatus, field: string) {
+    super({ code: 'BAD_REQUEST', message: `A ${status} translation job requires ${field}` });
+    this.name = 'MissingStatusFieldError';
+    this.status = status;
+    this.field = field;
+  }
+}
+
+export class JobNotFoundError extends TRPCError {
+  readonly jobId: number;
+
+  constructor(jobId: number) {
+    super({ code: 'NOT_FOUND', message: `Translation job ${jobId} not found` });
+    this.name = 'JobNotFoundError';
+    this.jobId = jobId;
+  }
+}
+
+export class UploadSessionNotFoundError extends TRPCError {
+  readonly sessionId: string;
+
+  constructor(sessionId: string) {
+    super({ code: 'NOT_FOUND', message: `Upload session ${sessionId} not found` });
+    this.name = 'UploadSessionNotFoundError';
+    this.sessionId = sessionId;
+  }
+}
+
+export class BlobNotFoundError extends TRPCError {
+  readonly key: string;
+
+  constructor(key: string) {
+    super({ code: 'NOT_FOUND', message: `Stored file ${key} not found` });
+    this.name = 'BlobNotFoundError';
+    this.key = key;
+  }
+}
+
+export class SegmentNotFoundError extends TRPCError {
+  readonly segmentId: number;
+
+  constructor(segmentId: number) {
+    super({ code: 'NOT_FOUND', message: `Transcript segment ${segmentId} not found` });
+    this.name = 'SegmentNotFoundError';
+    this.segmentId = segmentId;
+  }
+}
+
+// A segment was edited from a stale copy; the editor has to reload it first
+export class SegmentVersionConflictError extends TRPCError {
+  readonly segmentId: number;
+  readonly currentVersion: number;
+
+  constructor(segmentId: number, currentVersion: number) {
+    super({
+      code: 'CONFLICT',
+      message: `Transcript segment ${segmentId} has changed since it was loaded (now at version ${currentVersion})`
+    });
+    this.name = 'SegmentVersionConflictError';
+    this.segmentId = segmentId;
+    this.currentVersion = currentVersion;
+  }
+}
+
+// A worker lost its lease on a job, which another worker has claimed since;
+// whatever it was still writing for the job is dropped
+export class LeaseLostError extends TRPCError {
+  readonly jobId: number;
+
+  constructor(jobId: number) {
+    super({ code: 'CONFLICT', message: `Translation job ${jobId} has been claimed by another worker` });
+    this.name = 'LeaseLostError';
+    this.jobId = jobId;
+  }
+}
+
+// An upload was refused by the upload policy. The rejection travels with the
+// error (see the tRPC error formatter) so clients can explain it.
+export class UploadRejectedError extends TRPCError {
+  readonly rejection: UploadRejection;
+
+  constructor(code: TRPCError['code'], message: string, rejection: UploadRejection) {
+    super({ code, message });
+    this.name = 'UploadRejectedError';
+    this.rejection = rejection;
+  }
+}
+
+export class InvalidFilenameError extends UploadRejectedError {
+  constructor(filename: string) {
+    super('BAD_REQUEST', `"${filename}" is not a usable filename`, { reason: 'invalid_filename' });
+    this.name = 'InvalidFilenameError';
+  }
+}
+
+export class FileTooLargeError extends UploadRejectedError {
+  constructor(size: number, maxSize: number) {
+    super('PAYLOAD_TOO_LARGE', `File is ${size} bytes; the limit is ${maxSize} bytes`, {
+      reason: 'file_too_large',
+      max_size_bytes: maxSize
+    });
+    this.name = 'FileTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends UploadRejectedError {
+  constructor(detected: VideoContainer | null, allowed: VideoContainer[]) {
+    super('UNSUPPORTED_MEDIA_TYPE', detected
+      ? `${detected.toUpperCase()} files are not accepted; allowed: ${allowed.join(', ')}`
+      : `File is not a recognised video; allowed: ${allowed.join(', ')}`, {
+      reason: 'unsupported_type',
+      allowed_containers: allowed,
+      detected_container: detected
+    });
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+export class UnreadableMediaError extends UploadRejectedError {
+  constructor(container: VideoContainer) {
+    super('UNPROCESSABLE_CONTENT', `The ${container.toUpperCase()} file's headers could not be read; it may be truncated or corrupt`, {
+      reason: 'unreadable_media',
+      detected_container: container
+    });
+    this.name = 'UnreadableMediaError';
+  }
+}
+
+export class NoAudioTrackError extends UploadRejectedError {
+  constructor() {
+    super('UNPROCESSABLE_CONTENT', 'The video has no audio track to translate', { reason: 'no_audio' });
+    this.name = 'NoAudioTrackError';
+  }
+}
+
+// An attached subtitle file could not be used as a transcript
+export class InvalidSubtitlesError extends TRPCError {
+  constructor(reason: string) {
+    super({ code: 'BAD_REQUEST', message: `Invalid subtitles: ${reason}` });
+    this.name = 'InvalidSubtitlesError';
+  }
+}
+
+export class GlossaryNotFoundError extends TRPCError {
+  readonly glossaryId: number;
+
+  constructor(glossaryId: number) {
+    super({ code: 'NOT_FOUND', message: `Glossary ${glossaryId} not found` });
+    this.name = 'GlossaryNotFoundError';
+    this.glossaryId = glossaryId;
+  }
+}
+
+export class GlossaryEntryNotFoundError extends TRPCError {
+  readonly entryId: number;
+
+  constructor(entryId: number) {
+    super({ code: 'NOT_FOUND', message: `Glossary entry ${entryId} not found` });
+    this.name = 'GlossaryEntryNotFoundError';
+    this.entryId = entryId;
+  }
+}
+
+// A glossary lists each source term once
+export class DuplicateGlossaryTermError extends TRPCError {
+  readonly term: string;
+
+  constructor(term: string) {
+    super({ code: 'CONFLICT', message: `The glossary already has an entry for "${term}"` });
+    this.name = 'DuplicateGlossaryTermError';
+    this.term = term;
+  }
+}
+
+// A job referenced a glossary for a different target language
+export class GlossaryLanguageMismatchError extends TRPCError {
+  constructor(glossaryId: number, glossaryLanguage: SupportedLanguage, targetLanguage: SupportedLanguage) {
+    super({
+      code: 'BAD_REQUEST',
+      message: `Glossary ${glossaryId} is for ${glossaryLanguage}, but the job translates to ${targetLanguage}`
+    });
+    this.name = 'GlossaryLanguageMismatchError';
+  }
+}
+
+// An imported translation memory file could not be read
+export class InvalidTmxError extends TRPCError {
+  constructor(reason: string) {
+    super({ code: 'BAD_REQUEST', message: `Invalid TMX: ${reason}` });
+    this.name = 'InvalidTmxError';
+  }
+}
+
+export class JobSpeakerNotFoundError extends TRPCError {
+  readonly speakerId: number;
+
+  constructor(speakerId: number) {
+    super({ code: 'NOT_FOUND', message: `Speaker ${speakerId} not found` });
+    this.name = 'JobSpeakerNotFoundError';
+    this.speakerId = speakerId;
+  }
+}
+
+// A voice the configured synthesizer does not offer for the language
+export class UnknownVoiceError extends TRPCError {
+  constructor(voice: string, language: SupportedLanguage) {
+    super({ code: 'BAD_REQUEST', message: `Voice "${voice}" is not available for ${language}` });
+    this.name = 'UnknownVoiceError';
+  }
+}
+
+export class ProjectNotFoundError extends TRPCError {
+  readonly projectId: number;
+
+  constructor(projectId: number) {
+    super({ code: 'NOT_FOUND', message: `Project ${projectId} not found` });
+    this.name = 'ProjectNotFoundError';
+    this.projectId = projectId;
+  }
+}
+
+// The source of a project cannot be remuxed into one file with its dubs
+export class RemuxNotSupportedError extends TRPCError {
+  readonly container: VideoContainer | null;
+
+  constructor(container: VideoContainer | null) {
+    super({
+      code: 'BAD_REQUEST',
+      message: `${container ? `${container.toUpperCase()} sources` : 'This source'} cannot be combined with the dubs into one file; use MP4, MOV, MKV, WebM or WAV`
+    });
+    this.name = 'RemuxNotSupportedError';
+    this.container = container;
+  }
+}
@@ -0,0 +1,58 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { glossariesTable, glossaryEntriesTable } from '../db/schema';
+import { type GlossaryWithEntries, type SupportedLanguage } from '../schema';
+import { GlossaryLanguageMismatchError, GlossaryNotFoundError } from '../errors';
+
+export const loadGlossary = async (id: number): Promise<GlossaryWithEntries> => {
+  const glossaries = await db.select()
+    .from(glossariesTable)
+    .where(eq(glossariesTable.id, id))
+    .execute();
+
+  if (glossaries.length === 0) {
+    throw new GlossaryNotFoundError(id);
+  }
+
+  const entries = await db.select()
+    .from(glossaryEntriesTable)
+    .where(eq(glossaryEntriesTable.glossary_id, id))
+    .orderBy(asc(glossaryEntriesTable.source_term), asc(glossaryEntriesTable.id))
+    .execute();
+
+  return { ...glossaries[0], entries };
+};
+
+// Check that a glossary picked for a new job exists and translates into the
+// job's target language. The source language is only known once the
+// transcript exists, so a mismatch there just leaves the glossary unused.
+export const assertGlossaryFor = async (glossaryId: number, targetLanguage: SupportedLanguage): Promise<void> => {
+  const glossaries = await db.select({ target_language: glossariesTable.target_language })
+    .from(glossariesTable)
+    .where(eq(glossariesTable.id, glossaryId))
+    .execute();
+
+  if (glossaries.length === 0) {
+    throw new GlossaryNotFoundError(glossaryId);
+  }
+  if (glossaries[0].target_language !== targetLanguage) {
+    throw new GlossaryLanguageMismatchError(glossaryId, glossaries[0].target_language, targetLanguage);
+  }
+};
+
+// The glossary that applies to a job translating from one language to
+// another, or null when the job has none or it is for another language pair
+export const glossaryForJob = async (job: {
+  glossary_id: number | null;
+  detected_language: SupportedLanguage | null;
+  target_language: SupportedLanguage;
+}): Promise<GlossaryWithEntries | null> => {
+  if (job.glossary_id === null) {
+    return null;
+  }
+
+  const glossary = await loadGlossary(job.glossary_id);
+  return glossary.source_language === job.detected_language && glossary.target_language === job.target_language
+    ? glossary
+    : null;
+};
@@ -0,0 +1,96 @@
+import { type GlossaryEntry, type GlossaryViolation } from '../schema';
+
+export type GlossaryTerm = Pick<GlossaryEntry,
+  'id' |
+  'source_term' |
+  'target_term' |
+  'case_sensitive' |
+  'do_not_translate'
+>;
+
+// The text that stands in for a protected term while it is translated.
+// Translators pass unknown tokens like this through; the restore pattern also
+// accepts the spaces some of them insert.
+const placeholder = (index: number): string => `__TERM_${index}__`;
+const PLACEHOLDER_PATTERN = /__\s*TERM_(\d+)\s*__/g;
+
+// Chinese, Japanese and Korean terms are matched anywhere; in other scripts a
+// term has to stand on its own, so "Go" does not match inside "Google"
+const needsBoundary = (char: string): boolean => {
+  return /[\p{L}\p{N}]/u.test(char) && !/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u.test(char);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string, caseSensitive: boolean): RegExp => {
+  const chars = [...term];
+  const before = needsBoundary(chars[0]) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const after = needsBoundary(chars[chars.length - 1]) ? '(?![\\p{L}\\p{N}_])' : '';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, caseSensitive ? 'gu' : 'giu');
+};
+
+// What a term has to read as in the translation
+const expectedTerm = (entry: GlossaryTerm): string => {
+  return entry.do_not_translate ? entry.source_term : entry.target_term ?? entry.source_term;
+};
+
+export const containsTerm = (text: string, term: string, caseSensitive: boolean): boolean => {
+  return termPattern(term, caseSensitive).test(text);
+};
+
+export interface ProtectedText {
+  text: string;
+  // Rendering of each placeholder, by its number
+  replacements: string[];
+}
+
+// Swap every glossary term in the text for a placeholder, so the translator
+// cannot alter it. Longer terms win where terms overlap. Do-not-translate
+// terms are put back exactly as they were written.
+export const protectTerms = (text: string, entries: GlossaryTerm[]): ProtectedText => {
+  const matches: { start: number; end: number; replacement: string }[] = [];
+  const byLength = [...entries].sort((a, b) => b.source_term.length - a.source_term.length);
+
+  for (const entry of byLength) {
+    for (const match of text.matchAll(termPattern(entry.source_term, entry.case_sensitive))) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (matches.some(existing => start < existing.end && end > existing.start)) {
+        continue;
+      }
+      matches.push({ start, end, replacement: entry.do_not_translate ? match[0] : expectedTerm(entry) });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+  let protectedText = '';
+  let position = 0;
+  for (const [index, match] of matches.entries()) {
+    protectedText += text.slice(position, match.start) + placeholder(index);
+    position = match.end;
+  }
+
+  return {
+    text: protectedText + text.slice(position),
+    replacements: matches.map(match => match.replacement)
+  };
+};
+
+// Put the glossary renderings in place of the placeholders of a translation
+export const restoreTerms = (text: string, replacements: string[]): string => {
+  return text.replace(PLACEHOLDER_PATTERN, (token, index: string) => replacements[Number(index)] ?? token);
+};
+
+// Glossary terms of the source text whose required rendering is missing from
+// the translation, e.g. because the translator dropped a placeholder or a
+// reviewer rewrote the line
+export const findViolations = (
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryTerm[]
+): GlossaryViolation[] => {
+  return entries
+    .filter(entry => containsTerm(sourceText, entry.source_term, entry.case_sensitive))
+    .filter(entry => !containsTerm(translatedText, expectedTerm(entry), entry.case_sensitive))
+    .map(entry => ({ entry_id: entry.id, source_term: entry.source_term, expected_term: expectedTerm(entry) }));
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { glossariesTable, glossaryEntriesTable } from '../db/schema';
+import { type AddGlossaryEntryInput, type GlossaryEntry } from '../schema';
+import { DuplicateGlossaryTermError, GlossaryNotFoundError } from '../errors';
+import { and, eq } from 'drizzle-orm';
+
+export const addGlossaryEntry = async (input: AddGlossaryEntryInput): Promise<GlossaryEntry> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const glossaries = await tx.update(glossariesTable)
+        .set({ updated_at: new Date() })
+        .where(eq(glossariesTable.id, input.glossary_id))
+        .returning({ id: glossariesTable.id })
+        .execute();
+      if (glossaries.length === 0) {
+        throw new GlossaryNotFoundError(input.glossary_id);
+      }
+
+      const existing = await tx.select({ id: glossaryEntriesTable.id })
+        .from(glossaryEntriesTable)
+        .where(and(
+          eq(glossaryEntriesTable.glossary_id, input.glossary_id),
+          eq(glossaryEntriesTable.source_term, input.source_term)
+        ))
+        .execute();
+      if (existing.length > 0) {
+        throw new DuplicateGlossaryTermError(input.source_term);
+      }
+
+      const result = await tx.insert(glossaryEntriesTable)
+        .values({
+          glossary_id: input.glossary_id,
+          source_term: input.source_term,
+          // Do-not-translate terms are rendered as the source term
+          target_term: input.do_not_translate ? null : input.target_term,
+          case_sensitive: input.case_sensitive ?? false,
+          do_not_translate: input.do_not_translate ?? false
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Glossary entry creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { segmentCommentsTable, transcriptSegmentsTable } from '../db/schema';
+import { type AddSegmentCommentInput, type SegmentComment } from '../schema';
+import { SegmentNotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const addSegmentComment = async (input: AddSegmentCommentInput): Promise<SegmentComment> => {
+  try {
+    const segments = await db.select({ job_id: transcriptSegmentsTable.job_id })
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.id, input.segment_id))
+      .execute();
+
+    if (segments.length === 0) {
+      throw new SegmentNotFoundError(input.segment_id);
+    }
+
+    const result = await db.insert(segmentCommentsTable)
+      .values({
+        job_id: segments[0].job_id,
+        segment_id: input.segment_id,
+        author: input.author ?? null,
+        body: input.body
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Segment comment creation failed:', error);
+    throw error;
+  }
+};
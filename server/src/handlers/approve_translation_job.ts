@@ -0,0 +1,30 @@
+import { type ApproveTranslationJobInput, type TranslationJob } from '../schema';
+import { updateJobWithTransition } from '../pipeline/status';
+import { JobNotFoundError } from '../errors';
+import { rememberJob } from '../memory/store';
+
+export const approveTranslationJob = async (input: ApproveTranslationJobInput): Promise<TranslationJob> => {
+  try {
+    // Make the job claimable again; its review stage now passes and dubbing continues
+    const job = await updateJobWithTransition(input.id, {
+      status: 'retrying',
+      approved_at: new Date(),
+      error_message: null,
+      next_attempt_at: new Date()
+    }, input.comment ? `Approved: ${input.comment}` : 'Approved', ['awaiting_review']);
+
+    if (!job) {
+      throw new JobNotFoundError(input.id);
+    }
+
+    // The reviewed translation is worth remembering before it is dubbed;
+    // the approval stands even if that fails
+    await rememberJob(job.id).catch(error => {
+      console.error(`Translation job ${job.id} could not be added to the translation memory:`, error);
+    });
+    return job;
+  } catch (error) {
+    console.error('Translation job approval failed:', error);
+    throw error;
+  }
+};
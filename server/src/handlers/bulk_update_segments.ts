@@ -0,0 +1,12 @@
+import { type BulkUpdateSegmentsInput, type TranscriptSegment } from '../schema';
+import { editSegments } from '../pipeline/segments';
+
+export const bulkUpdateSegments = async (input: BulkUpdateSegmentsInput): Promise<TranscriptSegment[]> => {
+  try {
+    // One transaction: a conflict on any segment leaves all of them untouched
+    return await editSegments(input.updates, input.job_id);
+  } catch (error) {
+    console.error('Bulk transcript segment update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+import { type CancelTranslationJobInput, type TranslationJob } from '../schema';
+import { updateJobWithTransition } from '../pipeline/status';
+import { JobNotFoundError } from '../errors';
+
+export const cancelTranslationJob = async (input: CancelTranslationJobInput): Promise<TranslationJob> => {
+  try {
+    // The worker notices the cancellation before starting its next stage
+    const job = await updateJobWithTransition(input.id, {
+      status: 'cancelled',
+      next_attempt_at: null
+    }, 'Cancelled by user');
+
+    if (!job) {
+      throw new JobNotFoundError(input.id);
+    }
+
+    return job;
+  } catch (error) {
+    console.error('Translation job cancellation failed:', error);
+    throw error;
+  }
+};
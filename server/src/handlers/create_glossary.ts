@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { glossariesTable, glossaryEntriesTable } from '../db/schema';
+import { type CreateGlossaryInput, type GlossaryWithEntries } from '../schema';
+import { DuplicateGlossaryTermError } from '../errors';
+
+export const createGlossary = async (input: CreateGlossaryInput): Promise<GlossaryWithEntries> => {
+  try {
+    const entries = input.entries ?? [];
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      if (seen.has(entry.source_term)) {
+        throw new DuplicateGlossaryTermError(entry.source_term);
+      }
+      seen.add(entry.source_term);
+    }
+
+    return await db.transaction(async (tx) => {
+      const glossaries = await tx.insert(glossariesTable)
+        .values({
+          name: input.name,
+          source_language: input.source_language,
+          target_language: input.target_language
+        })
+        .returning()
+        .execute();
+
+      const saved = entries.length === 0 ? [] : await tx.insert(glossaryEntriesTable)
+        .values(entries.map(entry => ({
+          glossary_id: glossaries[0].id,
+          source_term: entry.source_term,
+          // Do-not-translate terms are rendered as the source term
+          target_term: entry.do_not_translate ? null : entry.target_term,
+          case_sensitive: entry.case_sensitive ?? false,
+          do_not_translate: entry.do_not_translate ?? false
+        })))
+        .returning()
+        .execute();
+
+      return { ...glossaries[0], entries: saved };
+    });
+  } catch (error) {
+    console.error('Glossary creation failed:', error);
+    throw error;
+  }
+};
@@ -1,27 +1,55 @@
+import { eq } from 'drizzle-orm';
 import { db } from '../db';
 import { translationJobsTable } from '../db/schema';
 import { type CreateTranslationJobInput, type TranslationJob } from '../schema';
+import { saveSegments } from '../pipeline/segments';
+import { importSubtitles } from '../subtitles/import';
+import { assertGlossaryFor } from '../glossary/glossaries';
+import { assertVoiceFor } from '../voices/catalog';
 
 export const createTranslationJob = async (input: CreateTranslationJobInput): Promise<TranslationJob> => {
   try {
-    // Insert translation job record
-    const result = await db.insert(translationJobsTable)
-      .values({
-        original_filename: input.original_filename,
-        original_file_path: input.original_file_path,
-        target_language: input.target_language,
-        status: 'pending', // Default status for new jobs
-        detected_language: null, // Will be detected during processing
-        translated_file_path: null,
-        transcript: null,
-        translated_transcript: null,
-        error_message: null
-      })
-      .returning()
-      .execute();
+    // Attached captions become the transcript, so speech recognition is skipped
+    const imported = input.subtitles ? importSubtitles(input.subtitles) : null;
+    if (input.glossary_id !== undefined) {
+      await assertGlossaryFor(input.glossary_id, input.target_language);
+    }
+    if (input.voice !== undefined) {
+      await assertVoiceFor(input.voice, input.target_language);
+    }
 
-    const translationJob = result[0];
-    return translationJob;
+    // Insert translation job record together with any imported segments
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(translationJobsTable)
+        .values({
+          original_filename: input.original_filename,
+          original_file_path: input.original_file_path,
+          target_language: input.target_language,
+          requires_review: input.requires_review ?? false,
+          glossary_id: input.glossary_id ?? null,
+          voice: input.voice ?? null,
+          status: 'pending', // Default status for new jobs
+          detected_language: imported?.language ?? null, // Otherwise detected during processing
+          transcript_source: imported ? 'subtitles' : null,
+          translated_file_path: null,
+          transcript: null,
+          translated_transcript: null,
+          error_message: null
+        })
+        .returning()
+        .execute();
+
+      if (!imported) {
+        return result[0];
+      }
+
+      await saveSegments(result[0].id, imported.segments, tx);
+      const jobs = await tx.select()
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, result[0].id))
+        .execute();
+      return jobs[0];
+    });
   } catch (error) {
     console.error('Translation job creation failed:', error);
     throw error;
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type CreateUploadSessionInput, type UploadSession } from '../schema';
+import { assertFilename, assertUploadSize } from '../media/upload_policy';
+import { assertGlossaryFor } from '../glossary/glossaries';
+import { assertVoiceFor } from '../voices/catalog';
+import { targetLanguagesOf } from '../projects/projects';
+import { randomUUID } from 'crypto';
+
+export const createUploadSession = async (input: CreateUploadSessionInput): Promise<UploadSession> => {
+  try {
+    // Refuse what the policy rules out before any bytes are sent
+    const filename = assertFilename(input.filename);
+    assertUploadSize(input.size);
+    const languages = targetLanguagesOf(input);
+    // Only allowed with a single target language
+    if (input.glossary_id !== undefined) {
+      await assertGlossaryFor(input.glossary_id, languages[0]);
+    }
+    if (input.voice !== undefined) {
+      await assertVoiceFor(input.voice, languages[0]);
+    }
+
+    const result = await db.insert(uploadSessionsTable)
+      .values({
+        id: randomUUID(),
+        filename,
+        target_languages: languages,
+        requires_review: input.requires_review ?? false,
+        glossary_id: input.glossary_id ?? null,
+        voice: input.voice ?? null,
+        total_size: input.size,
+        chunk_size: input.chunk_size,
+        total_chunks: Math.ceil(input.size / input.chunk_size)
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Upload session creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { glossariesTable } from '../db/schema';
+import { type DeleteGlossaryInput, type Glossary } from '../schema';
+import { GlossaryNotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const deleteGlossary = async (input: DeleteGlossaryInput): Promise<Glossary> => {
+  try {
+    // Entries go with the glossary; jobs and upload sessions that referenced
+    // it are left without one (ON DELETE SET NULL)
+    const result = await db.delete(glossariesTable)
+      .where(eq(glossariesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new GlossaryNotFoundError(input.id);
+    }
+    return result[0];
+  } catch (error) {
+    console.error('Glossary deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { glossariesTable, glossaryEntriesTable } from '../db/schema';
+import { type DeleteGlossaryEntryInput, type GlossaryEntry } from '../schema';
+import { GlossaryEntryNotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const deleteGlossaryEntry = async (input: DeleteGlossaryEntryInput): Promise<GlossaryEntry> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(glossaryEntriesTable)
+        .where(eq(glossaryEntriesTable.id, input.id))
+        .returning()
+        .execute();
+      if (result.length === 0) {
+        throw new GlossaryEntryNotFoundError(input.id);
+      }
+
+      await tx.update(glossariesTable)
+        .set({ updated_at: new Date() })
+        .where(eq(glossariesTable.id, result[0].glossary_id))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Glossary entry deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { type ExportTranslationMemoryInput, type TranslationMemoryExport } from '../schema';
+import { memoryEntries } from '../memory/store';
+import { renderTmx } from '../memory/tmx';
+
+export const exportTranslationMemory = async (input: ExportTranslationMemoryInput): Promise<TranslationMemoryExport> => {
+  try {
+    const entries = await memoryEntries(input);
+    const pair = [input.source_language ?? 'all', input.target_language ?? 'all'].join('-');
+
+    return {
+      filename: `translation-memory_${pair}.tmx`,
+      content: renderTmx(entries),
+      entries: entries.length
+    };
+  } catch (error) {
+    console.error('Translation memory export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,150 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type FinalizeUploadInput, type TranslationJob, type UploadResult, type UploadSession } from '../schema';
+import { UploadSessionNotFoundError } from '../errors';
+import { newVideoPath, uploadChunkPath } from '../storage/paths';
+import { getBlobStore } from '../storage/registry';
+import { finalizeAbandoned } from '../storage/upload_expiry';
+import { type BlobStore } from '../storage/types';
+import { blobSource } from '../media/byte_source';
+import { SNIFF_BYTES } from '../media/sniff';
+import { assertTranslatableMedia, assertVideoContent } from '../media/upload_policy';
+import { createJobs } from '../projects/projects';
+import { importSubtitles } from '../subtitles/import';
+import { TRPCError } from '@trpc/server';
+import { and, eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+
+// Stream the chunk blobs into the destination, returning the checksum over
+// the chunk digests (see finalizeUploadInputSchema)
+const assembleChunks = async (store: BlobStore, session: UploadSession, destination: string): Promise<string> => {
+  const digests: Buffer[] = [];
+
+  async function* chunks() {
+    for (let index = 0; index < session.total_chunks; index++) {
+      const hash = createHash('sha256');
+      for await (const part of await store.get(uploadChunkPath(session.id, index))) {
+        hash.update(part);
+        yield part as Buffer;
+      }
+      digests.push(hash.digest());
+    }
+  }
+
+  await store.put(destination, Readable.from(chunks()), { size: session.total_size });
+  return createHash('sha256').update(Buffer.concat(digests)).digest('hex');
+};
+
+// Move a complete open session to finalizing, so concurrent finalize calls
+// and late chunks are turned away while it is assembled without a lock held.
+// A finalize that has run past the timeout, e.g. on a server that stopped,
+// has its claim taken over.
+const claimSession = async (id: string): Promise<UploadSession> => {
+  return db.transaction(async (tx) => {
+    const sessions = await tx.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, id))
+      .for('update')
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new UploadSessionNotFoundError(id);
+    }
+
+    const session = sessions[0];
+    const abandoned = session.status === 'finalizing' && finalizeAbandoned(session.finalizing_at);
+    if (session.status !== 'open' && !abandoned) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: session.status === 'finalizing' ? 'Upload session is being finalized' : 'Upload session is already finalized'
+      });
+    }
+    if (session.received_chunks.length !== session.total_chunks) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `Upload is incomplete: received ${session.received_chunks.length} of ${session.total_chunks} chunks`
+      });
+    }
+
+    const claimed = await tx.update(uploadSessionsTable)
+      .set({ status: 'finalizing', finalizing_at: new Date(), updated_at: new Date() })
+      .where(eq(uploadSessionsTable.id, id))
+      .returning()
+      .execute();
+    return claimed[0];
+  });
+};
+
+// Matches the session while it is still claimed by this finalize
+const stillClaimed = (session: UploadSession) => and(
+  eq(uploadSessionsTable.id, session.id),
+  eq(uploadSessionsTable.status, 'finalizing'),
+  eq(uploadSessionsTable.finalizing_at, session.finalizing_at!)
+);
+
+export const finalizeUpload = async (input: FinalizeUploadInput): Promise<UploadResult> => {
+  try {
+    // Captions are checked before the chunks are put together
+    const imported = input.subtitles ? importSubtitles(input.subtitles) : null;
+
+    const session = await claimSession(input.id);
+    const store = getBlobStore();
+    const filePath = newVideoPath(session.filename);
+
+    let jobs: TranslationJob[];
+    try {
+      const checksum = await assembleChunks(store, session, filePath);
+      if (checksum !== input.checksum) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Checksum mismatch: the assembled upload does not match the client file' });
+      }
+
+      // Chunk 0 was sniffed on arrival; the probe needs the whole file
+      const source = blobSource(store, filePath, session.total_size);
+      const container = assertVideoContent(await source.read(0, SNIFF_BYTES));
+      const mediaInfo = await assertTranslatableMedia(source, container);
+
+      jobs = await db.transaction(async (tx) => {
+        const created = await createJobs({
+          filename: session.filename,
+          file_path: filePath,
+          media_info: mediaInfo,
+          target_languages: session.target_languages,
+          requires_review: session.requires_review,
+          glossary_id: session.glossary_id,
+          voice: session.voice,
+          imported
+        }, tx);
+
+        // The claim is lost when the session expired, or when this finalize
+        // ran past the timeout and another one took it over
+        const completed = await tx.update(uploadSessionsTable)
+          .set({ status: 'completed', job_id: created[0].id, finalizing_at: null, updated_at: new Date() })
+          .where(stillClaimed(session))
+          .returning({ id: uploadSessionsTable.id })
+          .execute();
+        if (completed.length === 0) {
+          throw new TRPCError({ code: 'CONFLICT', message: 'Upload session expired or was finalized again while being assembled' });
+        }
+        return created;
+      });
+    } catch (error) {
+      // Reopen the session, so the client can resend chunks and try again
+      await store.delete(filePath);
+      await db.update(uploadSessionsTable)
+        .set({ status: 'open', finalizing_at: null, updated_at: new Date() })
+        .where(stillClaimed(session))
+        .execute();
+      throw error;
+    }
+
+    for (let index = 0; index < session.total_chunks; index++) {
+      await store.delete(uploadChunkPath(session.id, index));
+    }
+
+    return { ...jobs[0], jobs };
+  } catch (error) {
+    console.error('Upload finalization failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { type DownloadLinks, type GetDownloadLinksInput, type SubtitleLink, subtitleFormatSchema, subtitleTrackSchema } from '../schema';
+import { JobNotFoundError } from '../errors';
+import { combinedPath, downloadPath, hlsPath, subtitlePath } from '../http/downloads';
+import { HLS_MASTER_PLAYLIST, hlsKey } from '../hls/package';
+import { getSegments } from '../pipeline/segments';
+import { cuesForTrack, subtitleLanguage } from '../subtitles/tracks';
+import { getBlobStore, loadStorageConfig } from '../storage/registry';
+import { signPath } from '../storage/signing';
+import { eq } from 'drizzle-orm';
+
+export const DOWNLOAD_LINK_TTL_SECONDS = 60 * 60;
+
+export const getDownloadLinks = async (input: GetDownloadLinksInput): Promise<DownloadLinks> => {
+  try {
+    const result = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, input.id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new JobNotFoundError(input.id);
+    }
+
+    const job = result[0];
+    const { public_url, signing_secret } = loadStorageConfig();
+    const link = (path: string) => public_url + signPath(path, DOWNLOAD_LINK_TTL_SECONDS, signing_secret);
+
+    // Subtitles in every format for each track whose text is complete
+    const segments = await getSegments(job.id);
+    const subtitles: SubtitleLink[] = subtitleTrackSchema.options.flatMap(track => {
+      const language = subtitleLanguage(job, track);
+      if (!language || !cuesForTrack(segments, track)) {
+        return [];
+      }
+      return subtitleFormatSchema.options.map(format => ({
+        track,
+        language,
+        format,
+        url: link(subtitlePath(job.id, track, format))
+      }));
+    });
+
+    const projects = job.project_id !== null
+      ? await db.select().from(projectsTable).where(eq(projectsTable.id, job.project_id)).execute()
+      : [];
+    const project = projects[0];
+    const packaged = job.status === 'completed' && await getBlobStore().stat(hlsKey(job.id, HLS_MASTER_PLAYLIST));
+
+    return {
+      video_url: job.status === 'completed' && job.translated_file_path
+        ? link(downloadPath(job.id, 'video'))
+        : null,
+      transcript_url: job.translated_transcript
+        ? link(downloadPath(job.id, 'transcript'))
+        : null,
+      subtitles,
+      combined_url: project?.output_mode === 'combined' && project.combined_file_path
+        ? link(combinedPath(project.id))
+        : null,
+      hls_url: packaged ? link(hlsPath(job.id, HLS_MASTER_PLAYLIST)) : null,
+      expires_at: new Date(Date.now() + DOWNLOAD_LINK_TTL_SECONDS * 1000)
+    };
+  } catch (error) {
+    console.error('Download link creation failed:', error);
+    throw error;
+  }
+};
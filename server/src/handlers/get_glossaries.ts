@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { glossariesTable } from '../db/schema';
+import { type Glossary } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getGlossaries = async (): Promise<Glossary[]> => {
+  try {
+    return await db.select()
+      .from(glossariesTable)
+      .orderBy(asc(glossariesTable.name), asc(glossariesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get glossaries:', error);
+    throw error;
+  }
+};
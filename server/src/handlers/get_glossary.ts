@@ -0,0 +1,16 @@
+import { type GetGlossaryInput, type GlossaryWithEntries } from '../schema';
+import { loadGlossary } from '../glossary/glossaries';
+import { GlossaryNotFoundError } from '../errors';
+
+export const getGlossary = async (input: GetGlossaryInput): Promise<GlossaryWithEntries | null> => {
+  try {
+    // The glossary with its entries, or null if it does not exist
+    return await loadGlossary(input.id);
+  } catch (error) {
+    if (error instanceof GlossaryNotFoundError) {
+      return null;
+    }
+    console.error('Glossary retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { type GetGlossaryViolationsInput, type SegmentGlossaryViolations } from '../schema';
+import { JobNotFoundError } from '../errors';
+import { getSegments } from '../pipeline/segments';
+import { glossaryForJob } from '../glossary/glossaries';
+import { findViolations } from '../glossary/terms';
+import { eq } from 'drizzle-orm';
+
+export const getGlossaryViolations = async (input: GetGlossaryViolationsInput): Promise<SegmentGlossaryViolations[]> => {
+  try {
+    const jobs = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, input.job_id))
+      .execute();
+    if (jobs.length === 0) {
+      throw new JobNotFoundError(input.job_id);
+    }
+
+    const glossary = await glossaryForJob(jobs[0]);
+    if (!glossary) {
+      return [];
+    }
+
+    // Checked against the current translations and glossary, so edits to
+    // either are reflected right away. Untranslated segments are skipped.
+    const segments = await getSegments(input.job_id);
+    return segments
+      .filter(segment => segment.translated_text !== null)
+      .map(segment => ({
+        segment_id: segment.id,
+        index: segment.index,
+        violations: findViolations(segment.source_text, segment.translated_text!, glossary.entries)
+      }))
+      .filter(segment => segment.violations.length > 0);
+  } catch (error) {
+    console.error('Failed to get glossary violations:', error);
+    throw error;
+  }
+};
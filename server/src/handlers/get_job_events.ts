@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { jobEventsTable } from '../db/schema';
+import { type GetJobEventsInput, type JobEvent } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getJobEvents = async (input: GetJobEventsInput): Promise<JobEvent[]> => {
+  try {
+    // Oldest first so the history reads as a timeline
+    return await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, input.job_id))
+      .orderBy(asc(jobEventsTable.created_at), asc(jobEventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get job events:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { type GetJobSpeakersInput, type JobSpeaker } from '../schema';
+import { getSpeakers } from '../speakers/speakers';
+
+export const getJobSpeakers = async (input: GetJobSpeakersInput): Promise<JobSpeaker[]> => {
+  try {
+    // In order of first appearance in the transcript
+    return await getSpeakers(input.job_id);
+  } catch (error) {
+    console.error('Failed to get job speakers:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { type GetProjectInput, type ProjectWithJobs } from '../schema';
+import { withProgress } from '../pipeline/progress';
+import { asc, eq } from 'drizzle-orm';
+
+export const getProject = async (input: GetProjectInput): Promise<ProjectWithJobs | null> => {
+  try {
+    const projects = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, input.id))
+      .execute();
+
+    if (projects.length === 0) {
+      return null;
+    }
+
+    // Jobs were created in target language order
+    const jobs = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.project_id, input.id))
+      .orderBy(asc(translationJobsTable.id))
+      .execute();
+
+    return { ...projects[0], jobs: await withProgress(jobs) };
+  } catch (error) {
+    console.error('Project retrieval failed:', error);
+    throw error;
+  }
+};
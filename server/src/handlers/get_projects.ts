@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type GetProjectsInput, type Project } from '../schema';
+import { asc, inArray } from 'drizzle-orm';
+
+// The projects of a page of jobs in one query; unknown ids are left out
+export const getProjects = async (input: GetProjectsInput): Promise<Project[]> => {
+  try {
+    if (input.ids.length === 0) {
+      return [];
+    }
+
+    return await db.select()
+      .from(projectsTable)
+      .where(inArray(projectsTable.id, input.ids))
+      .orderBy(asc(projectsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Projects retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { type TranslationJobWithProgress } from '../schema';
+import { withProgress } from '../pipeline/progress';
+
+export const getReviewQueue = async (): Promise<TranslationJobWithProgress[]> => {
+  try {
+    // Jobs waiting for sign-off, the longest-waiting first
+    const jobs = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.status, 'awaiting_review'))
+      .orderBy(asc(translationJobsTable.updated_at), asc(translationJobsTable.id))
+      .execute();
+
+    return withProgress(jobs);
+  } catch (error) {
+    console.error('Failed to get review queue:', error);
+    throw error;
+  }
+};
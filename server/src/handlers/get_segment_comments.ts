@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { segmentCommentsTable } from '../db/schema';
+import { type GetSegmentCommentsInput, type SegmentComment } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getSegmentComments = async (input: GetSegmentCommentsInput): Promise<SegmentComment[]> => {
+  try {
+    // Oldest first, so each segment's comments read as a thread
+    return await db.select()
+      .from(segmentCommentsTable)
+      .where(eq(segmentCommentsTable.job_id, input.job_id))
+      .orderBy(asc(segmentCommentsTable.created_at), asc(segmentCommentsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get segment comments:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,7 @@
 import { type SupportedLanguage } from '../schema';
 
 // Language display names mapping
-const languageNames: Record<SupportedLanguage, string> = {
+export const languageNames: Record<SupportedLanguage, string> = {
   'en': 'English',
   'es': 'Spanish',
   'fr': 'French',
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { transcriptSegmentsTable } from '../db/schema';
+import { type GetTranscriptSegmentPageInput, type TranscriptSegmentPage } from '../schema';
+import { and, asc, count, eq, gt } from 'drizzle-orm';
+
+export const getTranscriptSegmentPage = async (input: GetTranscriptSegmentPageInput): Promise<TranscriptSegmentPage> => {
+  try {
+    const conditions = [eq(transcriptSegmentsTable.job_id, input.job_id)];
+    if (input.cursor !== undefined && input.cursor !== null) {
+      conditions.push(gt(transcriptSegmentsTable.index, input.cursor));
+    }
+
+    // Fetch one extra row to learn whether another page follows
+    const rows = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(and(...conditions))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .limit(input.limit + 1)
+      .execute();
+
+    const [{ total }] = await db.select({ total: count() })
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, input.job_id))
+      .execute();
+
+    const segments = rows.slice(0, input.limit);
+    return {
+      segments,
+      next_cursor: rows.length > input.limit ? segments[segments.length - 1].index : null,
+      total
+    };
+  } catch (error) {
+    console.error('Failed to get transcript segment page:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { type GetTranscriptSegmentsInput, type TranscriptSegment } from '../schema';
+import { getSegments } from '../pipeline/segments';
+
+export const getTranscriptSegments = async (input: GetTranscriptSegmentsInput): Promise<TranscriptSegment[]> => {
+  try {
+    // In playback order
+    return await getSegments(input.job_id);
+  } catch (error) {
+    console.error('Failed to get transcript segments:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,10 @@
 import { db } from '../db';
 import { translationJobsTable } from '../db/schema';
-import { type GetTranslationJobInput, type TranslationJob } from '../schema';
+import { type GetTranslationJobInput, type TranslationJobWithProgress } from '../schema';
+import { withProgress } from '../pipeline/progress';
 import { eq } from 'drizzle-orm';
 
-export const getTranslationJob = async (input: GetTranslationJobInput): Promise<TranslationJob | null> => {
+export const getTranslationJob = async (input: GetTranslationJobInput): Promise<TranslationJobWithProgress | null> => {
   try {
     // Query the database for a translation job by ID
     const result = await db.select()
@@ -19,12 +20,13 @@ export const getTranslationJob = async (input: GetTranslationJobInput): Promise<
 
     const job = result[0];
     
-    // Return the job with proper date conversion
-    return {
+    // Return the job with proper date conversion and its stage progress
+    const [jobWithProgress] = await withProgress([{
       ...job,
       created_at: new Date(job.created_at),
       updated_at: new Date(job.updated_at)
-    };
+    }]);
+    return jobWithProgress;
   } catch (error) {
     console.error('Translation job retrieval failed:', error);
     throw error;
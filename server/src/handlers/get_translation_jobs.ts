@@ -1,9 +1,10 @@
 import { db } from '../db';
 import { translationJobsTable } from '../db/schema';
 import { desc } from 'drizzle-orm';
-import { type TranslationJob } from '../schema';
+import { type TranslationJobWithProgress } from '../schema';
+import { withProgress } from '../pipeline/progress';
 
-export const getTranslationJobs = async (): Promise<TranslationJob[]> => {
+export const getTranslationJobs = async (): Promise<TranslationJobWithProgress[]> => {
   try {
     // Query the database for all translation jobs, ordered by creation date (newest first)
     const jobs = await db.select()
@@ -11,7 +12,7 @@ export const getTranslationJobs = async (): Promise<TranslationJob[]> => {
       .orderBy(desc(translationJobsTable.created_at))
       .execute();
 
-    return jobs;
+    return withProgress(jobs);
   } catch (error) {
     console.error('Failed to get translation jobs:', error);
     throw error;
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { translationMemoryTable } from '../db/schema';
+import { type TranslationMemoryStats } from '../schema';
+import { asc, count } from 'drizzle-orm';
+
+export const getTranslationMemoryStats = async (): Promise<TranslationMemoryStats[]> => {
+  try {
+    return await db.select({
+      source_language: translationMemoryTable.source_language,
+      target_language: translationMemoryTable.target_language,
+      entries: count()
+    })
+      .from(translationMemoryTable)
+      .groupBy(translationMemoryTable.source_language, translationMemoryTable.target_language)
+      .orderBy(asc(translationMemoryTable.source_language), asc(translationMemoryTable.target_language))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get translation memory stats:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,6 @@
+import { type UploadPolicy } from '../schema';
+import { loadUploadPolicy } from '../media/upload_policy';
+
+export const getUploadPolicy = async (): Promise<UploadPolicy> => {
+  return loadUploadPolicy();
+};
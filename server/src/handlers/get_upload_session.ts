@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type GetUploadSessionInput, type UploadSession } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const getUploadSession = async (input: GetUploadSessionInput): Promise<UploadSession | null> => {
+  try {
+    const result = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, input.id))
+      .execute();
+
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Upload session retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { type GetVoicesInput, type Voice } from '../schema';
+import { listVoices } from '../voices/catalog';
+
+export const getVoices = async (input: GetVoicesInput): Promise<Voice[]> => {
+  try {
+    return await listVoices(input.language);
+  } catch (error) {
+    console.error('Failed to get voices:', error);
+    throw error;
+  }
+};
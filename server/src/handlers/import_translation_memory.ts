@@ -0,0 +1,15 @@
+import { type ImportTranslationMemoryInput, type TranslationMemoryImportResult } from '../schema';
+import { parseTmx } from '../memory/tmx';
+import { rememberTranslations } from '../memory/store';
+
+export const importTranslationMemory = async (input: ImportTranslationMemoryInput): Promise<TranslationMemoryImportResult> => {
+  try {
+    // Imported units replace remembered translations of the same segment
+    const { units, skipped } = parseTmx(input.content);
+    const imported = await rememberTranslations(units);
+    return { imported, skipped };
+  } catch (error) {
+    console.error('Translation memory import failed:', error);
+    throw error;
+  }
+};
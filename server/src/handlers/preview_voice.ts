@@ -0,0 +1,27 @@
+import { type PreviewVoiceInput, type VoicePreview } from '../schema';
+import { getProviders } from '../providers/registry';
+import { assertVoiceFor, previewText } from '../voices/catalog';
+
+export const previewVoice = async (input: PreviewVoiceInput): Promise<VoicePreview> => {
+  try {
+    const { synthesizer } = getProviders();
+    await assertVoiceFor(input.voice, input.language, synthesizer);
+
+    // A short sample is returned inline rather than stored
+    const speech = await synthesizer.synthesize({
+      text: input.text ?? previewText(input.language),
+      language: input.language,
+      voice: input.voice,
+      style: input.style
+    });
+
+    return {
+      audio_base64: speech.audio.toString('base64'),
+      mime_type: speech.mime_type,
+      duration_ms: speech.duration_ms
+    };
+  } catch (error) {
+    console.error('Voice preview failed:', error);
+    throw error;
+  }
+};
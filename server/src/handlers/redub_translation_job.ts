@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { jobStagesTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type RedubTranslationJobInput, type TranslationJob } from '../schema';
+import { updateJobWithTransition } from '../pipeline/status';
+import { REDUB_STAGES } from '../pipeline/stages';
+import { InvalidStatusTransitionError, JobNotFoundError } from '../errors';
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export const redubTranslationJob = async (input: RedubTranslationJobInput): Promise<TranslationJob> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Locked so segment edits and other transitions wait for the re-dub
+      const jobs = await tx.select()
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (jobs.length === 0) {
+        throw new JobNotFoundError(input.id);
+      }
+      if (jobs[0].status !== 'completed') {
+        throw new InvalidStatusTransitionError(jobs[0].status, 'retrying');
+      }
+
+      const edited = await tx.select({ id: transcriptSegmentsTable.id })
+        .from(transcriptSegmentsTable)
+        .where(and(eq(transcriptSegmentsTable.job_id, input.id), eq(transcriptSegmentsTable.needs_redub, true)))
+        .execute();
+
+      if (edited.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Translation job has no edited segments to re-dub' });
+      }
+
+      // Only synthesis, timing and muxing run again, and synthesis reuses the
+      // audio of every segment whose translation did not change. The stages
+      // are reset in the same transaction that makes the job claimable, so
+      // the worker cannot skip them and a failed transition leaves them as
+      // they were.
+      await tx.update(jobStagesTable)
+        .set({ state: 'pending', percent: 0, attempts: 0, output: null, started_at: null, finished_at: null })
+        .where(and(
+          eq(jobStagesTable.job_id, input.id),
+          inArray(jobStagesTable.name, REDUB_STAGES)
+        ))
+        .execute();
+
+      const job = await updateJobWithTransition(input.id, {
+        status: 'retrying',
+        error_message: null,
+        next_attempt_at: new Date()
+      }, `Re-dub requested for ${edited.length} edited segment${edited.length === 1 ? '' : 's'}`, ['completed'], tx);
+
+      if (!job) {
+        throw new JobNotFoundError(input.id);
+      }
+      return job;
+    });
+  } catch (error) {
+    console.error('Translation job re-dub failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { type RejectTranslationJobInput, type TranslationJob } from '../schema';
+import { updateJobWithTransition } from '../pipeline/status';
+import { JobNotFoundError } from '../errors';
+
+export const rejectTranslationJob = async (input: RejectTranslationJobInput): Promise<TranslationJob> => {
+  try {
+    // The job fails with the reason; once the segments are corrected,
+    // retrying it puts the translation up for review again
+    const job = await updateJobWithTransition(input.id, {
+      status: 'failed',
+      error_message: `Rejected in review: ${input.reason}`,
+      next_attempt_at: null
+    }, `Rejected: ${input.reason}`, ['awaiting_review']);
+
+    if (!job) {
+      throw new JobNotFoundError(input.id);
+    }
+
+    return job;
+  } catch (error) {
+    console.error('Translation job rejection failed:', error);
+    throw error;
+  }
+};
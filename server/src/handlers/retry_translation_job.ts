@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { jobStagesTable, translationJobsTable } from '../db/schema';
+import { type RetryTranslationJobInput, type TranslationJob } from '../schema';
+import { updateJobWithTransition } from '../pipeline/status';
+import { stageRunning } from '../pipeline/lease';
+import { JobNotFoundError } from '../errors';
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export const retryTranslationJob = async (input: RetryTranslationJobInput): Promise<TranslationJob> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const jobs = await tx.select({ heartbeat_at: translationJobsTable.heartbeat_at })
+        .from(translationJobsTable)
+        .where(eq(translationJobsTable.id, input.id))
+        .for('update')
+        .execute();
+      if (jobs.length === 0) {
+        throw new JobNotFoundError(input.id);
+      }
+
+      // A cancelled job may still be finishing its current stage, unless the
+      // worker running it has died
+      if (await stageRunning(tx, input.id, jobs[0].heartbeat_at)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'Translation job is still stopping, try again shortly' });
+      }
+
+      // Make the job immediately claimable again. Completed jobs are re-dubbed
+      // through redubTranslationJob instead.
+      const job = await updateJobWithTransition(input.id, {
+        status: 'retrying',
+        error_message: null,
+        next_attempt_at: new Date()
+      }, 'Retry requested by user', ['failed', 'cancelled', 'retrying'], tx);
+
+      if (!job) {
+        throw new JobNotFoundError(input.id);
+      }
+
+      // Completed stages are kept so the job resumes after the last one; the
+      // rest start over with a fresh retry budget
+      await tx.update(jobStagesTable)
+        .set({ state: 'pending', percent: 0, attempts: 0, started_at: null, finished_at: null })
+        .where(and(
+          eq(jobStagesTable.job_id, input.id),
+          inArray(jobStagesTable.state, ['pending', 'running', 'failed'])
+        ))
+        .execute();
+
+      return job;
+    });
+  } catch (error) {
+    console.error('Translation job retry failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { glossariesTable } from '../db/schema';
+import { type Glossary, type UpdateGlossaryInput } from '../schema';
+import { GlossaryNotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const updateGlossary = async (input: UpdateGlossaryInput): Promise<Glossary> => {
+  try {
+    const result = await db.update(glossariesTable)
+      .set({ name: input.name, updated_at: new Date() })
+      .where(eq(glossariesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new GlossaryNotFoundError(input.id);
+    }
+    return result[0];
+  } catch (error) {
+    console.error('Glossary update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { glossariesTable, glossaryEntriesTable } from '../db/schema';
+import { type GlossaryEntry, type UpdateGlossaryEntryInput } from '../schema';
+import { DuplicateGlossaryTermError, GlossaryEntryNotFoundError } from '../errors';
+import { and, eq, ne } from 'drizzle-orm';
+
+export const updateGlossaryEntry = async (input: UpdateGlossaryEntryInput): Promise<GlossaryEntry> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const entries = await tx.select()
+        .from(glossaryEntriesTable)
+        .where(eq(glossaryEntriesTable.id, input.id))
+        .for('update')
+        .execute();
+      if (entries.length === 0) {
+        throw new GlossaryEntryNotFoundError(input.id);
+      }
+      const entry = entries[0];
+
+      const next = {
+        source_term: input.source_term ?? entry.source_term,
+        target_term: input.target_term ?? entry.target_term,
+        case_sensitive: input.case_sensitive ?? entry.case_sensitive,
+        do_not_translate: input.do_not_translate ?? entry.do_not_translate
+      };
+      if (next.do_not_translate) {
+        next.target_term = null;
+      } else if (next.target_term === null) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A target term is required unless the term is not to be translated'
+        });
+      }
+
+      if (next.source_term !== entry.source_term) {
+        const existing = await tx.select({ id: glossaryEntriesTable.id })
+          .from(glossaryEntriesTable)
+          .where(and(
+            eq(glossaryEntriesTable.glossary_id, entry.glossary_id),
+            eq(glossaryEntriesTable.source_term, next.source_term),
+            ne(glossaryEntriesTable.id, entry.id)
+          ))
+          .execute();
+        if (existing.length > 0) {
+          throw new DuplicateGlossaryTermError(next.source_term);
+        }
+      }
+
+      const result = await tx.update(glossaryEntriesTable)
+        .set({ ...next, updated_at: new Date() })
+        .where(eq(glossaryEntriesTable.id, entry.id))
+        .returning()
+        .execute();
+
+      await tx.update(glossariesTable)
+        .set({ updated_at: new Date() })
+        .where(eq(glossariesTable.id, entry.glossary_id))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Glossary entry update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,82 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { jobSpeakersTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type JobSpeaker, type UpdateJobSpeakerInput } from '../schema';
+import { JobNotFoundError, JobSpeakerNotFoundError } from '../errors';
+import { assertVoiceFor } from '../voices/catalog';
+import { stageRunning } from '../pipeline/lease';
+import { and, eq, isNotNull, sql } from 'drizzle-orm';
+
+export const updateJobSpeaker = async (input: UpdateJobSpeakerInput): Promise<JobSpeaker> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const speakers = await tx.select()
+        .from(jobSpeakersTable)
+        .where(eq(jobSpeakersTable.id, input.id))
+        .for('update')
+        .execute();
+      if (speakers.length === 0) {
+        throw new JobSpeakerNotFoundError(input.id);
+      }
+      const speaker = speakers[0];
+
+      const next = {
+        name: input.name ?? speaker.name,
+        voice: input.voice === undefined ? speaker.voice : input.voice,
+        gender: input.gender === undefined ? speaker.gender : input.gender,
+        style: input.style === undefined ? speaker.style : input.style
+      };
+      const voiceChanged = next.voice !== speaker.voice || next.gender !== speaker.gender || next.style !== speaker.style;
+
+      if (voiceChanged) {
+        const jobs = await tx.select({
+          status: translationJobsTable.status,
+          heartbeat_at: translationJobsTable.heartbeat_at,
+          target_language: translationJobsTable.target_language
+        })
+          .from(translationJobsTable)
+          .where(eq(translationJobsTable.id, speaker.job_id))
+          .for('update')
+          .execute();
+        if (jobs.length === 0) {
+          throw new JobNotFoundError(speaker.job_id);
+        }
+        // Held the same way as segment edits: a cancelled job may still be
+        // finishing a stage that reads the speaker's voice
+        if (jobs[0].status === 'processing' || await stageRunning(tx, speaker.job_id, jobs[0].heartbeat_at)) {
+          throw new TRPCError({ code: 'CONFLICT', message: 'Speaker voices cannot be changed while the job is being processed' });
+        }
+        if (next.voice !== null && next.voice !== speaker.voice) {
+          await assertVoiceFor(next.voice, jobs[0].target_language);
+        }
+
+        // Lines already spoken in the old voice are synthesized again on the
+        // next re-dub; the rest of the track is kept
+        await tx.update(transcriptSegmentsTable)
+          .set({
+            audio_path: null,
+            needs_redub: true,
+            version: sql`${transcriptSegmentsTable.version} + 1`,
+            updated_at: new Date()
+          })
+          .where(and(
+            eq(transcriptSegmentsTable.job_id, speaker.job_id),
+            eq(transcriptSegmentsTable.speaker, speaker.label),
+            isNotNull(transcriptSegmentsTable.audio_path)
+          ))
+          .execute();
+      }
+
+      const result = await tx.update(jobSpeakersTable)
+        .set({ ...next, updated_at: new Date() })
+        .where(eq(jobSpeakersTable.id, speaker.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Job speaker update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { projectsTable } from '../db/schema';
+import { type Project, type UpdateProjectInput } from '../schema';
+import { ProjectNotFoundError } from '../errors';
+import { assertRemuxable, requestCombinedOutput } from '../projects/combined';
+import { eq } from 'drizzle-orm';
+
+export const updateProject = async (input: UpdateProjectInput): Promise<Project> => {
+  try {
+    const { id, ...changes } = input;
+
+    const projects = await db.select()
+      .from(projectsTable)
+      .where(eq(projectsTable.id, id))
+      .execute();
+
+    if (projects.length === 0) {
+      throw new ProjectNotFoundError(id);
+    }
+
+    // Refuse combined output up front rather than failing every job later
+    if ((changes.output_mode ?? projects[0].output_mode) === 'combined') {
+      assertRemuxable(projects[0]);
+    }
+
+    // The combined file is rebuilt by the worker: straight away from the
+    // languages already dubbed, and again as the other jobs complete
+    return await db.transaction(async (tx) => {
+      if (changes.output_mode !== undefined || changes.embed_subtitles !== undefined) {
+        await tx.update(projectsTable)
+          .set(changes)
+          .where(eq(projectsTable.id, id))
+          .execute();
+        await requestCombinedOutput(id, tx);
+      }
+
+      const updated = await tx.select()
+        .from(projectsTable)
+        .where(eq(projectsTable.id, id))
+        .execute();
+      return updated[0];
+    });
+  } catch (error) {
+    console.error('Project update failed:', error);
+    throw error;
+  }
+};
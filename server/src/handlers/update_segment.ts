@@ -0,0 +1,12 @@
+import { type TranscriptSegment, type UpdateSegmentInput } from '../schema';
+import { editSegments } from '../pipeline/segments';
+
+export const updateSegment = async (input: UpdateSegmentInput): Promise<TranscriptSegment> => {
+  try {
+    const [segment] = await editSegments([input]);
+    return segment;
+  } catch (error) {
+    console.error('Transcript segment update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type UploadChunkInput, type UploadSession } from '../schema';
+import { UploadSessionNotFoundError } from '../errors';
+import { uploadChunkPath } from '../storage/paths';
+import { getBlobStore } from '../storage/registry';
+import { assertVideoContent } from '../media/upload_policy';
+import { SNIFF_BYTES } from '../media/sniff';
+import { TRPCError } from '@trpc/server';
+import { and, eq, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
+
+// Size every chunk must have; only the last one may be shorter
+export const expectedChunkSize = (session: Pick<UploadSession, 'total_size' | 'chunk_size' | 'total_chunks'>, index: number): number => {
+  return index === session.total_chunks - 1
+    ? session.total_size - session.chunk_size * (session.total_chunks - 1)
+    : session.chunk_size;
+};
+
+const sessionClosedError = (session: Pick<UploadSession, 'status'>): TRPCError => new TRPCError({
+  code: 'CONFLICT',
+  message: session.status === 'finalizing' ? 'Upload session is being finalized' : 'Upload session is already finalized'
+});
+
+export const uploadChunk = async (input: UploadChunkInput): Promise<UploadSession> => {
+  try {
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, input.session_id))
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new UploadSessionNotFoundError(input.session_id);
+    }
+
+    const session = sessions[0];
+    if (session.status !== 'open') {
+      throw sessionClosedError(session);
+    }
+    if (input.index >= session.total_chunks) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Chunk ${input.index} is out of range (0-${session.total_chunks - 1})` });
+    }
+
+    const expected = expectedChunkSize(session, input.index);
+    if (input.data.length !== expected) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Chunk ${input.index} must be ${expected} bytes, received ${input.data.length}` });
+    }
+
+    if (input.checksum) {
+      const actual = createHash('sha256').update(input.data).digest('hex');
+      if (actual !== input.checksum) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Checksum mismatch for chunk ${input.index}` });
+      }
+    }
+
+    // The first chunk holds the container header
+    if (input.index === 0) {
+      assertVideoContent(input.data.subarray(0, SNIFF_BYTES));
+    }
+
+    // Re-sending a chunk overwrites it, which makes retries after a dropped
+    // connection safe
+    await getBlobStore().put(uploadChunkPath(session.id, input.index), input.data);
+
+    const result = await db.update(uploadSessionsTable)
+      .set({
+        received_chunks: sql`array(select distinct unnest(array_append(${uploadSessionsTable.received_chunks}, ${input.index}::integer)) order by 1)`,
+        updated_at: new Date()
+      })
+      .where(and(eq(uploadSessionsTable.id, session.id), eq(uploadSessionsTable.status, 'open')))
+      .returning()
+      .execute();
+
+    // Finalizing started while the chunk was stored
+    if (result.length === 0) {
+      throw sessionClosedError({ status: 'finalizing' });
+    }
+    return result[0];
+  } catch (error) {
+    console.error('Upload chunk failed:', error);
+    throw error;
+  }
+};
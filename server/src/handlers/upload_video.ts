@@ -1,38 +1,49 @@
-import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
-import { type UploadVideoInput, type TranslationJob } from '../schema';
-import { writeFile, mkdir } from 'fs/promises';
-import { dirname } from 'path';
+import { type UploadVideoInput, type UploadResult } from '../schema';
+import { newVideoPath } from '../storage/paths';
+import { getBlobStore } from '../storage/registry';
+import { assertFilename, assertTranslatableMedia, assertUploadSize, assertVideoContent } from '../media/upload_policy';
+import { bufferSource } from '../media/byte_source';
+import { SNIFF_BYTES } from '../media/sniff';
+import { importSubtitles } from '../subtitles/import';
+import { assertGlossaryFor } from '../glossary/glossaries';
+import { assertVoiceFor } from '../voices/catalog';
+import { createJobs, targetLanguagesOf } from '../projects/projects';
 
-export const uploadVideo = async (input: UploadVideoInput): Promise<TranslationJob> => {
+export const uploadVideo = async (input: UploadVideoInput): Promise<UploadResult> => {
   try {
-    // 1. Generate unique file path with timestamp + random component
-    const timestamp = Date.now();
-    const randomId = Math.random().toString(36).substring(2, 8);
-    const filePath = `/uploads/videos/${timestamp}_${randomId}_${input.filename}`;
-    const fullPath = `./storage${filePath}`;
-
-    // 2. Ensure upload directory exists
-    await mkdir(dirname(fullPath), { recursive: true });
-
-    // 3. Save the uploaded video file to storage
-    // Decode base64 file data and save to filesystem
+    // 1. Normalize the filename and check the decoded file against the upload policy
+    const filename = assertFilename(input.filename);
     const fileBuffer = Buffer.from(input.file_data, 'base64');
-    await writeFile(fullPath, fileBuffer);
+    assertUploadSize(fileBuffer.length);
+    const container = assertVideoContent(fileBuffer.subarray(0, SNIFF_BYTES));
+    const mediaInfo = await assertTranslatableMedia(bufferSource(fileBuffer), container);
+    const imported = input.subtitles ? importSubtitles(input.subtitles) : null;
+    const languages = targetLanguagesOf(input);
+    // Only allowed with a single target language
+    if (input.glossary_id !== undefined) {
+      await assertGlossaryFor(input.glossary_id, languages[0]);
+    }
+    if (input.voice !== undefined) {
+      await assertVoiceFor(input.voice, languages[0]);
+    }
 
-    // 4. Create a new translation job record in the database
-    const result = await db.insert(translationJobsTable)
-      .values({
-        original_filename: input.filename,
-        original_file_path: filePath,
-        target_language: input.target_language,
-        status: 'pending'
-      })
-      .returning()
-      .execute();
+    // 2. Save it once to the blob store under a unique path (timestamp + random component)
+    const filePath = newVideoPath(filename);
+    await getBlobStore().put(filePath, fileBuffer);
 
-    // Return the created translation job
-    return result[0];
+    // 3. Create a job per target language, grouped under a project when
+    // there are several, with the imported captions as their transcript
+    const jobs = await createJobs({
+      filename,
+      file_path: filePath,
+      media_info: mediaInfo,
+      target_languages: languages,
+      requires_review: input.requires_review ?? false,
+      glossary_id: input.glossary_id ?? null,
+      voice: input.voice ?? null,
+      imported
+    });
+    return { ...jobs[0], jobs };
   } catch (error) {
     console.error('Video upload failed:', error);
     throw error;
@@ -0,0 +1,340 @@
+// Minimal but well-formed container files for tests: just the headers the
+// media probe reads, followed by filler where the media data would be, or
+// by numbered samples the demuxer can find.
+
+export interface TestVideoTrack {
+  width: number;
+  height: number;
+  frame_rate: number;
+}
+
+export interface TestAudioTrack {
+  channels: number;
+  sample_rate: number;
+  language?: string;
+}
+
+export interface TestMediaOptions {
+  duration_ms?: number;
+  video?: TestVideoTrack | null;
+  audio?: TestAudioTrack[];
+  media_bytes?: number; // Filler standing in for the encoded media
+}
+
+const defaults = {
+  duration_ms: 12_500,
+  video: { width: 1280, height: 720, frame_rate: 25 },
+  audio: [{ channels: 2, sample_rate: 48000, language: 'eng' }],
+  media_bytes: 0
+};
+
+const u8 = (value: number) => Buffer.from([value]);
+
+const u16be = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+};
+
+const u32be = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+const u16le = (value: number) => {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+};
+
+const u32le = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+
+const zeros = (length: number) => Buffer.alloc(length);
+
+// ISO BMFF
+
+const box = (type: string, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32be(body.length + 8), Buffer.from(type, 'latin1'), body]);
+};
+
+const packLanguage = (language: string) => {
+  const [a, b, c] = [...language].map(char => char.charCodeAt(0) - 0x60);
+  return u16be((a << 10) | (b << 5) | c);
+};
+
+const mp4Track = (id: number, handler: 'vide' | 'soun', timescale: number, duration: number, options: {
+  width?: number;
+  height?: number;
+  language?: string;
+  sample_entry: Buffer;
+  tables: Buffer[];
+  edits?: Buffer;
+}) => box('trak',
+  box('tkhd', zeros(4), zeros(8), u32be(id), zeros(4), u32be(duration), zeros(16), zeros(36),
+    u32be((options.width ?? 0) * 0x10000), u32be((options.height ?? 0) * 0x10000)),
+  ...(options.edits ? [options.edits] : []),
+  box('mdia',
+    box('mdhd', zeros(12), u32be(timescale), u32be(duration), packLanguage(options.language ?? 'und'), zeros(2)),
+    box('hdlr', zeros(8), Buffer.from(handler, 'latin1'), zeros(12), zeros(1)),
+    box('minf', box('stbl', box('stsd', zeros(4), u32be(1), options.sample_entry), ...options.tables))
+  )
+);
+
+// Sample sizes, chunk layout and offsets for samples stored back to back
+// from `offset`, `perChunk` to a chunk
+const sampleTables = (sizes: number[], perChunk: number, offset: number) => {
+  const chunks: number[] = [];
+  let at = offset;
+  sizes.forEach((size, index) => {
+    if (index % perChunk === 0) chunks.push(at);
+    at += size;
+  });
+  return [
+    box('stsz', zeros(4), u32be(0), u32be(sizes.length), ...sizes.map(u32be)),
+    box('stsc', zeros(4), u32be(1), u32be(1), u32be(perChunk), u32be(1)),
+    box('stco', zeros(4), u32be(chunks.length), ...chunks.map(u32be))
+  ];
+};
+
+// What the demuxer should find in each sample: its track and number
+export const testSample = (track: number, index: number, size: number) => {
+  const sample = Buffer.alloc(size, track);
+  sample.writeUInt32BE(index, 0);
+  return sample;
+};
+
+export const TEST_AVC_CONFIG = Buffer.from([1, 0x64, 0, 0x1f, 0xff, 0xe0, 0]);
+// AAC LC, 48 kHz, stereo
+export const TEST_AAC_CONFIG = Buffer.from([0x11, 0x90]);
+export const TEST_KEYFRAME_INTERVAL = 25;
+export const TEST_VIDEO_SAMPLE_BYTES = 40;
+export const TEST_AUDIO_SAMPLE_BYTES = 12;
+
+const esds = (config: Buffer) => {
+  const specific = Buffer.concat([u8(5), u8(config.length), config]);
+  const decoder = Buffer.concat([u8(4), u8(13 + specific.length), u8(0x40), u8(0x15), zeros(11), specific]);
+  const es = Buffer.concat([u8(3), u8(3 + decoder.length + 3), u16be(1), u8(0), decoder, u8(6), u8(1), u8(2)]);
+  return box('esds', zeros(4), es);
+};
+
+// With `samples`, every video frame and every 1024-sample AAC frame is
+// stored as a numbered testSample. Video frames are presented one frame
+// after they are decoded, which the edit list takes back, and every
+// TEST_KEYFRAME_INTERVAL-th is a keyframe.
+export const buildMp4 = (options: TestMediaOptions & { moov_at_end?: boolean; samples?: boolean } = {}): Buffer => {
+  const { duration_ms, video, audio, media_bytes } = { ...defaults, ...options };
+  const ftyp = box('ftyp', Buffer.from('isom', 'latin1'), u32be(0x200), Buffer.from('isomiso2', 'latin1'));
+  const frameCount = video ? Math.round(duration_ms / 1000 * video.frame_rate) : 0;
+  const audioFrameCounts = audio.map(track => Math.floor(duration_ms / 1000 * track.sample_rate / 1024));
+
+  const samples: Buffer[] = [];
+  if (options.samples) {
+    for (let i = 0; i < frameCount; i++) samples.push(testSample(1, i, TEST_VIDEO_SAMPLE_BYTES));
+    audioFrameCounts.forEach((count, index) => {
+      for (let i = 0; i < count; i++) samples.push(testSample(index + (video ? 2 : 1), i, TEST_AUDIO_SAMPLE_BYTES));
+    });
+  }
+
+  // The sample offsets depend on the size of moov, which they do not change
+  const buildMoov = (mdatStart: number) => {
+    const tracks: Buffer[] = [];
+    let offset = mdatStart + 8;
+
+    if (video) {
+      // 1/1000 of a frame per tick, so fractional rates like 29.97 survive
+      const timescale = Math.round(video.frame_rate * 1000);
+      const sizes = Array.from({ length: frameCount }, () => TEST_VIDEO_SAMPLE_BYTES);
+      tracks.push(mp4Track(tracks.length + 1, 'vide', timescale, frameCount * 1000, {
+        width: video.width,
+        height: video.height,
+        sample_entry: box('avc1', zeros(6), u16be(1), zeros(16), u16be(video.width), u16be(video.height), zeros(50),
+          ...(options.samples ? [box('avcC', TEST_AVC_CONFIG)] : [])),
+        tables: [
+          box('stts', zeros(4), u32be(1), u32be(frameCount), u32be(1000)),
+          ...(options.samples ? [
+            box('ctts', zeros(4), u32be(1), u32be(frameCount), u32be(1000)),
+            box('stss', zeros(4), u32be(Math.ceil(frameCount / TEST_KEYFRAME_INTERVAL)),
+              ...sizes.flatMap((_, i) => (i % TEST_KEYFRAME_INTERVAL === 0 ? [u32be(i + 1)] : []))),
+            ...sampleTables(sizes, 5, offset)
+          ] : [])
+        ],
+        edits: options.samples
+          ? box('edts', box('elst', zeros(4), u32be(1), u32be(duration_ms), u32be(1000), u32be(0x10000)))
+          : undefined
+      }));
+      if (options.samples) offset += sizes.length * TEST_VIDEO_SAMPLE_BYTES;
+    }
+
+    audio.forEach((track, index) => {
+      const sizes = Array.from({ length: audioFrameCounts[index] }, () => TEST_AUDIO_SAMPLE_BYTES);
+      tracks.push(mp4Track(tracks.length + 1, 'soun', track.sample_rate, Math.round(duration_ms / 1000 * track.sample_rate), {
+        language: track.language,
+        sample_entry: box('mp4a', zeros(6), u16be(1), zeros(8), u16be(track.channels), u16be(16), zeros(4),
+          u32be(track.sample_rate * 0x10000), ...(options.samples ? [esds(TEST_AAC_CONFIG)] : [])),
+        tables: options.samples
+          ? [box('stts', zeros(4), u32be(1), u32be(sizes.length), u32be(1024)), ...sampleTables(sizes, 10, offset)]
+          : [box('stts', zeros(4), u32be(0))]
+      }));
+      if (options.samples) offset += sizes.length * TEST_AUDIO_SAMPLE_BYTES;
+    });
+
+    return box('moov', box('mvhd', zeros(12), u32be(1000), u32be(duration_ms), zeros(80)), ...tracks);
+  };
+
+  const mdat = box('mdat', options.samples ? Buffer.concat(samples) : Buffer.alloc(media_bytes, 0x2a));
+  if (options.moov_at_end) {
+    return Buffer.concat([ftyp, mdat, buildMoov(ftyp.length)]);
+  }
+  const moovLength = buildMoov(0).length;
+  return Buffer.concat([ftyp, buildMoov(ftyp.length + moovLength), mdat]);
+};
+
+export interface TestFragment {
+  sequence: number;
+  base_decode_time: number;
+  samples: { duration: number; size: number; keyframe: boolean; composition_offset: number }[];
+  data: Buffer;
+}
+
+// The moof of a media segment with all per-sample fields, as fmp4MediaSegment
+// writes it, and the sample data it points to
+export const readFragment = (segment: Buffer): TestFragment => {
+  const children = (start: number, end: number) => {
+    const found = new Map<string, { start: number; end: number }>();
+    for (let at = start; at + 8 <= end; at += segment.readUInt32BE(at)) {
+      found.set(segment.toString('latin1', at + 4, at + 8), { start: at + 8, end: at + segment.readUInt32BE(at) });
+    }
+    return found;
+  };
+  const top = children(0, segment.length);
+  const moof = children(top.get('moof')!.start, top.get('moof')!.end);
+  const traf = children(moof.get('traf')!.start, moof.get('traf')!.end);
+  const trun = traf.get('trun')!.start;
+  // The data offset counts from the start of the moof
+  const dataStart = top.get('moof')!.start - 8 + segment.readInt32BE(trun + 8);
+
+  const samples = Array.from({ length: segment.readUInt32BE(trun + 4) }, (_, index) => {
+    const at = trun + 12 + index * 16;
+    return {
+      duration: segment.readUInt32BE(at),
+      size: segment.readUInt32BE(at + 4),
+      keyframe: segment.readUInt32BE(at + 8) === 0x02000000,
+      composition_offset: segment.readInt32BE(at + 12)
+    };
+  });
+  return {
+    sequence: segment.readUInt32BE(moof.get('mfhd')!.start + 4),
+    base_decode_time: Number(segment.readBigUInt64BE(traf.get('tfdt')!.start + 4)),
+    samples,
+    data: segment.subarray(dataStart, dataStart + samples.reduce((total, sample) => total + sample.size, 0))
+  };
+};
+
+// Matroska / WebM
+
+const vintSize = (size: number) => {
+  if (size < 0x7f) return u8(0x80 | size);
+  const buffer = Buffer.alloc(8);
+  buffer[0] = 0x01;
+  buffer.writeUIntBE(size, 2, 6);
+  return buffer;
+};
+
+const element = (id: number, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  const idBytes = Buffer.alloc(4);
+  idBytes.writeUInt32BE(id);
+  return Buffer.concat([idBytes.subarray(idBytes.findIndex(byte => byte !== 0)), vintSize(body.length), body]);
+};
+
+const uint = (id: number, value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  let start = 0;
+  while (start < 7 && buffer[start] === 0) start++;
+  return element(id, buffer.subarray(start));
+};
+
+const float = (id: number, value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeDoubleBE(value);
+  return element(id, buffer);
+};
+
+const text = (id: number, value: string) => element(id, Buffer.from(value, 'utf8'));
+
+export const buildWebm = (options: TestMediaOptions & { doc_type?: 'webm' | 'matroska' } = {}): Buffer => {
+  const { duration_ms, video, audio, media_bytes } = { ...defaults, ...options };
+  const entries: Buffer[] = [];
+
+  if (video) {
+    entries.push(element(0xae,
+      uint(0xd7, entries.length + 1),
+      uint(0x83, 1),
+      text(0x86, 'V_VP9'),
+      uint(0x23e383, Math.round(1e9 / video.frame_rate)),
+      element(0xe0, uint(0xb0, video.width), uint(0xba, video.height))
+    ));
+  }
+
+  for (const track of audio) {
+    entries.push(element(0xae,
+      uint(0xd7, entries.length + 1),
+      uint(0x83, 2),
+      text(0x86, 'A_OPUS'),
+      ...(track.language ? [text(0x22b59c, track.language)] : []),
+      element(0xe1, float(0xb5, track.sample_rate), uint(0x9f, track.channels))
+    ));
+  }
+
+  return Buffer.concat([
+    element(0x1a45dfa3, text(0x4282, options.doc_type ?? 'webm')),
+    element(0x18538067,
+      element(0x1549a966, uint(0x2ad7b1, 1_000_000), float(0x4489, duration_ms)),
+      element(0x1654ae6b, ...entries),
+      element(0x1f43b675, Buffer.alloc(media_bytes, 0x2a))
+    )
+  ]);
+};
+
+// AVI
+
+const chunk = (id: string, ...payload: Buffer[]) => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([Buffer.from(id, 'latin1'), u32le(body.length), body, zeros(body.length % 2)]);
+};
+
+const list = (type: string, ...chunks: Buffer[]) => chunk('LIST', Buffer.from(type, 'latin1'), ...chunks);
+
+export const buildAvi = (options: TestMediaOptions = {}): Buffer => {
+  const { duration_ms, video, audio, media_bytes } = { ...defaults, ...options };
+  const frameRate = video?.frame_rate ?? 25;
+  const streams: Buffer[] = [];
+
+  if (video) {
+    streams.push(list('strl',
+      chunk('strh', Buffer.from('vidsH264', 'latin1'), zeros(12), u32le(1000), u32le(Math.round(frameRate * 1000)), zeros(28)),
+      chunk('strf', u32le(40), u32le(video.width), u32le(video.height), u16le(1), u16le(24), Buffer.from('H264', 'latin1'), zeros(20))
+    ));
+  }
+
+  for (const track of audio) {
+    streams.push(list('strl',
+      chunk('strh', Buffer.from('auds', 'latin1'), zeros(16), u32le(1), u32le(track.sample_rate), zeros(28)),
+      chunk('strf', u16le(0x55), u16le(track.channels), u32le(track.sample_rate), zeros(10))
+    ));
+  }
+
+  const totalFrames = Math.round(duration_ms / 1000 * frameRate);
+  const avih = chunk('avih', u32le(Math.round(1_000_000 / frameRate)), zeros(12), u32le(totalFrames), zeros(4),
+    u32le(streams.length), zeros(4), u32le(video?.width ?? 0), u32le(video?.height ?? 0), zeros(16));
+
+  const body = Buffer.concat([Buffer.from('AVI ', 'latin1'), list('hdrl', avih, ...streams), list('movi', Buffer.alloc(media_bytes, 0x2a))]);
+  return Buffer.concat([Buffer.from('RIFF', 'latin1'), u32le(body.length), body]);
+};
@@ -0,0 +1,231 @@
+import { type SupportedLanguage, type TranscriptSegment, type TranslationJob } from '../schema';
+import { languageNames } from '../handlers/get_supported_languages';
+import { fmp4InitSegment, fmp4MediaSegment, fmp4Samples, fmp4Setup, type Fmp4Sample } from '../media/fmp4';
+import { demux, flacTrack, trackPcm } from '../media/remux';
+import { type MediaTrack } from '../media/types';
+import { pcmDurationMs, type PcmAudio } from '../media/wav';
+import { cuesForTrack } from '../subtitles/tracks';
+import { type SubtitleCue } from '../subtitles/types';
+import { formatVtt } from '../subtitles/vtt';
+import { readBlob } from '../storage/blobs';
+import { type BlobStore } from '../storage/types';
+import { masterPlaylist, mediaPlaylist, PLAYLIST_CONTENT_TYPE, type PlaylistRendition } from './playlists';
+
+// Segments are cut at the first video keyframe after this much media
+export const HLS_SEGMENT_MS = 6000;
+
+export const HLS_MASTER_PLAYLIST = 'master.m3u8';
+
+// Where a job's package lives; file is relative to the master playlist
+export const hlsKey = (jobId: number, file: string): string => `/outputs/hls/${jobId}/${file}`;
+
+export interface HlsRendition {
+  id: string; // Names the rendition's playlist and directory
+  name: string;
+  language: SupportedLanguage | null;
+  default: boolean;
+}
+
+export interface HlsInput {
+  video: MediaTrack | null;
+  audio: (HlsRendition & { track: MediaTrack })[];
+  subtitles: (HlsRendition & { cues: SubtitleCue[] })[];
+  duration_ms: number;
+}
+
+export interface HlsFile {
+  path: string; // Relative to the master playlist
+  body: Buffer;
+  content_type: string;
+}
+
+// Start of each segment: video keyframes at least HLS_SEGMENT_MS apart, or
+// fixed steps for audio-only media
+const segmentStarts = (video: MediaTrack | null, durationMs: number): number[] => {
+  const starts = [0];
+  if (video) {
+    for (const frame of video.frames) {
+      if (frame.keyframe && frame.time_ms - starts[starts.length - 1] >= HLS_SEGMENT_MS) {
+        starts.push(frame.time_ms);
+      }
+    }
+  } else {
+    for (let start = HLS_SEGMENT_MS; start < durationMs; start += HLS_SEGMENT_MS) {
+      starts.push(start);
+    }
+  }
+  return starts;
+};
+
+// Cues shown during [start, end), with times kept on the media timeline
+const vttSegment = (cues: SubtitleCue[], start: number, end: number, language: SupportedLanguage | null): Buffer => {
+  const shown = cues.filter(cue => cue.start_ms < end && cue.end_ms > start);
+  // The timestamp map ties cue times to the media's, which starts at zero
+  const vtt = formatVtt(shown, { language }).replace(/^WEBVTT/, 'WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:0,LOCAL:00:00:00.000');
+  return Buffer.from(vtt, 'utf8');
+};
+
+// Package tracks for HLS: the video as fragmented MP4 segments, one audio
+// rendition per entry of audio and a WebVTT rendition per subtitle track,
+// tied together by a master playlist. Null when a track's codec cannot be
+// carried in fragmented MP4.
+export const packageHls = ({ video, audio, subtitles, duration_ms }: HlsInput): HlsFile[] | null => {
+  const videoSetup = video && fmp4Setup(video);
+  const audioSetups = audio.map(rendition => fmp4Setup(rendition.track));
+  if ((video && !videoSetup) || audioSetups.some(setup => !setup) || (!video && audio.length === 0)) {
+    return null;
+  }
+
+  const starts = segmentStarts(video, duration_ms);
+  const durations = starts.map((start, index) => (starts[index + 1] ?? Math.max(duration_ms, start)) - start);
+  const files: HlsFile[] = [];
+
+  // Writes the init and media segments of a track and its media playlist.
+  // Returns the peak bit rate of its segments.
+  const packageTrack = (playlist: string, track: MediaTrack, contentType: string): number => {
+    const setup = fmp4Setup(track)!;
+    const samples = fmp4Samples(track, setup.timescale);
+    const parts: Fmp4Sample[][] = starts.map(() => []);
+    let part = 0;
+    track.frames.forEach((frame, index) => {
+      // Video segments start with their keyframe, whatever is decoded around it
+      while (part + 1 < starts.length && frame.time_ms >= starts[part + 1] && (track.type !== 'video' || frame.keyframe)) {
+        part++;
+      }
+      parts[part].push(samples[index]);
+    });
+
+    const directory = playlist.replace(/\.m3u8$/, '');
+    const name = directory.split('/').pop();
+    files.push({ path: `${directory}/init.mp4`, body: fmp4InitSegment(track, setup), content_type: contentType });
+
+    let peak = 0;
+    const segments = parts.flatMap((partSamples, index) => {
+      if (partSamples.length === 0) return [];
+      const body = fmp4MediaSegment(index + 1, partSamples);
+      files.push({ path: `${directory}/${index}.m4s`, body, content_type: contentType });
+      peak = Math.max(peak, (body.length * 8) / Math.max(durations[index] / 1000, 0.001));
+      return [{ uri: `${name}/${index}.m4s`, duration_ms: durations[index] }];
+    });
+    files.push({
+      path: playlist,
+      body: Buffer.from(mediaPlaylist(segments, { map: `${name}/init.mp4` }), 'utf8'),
+      content_type: PLAYLIST_CONTENT_TYPE
+    });
+    return peak;
+  };
+
+  const renditions: PlaylistRendition[] = [];
+  const audioPeaks = audio.map(rendition => {
+    const playlist = `audio/${rendition.id}.m3u8`;
+    renditions.push({ type: 'AUDIO', group: 'audio', name: rendition.name, language: rendition.language, default: rendition.default, uri: playlist });
+    return packageTrack(playlist, rendition.track, 'audio/mp4');
+  });
+
+  for (const rendition of subtitles) {
+    const playlist = `subtitles/${rendition.id}.m3u8`;
+    const segments = starts.map((start, index) => {
+      const path = `subtitles/${rendition.id}/${index}.vtt`;
+      files.push({ path, body: vttSegment(rendition.cues, start, start + durations[index], rendition.language), content_type: 'text/vtt' });
+      return { uri: `${rendition.id}/${index}.vtt`, duration_ms: durations[index] };
+    });
+    files.push({ path: playlist, body: Buffer.from(mediaPlaylist(segments), 'utf8'), content_type: PLAYLIST_CONTENT_TYPE });
+    renditions.push({ type: 'SUBTITLES', group: 'subtitles', name: rendition.name, language: rendition.language, default: rendition.default, uri: playlist });
+  }
+
+  // The variant stream is the video, or the default audio rendition of
+  // audio-only media
+  const videoPeak = video ? packageTrack('video.m3u8', video, 'video/mp4') : 0;
+  const defaultAudio = audio.find(rendition => rendition.default) ?? audio[0];
+  const codecs = [...new Set([...(videoSetup ? [videoSetup.codecs] : []), ...audioSetups.map(setup => setup!.codecs)])];
+  const frameDuration = video?.frame_duration_ns;
+  files.push({
+    path: HLS_MASTER_PLAYLIST,
+    body: Buffer.from(masterPlaylist(renditions, {
+      uri: video ? 'video.m3u8' : `audio/${defaultAudio.id}.m3u8`,
+      bandwidth: videoPeak + Math.max(0, ...audioPeaks),
+      codecs,
+      ...(video?.video ? { resolution: { width: video.video.width, height: video.video.height } } : {}),
+      ...(frameDuration ? { frame_rate: 1e9 / frameDuration } : {}),
+      ...(audio.length > 0 ? { audio_group: 'audio' } : {}),
+      ...(subtitles.length > 0 ? { subtitles_group: 'subtitles' } : {})
+    }), 'utf8'),
+    content_type: PLAYLIST_CONTENT_TYPE
+  });
+  return files;
+};
+
+const trackEnd = (track: MediaTrack): number => {
+  const last = track.frames[track.frames.length - 1];
+  return last ? last.time_ms + (last.duration_ms ?? 0) : 0;
+};
+
+// Package a dubbed job for streaming: the source's video and first audio
+// track as the original, the dub as a rendition of its own, and subtitles for
+// both sides of the transcript. PCM is carried as uncompressed FLAC, which
+// browsers play. The master playlist is written last and its key returned;
+// null when the source cannot be streamed without re-encoding.
+export const packageJob = async (
+  job: TranslationJob,
+  segments: TranscriptSegment[],
+  dub: PcmAudio,
+  store: BlobStore
+): Promise<string | null> => {
+  const source = demux(await readBlob(store, job.original_file_path));
+  if (!source) {
+    return null;
+  }
+
+  const video = source.find(track => track.type === 'video') ?? null;
+  const original = source.find(track => track.type === 'audio');
+  const originalPcm = original && trackPcm(original);
+  const dubbedName = `${languageNames[job.target_language]} (dubbed)`;
+
+  const audio: HlsInput['audio'] = [];
+  if (original) {
+    audio.push({
+      id: 'original',
+      name: 'Original',
+      language: job.detected_language,
+      default: false,
+      track: originalPcm ? flacTrack(originalPcm, { language: original.language, name: original.name, default: false }) : original
+    });
+  }
+  audio.push({
+    id: job.target_language,
+    name: dubbedName,
+    language: job.target_language,
+    default: true,
+    track: flacTrack(dub, { language: null, name: dubbedName, default: true })
+  });
+
+  const subtitles: HlsInput['subtitles'] = [];
+  const sourceCues = cuesForTrack(segments, 'source');
+  if (sourceCues) {
+    const name = job.detected_language ? languageNames[job.detected_language] : 'Original';
+    subtitles.push({ id: 'source', name, language: job.detected_language, default: false, cues: sourceCues });
+  }
+  const targetCues = cuesForTrack(segments, 'target');
+  if (targetCues) {
+    subtitles.push({ id: 'target', name: languageNames[job.target_language], language: job.target_language, default: false, cues: targetCues });
+  }
+
+  const files = packageHls({
+    video,
+    audio,
+    subtitles,
+    duration_ms: Math.max(
+      job.media_info?.duration_ms ?? 0,
+      pcmDurationMs(dub.samples.length, dub.sample_rate, dub.channels),
+      ...source.map(trackEnd)
+    )
+  });
+  if (!files) {
+    return null;
+  }
+
+  for (const file of files) {
+    await store.put(hlsKey(job.id, file.path), file.body, { content_type: file.content_type });
+  }
+  return hlsKey(job.id, HLS_MASTER_PLAYLIST);
+};
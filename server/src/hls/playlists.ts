@@ -0,0 +1,99 @@
+// HLS playlist text (RFC 8216). URIs are written relative to the playlist
+// that names them, so a package can be served from anywhere as it is.
+
+export const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+export interface PlaylistSegment {
+  uri: string;
+  duration_ms: number;
+}
+
+export interface MediaPlaylistOptions {
+  // Init segment of fragmented MP4 media
+  map?: string;
+}
+
+// A rendition of the master playlist
+export interface PlaylistRendition {
+  type: 'AUDIO' | 'SUBTITLES';
+  group: string;
+  name: string;
+  language: string | null;
+  default: boolean;
+  uri: string;
+}
+
+export interface VariantStream {
+  uri: string;
+  bandwidth: number;
+  codecs: string[];
+  resolution?: { width: number; height: number };
+  frame_rate?: number;
+  audio_group?: string;
+  subtitles_group?: string;
+}
+
+const quoted = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+const seconds = (ms: number): string => (ms / 1000).toFixed(3);
+
+// A complete video-on-demand media playlist
+export const mediaPlaylist = (segments: PlaylistSegment[], options: MediaPlaylistOptions = {}): string => {
+  const target = Math.max(1, ...segments.map(segment => Math.ceil(segment.duration_ms / 1000)));
+  return [
+    '#EXTM3U',
+    '#EXT-X-VERSION:7',
+    `#EXT-X-TARGETDURATION:${target}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    '#EXT-X-INDEPENDENT-SEGMENTS',
+    ...(options.map ? [`#EXT-X-MAP:URI=${quoted(options.map)}`] : []),
+    ...segments.flatMap(segment => [`#EXTINF:${seconds(segment.duration_ms)},`, segment.uri]),
+    '#EXT-X-ENDLIST'
+  ].join('\n') + '\n';
+};
+
+export const masterPlaylist = (renditions: PlaylistRendition[], variant: VariantStream): string => {
+  const media = renditions.map(rendition => '#EXT-X-MEDIA:' + [
+    `TYPE=${rendition.type}`,
+    `GROUP-ID=${quoted(rendition.group)}`,
+    `NAME=${quoted(rendition.name)}`,
+    ...(rendition.language ? [`LANGUAGE=${quoted(rendition.language)}`] : []),
+    `DEFAULT=${rendition.default ? 'YES' : 'NO'}`,
+    `AUTOSELECT=${rendition.default ? 'YES' : 'NO'}`,
+    `URI=${quoted(rendition.uri)}`
+  ].join(','));
+
+  const attributes = [
+    `BANDWIDTH=${Math.ceil(variant.bandwidth)}`,
+    `CODECS=${quoted(variant.codecs.join(','))}`,
+    ...(variant.resolution ? [`RESOLUTION=${variant.resolution.width}x${variant.resolution.height}`] : []),
+    ...(variant.frame_rate ? [`FRAME-RATE=${variant.frame_rate.toFixed(3)}`] : []),
+    ...(variant.audio_group ? [`AUDIO=${quoted(variant.audio_group)}`] : []),
+    ...(variant.subtitles_group ? [`SUBTITLES=${quoted(variant.subtitles_group)}`] : [])
+  ];
+
+  return [
+    '#EXTM3U',
+    '#EXT-X-VERSION:7',
+    '#EXT-X-INDEPENDENT-SEGMENTS',
+    ...media,
+    `#EXT-X-STREAM-INF:${attributes.join(',')}`,
+    variant.uri
+  ].join('\n') + '\n';
+};
+
+// Replace every URI of a playlist, both the lines naming segments or
+// playlists and the URI attributes of tags
+export const rewritePlaylist = async (content: string, rewrite: (uri: string) => Promise<string>): Promise<string> => {
+  const lines: string[] = [];
+  for (const line of content.split('\n')) {
+    if (line.startsWith('#')) {
+      const match = /URI="([^"]*)"/.exec(line);
+      lines.push(match ? line.replace(match[0], `URI="${await rewrite(match[1])}"`) : line);
+    } else {
+      lines.push(line.trim() ? await rewrite(line.trim()) : line);
+    }
+  }
+  return lines.join('\n');
+};
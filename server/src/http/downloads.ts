@@ -0,0 +1,360 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createHash } from 'crypto';
+import { posix } from 'path';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import {
+  downloadKindSchema,
+  subtitleFormatSchema,
+  subtitleTrackSchema,
+  type DownloadKind,
+  type SubtitleFormat,
+  type SubtitleTrack,
+  type TranslationJob
+} from '../schema';
+import { JobNotFoundError, ProjectNotFoundError } from '../errors';
+import { combinedFilename } from '../projects/combined';
+import { hlsKey } from '../hls/package';
+import { PLAYLIST_CONTENT_TYPE, rewritePlaylist } from '../hls/playlists';
+import { getSegments } from '../pipeline/segments';
+import { renderSubtitles, subtitleCodecs } from '../subtitles/formats';
+import { cuesForTrack, subtitleLanguage } from '../subtitles/tracks';
+import { readBlob } from '../storage/blobs';
+import { getBlobStore, loadStorageConfig } from '../storage/registry';
+import { signPath, verifyResourceSignature } from '../storage/signing';
+import { type ByteRange } from '../storage/types';
+import { route, type RouteHandler } from './router';
+
+export const downloadPath = (jobId: number, kind: DownloadKind): string => `/downloads/jobs/${jobId}/${kind}`;
+
+export const subtitlePath = (jobId: number, track: SubtitleTrack, format: SubtitleFormat): string => {
+  return `/downloads/jobs/${jobId}/subtitles/${track}/${format}`;
+};
+
+export const combinedPath = (projectId: number): string => `/downloads/projects/${projectId}/combined`;
+
+// file is relative to the job's master playlist
+export const hlsPath = (jobId: number, file: string): string => `/downloads/jobs/${jobId}/hls/${file}`;
+
+// Something servable: its metadata plus a way to open (part of) it
+interface DownloadSource {
+  size: number;
+  content_type: string;
+  etag: string;
+  last_modified: Date;
+  open: (range?: ByteRange) => Promise<Readable>;
+}
+
+// Parse a single-range Range header. Returns null when the whole body should
+// be sent (no header, a multi-range or an unparseable one) and 'unsatisfiable'
+// when the range lies outside the body.
+export const parseRange = (header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' => {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+};
+
+// attachment/inline with an ASCII fallback and the exact UTF-8 name (RFC 6266)
+export const contentDisposition = (type: 'attachment' | 'inline', filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+// Name a job's download after its original file with the target language
+// appended, e.g. interview.mp4 -> interview_es.mp4
+export const downloadFilename = (job: Pick<TranslationJob, 'original_filename' | 'target_language'>, extension?: string): string => {
+  const dot = job.original_filename.lastIndexOf('.');
+  const base = dot > 0 ? job.original_filename.slice(0, dot) : job.original_filename;
+  const originalExtension = dot > 0 ? job.original_filename.slice(dot + 1) : '';
+  const ext = extension ?? originalExtension;
+  return `${base}_${job.target_language}${ext ? `.${ext}` : ''}`;
+};
+
+const etagMatches = (header: string | undefined, etag: string): boolean => {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  const weakless = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => weakless(tag) === weakless(etag));
+};
+
+// Serve a source with conditional (ETag) and range request support
+export const sendDownload = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  source: DownloadSource,
+  disposition: string
+): Promise<void> => {
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', source.etag);
+  res.setHeader('Last-Modified', source.last_modified.toUTCString());
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('Content-Type', source.content_type);
+  res.setHeader('Content-Disposition', disposition);
+
+  if (etagMatches(req.headers['if-none-match'], source.etag)) {
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+
+  // If-Range: only honour the range while the client's copy is current
+  const ifRange = req.headers['if-range'] as string | undefined;
+  const range = !ifRange || etagMatches(ifRange, source.etag)
+    ? parseRange(req.headers.range, source.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    res.statusCode = 416;
+    res.setHeader('Content-Range', `bytes */${source.size}`);
+    res.end();
+    return;
+  }
+
+  if (range) {
+    res.statusCode = 206;
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${source.size}`);
+    res.setHeader('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.statusCode = 200;
+    res.setHeader('Content-Length', String(source.size));
+  }
+
+  if (req.method === 'HEAD' || source.size === 0) {
+    res.end();
+    return;
+  }
+
+  await pipeline(await source.open(range ?? undefined), res);
+};
+
+// Links are authenticated by the HMAC signature issued with them
+const assertSigned = (req: IncomingMessage, resource: string): void => {
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+  const expires = Number(query.get('expires'));
+  const signature = query.get('signature') ?? '';
+
+  if (!verifyResourceSignature(resource, expires, signature, loadStorageConfig().signing_secret)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Download link is invalid or has expired' });
+  }
+};
+
+const dispositionType = (req: IncomingMessage): 'attachment' | 'inline' => {
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+  return query.get('disposition') === 'inline' ? 'inline' : 'attachment';
+};
+
+const loadJob = async (id: number): Promise<TranslationJob> => {
+  const result = await db.select()
+    .from(translationJobsTable)
+    .where(eq(translationJobsTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new JobNotFoundError(id);
+  }
+  return result[0];
+};
+
+const notAvailable = (what: string): TRPCError => {
+  return new TRPCError({ code: 'NOT_FOUND', message: `${what} is not available yet` });
+};
+
+const textSource = (content: string, contentType: string, lastModified: Date): DownloadSource => {
+  const body = Buffer.from(content, 'utf8');
+  return {
+    size: body.length,
+    content_type: contentType,
+    etag: `"${createHash('sha256').update(body).digest('hex').slice(0, 32)}"`,
+    last_modified: lastModified,
+    open: async (range) => Readable.from([range ? body.subarray(range.start, range.end + 1) : body])
+  };
+};
+
+// GET /downloads/jobs/:id/video and /downloads/jobs/:id/transcript
+const downloadJobFile: RouteHandler = async (req, res, params) => {
+  const kind = downloadKindSchema.safeParse(params['kind']);
+  const id = Number(params['id']);
+  if (!kind.success || !Number.isInteger(id)) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Unknown download' });
+  }
+
+  assertSigned(req, downloadPath(id, kind.data));
+  const job = await loadJob(id);
+
+  if (kind.data === 'video') {
+    if (job.status !== 'completed' || !job.translated_file_path) {
+      throw notAvailable('Translated video');
+    }
+
+    const store = getBlobStore();
+    const key = job.translated_file_path;
+    const stat = await store.stat(key);
+    if (!stat) {
+      throw notAvailable('Translated video');
+    }
+
+    await sendDownload(req, res, {
+      ...stat,
+      open: (range) => store.get(key, range)
+    }, contentDisposition(dispositionType(req), downloadFilename(job, key.endsWith('.mkv') ? 'mkv' : undefined)));
+    return;
+  }
+
+  if (!job.translated_transcript) {
+    throw notAvailable('Translated transcript');
+  }
+
+  await sendDownload(
+    req,
+    res,
+    textSource(job.translated_transcript, 'text/plain; charset=utf-8', job.updated_at),
+    contentDisposition(dispositionType(req), downloadFilename(job, 'txt'))
+  );
+};
+
+// GET /downloads/jobs/:id/subtitles/:track/:format, rendered from the segments
+const downloadSubtitles: RouteHandler = async (req, res, params) => {
+  const track = subtitleTrackSchema.safeParse(params['track']);
+  const format = subtitleFormatSchema.safeParse(params['format']);
+  const id = Number(params['id']);
+  if (!track.success || !format.success || !Number.isInteger(id)) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Unknown download' });
+  }
+
+  assertSigned(req, subtitlePath(id, track.data, format.data));
+  const job = await loadJob(id);
+  const segments = await getSegments(id);
+  const cues = cuesForTrack(segments, track.data);
+  const language = subtitleLanguage(job, track.data);
+  if (!cues || !language) {
+    throw notAvailable('Subtitles');
+  }
+
+  const lastModified = new Date(Math.max(...segments.map(segment => segment.updated_at.getTime())));
+  await sendDownload(
+    req,
+    res,
+    textSource(renderSubtitles(format.data, cues, language), subtitleCodecs[format.data].content_type, lastModified),
+    contentDisposition(dispositionType(req), downloadFilename({ ...job, target_language: language }, format.data))
+  );
+};
+
+// GET /downloads/jobs/:id/hls/<playlist>: a playlist of the job's HLS
+// package with every URI in it signed. Playlists link to playlists through
+// this route; segments are fetched from the blob store's signed URLs. All of
+// them expire with the link the playlist was fetched by.
+const downloadPlaylist: RouteHandler = async (req, res, params) => {
+  const id = Number(params['id']);
+  const file = params['file'];
+  if (!Number.isInteger(id) || !file?.endsWith('.m3u8') || file.split('/').includes('..')) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Unknown download' });
+  }
+
+  assertSigned(req, hlsPath(id, file));
+  const job = await loadJob(id);
+  const store = getBlobStore();
+  const key = hlsKey(id, file);
+  const stat = job.status === 'completed' ? await store.stat(key) : null;
+  if (!stat) {
+    throw notAvailable('Stream');
+  }
+
+  const { public_url, signing_secret } = loadStorageConfig();
+  const expires = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('expires'));
+  const ttl = Math.max(1, expires - Math.floor(Date.now() / 1000));
+  const playlist = await rewritePlaylist((await readBlob(store, key)).toString('utf8'), async (uri) => {
+    const target = posix.join(posix.dirname(file), uri);
+    if (target.startsWith('..')) {
+      throw new Error(`Playlist ${key} points outside its package: ${uri}`);
+    }
+    return target.endsWith('.m3u8')
+      ? public_url + signPath(hlsPath(id, target), ttl, signing_secret)
+      : store.signedUrl(hlsKey(id, target), ttl);
+  });
+
+  await sendDownload(
+    req,
+    res,
+    textSource(playlist, PLAYLIST_CONTENT_TYPE, stat.last_modified),
+    contentDisposition('inline', posix.basename(file))
+  );
+};
+
+// GET /downloads/projects/:id/combined, the original with every dubbed language
+const downloadCombined: RouteHandler = async (req, res, params) => {
+  const id = Number(params['id']);
+  if (!Number.isInteger(id)) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Unknown download' });
+  }
+
+  assertSigned(req, combinedPath(id));
+  const projects = await db.select()
+    .from(projectsTable)
+    .where(eq(projectsTable.id, id))
+    .execute();
+  if (projects.length === 0) {
+    throw new ProjectNotFoundError(id);
+  }
+
+  const project = projects[0];
+  const store = getBlobStore();
+  const key = project.combined_file_path;
+  const stat = key && project.output_mode === 'combined' ? await store.stat(key) : null;
+  if (!key || !stat) {
+    throw notAvailable('Combined video');
+  }
+
+  await sendDownload(req, res, {
+    ...stat,
+    open: (range) => store.get(key, range)
+  }, contentDisposition(dispositionType(req), combinedFilename(project)));
+};
+
+// GET /files/<key>: blobs behind the local driver's signed URLs
+const downloadBlob: RouteHandler = async (req, res, params) => {
+  const key = params['key'];
+  assertSigned(req, key);
+
+  const store = getBlobStore();
+  const stat = await store.stat(key);
+  if (!stat) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'File not found' });
+  }
+
+  await sendDownload(req, res, {
+    ...stat,
+    open: (range) => store.get(key, range)
+  }, contentDisposition(dispositionType(req), key.split('/').pop() ?? 'download'));
+};
+
+export const downloadRoutes = [
+  route('GET', '/downloads/jobs/:id/subtitles/:track/:format', downloadSubtitles),
+  route('HEAD', '/downloads/jobs/:id/subtitles/:track/:format', downloadSubtitles),
+  route('GET', '/downloads/jobs/:id/hls/*file', downloadPlaylist),
+  route('HEAD', '/downloads/jobs/:id/hls/*file', downloadPlaylist),
+  route('GET', '/downloads/jobs/:id/:kind', downloadJobFile),
+  route('HEAD', '/downloads/jobs/:id/:kind', downloadJobFile),
+  route('GET', '/downloads/projects/:id/combined', downloadCombined),
+  route('HEAD', '/downloads/projects/:id/combined', downloadCombined),
+  route('GET', '/files/*key', downloadBlob),
+  route('HEAD', '/files/*key', downloadBlob)
+];
@@ -0,0 +1,99 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { UploadRejectedError } from '../errors';
+
+// Plain HTTP routes served next to the tRPC procedures, for traffic that does
+// not fit JSON-RPC (raw uploads, file downloads).
+
+export type RouteParams = Record<string, string>;
+
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: RouteParams) => Promise<void>;
+
+export interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+// Build a route from a path such as /uploads/:id/chunks/:index. A trailing
+// *name parameter matches the rest of the path, slashes included.
+export const route = (method: string, path: string, handler: RouteHandler): Route => {
+  const keys: string[] = [];
+  const source = path.replace(/([:*])([a-zA-Z_]+)/g, (_, kind: string, key: string) => {
+    keys.push(key);
+    return kind === '*' ? '(.+)' : '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}/?$`), keys, handler };
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: unknown): void => {
+  if (res.headersSent) {
+    // Failed mid-response (e.g. a storage stream broke); all we can do is drop the connection
+    console.error('HTTP response failed:', error);
+    res.destroy();
+    return;
+  }
+  if (error instanceof TRPCError) {
+    sendJson(res, getHTTPStatusCodeFromError(error), {
+      error: error.message,
+      code: error.code,
+      upload_rejection: error instanceof UploadRejectedError ? error.rejection : null
+    });
+    return;
+  }
+  console.error('HTTP route failed:', error);
+  sendJson(res, 500, { error: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' });
+};
+
+// Read a request body into memory, refusing anything larger than the limit
+export const readBody = async (req: IncomingMessage, limit: number): Promise<Buffer> => {
+  const parts: Buffer[] = [];
+  let size = 0;
+
+  for await (const part of req) {
+    size += part.length;
+    if (size > limit) {
+      throw new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: `Request body exceeds ${limit} bytes` });
+    }
+    parts.push(part);
+  }
+
+  return Buffer.concat(parts);
+};
+
+// Connect-style middleware dispatching to the matching route, or to next()
+export const createRouter = (routes: Route[]) => {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void): void => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    for (const candidate of routes) {
+      if (candidate.method !== req.method) continue;
+
+      const match = candidate.pattern.exec(path);
+      if (!match) continue;
+
+      const params: RouteParams = {};
+      try {
+        candidate.keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(match[index + 1]);
+        });
+      } catch {
+        sendJson(res, 400, { error: 'Malformed URL', code: 'BAD_REQUEST' });
+        return;
+      }
+
+      candidate.handler(req, res, params).catch(error => sendError(res, error));
+      return;
+    }
+
+    next();
+  };
+};
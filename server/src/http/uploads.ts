@@ -0,0 +1,29 @@
+import { MAX_CHUNK_SIZE, uploadChunkInputSchema } from '../schema';
+import { uploadChunk } from '../handlers/upload_chunk';
+import { TRPCError } from '@trpc/server';
+import { readBody, route, sendJson } from './router';
+
+// PUT /uploads/:id/chunks/:index
+// Body: raw chunk bytes. Optional X-Chunk-Checksum header: hex SHA-256 of the body.
+export const uploadRoutes = [
+  route('PUT', '/uploads/:id/chunks/:index', async (req, res, params) => {
+    const data = await readBody(req, MAX_CHUNK_SIZE);
+    const checksum = req.headers['x-chunk-checksum'];
+
+    const parsed = uploadChunkInputSchema.safeParse({
+      session_id: params['id'],
+      index: Number(params['index']),
+      data,
+      checksum: typeof checksum === 'string' ? checksum.toLowerCase() : undefined
+    });
+    if (!parsed.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: parsed.error.issues.map(issue => issue.message).join(', ') });
+    }
+
+    const session = await uploadChunk(parsed.data);
+    sendJson(res, 200, {
+      received_chunks: session.received_chunks,
+      total_chunks: session.total_chunks
+    });
+  })
+];
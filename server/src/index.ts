@@ -9,7 +9,40 @@ import {
   uploadVideoInputSchema,
   createTranslationJobInputSchema,
   updateTranslationJobInputSchema,
-  getTranslationJobInputSchema
+  getTranslationJobInputSchema,
+  getProjectInputSchema,
+  getProjectsInputSchema,
+  updateProjectInputSchema,
+  getJobEventsInputSchema,
+  getTranscriptSegmentsInputSchema,
+  getTranscriptSegmentPageInputSchema,
+  cancelTranslationJobInputSchema,
+  retryTranslationJobInputSchema,
+  redubTranslationJobInputSchema,
+  approveTranslationJobInputSchema,
+  rejectTranslationJobInputSchema,
+  addSegmentCommentInputSchema,
+  getSegmentCommentsInputSchema,
+  getJobSpeakersInputSchema,
+  updateJobSpeakerInputSchema,
+  getVoicesInputSchema,
+  previewVoiceInputSchema,
+  createGlossaryInputSchema,
+  getGlossaryInputSchema,
+  updateGlossaryInputSchema,
+  deleteGlossaryInputSchema,
+  addGlossaryEntryInputSchema,
+  updateGlossaryEntryInputSchema,
+  deleteGlossaryEntryInputSchema,
+  getGlossaryViolationsInputSchema,
+  importTranslationMemoryInputSchema,
+  exportTranslationMemoryInputSchema,
+  updateSegmentInputSchema,
+  bulkUpdateSegmentsInputSchema,
+  createUploadSessionInputSchema,
+  getUploadSessionInputSchema,
+  finalizeUploadInputSchema,
+  getDownloadLinksInputSchema
 } from './schema';
 
 // Import handlers
@@ -17,11 +50,69 @@ import { uploadVideo } from './handlers/upload_video';
 import { createTranslationJob } from './handlers/create_translation_job';
 import { getTranslationJob } from './handlers/get_translation_job';
 import { getTranslationJobs } from './handlers/get_translation_jobs';
+import { getProject } from './handlers/get_project';
+import { getProjects } from './handlers/get_projects';
+import { updateProject } from './handlers/update_project';
 import { updateTranslationJob } from './handlers/update_translation_job';
 import { getSupportedLanguages } from './handlers/get_supported_languages';
+import { getJobEvents } from './handlers/get_job_events';
+import { cancelTranslationJob } from './handlers/cancel_translation_job';
+import { retryTranslationJob } from './handlers/retry_translation_job';
+import { createUploadSession } from './handlers/create_upload_session';
+import { getUploadSession } from './handlers/get_upload_session';
+import { finalizeUpload } from './handlers/finalize_upload';
+import { getDownloadLinks } from './handlers/get_download_links';
+import { getUploadPolicy } from './handlers/get_upload_policy';
+import { getTranscriptSegments } from './handlers/get_transcript_segments';
+import { getTranscriptSegmentPage } from './handlers/get_transcript_segment_page';
+import { updateSegment } from './handlers/update_segment';
+import { bulkUpdateSegments } from './handlers/bulk_update_segments';
+import { redubTranslationJob } from './handlers/redub_translation_job';
+import { approveTranslationJob } from './handlers/approve_translation_job';
+import { rejectTranslationJob } from './handlers/reject_translation_job';
+import { getReviewQueue } from './handlers/get_review_queue';
+import { addSegmentComment } from './handlers/add_segment_comment';
+import { getSegmentComments } from './handlers/get_segment_comments';
+import { getJobSpeakers } from './handlers/get_job_speakers';
+import { updateJobSpeaker } from './handlers/update_job_speaker';
+import { getVoices } from './handlers/get_voices';
+import { previewVoice } from './handlers/preview_voice';
+import { createGlossary } from './handlers/create_glossary';
+import { getGlossaries } from './handlers/get_glossaries';
+import { getGlossary } from './handlers/get_glossary';
+import { updateGlossary } from './handlers/update_glossary';
+import { deleteGlossary } from './handlers/delete_glossary';
+import { addGlossaryEntry } from './handlers/add_glossary_entry';
+import { updateGlossaryEntry } from './handlers/update_glossary_entry';
+import { deleteGlossaryEntry } from './handlers/delete_glossary_entry';
+import { getGlossaryViolations } from './handlers/get_glossary_violations';
+import { importTranslationMemory } from './handlers/import_translation_memory';
+import { exportTranslationMemory } from './handlers/export_translation_memory';
+import { getTranslationMemoryStats } from './handlers/get_translation_memory_stats';
+import { UploadRejectedError } from './errors';
+
+// Import plain HTTP routes
+import { createRouter } from './http/router';
+import { uploadRoutes } from './http/uploads';
+import { downloadRoutes } from './http/downloads';
+
+// Import processing pipeline
+import { createWorker } from './pipeline/worker';
+import { startUploadExpiry } from './storage/upload_expiry';
+import { createStages } from './pipeline/stages';
+import { getProviders } from './providers/registry';
+import { loadRetryPolicies } from './pipeline/retry';
 
 const t = initTRPC.create({
   transformer: superjson,
+  // Expose why an upload was refused so the client can explain it
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      upload_rejection: error instanceof UploadRejectedError ? error.rejection : null
+    }
+  }),
 });
 
 const publicProcedure = t.procedure;
@@ -38,6 +129,24 @@ const appRouter = router({
     .input(uploadVideoInputSchema)
     .mutation(({ input }) => uploadVideo(input)),
 
+  // Get the upload size limit and accepted video containers
+  getUploadPolicy: publicProcedure.query(() => getUploadPolicy()),
+
+  // Start a resumable upload; chunks go to PUT /uploads/:id/chunks/:index
+  createUploadSession: publicProcedure
+    .input(createUploadSessionInputSchema)
+    .mutation(({ input }) => createUploadSession(input)),
+
+  // Look up an upload session to resume it
+  getUploadSession: publicProcedure
+    .input(getUploadSessionInputSchema)
+    .query(({ input }) => getUploadSession(input)),
+
+  // Assemble an uploaded file, verify its checksum and create a translation job
+  finalizeUpload: publicProcedure
+    .input(finalizeUploadInputSchema)
+    .mutation(({ input }) => finalizeUpload(input)),
+
   // Create a translation job (for existing videos)
   createTranslationJob: publicProcedure
     .input(createTranslationJobInputSchema)
@@ -52,23 +161,185 @@ const appRouter = router({
   getTranslationJobs: publicProcedure
     .query(() => getTranslationJobs()),
 
-  // Update a translation job (used by processing pipeline)
+  // Get an upload dubbed into several languages with the job for each
+  getProject: publicProcedure
+    .input(getProjectInputSchema)
+    .query(({ input }) => getProject(input)),
+  // Get the projects of several jobs in one request
+  getProjects: publicProcedure
+    .input(getProjectsInputSchema)
+    .query(({ input }) => getProjects(input)),
+  updateProject: publicProcedure
+    .input(updateProjectInputSchema)
+    .mutation(({ input }) => updateProject(input)),
+
+  // Update a translation job (used by processing pipeline); status changes
+  // must follow the job state machine
   updateTranslationJob: publicProcedure
     .input(updateTranslationJobInputSchema)
     .mutation(({ input }) => updateTranslationJob(input)),
 
+  // Stop a job; the worker halts before its next stage
+  cancelTranslationJob: publicProcedure
+    .input(cancelTranslationJobInputSchema)
+    .mutation(({ input }) => cancelTranslationJob(input)),
+
+  // Re-run a failed or cancelled job from its last completed stage
+  retryTranslationJob: publicProcedure
+    .input(retryTranslationJobInputSchema)
+    .mutation(({ input }) => retryTranslationJob(input)),
+
+  // Re-synthesize and re-mux a completed job after its segments were edited
+  redubTranslationJob: publicProcedure
+    .input(redubTranslationJobInputSchema)
+    .mutation(({ input }) => redubTranslationJob(input)),
+
+  // Get the jobs paused for review, longest-waiting first
+  getReviewQueue: publicProcedure
+    .query(() => getReviewQueue()),
+
+  // Sign off on a translation so dubbing can continue
+  approveTranslationJob: publicProcedure
+    .input(approveTranslationJobInputSchema)
+    .mutation(({ input }) => approveTranslationJob(input)),
+
+  // Send a translation back; the job fails with the reason until retried
+  rejectTranslationJob: publicProcedure
+    .input(rejectTranslationJobInputSchema)
+    .mutation(({ input }) => rejectTranslationJob(input)),
+
+  // Get the status transition history of a job
+  getJobEvents: publicProcedure
+    .input(getJobEventsInputSchema)
+    .query(({ input }) => getJobEvents(input)),
+
+  // Get all timed transcript segments of a job, in playback order
+  getTranscriptSegments: publicProcedure
+    .input(getTranscriptSegmentsInputSchema)
+    .query(({ input }) => getTranscriptSegments(input)),
+
+  // Page through a job's transcript segments (cursor = last index seen)
+  getTranscriptSegmentPage: publicProcedure
+    .input(getTranscriptSegmentPageInputSchema)
+    .query(({ input }) => getTranscriptSegmentPage(input)),
+
+  // Edit one segment's text or timing (refused if its version is stale)
+  updateSegment: publicProcedure
+    .input(updateSegmentInputSchema)
+    .mutation(({ input }) => updateSegment(input)),
+
+  // Save several segment edits of one job at once, all or nothing
+  bulkUpdateSegments: publicProcedure
+    .input(bulkUpdateSegmentsInputSchema)
+    .mutation(({ input }) => bulkUpdateSegments(input)),
+
+  // Leave a reviewer comment on a segment
+  addSegmentComment: publicProcedure
+    .input(addSegmentCommentInputSchema)
+    .mutation(({ input }) => addSegmentComment(input)),
+
+  // Get the reviewer comments on a job's segments
+  getSegmentComments: publicProcedure
+    .input(getSegmentCommentsInputSchema)
+    .query(({ input }) => getSegmentComments(input)),
+
+  // Get the speakers of a job's transcript with their voice settings
+  getJobSpeakers: publicProcedure
+    .input(getJobSpeakersInputSchema)
+    .query(({ input }) => getJobSpeakers(input)),
+
+  // Rename a speaker or change the voice its lines are dubbed with; lines
+  // already dubbed are marked for re-dubbing
+  updateJobSpeaker: publicProcedure
+    .input(updateJobSpeakerInputSchema)
+    .mutation(({ input }) => updateJobSpeaker(input)),
+
+  // Create a glossary for a language pair, optionally with its entries
+  createGlossary: publicProcedure
+    .input(createGlossaryInputSchema)
+    .mutation(({ input }) => createGlossary(input)),
+
+  // Get all glossaries, without their entries
+  getGlossaries: publicProcedure
+    .query(() => getGlossaries()),
+
+  // Get a glossary with its entries
+  getGlossary: publicProcedure
+    .input(getGlossaryInputSchema)
+    .query(({ input }) => getGlossary(input)),
+
+  // Rename a glossary
+  updateGlossary: publicProcedure
+    .input(updateGlossaryInputSchema)
+    .mutation(({ input }) => updateGlossary(input)),
+
+  // Delete a glossary and its entries
+  deleteGlossary: publicProcedure
+    .input(deleteGlossaryInputSchema)
+    .mutation(({ input }) => deleteGlossary(input)),
+
+  // Add a term to a glossary
+  addGlossaryEntry: publicProcedure
+    .input(addGlossaryEntryInputSchema)
+    .mutation(({ input }) => addGlossaryEntry(input)),
+
+  // Change a glossary term
+  updateGlossaryEntry: publicProcedure
+    .input(updateGlossaryEntryInputSchema)
+    .mutation(({ input }) => updateGlossaryEntry(input)),
+
+  // Remove a term from a glossary
+  deleteGlossaryEntry: publicProcedure
+    .input(deleteGlossaryEntryInputSchema)
+    .mutation(({ input }) => deleteGlossaryEntry(input)),
+
+  // Get the segments whose translation does not follow the job's glossary
+  getGlossaryViolations: publicProcedure
+    .input(getGlossaryViolationsInputSchema)
+    .query(({ input }) => getGlossaryViolations(input)),
+
+  // Count the remembered translations per language pair
+  getTranslationMemoryStats: publicProcedure
+    .query(() => getTranslationMemoryStats()),
+
+  // Add the translation units of a TMX document to the translation memory
+  importTranslationMemory: publicProcedure
+    .input(importTranslationMemoryInputSchema)
+    .mutation(({ input }) => importTranslationMemory(input)),
+
+  // Export the translation memory, or one language pair of it, as TMX
+  exportTranslationMemory: publicProcedure
+    .input(exportTranslationMemoryInputSchema)
+    .query(({ input }) => exportTranslationMemory(input)),
+
+  // Get signed links to download a job's translated video and transcript
+  getDownloadLinks: publicProcedure
+    .input(getDownloadLinksInputSchema)
+    .query(({ input }) => getDownloadLinks(input)),
+
   // Get supported languages
   getSupportedLanguages: publicProcedure
     .query(() => getSupportedLanguages()),
+
+  // Get the voices of the configured speech synthesizer, optionally for one language
+  getVoices: publicProcedure
+    .input(getVoicesInputSchema)
+    .query(({ input }) => getVoices(input)),
+
+  // Synthesize a short sample of a voice
+  previewVoice: publicProcedure
+    .input(previewVoiceInputSchema)
+    .mutation(({ input }) => previewVoice(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+  const httpRoutes = createRouter([...uploadRoutes, ...downloadRoutes]);
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => httpRoutes(req, res, next));
     },
     router: appRouter,
     createContext() {
@@ -77,6 +348,17 @@ async function start() {
   });
   server.listen(port);
   console.log(`Video Translation API server listening at port: ${port}`);
+  startUploadExpiry();
+
+  // Process jobs in-process unless a separate worker (`bun worker`) handles them
+  if (process.env['WORKER_MODE'] !== 'external') {
+    const worker = createWorker({
+      stages: createStages(getProviders()),
+      retryPolicy: loadRetryPolicies(),
+      pollIntervalMs: Number(process.env['WORKER_POLL_INTERVAL_MS'] || 2000)
+    });
+    worker.start();
+  }
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { type ByteSource } from './byte_source';
+import { type ParsedMedia } from './types';
+
+// AVI parsing: a RIFF file whose LIST 'hdrl' chunk holds the main header
+// (avih) and one LIST 'strl' per stream with its header (strh) and format (strf).
+
+// hdrl is tiny; anything larger is not a header we want to buffer
+const MAX_HDRL_BYTES = 1024 * 1024;
+
+const videoCodecs: Record<string, string> = {
+  h264: 'h264',
+  x264: 'h264',
+  avc1: 'h264',
+  hevc: 'hevc',
+  xvid: 'mpeg4',
+  divx: 'mpeg4',
+  dx50: 'mpeg4',
+  fmp4: 'mpeg4',
+  mjpg: 'mjpeg'
+};
+
+// WAVEFORMATEX format tags
+const audioCodecs: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0003: 'pcm',
+  0x0055: 'mp3',
+  0x00ff: 'aac',
+  0x2000: 'ac3',
+  0xfffe: 'pcm' // WAVE_FORMAT_EXTENSIBLE, almost always PCM in AVI
+};
+
+interface Chunk {
+  id: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+// RIFF chunks are word aligned
+const readChunks = (buffer: Buffer, start: number, end: number): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = buffer.readUInt32LE(offset + 4);
+    if (offset + 8 + size > end) break;
+    chunks.push({ id: buffer.toString('latin1', offset, offset + 4), start: offset + 8, end: offset + 8 + size });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+const listType = (buffer: Buffer, chunk: Chunk): string | null => {
+  return chunk.id === 'LIST' && chunk.end - chunk.start >= 4 ? buffer.toString('latin1', chunk.start, chunk.start + 4) : null;
+};
+
+const parseHdrl = (hdrl: Buffer): ParsedMedia => {
+  const result: ParsedMedia = { duration_ms: null, video: null, audio_tracks: [] };
+  const chunks = readChunks(hdrl, 0, hdrl.length);
+
+  const avih = chunks.find(chunk => chunk.id === 'avih');
+  let mainWidth = 0;
+  let mainHeight = 0;
+  let microsPerFrame = 0;
+  if (avih && avih.end - avih.start >= 40) {
+    microsPerFrame = hdrl.readUInt32LE(avih.start);
+    const totalFrames = hdrl.readUInt32LE(avih.start + 16);
+    mainWidth = hdrl.readUInt32LE(avih.start + 32);
+    mainHeight = hdrl.readUInt32LE(avih.start + 36);
+    if (microsPerFrame > 0 && totalFrames > 0) {
+      result.duration_ms = Math.round(totalFrames * microsPerFrame / 1000);
+    }
+  }
+
+  for (const list of chunks) {
+    if (listType(hdrl, list) !== 'strl') continue;
+
+    const streamChunks = readChunks(hdrl, list.start + 4, list.end);
+    const strh = streamChunks.find(chunk => chunk.id === 'strh');
+    const strf = streamChunks.find(chunk => chunk.id === 'strf');
+    if (!strh || !strf || strh.end - strh.start < 28) continue;
+
+    const type = hdrl.toString('latin1', strh.start, strh.start + 4);
+    const handler = hdrl.toString('latin1', strh.start + 4, strh.start + 8);
+    const scale = hdrl.readUInt32LE(strh.start + 20);
+    const rate = hdrl.readUInt32LE(strh.start + 24);
+
+    if (type === 'vids' && !result.video) {
+      const compression = strf.end - strf.start >= 20 ? hdrl.toString('latin1', strf.start + 16, strf.start + 20) : handler;
+      const width = strf.end - strf.start >= 12 ? hdrl.readInt32LE(strf.start + 4) : mainWidth;
+      const height = strf.end - strf.start >= 12 ? Math.abs(hdrl.readInt32LE(strf.start + 8)) : mainHeight;
+      const frameRate = scale > 0 ? rate / scale : microsPerFrame > 0 ? 1_000_000 / microsPerFrame : 0;
+
+      result.video = {
+        codec: videoCodecs[compression.toLowerCase()] ?? compression.trim().toLowerCase(),
+        width: width || null,
+        height: height || null,
+        frame_rate: frameRate > 0 ? Math.round(frameRate * 1000) / 1000 : null
+      };
+    }
+
+    if (type === 'auds' && strf.end - strf.start >= 8) {
+      const formatTag = hdrl.readUInt16LE(strf.start);
+      result.audio_tracks.push({
+        codec: audioCodecs[formatTag] ?? `0x${formatTag.toString(16).padStart(4, '0')}`,
+        channels: hdrl.readUInt16LE(strf.start + 2) || null,
+        sample_rate: hdrl.readUInt32LE(strf.start + 4) || null,
+        language: null
+      });
+    }
+  }
+
+  return result;
+};
+
+// Returns null when the file has no readable hdrl list
+export const parseAvi = async (source: ByteSource): Promise<ParsedMedia | null> => {
+  const riff = await source.read(0, 12);
+  if (riff.length < 12 || riff.toString('latin1', 0, 4) !== 'RIFF' || riff.toString('latin1', 8, 12) !== 'AVI ') {
+    return null;
+  }
+
+  // hdrl is required to be the first chunk of the RIFF body
+  const list = await source.read(12, 12);
+  if (list.length < 12 || list.toString('latin1', 0, 4) !== 'LIST' || list.toString('latin1', 8, 12) !== 'hdrl') {
+    return null;
+  }
+
+  const size = list.readUInt32LE(4);
+  if (size < 4 || size > MAX_HDRL_BYTES) return null;
+
+  const hdrl = await source.read(24, size - 4);
+  try {
+    return parseHdrl(hdrl);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,26 @@
+import { readStream } from '../storage/blobs';
+import { type BlobStore } from '../storage/types';
+
+// Random access to a file's bytes, so parsers can seek past media data
+// instead of reading whole files
+export interface ByteSource {
+  size: number;
+  // Reads up to length bytes; fewer near the end of the file
+  read: (offset: number, length: number) => Promise<Buffer>;
+}
+
+export const bufferSource = (buffer: Buffer): ByteSource => ({
+  size: buffer.length,
+  read: async (offset, length) => buffer.subarray(offset, Math.min(offset + length, buffer.length))
+});
+
+export const blobSource = (store: BlobStore, key: string, size: number): ByteSource => ({
+  size,
+  read: async (offset, length) => {
+    const end = Math.min(offset + length, size) - 1;
+    if (end < offset) {
+      return Buffer.alloc(0);
+    }
+    return readStream(await store.get(key, { start: offset, end }));
+  }
+});
@@ -0,0 +1,70 @@
+import { Worker } from 'worker_threads';
+import { type DspRequest, type DspResponse, type DspTask, type DspTasks } from './dsp_tasks';
+
+// Stem separation, time stretching and the remix with its loudness
+// normalisation each work through a whole track at once. They run on a
+// thread of their own so the event loop stays free meanwhile: the worker
+// keeps renewing its job lease and the API keeps answering requests.
+
+type Pending = { resolve: (result: unknown) => void; reject: (error: Error) => void };
+
+let thread: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+
+const failAll = (error: Error) => {
+  for (const request of pending.values()) {
+    request.reject(error);
+  }
+  pending.clear();
+};
+
+// Started on first use, and started again after a crash. It does not keep
+// the process alive while idle.
+const dspThread = (): Worker => {
+  if (thread) {
+    return thread;
+  }
+
+  const entry = import.meta.url.endsWith('.ts') ? './dsp_worker.ts' : './dsp_worker.js';
+  const started = new Worker(new URL(entry, import.meta.url));
+  started.unref();
+  started.on('message', (response: DspResponse) => {
+    const request = pending.get(response.id);
+    pending.delete(response.id);
+    if (pending.size === 0) {
+      started.unref();
+    }
+    if ('error' in response) {
+      request?.reject(new Error(response.error));
+    } else {
+      request?.resolve(response.result);
+    }
+  });
+  const stopped = (error: Error) => {
+    if (thread === started) {
+      thread = null;
+      failAll(error);
+    }
+  };
+  started.on('error', (error) => {
+    console.error('DSP thread failed:', error);
+    stopped(error);
+  });
+  started.on('exit', (code) => stopped(new Error(`DSP thread exited with code ${code}`)));
+  thread = started;
+  return started;
+};
+
+// Run one of the DSP tasks on the DSP thread. The arguments are copied to
+// it; the result's buffers are moved back.
+export const runDsp = <T extends DspTask>(task: T, ...args: Parameters<DspTasks[T]>): Promise<ReturnType<DspTasks[T]>> => {
+  const worker = dspThread();
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+    // Keep the process alive until the result is back
+    worker.ref();
+    worker.postMessage({ id, task, args } satisfies DspRequest);
+  });
+};
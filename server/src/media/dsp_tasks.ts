@@ -0,0 +1,22 @@
+import { remix } from '../mixing/remix';
+import { separateStems } from './separate';
+import { timeStretch, trimSilence } from './stretch';
+
+// The whole-track signal processing that runs on the DSP thread
+export const dspTasks = {
+  separateStems,
+  trimSilence,
+  timeStretch,
+  remix
+};
+
+export type DspTasks = typeof dspTasks;
+export type DspTask = keyof DspTasks;
+
+export interface DspRequest {
+  id: number;
+  task: DspTask;
+  args: unknown[];
+}
+
+export type DspResponse = { id: number; result: unknown } | { id: number; error: string };
@@ -0,0 +1,31 @@
+import { parentPort } from 'worker_threads';
+import { dspTasks, type DspRequest, type DspResponse } from './dsp_tasks';
+
+// Entry point of the DSP thread (see dsp.ts). Requests are handled one at a
+// time in the order they arrive.
+
+// The buffers behind the typed arrays of a result, moved to the caller
+// instead of copied
+const buffersOf = (value: unknown, found: Set<ArrayBuffer> = new Set()): Set<ArrayBuffer> => {
+  if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) {
+      found.add(value.buffer);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => buffersOf(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => buffersOf(item, found));
+  }
+  return found;
+};
+
+parentPort!.on('message', ({ id, task, args }: DspRequest) => {
+  let response: DspResponse;
+  try {
+    const run = dspTasks[task] as (...input: unknown[]) => unknown;
+    response = { id, result: run(...args) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response, 'result' in response ? [...buffersOf(response.result)] : []);
+});
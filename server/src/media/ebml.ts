@@ -0,0 +1,422 @@
+import { type ByteSource } from './byte_source';
+import { type MediaFrame, type MediaTrack, type ParsedMedia } from './types';
+
+// Matroska and WebM parsing: EBML elements are (ID, size, payload) with both
+// ID and size stored as variable-length integers. The probe only reads the
+// segment's Info and Tracks elements; demuxing also walks the clusters,
+// which hold the media data.
+
+const ids = {
+  ebml: 0x1a45dfa3,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackType: 0x83,
+  codecId: 0x86,
+  language: 0x22b59c,
+  languageBcp47: 0x22b59d,
+  defaultDuration: 0x23e383,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  trackNumber: 0xd7,
+  flagDefault: 0x88,
+  name: 0x536e,
+  codecPrivate: 0x63a2,
+  codecDelay: 0x56aa,
+  seekPreRoll: 0x56bb,
+  contentEncodings: 0x6d80,
+  displayWidth: 0x54b0,
+  displayHeight: 0x54ba,
+  bitDepth: 0x6264,
+  timestamp: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  blockDuration: 0x9b,
+  referenceBlock: 0xfb
+};
+
+// Segment children; an unknown-size cluster ends where the next one starts
+const SEGMENT_CHILDREN = new Set([
+  0x114d9b74, // SeekHead
+  ids.info,
+  ids.tracks,
+  ids.cluster,
+  0x1c53bb6b, // Cues
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x1254c367 // Tags
+]);
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+const TRACK_TYPE_SUBTITLE = 0x11;
+
+// Info and Tracks are a few KB; refuse to buffer anything absurd
+const MAX_HEADER_ELEMENT_BYTES = 16 * 1024 * 1024;
+
+const codecNames: Record<string, string> = {
+  V_MPEG4: 'h264',
+  'V_MPEG4/ISO/AVC': 'h264',
+  V_MPEGH: 'hevc',
+  'V_MPEGH/ISO/HEVC': 'hevc',
+  V_AV1: 'av1',
+  V_VP8: 'vp8',
+  V_VP9: 'vp9',
+  V_MJPEG: 'mjpeg',
+  V_PRORES: 'prores',
+  A_AAC: 'aac',
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  A_AC3: 'ac3',
+  A_EAC3: 'eac3',
+  A_DTS: 'dts',
+  A_MPEG: 'mp3',
+  A_PCM: 'pcm'
+};
+
+// Codec IDs are hierarchical (A_AAC/MPEG4/LC, A_PCM/INT/LIT); the longest known prefix wins
+const codecName = (codecId: string): string => {
+  const parts = codecId.split('/');
+  for (let length = parts.length; length > 0; length--) {
+    const name = codecNames[parts.slice(0, length).join('/')];
+    if (name) return name;
+  }
+  return codecId.toLowerCase();
+};
+
+interface Element {
+  id: number;
+  start: number; // Offset of the payload
+  size: number | null; // null when the size is unknown (live streams)
+}
+
+// Length of a vint from the position of its first set bit
+const vintLength = (first: number): number => {
+  for (let length = 1; length <= 8; length++) {
+    if (first & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+};
+
+// Read an element header at offset; null when it is truncated or malformed
+const readHeader = (buffer: Buffer, offset: number): Element | null => {
+  if (offset >= buffer.length) return null;
+
+  const idLength = vintLength(buffer[offset]);
+  if (idLength === 0 || idLength > 4 || offset + idLength >= buffer.length) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + buffer[offset + i];
+  }
+
+  const sizeAt = offset + idLength;
+  const sizeLength = vintLength(buffer[sizeAt]);
+  if (sizeLength === 0 || sizeAt + sizeLength > buffer.length) return null;
+  let size = buffer[sizeAt] & (0xff >> sizeLength);
+  let allOnes = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + buffer[sizeAt + i];
+    allOnes = allOnes && buffer[sizeAt + i] === 0xff;
+  }
+
+  return { id, start: sizeAt + sizeLength, size: allOnes ? null : size };
+};
+
+const childElements = (buffer: Buffer, start: number, end: number): Element[] => {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const element = readHeader(buffer, offset);
+    if (!element || element.size === null || element.start + element.size > end) break;
+    elements.push(element);
+    offset = element.start + element.size;
+  }
+  return elements;
+};
+
+const readUint = (buffer: Buffer, element: Element): number => {
+  let value = 0;
+  for (let i = 0; i < element.size!; i++) {
+    value = value * 256 + buffer[element.start + i];
+  }
+  return value;
+};
+
+const readFloat = (buffer: Buffer, element: Element): number => {
+  if (element.size === 4) return buffer.readFloatBE(element.start);
+  if (element.size === 8) return buffer.readDoubleBE(element.start);
+  return 0;
+};
+
+const readString = (buffer: Buffer, element: Element): string => {
+  return buffer.toString('utf8', element.start, element.start + element.size!).replace(/\0+$/, '');
+};
+
+const find = (buffer: Buffer, parent: Element, id: number): Element | undefined => {
+  return childElements(buffer, parent.start, parent.start + parent.size!).find(element => element.id === id);
+};
+
+const parseInfo = (buffer: Buffer): number | null => {
+  const info: Element = { id: ids.info, start: 0, size: buffer.length };
+  const scale = find(buffer, info, ids.timecodeScale);
+  const duration = find(buffer, info, ids.duration);
+  if (!duration) return null;
+
+  // Duration counts timecode ticks, 1ms by default
+  const nanosPerTick = scale ? readUint(buffer, scale) : 1_000_000;
+  return Math.round(readFloat(buffer, duration) * nanosPerTick / 1_000_000);
+};
+
+const parseTracks = (buffer: Buffer, result: ParsedMedia): void => {
+  for (const entry of childElements(buffer, 0, buffer.length)) {
+    if (entry.id !== ids.trackEntry) continue;
+
+    const type = find(buffer, entry, ids.trackType);
+    const codecId = find(buffer, entry, ids.codecId);
+    if (!type || !codecId) continue;
+    const codec = codecName(readString(buffer, codecId));
+
+    if (readUint(buffer, type) === TRACK_TYPE_VIDEO && !result.video) {
+      const video = find(buffer, entry, ids.video);
+      const width = video && find(buffer, video, ids.pixelWidth);
+      const height = video && find(buffer, video, ids.pixelHeight);
+      const frameDuration = find(buffer, entry, ids.defaultDuration);
+      const nanos = frameDuration ? readUint(buffer, frameDuration) : 0;
+
+      result.video = {
+        codec,
+        width: width ? readUint(buffer, width) : null,
+        height: height ? readUint(buffer, height) : null,
+        frame_rate: nanos > 0 ? Math.round(1e12 / nanos) / 1000 : null
+      };
+    }
+
+    if (readUint(buffer, type) === TRACK_TYPE_AUDIO) {
+      const audio = find(buffer, entry, ids.audio);
+      const rate = audio && find(buffer, audio, ids.samplingFrequency);
+      const channels = audio && find(buffer, audio, ids.channels);
+      const language = find(buffer, entry, ids.languageBcp47) ?? find(buffer, entry, ids.language);
+      const tag = language ? readString(buffer, language) : null;
+
+      result.audio_tracks.push({
+        codec,
+        // Channels defaults to 1 when the element is absent
+        channels: channels ? readUint(buffer, channels) : 1,
+        sample_rate: rate ? Math.round(readFloat(buffer, rate)) : null,
+        language: tag && tag !== 'und' ? tag : null
+      });
+    }
+  }
+};
+
+// Returns null when the file has no Tracks element before its first cluster
+export const parseEbml = async (source: ByteSource): Promise<ParsedMedia | null> => {
+  const headerAt = async (offset: number): Promise<Element | null> => {
+    const bytes = await source.read(offset, 12);
+    const element = readHeader(bytes, 0);
+    return element && { ...element, start: offset + element.start };
+  };
+
+  const ebml = await headerAt(0);
+  if (!ebml || ebml.id !== ids.ebml || ebml.size === null) return null;
+
+  const segment = await headerAt(ebml.start + ebml.size);
+  if (!segment || segment.id !== ids.segment) return null;
+  const segmentEnd = segment.size === null ? source.size : Math.min(segment.start + segment.size, source.size);
+
+  const result: ParsedMedia = { duration_ms: null, video: null, audio_tracks: [] };
+  let sawTracks = false;
+  let offset = segment.start;
+
+  while (offset < segmentEnd) {
+    const element = await headerAt(offset);
+    if (!element || element.size === null || element.id === ids.cluster) break;
+
+    if (element.id === ids.info || element.id === ids.tracks) {
+      if (element.size > MAX_HEADER_ELEMENT_BYTES) return null;
+      const payload = await source.read(element.start, element.size);
+      try {
+        if (element.id === ids.info) {
+          result.duration_ms = parseInfo(payload);
+        } else {
+          parseTracks(payload, result);
+          sawTracks = true;
+        }
+      } catch {
+        // Truncated or corrupt elements
+        return null;
+      }
+    }
+
+    offset = element.start + element.size;
+  }
+
+  return sawTracks ? result : null;
+};
+
+const trackTypes: Record<number, MediaTrack['type']> = {
+  [TRACK_TYPE_VIDEO]: 'video',
+  [TRACK_TYPE_AUDIO]: 'audio',
+  [TRACK_TYPE_SUBTITLE]: 'subtitle'
+};
+
+// Track setup keyed by track number; other track types are left out
+const demuxTracks = (buffer: Buffer, tracks: Element): Map<number, MediaTrack> => {
+  const result = new Map<number, MediaTrack>();
+  for (const entry of childElements(buffer, tracks.start, tracks.start + tracks.size!)) {
+    if (entry.id !== ids.trackEntry) continue;
+
+    const field = (id: number) => find(buffer, entry, id);
+    const uintOf = (id: number, parent: Element = entry) => {
+      const element = find(buffer, parent, id);
+      return element ? readUint(buffer, element) : null;
+    };
+    const number = uintOf(ids.trackNumber);
+    const type = trackTypes[uintOf(ids.trackType) ?? 0];
+    const codecId = field(ids.codecId);
+    if (!number || !type || !codecId) continue;
+
+    const language = field(ids.language);
+    const bcp47 = field(ids.languageBcp47);
+    const name = field(ids.name);
+    const codecPrivate = field(ids.codecPrivate);
+    const encodings = field(ids.contentEncodings);
+    const video = field(ids.video);
+    const audio = field(ids.audio);
+    const rate = audio && find(buffer, audio, ids.samplingFrequency);
+
+    result.set(number, {
+      type,
+      codec_id: readString(buffer, codecId),
+      codec_private: codecPrivate ? Buffer.from(buffer.subarray(codecPrivate.start, codecPrivate.start + codecPrivate.size!)) : null,
+      // Language defaults to English when the element is absent
+      language: language ? readString(buffer, language) : 'eng',
+      ...(bcp47 ? { language_bcp47: readString(buffer, bcp47) } : {}),
+      name: name ? readString(buffer, name) : null,
+      default: uintOf(ids.flagDefault) !== 0,
+      frame_duration_ns: uintOf(ids.defaultDuration),
+      codec_delay_ns: uintOf(ids.codecDelay) ?? undefined,
+      seek_pre_roll_ns: uintOf(ids.seekPreRoll) ?? undefined,
+      // Copied whole: frames stay as compressed as the source has them
+      ...(encodings ? { content_encodings: Buffer.from(buffer.subarray(encodings.start, encodings.start + encodings.size!)) } : {}),
+      ...(video ? {
+        video: {
+          width: uintOf(ids.pixelWidth, video) ?? 0,
+          height: uintOf(ids.pixelHeight, video) ?? 0,
+          display_width: uintOf(ids.displayWidth, video) ?? undefined,
+          display_height: uintOf(ids.displayHeight, video) ?? undefined
+        }
+      } : {}),
+      ...(type === 'audio' ? {
+        audio: {
+          sample_rate: rate ? readFloat(buffer, rate) : 8000,
+          channels: (audio && uintOf(ids.channels, audio)) ?? 1,
+          bit_depth: audio ? uintOf(ids.bitDepth, audio) : null
+        }
+      } : {}),
+      frames: []
+    });
+  }
+  return result;
+};
+
+// A Block or SimpleBlock payload: track number (a vint), timestamp offset
+// from the cluster, flags, then the frame data
+const readBlock = (buffer: Buffer, element: Element): { track: number; offset: number; flags: number; data: Buffer } | null => {
+  const length = vintLength(buffer[element.start]);
+  const end = element.start + element.size!;
+  if (length === 0 || element.start + length + 3 > end) return null;
+
+  let track = buffer[element.start] & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    track = track * 256 + buffer[element.start + i];
+  }
+  const at = element.start + length;
+  return {
+    track,
+    offset: buffer.readInt16BE(at),
+    flags: buffer[at + 2],
+    data: Buffer.from(buffer.subarray(at + 3, end))
+  };
+};
+
+// The tracks of a whole Matroska or WebM file with all their frames, or null
+// when it has no Tracks element. Attachments, chapters and tags are not kept.
+export const demuxEbml = (buffer: Buffer): MediaTrack[] | null => {
+  const ebml = readHeader(buffer, 0);
+  if (!ebml || ebml.id !== ids.ebml || ebml.size === null) return null;
+  const segment = readHeader(buffer, ebml.start + ebml.size);
+  if (!segment || segment.id !== ids.segment) return null;
+  const segmentEnd = segment.size === null ? buffer.length : Math.min(segment.start + segment.size, buffer.length);
+
+  let nanosPerTick = 1_000_000;
+  let tracks: Map<number, MediaTrack> | null = null;
+
+  const readCluster = (start: number, end: number): number => {
+    let clusterTime = 0;
+    let offset = start;
+    while (offset < end) {
+      const child = readHeader(buffer, offset);
+      if (!child || child.size === null || SEGMENT_CHILDREN.has(child.id)) break;
+      const childEnd = Math.min(child.start + child.size, end);
+
+      if (child.id === ids.timestamp) {
+        clusterTime = readUint(buffer, child);
+      } else if (child.id === ids.simpleBlock || child.id === ids.blockGroup) {
+        const group = child.id === ids.blockGroup ? childElements(buffer, child.start, childEnd) : null;
+        const blockElement = group ? group.find(element => element.id === ids.block) : child;
+        const block = blockElement && readBlock(buffer, blockElement);
+        const track = block && tracks?.get(block.track);
+        if (block && track) {
+          const duration = group?.find(element => element.id === ids.blockDuration);
+          const frame: MediaFrame = {
+            time_ms: ((clusterTime + block.offset) * nanosPerTick) / 1_000_000,
+            // In a BlockGroup, frames that reference no other frame are keyframes
+            keyframe: group ? !group.some(element => element.id === ids.referenceBlock) : (block.flags & 0x80) !== 0,
+            data: block.data
+          };
+          if (block.flags & 0x06) frame.lacing = block.flags & 0x06;
+          if (duration) frame.duration_ms = (readUint(buffer, duration) * nanosPerTick) / 1_000_000;
+          track.frames.push(frame);
+        }
+      }
+      offset = childEnd;
+    }
+    return offset;
+  };
+
+  let offset = segment.start;
+  while (offset < segmentEnd) {
+    const element = readHeader(buffer, offset);
+    if (!element) break;
+
+    if (element.id === ids.cluster) {
+      // Live recordings write clusters of unknown size
+      const end = element.size === null ? segmentEnd : Math.min(element.start + element.size, segmentEnd);
+      const reached = readCluster(element.start, end);
+      offset = element.size === null ? reached : end;
+      continue;
+    }
+    if (element.size === null) break;
+
+    if (element.id === ids.info) {
+      const scale = find(buffer, element, ids.timecodeScale);
+      if (scale) nanosPerTick = readUint(buffer, scale);
+    } else if (element.id === ids.tracks) {
+      tracks = demuxTracks(buffer, element);
+    }
+    offset = element.start + element.size;
+  }
+
+  return tracks ? [...tracks.values()] : null;
+};
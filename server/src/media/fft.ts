@@ -0,0 +1,49 @@
+// In-place iterative radix-2 FFT; the length must be a power of two. The
+// inverse transform is scaled by 1/n so that it undoes the forward one.
+export const fft = (re: Float64Array, im: Float64Array, inverse = false): void => {
+  const n = re.length;
+  if (n & (n - 1)) {
+    throw new Error(`FFT length must be a power of two, got ${n}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tRe = re[odd] * wRe - im[odd] * wIm;
+        const tIm = re[odd] * wIm + im[odd] * wRe;
+        re[odd] = re[even] - tRe;
+        im[odd] = im[even] - tIm;
+        re[even] += tRe;
+        im[even] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
@@ -0,0 +1,121 @@
+import { type PcmAudio } from './wav';
+
+// FLAC without compression: every frame carries its samples as verbatim
+// subframes. It is no smaller than PCM, but unlike PCM browsers play it from
+// fragmented MP4, and writing it needs no encoder.
+
+// Samples per channel in a frame
+export const FLAC_BLOCK_SIZE = 4096;
+
+// Sample rates the frame header can name; others are read from STREAMINFO
+const sampleRateCodes: Record<number, number> = {
+  88200: 1,
+  176400: 2,
+  192000: 3,
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11
+};
+
+// Table-driven CRCs over the frame header (CRC-8) and the whole frame (CRC-16)
+const crcTable = (bits: 8 | 16, polynomial: number): Uint16Array => {
+  const top = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  return Uint16Array.from({ length: 256 }, (_, byte) => {
+    let crc = byte << (bits - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    }
+    return crc;
+  });
+};
+
+const CRC8_TABLE = crcTable(8, 0x07);
+const CRC16_TABLE = crcTable(16, 0x8005);
+
+const crc8 = (bytes: Buffer): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+};
+
+const crc16 = (bytes: Buffer): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+};
+
+// Frame numbers are coded like UTF-8 characters, up to 31 bits
+const codedNumber = (value: number): Buffer => {
+  if (value < 0x80) {
+    return Buffer.from([value]);
+  }
+  const bytes: number[] = [];
+  let rest = value;
+  let payloadBits = 6;
+  while (rest >= 2 ** payloadBits) {
+    bytes.unshift(0x80 | (rest & 0x3f));
+    rest = Math.floor(rest / 64);
+    payloadBits--;
+  }
+  const lead = (0xff << (7 - bytes.length)) & 0xff;
+  return Buffer.from([lead | rest, ...bytes]);
+};
+
+// The STREAMINFO metadata block, marked as the last one
+export const flacStreamInfo = (audio: Pick<PcmAudio, 'sample_rate' | 'channels'>, totalSamples: number): Buffer => {
+  const block = Buffer.alloc(4 + 34);
+  block[0] = 0x80; // Last metadata block, type 0
+  block.writeUIntBE(34, 1, 3);
+  block.writeUInt16BE(FLAC_BLOCK_SIZE, 4);
+  block.writeUInt16BE(FLAC_BLOCK_SIZE, 6);
+  // Frame sizes (bytes 8-13) and the MD5 signature are left unknown
+  const packed = (BigInt(audio.sample_rate) << 44n)
+    | (BigInt(audio.channels - 1) << 41n)
+    | (15n << 36n) // 16 bits per sample
+    | BigInt(totalSamples);
+  block.writeBigUInt64BE(packed, 14);
+  return block;
+};
+
+// Frames of 16-bit PCM, FLAC_BLOCK_SIZE samples per channel each
+export const encodeFlacFrames = (audio: PcmAudio): Buffer[] => {
+  if (audio.channels < 1 || audio.channels > 8) {
+    throw new Error(`FLAC cannot carry ${audio.channels} channels`);
+  }
+
+  const totalSamples = Math.floor(audio.samples.length / audio.channels);
+  const frames: Buffer[] = [];
+  for (let first = 0, number = 0; first < totalSamples; first += FLAC_BLOCK_SIZE, number++) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, totalSamples - first);
+
+    const header = Buffer.concat([
+      Buffer.from([
+        0xff, 0xf8, // Sync code, fixed block size
+        0x70 | (sampleRateCodes[audio.sample_rate] ?? 0), // Block size in a 16-bit field at the end
+        ((audio.channels - 1) << 4) | 0x08 // Independent channels, 16 bits per sample
+      ]),
+      codedNumber(number),
+      Buffer.from([(blockSize - 1) >> 8, (blockSize - 1) & 0xff])
+    ]);
+
+    const body = Buffer.alloc(header.length + 1 + audio.channels * (1 + blockSize * 2) + 2);
+    header.copy(body);
+    let offset = header.length;
+    body[offset++] = crc8(header);
+    for (let channel = 0; channel < audio.channels; channel++) {
+      body[offset++] = 0x02; // Verbatim subframe
+      for (let i = 0; i < blockSize; i++) {
+        offset = body.writeInt16BE(audio.samples[(first + i) * audio.channels + channel], offset);
+      }
+    }
+    body.writeUInt16BE(crc16(body.subarray(0, offset)), offset);
+    frames.push(body);
+  }
+  return frames;
+};
@@ -0,0 +1,278 @@
+import { type MediaFrame, type MediaTrack } from './types';
+
+// Fragmented MP4 (CMAF) writing for streaming: an init segment describing
+// one track, then media segments of moof/mdat pairs. Tracks come in
+// Matroska terms, as demux returns them, and frames are copied unchanged.
+
+export interface Fmp4Setup {
+  sample_entry: Buffer;
+  timescale: number;
+  // RFC 6381 codec string, as HLS playlists name codecs
+  codecs: string;
+}
+
+// A frame placed on the track's timescale
+export interface Fmp4Sample {
+  decode_time: number;
+  duration: number;
+  // Presentation minus decode time; negative for frames shown before their
+  // place in decode order
+  composition_offset: number;
+  keyframe: boolean;
+  data: Buffer;
+}
+
+const VIDEO_TIMESCALE = 90000;
+
+const box = (type: string, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Buffer[]): Buffer => {
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(((version << 24) | flags) >>> 0);
+  return box(type, header, ...payload);
+};
+
+const u8 = (...values: number[]): Buffer => Buffer.from(values);
+
+const u16 = (...values: number[]): Buffer => {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, index) => buffer.writeUInt16BE(value, index * 2));
+  return buffer;
+};
+
+const u32 = (...values: number[]): Buffer => {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeUInt32BE(value >>> 0, index * 4));
+  return buffer;
+};
+
+const u64 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+};
+
+const zeros = (length: number): Buffer => Buffer.alloc(length);
+
+const hex = (value: number): string => value.toString(16).padStart(2, '0');
+
+// Unity transformation matrix of mvhd and tkhd
+const MATRIX = u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000);
+
+const visualSampleEntry = (type: string, track: MediaTrack, config: Buffer): Buffer => box(type,
+  zeros(6), u16(1), // Reserved, data reference index
+  zeros(16),
+  u16(track.video?.width ?? 0, track.video?.height ?? 0),
+  u32(0x00480000, 0x00480000), // 72 dpi
+  zeros(4),
+  u16(1), // Frames per sample
+  zeros(32), // Compressor name
+  u16(0x0018), u16(0xffff), // Depth, pre-defined
+  config
+);
+
+const audioSampleEntry = (type: string, track: MediaTrack, config: Buffer): Buffer => {
+  const rate = track.audio?.sample_rate ?? 0;
+  return box(type,
+    zeros(6), u16(1),
+    zeros(8),
+    u16(track.audio?.channels ?? 2, 16),
+    zeros(4),
+    // 16.16 fixed point; rates that do not fit are read from the codec configuration
+    u32(rate < 0x10000 ? rate * 0x10000 : 0),
+    config
+  );
+};
+
+// Elementary stream descriptor with a one-byte length
+const descriptor = (tag: number, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u8(tag, body.length), body]);
+};
+
+const esds = (objectType: number, specificInfo: Buffer | null): Buffer => fullBox('esds', 0, 0,
+  descriptor(0x03, u16(1), u8(0),
+    descriptor(0x04, u8(objectType, 0x15), zeros(3), u32(0, 0), // Audio stream; buffer size and bit rates unknown
+      ...(specificInfo ? [descriptor(0x05, specificInfo)] : [])),
+    descriptor(0x06, u8(0x02)))
+);
+
+// Matroska keeps the OpusHead packet (little-endian); MP4 wants dOps (big-endian)
+const dOps = (head: Buffer): Buffer => {
+  const body = Buffer.alloc(11);
+  body[0] = 0;
+  body[1] = head[9];
+  body.writeUInt16BE(head.readUInt16LE(10), 2);
+  body.writeUInt32BE(head.readUInt32LE(12), 4);
+  body.writeInt16BE(head.readInt16LE(16), 8);
+  body[10] = head[18];
+  return box('dOps', body, head.subarray(19));
+};
+
+// AudioObjectType of an AudioSpecificConfig, with the escape for types above 30
+const audioObjectType = (config: Buffer): number => {
+  const type = config[0] >> 3;
+  return type === 31 && config.length > 1 ? 32 + (((config[0] & 0x07) << 3) | (config[1] >> 5)) : type;
+};
+
+const hevcCodecs = (config: Buffer): string => {
+  const space = ['', 'A', 'B', 'C'][config[1] >> 6];
+  const tier = config[1] & 0x20 ? 'H' : 'L';
+  const profile = config[1] & 0x1f;
+  // The compatibility flags are written in reverse bit order
+  let flags = config.readUInt32BE(2);
+  let reversed = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    reversed = (reversed << 1) | (flags & 1);
+    flags >>>= 1;
+  }
+  const constraints = [...config.subarray(6, 12)];
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+  return [`hvc1.${space}${profile}`, (reversed >>> 0).toString(16), `${tier}${config[12]}`, ...constraints.map(hex)].join('.');
+};
+
+const av1Codecs = (config: Buffer): string => {
+  const profile = config[1] >> 5;
+  const level = config[1] & 0x1f;
+  const tier = config[2] & 0x80 ? 'H' : 'M';
+  const depth = config[2] & 0x40 ? (config[2] & 0x20 ? 12 : 10) : 8;
+  return `av01.${profile}.${String(level).padStart(2, '0')}${tier}.${String(depth).padStart(2, '0')}`;
+};
+
+// The MP4 sample entry for a track, or null for codecs, lacing and header
+// compression that fragmented MP4 cannot carry as they are
+export const fmp4Setup = (track: MediaTrack): Fmp4Setup | null => {
+  if (track.content_encodings || track.frames.some(frame => frame.lacing)) {
+    return null;
+  }
+  const config = track.codec_private;
+  const audioTimescale = track.audio?.sample_rate ?? 48000;
+
+  switch (track.codec_id) {
+    case 'V_MPEG4/ISO/AVC':
+      return config && config.length >= 4
+        ? { sample_entry: visualSampleEntry('avc1', track, box('avcC', config)), timescale: VIDEO_TIMESCALE, codecs: `avc1.${hex(config[1])}${hex(config[2])}${hex(config[3])}` }
+        : null;
+    case 'V_MPEGH/ISO/HEVC':
+      return config && config.length >= 23
+        ? { sample_entry: visualSampleEntry('hvc1', track, box('hvcC', config)), timescale: VIDEO_TIMESCALE, codecs: hevcCodecs(config) }
+        : null;
+    case 'V_AV1':
+      return config && config.length >= 4
+        ? { sample_entry: visualSampleEntry('av01', track, box('av1C', config)), timescale: VIDEO_TIMESCALE, codecs: av1Codecs(config) }
+        : null;
+    case 'A_AAC':
+      return config && config.length >= 2
+        ? { sample_entry: audioSampleEntry('mp4a', track, esds(0x40, config)), timescale: audioTimescale, codecs: `mp4a.40.${audioObjectType(config)}` }
+        : null;
+    case 'A_MPEG/L3':
+      return { sample_entry: audioSampleEntry('mp4a', track, esds(0x6b, null)), timescale: audioTimescale, codecs: 'mp4a.40.34' };
+    case 'A_OPUS':
+      return config && config.length >= 19
+        ? { sample_entry: audioSampleEntry('Opus', track, dOps(config)), timescale: 48000, codecs: 'opus' }
+        : null;
+    case 'A_FLAC':
+      // CodecPrivate is the fLaC marker and the metadata blocks; dfLa holds the blocks
+      return config && config.length > 4
+        ? { sample_entry: audioSampleEntry('fLaC', track, fullBox('dfLa', 0, 0, config.subarray(4))), timescale: audioTimescale, codecs: 'fLaC' }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Three-letter language code packed into 15 bits, 'und' when unknown
+const packedLanguage = (language: string | null): number => {
+  const code = language && /^[a-z]{3}$/.test(language) ? language : 'und';
+  return [...code].reduce((packed, letter) => (packed << 5) | (letter.charCodeAt(0) - 0x60), 0);
+};
+
+// ftyp and moov for a single track numbered 1
+export const fmp4InitSegment = (track: MediaTrack, setup: Fmp4Setup): Buffer => {
+  const video = track.type === 'video';
+  const handler = video ? 'vide' : 'soun';
+
+  const tkhd = fullBox('tkhd', 0, 0x3, // Enabled, in movie
+    u32(0, 0, 1, 0, 0), // Created, modified, track ID, reserved, duration
+    zeros(8),
+    u16(0, 0, video ? 0 : 0x0100, 0), // Layer, alternate group, volume, reserved
+    MATRIX,
+    u32((track.video?.display_width ?? track.video?.width ?? 0) * 0x10000, (track.video?.display_height ?? track.video?.height ?? 0) * 0x10000)
+  );
+  const mdia = box('mdia',
+    fullBox('mdhd', 0, 0, u32(0, 0, setup.timescale, 0), u16(packedLanguage(track.language), 0)),
+    fullBox('hdlr', 0, 0, u32(0), Buffer.from(handler, 'latin1'), zeros(12), Buffer.from(`${track.name ?? (video ? 'Video' : 'Audio')}\0`, 'utf8')),
+    box('minf',
+      video ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+      box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+      box('stbl',
+        fullBox('stsd', 0, 0, u32(1), setup.sample_entry),
+        fullBox('stts', 0, 0, u32(0)),
+        fullBox('stsc', 0, 0, u32(0)),
+        fullBox('stsz', 0, 0, u32(0, 0)),
+        fullBox('stco', 0, 0, u32(0))
+      )
+    )
+  );
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('iso6', 'latin1'), u32(0), Buffer.from('iso6cmfcmp41', 'latin1')),
+    box('moov',
+      fullBox('mvhd', 0, 0, u32(0, 0, 1000, 0), u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(2)),
+      box('trak', tkhd, mdia),
+      box('mvex', fullBox('trex', 0, 0, u32(1, 1, 0, 0, 0)))
+    )
+  ]);
+};
+
+// The frames of a track on its timescale. Video decode times are the
+// presentation times in ascending order, so frames decoded ahead of their
+// turn get a negative composition offset.
+export const fmp4Samples = (track: MediaTrack, timescale: number): Fmp4Sample[] => {
+  const presentation = track.frames.map((frame: MediaFrame) => Math.max(0, Math.round((frame.time_ms * timescale) / 1000)));
+  const decode = track.type === 'video' ? [...presentation].sort((a, b) => a - b) : presentation;
+  const lastDuration = track.frame_duration_ns ? Math.round((track.frame_duration_ns * timescale) / 1e9) : null;
+
+  return track.frames.map((frame, index) => {
+    const next = decode[index + 1];
+    const previous = index > 0 ? decode[index] - decode[index - 1] : 0;
+    return {
+      decode_time: decode[index],
+      duration: next !== undefined ? next - decode[index] : lastDuration ?? previous,
+      composition_offset: presentation[index] - decode[index],
+      keyframe: frame.keyframe,
+      data: frame.data
+    };
+  });
+};
+
+// One moof/mdat pair holding the given run of samples
+export const fmp4MediaSegment = (sequence: number, samples: Fmp4Sample[]): Buffer => {
+  const entries = samples.map(sample => {
+    const entry = Buffer.alloc(16);
+    entry.writeUInt32BE(sample.duration, 0);
+    entry.writeUInt32BE(sample.data.length, 4);
+    // Sync samples depend on nothing; others depend on earlier ones and are not sync samples
+    entry.writeUInt32BE(sample.keyframe ? 0x02000000 : 0x01010000, 8);
+    entry.writeInt32BE(sample.composition_offset, 12);
+    return entry;
+  });
+
+  const moof = (dataOffset: number) => box('moof',
+    fullBox('mfhd', 0, 0, u32(sequence)),
+    box('traf',
+      fullBox('tfhd', 0, 0x020000, u32(1)), // Offsets are relative to the moof
+      fullBox('tfdt', 1, 0, u64(samples[0]?.decode_time ?? 0)),
+      // Data offset, then duration, size, flags and signed composition offset per sample
+      fullBox('trun', 1, 0x000f01, u32(samples.length, dataOffset), ...entries)
+    )
+  );
+  const length = moof(0).length;
+  return Buffer.concat([moof(length + 8), box('mdat', ...samples.map(sample => sample.data))]);
+};
@@ -0,0 +1,125 @@
+import { type PlanarAudio } from './wav';
+
+// Integrated loudness after ITU-R BS.1770-4, as used by EBU R128
+
+const BLOCK_MS = 400;
+const STEP_MS = 100;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+// The K-weighting filters (a high shelf modelling the head, then a high
+// pass), designed for the given sample rate by the bilinear transform. At
+// 48 kHz they reproduce the coefficients tabled in BS.1770.
+const kWeighting = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const q = 0.7071752369554196;
+    const high = Math.pow(10, 3.999843853973347 / 20);
+    const mid = Math.pow(high, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return {
+      b: [(high + (mid * k) / q + k * k) / a0, (2 * (k * k - high)) / a0, (high - (mid * k) / q + k * k) / a0],
+      a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+    } as Biquad;
+  })();
+
+  const highPass = (() => {
+    const k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const q = 0.5003270373238773;
+    const a0 = 1 + k / q + k * k;
+    return {
+      b: [1, -2, 1],
+      a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+    } as Biquad;
+  })();
+
+  return [shelf, highPass];
+};
+
+const filter = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+// Surround channels of 5.1 (FL, FR, FC, LFE, BL, BR) count 1.5 dB more; the
+// LFE channel is not measured
+const channelWeights = (channels: number): number[] => {
+  return channels === 6 ? [1, 1, 1, 0, 1.41, 1.41] : Array.from({ length: channels }, () => 1);
+};
+
+const toLufs = (power: number): number => -0.691 + 10 * Math.log10(power);
+
+// Gated integrated loudness in LUFS; -Infinity for silence. Audio shorter
+// than one 400 ms block is measured as a single block.
+export const integratedLoudness = (audio: PlanarAudio): number => {
+  const { planes, sample_rate } = audio;
+  const frames = planes[0]?.length ?? 0;
+  if (frames === 0) {
+    return -Infinity;
+  }
+
+  const weights = channelWeights(planes.length);
+  const filters = kWeighting(sample_rate);
+  const weighted = planes.map(plane => filters.reduce(filter, plane));
+  const blockLength = Math.min(frames, Math.round((sample_rate * BLOCK_MS) / 1000));
+  const step = Math.round((sample_rate * STEP_MS) / 1000);
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= frames; start += step) {
+    let power = 0;
+    weighted.forEach((plane, channel) => {
+      if (weights[channel] === 0) return;
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += plane[i] * plane[i];
+      power += weights[channel] * (sum / blockLength);
+    });
+    blocks.push(power);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const audible = blocks.filter(power => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) {
+    return -Infinity;
+  }
+  const threshold = toLufs(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter(power => toLufs(power) > threshold);
+  return toLufs(mean(gated));
+};
+
+// Bring audio to the target integrated loudness. The gain is held back where
+// it would push the sample peak above `peakDbfs`. Returns the gain applied
+// in dB; silence is left as it is.
+export const normalizeLoudness = (audio: PlanarAudio, targetLufs: number, peakDbfs = -1): { audio: PlanarAudio; gain_db: number } => {
+  const loudness = integratedLoudness(audio);
+  if (!Number.isFinite(loudness)) {
+    return { audio, gain_db: 0 };
+  }
+
+  let peak = 0;
+  for (const plane of audio.planes) {
+    for (const sample of plane) peak = Math.max(peak, Math.abs(sample));
+  }
+  const headroom = peak > 0 ? peakDbfs - 20 * Math.log10(peak) : Infinity;
+  const gainDb = Math.min(targetLufs - loudness, headroom);
+  const gain = Math.pow(10, gainDb / 20);
+
+  return {
+    audio: { sample_rate: audio.sample_rate, planes: audio.planes.map(plane => plane.map(sample => sample * gain)) },
+    gain_db: gainDb
+  };
+};
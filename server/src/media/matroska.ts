@@ -0,0 +1,283 @@
+import { type MediaFrame, type MediaTrack } from './types';
+
+// Matroska writing: EBML header, then one Segment holding a SeekHead, Info,
+// Tracks, the Clusters of interleaved blocks and Cues for seeking. Frames are
+// written as they are given; nothing is decoded or re-encoded.
+
+const ids = {
+  ebml: 0x1a45dfa3,
+  ebmlVersion: 0x4286,
+  ebmlReadVersion: 0x42f7,
+  ebmlMaxIdLength: 0x42f2,
+  ebmlMaxSizeLength: 0x42f3,
+  docType: 0x4282,
+  docTypeVersion: 0x4287,
+  docTypeReadVersion: 0x4285,
+  segment: 0x18538067,
+  seekHead: 0x114d9b74,
+  seek: 0x4dbb,
+  seekId: 0x53ab,
+  seekPosition: 0x53ac,
+  info: 0x1549a966,
+  timestampScale: 0x2ad7b1,
+  muxingApp: 0x4d80,
+  writingApp: 0x5741,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackUid: 0x73c5,
+  trackType: 0x83,
+  flagDefault: 0x88,
+  language: 0x22b59c,
+  languageBcp47: 0x22b59d,
+  name: 0x536e,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  codecDelay: 0x56aa,
+  seekPreRoll: 0x56bb,
+  defaultDuration: 0x23e383,
+  contentEncodings: 0x6d80,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  displayWidth: 0x54b0,
+  displayHeight: 0x54ba,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  bitDepth: 0x6264,
+  cluster: 0x1f43b675,
+  timestamp: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  blockDuration: 0x9b,
+  cues: 0x1c53bb6b,
+  cuePoint: 0xbb,
+  cueTime: 0xb3,
+  cueTrackPositions: 0xb7,
+  cueTrack: 0xf7,
+  cueClusterPosition: 0xf1
+};
+
+const TRACK_TYPES = { video: 1, audio: 2, subtitle: 0x11 };
+
+// Timestamps are in milliseconds
+const TIMESTAMP_SCALE = 1_000_000;
+// Clusters start at video keyframes, and at least this often
+const MAX_CLUSTER_MS = 5000;
+// Block timestamps are signed 16-bit offsets from their cluster's
+const MAX_BLOCK_OFFSET = 32767;
+
+const MUXING_APP = 'video-dubber';
+
+// Variable-length integer with the length marker bit; the shortest that fits
+// unless a length is given
+const vint = (value: number, length?: number): Buffer => {
+  let size = length ?? 1;
+  while (!length && size < 8 && value >= 2 ** (7 * size) - 1) size++;
+  const buffer = Buffer.alloc(size);
+  let rest = value;
+  for (let i = size - 1; i >= 0; i--) {
+    buffer[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  buffer[0] |= 0x80 >> (size - 1);
+  return buffer;
+};
+
+// IDs keep their marker bits, so they are written as plain big-endian bytes
+const idBytes = (id: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(id);
+  return buffer.subarray(buffer.findIndex(byte => byte !== 0));
+};
+
+const element = (id: number, ...payload: Buffer[]): Buffer => {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([idBytes(id), vint(body.length), body]);
+};
+
+const uintBytes = (value: number, length?: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(Math.round(value)));
+  let start = length ? 8 - length : 0;
+  while (!length && start < 7 && buffer[start] === 0) start++;
+  return buffer.subarray(start);
+};
+
+const uint = (id: number, value: number): Buffer => element(id, uintBytes(value));
+
+const float = (id: number, value: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeDoubleBE(value);
+  return element(id, buffer);
+};
+
+const text = (id: number, value: string): Buffer => element(id, Buffer.from(value, 'utf8'));
+
+const trackEntry = (track: MediaTrack, number: number): Buffer => {
+  const children = [
+    uint(ids.trackNumber, number),
+    uint(ids.trackUid, number),
+    uint(ids.trackType, TRACK_TYPES[track.type]),
+    // FlagDefault defaults to 1, so it is always written
+    uint(ids.flagDefault, track.default ? 1 : 0),
+    text(ids.language, track.language ?? 'und')
+  ];
+  if (track.language_bcp47) children.push(text(ids.languageBcp47, track.language_bcp47));
+  if (track.name) children.push(text(ids.name, track.name));
+  children.push(text(ids.codecId, track.codec_id));
+  if (track.codec_private) children.push(element(ids.codecPrivate, track.codec_private));
+  if (track.codec_delay_ns) children.push(uint(ids.codecDelay, track.codec_delay_ns));
+  if (track.seek_pre_roll_ns) children.push(uint(ids.seekPreRoll, track.seek_pre_roll_ns));
+  if (track.frame_duration_ns) children.push(uint(ids.defaultDuration, track.frame_duration_ns));
+  if (track.content_encodings) children.push(element(ids.contentEncodings, track.content_encodings));
+
+  if (track.video) {
+    const { width, height, display_width, display_height } = track.video;
+    children.push(element(ids.video,
+      uint(ids.pixelWidth, width),
+      uint(ids.pixelHeight, height),
+      ...(display_width && display_height && (display_width !== width || display_height !== height)
+        ? [uint(ids.displayWidth, display_width), uint(ids.displayHeight, display_height)]
+        : [])
+    ));
+  }
+  if (track.audio) {
+    children.push(element(ids.audio,
+      float(ids.samplingFrequency, track.audio.sample_rate),
+      uint(ids.channels, track.audio.channels),
+      ...(track.audio.bit_depth ? [uint(ids.bitDepth, track.audio.bit_depth)] : [])
+    ));
+  }
+
+  return element(ids.trackEntry, ...children);
+};
+
+const blockHeader = (number: number, offset: number, flags: number): Buffer => {
+  const header = Buffer.alloc(3);
+  header.writeInt16BE(offset, 0);
+  header[2] = flags;
+  return Buffer.concat([vint(number), header]);
+};
+
+// Keyframes and lacing go in the SimpleBlock flags; frames with their own
+// duration need a BlockGroup
+const block = (frame: MediaFrame, number: number, offset: number): Buffer => {
+  const lacing = (frame.lacing ?? 0) & 0x06;
+  if (frame.duration_ms !== undefined) {
+    return element(ids.blockGroup,
+      element(ids.block, blockHeader(number, offset, lacing), frame.data),
+      uint(ids.blockDuration, frame.duration_ms)
+    );
+  }
+  return element(ids.simpleBlock, blockHeader(number, offset, (frame.keyframe ? 0x80 : 0) | lacing), frame.data);
+};
+
+interface Queued {
+  frame: MediaFrame;
+  number: number;
+  video: boolean;
+}
+
+// Frames of all tracks ordered by time, each track's kept in its own order
+// (video decode order is not presentation order)
+const interleave = (tracks: MediaTrack[]): Queued[] => {
+  const heads = tracks.map(() => 0);
+  const queued: Queued[] = [];
+  for (;;) {
+    let next = -1;
+    tracks.forEach((track, index) => {
+      const frame = track.frames[heads[index]];
+      if (frame && (next === -1 || frame.time_ms < tracks[next].frames[heads[next]].time_ms)) {
+        next = index;
+      }
+    });
+    if (next === -1) {
+      return queued;
+    }
+    queued.push({ frame: tracks[next].frames[heads[next]], number: next + 1, video: tracks[next].type === 'video' });
+    heads[next]++;
+  }
+};
+
+interface ClusterDraft {
+  time: number;
+  blocks: Buffer[];
+  cue: { number: number; time: number } | null;
+}
+
+// A complete Matroska file with the tracks numbered in the order given
+export const writeMatroska = (tracks: MediaTrack[], durationMs: number): Buffer => {
+  const hasVideo = tracks.some(track => track.type === 'video');
+
+  const clusters: ClusterDraft[] = [];
+  let current: ClusterDraft | null = null;
+  for (const { frame, number, video } of interleave(tracks)) {
+    const time = Math.round(frame.time_ms);
+    const offset = current ? time - current.time : 0;
+    const startsGop = video && frame.keyframe;
+    if (!current || (startsGop && current.blocks.length > 0) || offset > MAX_CLUSTER_MS || offset < -MAX_BLOCK_OFFSET - 1) {
+      // Cluster timestamps are unsigned; frames before zero get negative offsets
+      const start = Math.max(0, time);
+      current = {
+        time: start,
+        blocks: [],
+        // Seek to video keyframes, or to any cluster of audio-only files
+        cue: startsGop || !hasVideo ? { number, time: start } : null
+      };
+      clusters.push(current);
+    }
+    current.blocks.push(block(frame, number, time - current.time));
+  }
+
+  const info = element(ids.info,
+    uint(ids.timestampScale, TIMESTAMP_SCALE),
+    text(ids.muxingApp, MUXING_APP),
+    text(ids.writingApp, MUXING_APP),
+    float(ids.duration, durationMs)
+  );
+  const trackList = element(ids.tracks, ...tracks.map((track, index) => trackEntry(track, index + 1)));
+  const clusterBytes = clusters.map(cluster => element(ids.cluster, uint(ids.timestamp, cluster.time), ...cluster.blocks));
+
+  // Positions are relative to the start of the segment payload. Writing them
+  // as 8-byte integers keeps the SeekHead the same size whatever they are.
+  const indexed = clusters.some(cluster => cluster.cue) ? [ids.info, ids.tracks, ids.cues] : [ids.info, ids.tracks];
+  const seekHead = (positions: number[]) => element(ids.seekHead,
+    ...indexed.map((id, index) => element(ids.seek,
+      element(ids.seekId, idBytes(id)),
+      element(ids.seekPosition, uintBytes(positions[index], 8))
+    ))
+  );
+  const headerLength = seekHead(indexed.map(() => 0)).length + info.length + trackList.length;
+
+  const cuePoints: Buffer[] = [];
+  let position = headerLength;
+  clusters.forEach((cluster, index) => {
+    if (cluster.cue) {
+      cuePoints.push(element(ids.cuePoint,
+        uint(ids.cueTime, cluster.cue.time),
+        element(ids.cueTrackPositions, uint(ids.cueTrack, cluster.cue.number), uint(ids.cueClusterPosition, position))
+      ));
+    }
+    position += clusterBytes[index].length;
+  });
+  // Cues may not be empty
+  const cues = cuePoints.length > 0 ? [element(ids.cues, ...cuePoints)] : [];
+
+  const ebml = element(ids.ebml,
+    uint(ids.ebmlVersion, 1),
+    uint(ids.ebmlReadVersion, 1),
+    uint(ids.ebmlMaxIdLength, 4),
+    uint(ids.ebmlMaxSizeLength, 8),
+    text(ids.docType, 'matroska'),
+    // LanguageBCP47 arrived with version 4
+    uint(ids.docTypeVersion, 4),
+    uint(ids.docTypeReadVersion, 2)
+  );
+  const head = seekHead([headerLength - info.length - trackList.length, headerLength - trackList.length, position]);
+
+  return Buffer.concat([ebml, element(ids.segment, head, info, trackList, ...clusterBytes, ...cues)]);
+};
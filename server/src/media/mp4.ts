@@ -0,0 +1,539 @@
+import { type VideoTrackInfo } from '../schema';
+import { type ByteSource } from './byte_source';
+import { type MediaFrame, type MediaTrack, type ParsedMedia } from './types';
+
+// ISO base media file format (MP4, MOV) parsing: the moov box holds the
+// movie header and one trak box per track. The probe only reads moov,
+// wherever it is in the file; demuxing follows its sample tables into mdat.
+
+// The moov of very long recordings can be tens of MB; anything bigger is not a file we want
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+interface Box {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+const codecNames: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  av01: 'av1',
+  vp08: 'vp8',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+  jpeg: 'mjpeg',
+  apch: 'prores',
+  apcn: 'prores',
+  apcs: 'prores',
+  apco: 'prores',
+  ap4h: 'prores',
+  mp4a: 'aac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  Opus: 'opus',
+  fLaC: 'flac',
+  alac: 'alac',
+  lpcm: 'pcm',
+  sowt: 'pcm',
+  twos: 'pcm',
+  in24: 'pcm',
+  fl32: 'pcm',
+  '.mp3': 'mp3'
+};
+
+const codecName = (fourcc: string): string => codecNames[fourcc] ?? fourcc.trim().toLowerCase();
+
+// Child boxes of the payload buffer[start, end)
+const readBoxes = (buffer: Buffer, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let header = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+};
+
+const child = (buffer: Buffer, box: Box | undefined, type: string): Box | undefined => {
+  return box ? readBoxes(buffer, box.start, box.end).find(candidate => candidate.type === type) : undefined;
+};
+
+const children = (buffer: Buffer, box: Box, type: string): Box[] => {
+  return readBoxes(buffer, box.start, box.end).filter(candidate => candidate.type === type);
+};
+
+// Version 1 full boxes use 64-bit times and durations
+const readTimes = (buffer: Buffer, box: Box): { timescale: number; duration: number; after: number } => {
+  const version = buffer[box.start];
+  if (version === 1) {
+    return {
+      timescale: buffer.readUInt32BE(box.start + 20),
+      duration: Number(buffer.readBigUInt64BE(box.start + 24)),
+      after: box.start + 32
+    };
+  }
+  return {
+    timescale: buffer.readUInt32BE(box.start + 12),
+    duration: buffer.readUInt32BE(box.start + 16),
+    after: box.start + 20
+  };
+};
+
+// ISO 639-2/T code packed as three 5-bit letters
+const readLanguage = (packed: number): string | null => {
+  const code = String.fromCharCode(
+    ((packed >> 10) & 0x1f) + 0x60,
+    ((packed >> 5) & 0x1f) + 0x60,
+    (packed & 0x1f) + 0x60
+  );
+  return /^[a-z]{3}$/.test(code) && code !== 'und' ? code : null;
+};
+
+const frameRate = (buffer: Buffer, stts: Box | undefined, timescale: number): number | null => {
+  if (!stts || timescale === 0) return null;
+
+  const entries = buffer.readUInt32BE(stts.start + 4);
+  let samples = 0;
+  let ticks = 0;
+  for (let i = 0; i < entries; i++) {
+    const at = stts.start + 8 + i * 8;
+    if (at + 8 > stts.end) break;
+    const count = buffer.readUInt32BE(at);
+    samples += count;
+    ticks += count * buffer.readUInt32BE(at + 4);
+  }
+
+  return ticks > 0 ? Math.round((samples * timescale / ticks) * 1000) / 1000 : null;
+};
+
+// tkhd holds the display size (16.16 fixed point); the sample entry the
+// coded size. Zero when tkhd has none.
+const displaySize = (buffer: Buffer, trak: Box): { width: number; height: number } => {
+  const tkhd = child(buffer, trak, 'tkhd');
+  const at = tkhd ? (buffer[tkhd.start] === 1 ? tkhd.start + 88 : tkhd.start + 76) : -1;
+  if (at < 0 || at + 8 > tkhd!.end) {
+    return { width: 0, height: 0 };
+  }
+  return { width: buffer.readUInt32BE(at) >>> 16, height: buffer.readUInt32BE(at + 4) >>> 16 };
+};
+
+const parseMoov = (moov: Buffer): ParsedMedia => {
+  const root = { type: 'moov', start: 0, end: moov.length };
+  const mvhd = child(moov, root, 'mvhd');
+  const movie = mvhd ? readTimes(moov, mvhd) : null;
+
+  const result: ParsedMedia = {
+    duration_ms: movie && movie.timescale > 0 ? Math.round(movie.duration * 1000 / movie.timescale) : null,
+    video: null,
+    audio_tracks: []
+  };
+
+  for (const trak of children(moov, root, 'trak')) {
+    const mdia = child(moov, trak, 'mdia');
+    const hdlr = child(moov, mdia, 'hdlr');
+    const mdhd = child(moov, mdia, 'mdhd');
+    const stbl = child(moov, child(moov, mdia, 'minf'), 'stbl');
+    const stsd = child(moov, stbl, 'stsd');
+    if (!hdlr || !mdhd || !stsd) continue;
+
+    const handler = moov.toString('latin1', hdlr.start + 8, hdlr.start + 12);
+    const media = readTimes(moov, mdhd);
+    const language = readLanguage(moov.readUInt16BE(media.after));
+    const [entry] = readBoxes(moov, stsd.start + 8, stsd.end);
+    if (!entry) continue;
+
+    if (handler === 'vide' && !result.video) {
+      const display = displaySize(moov, trak);
+      const video: VideoTrackInfo = {
+        codec: codecName(entry.type),
+        width: display.width || moov.readUInt16BE(entry.start + 24) || null,
+        height: display.height || moov.readUInt16BE(entry.start + 26) || null,
+        frame_rate: frameRate(moov, child(moov, stbl, 'stts'), media.timescale)
+      };
+      result.video = video;
+    }
+
+    if (handler === 'soun') {
+      const channels = moov.readUInt16BE(entry.start + 16);
+      const sampleRate = moov.readUInt32BE(entry.start + 24) >>> 16;
+      result.audio_tracks.push({
+        codec: codecName(entry.type),
+        channels: channels || null,
+        sample_rate: sampleRate || media.timescale || null,
+        language
+      });
+    }
+  }
+
+  return result;
+};
+
+// Returns null when the file has no readable moov box
+export const parseMp4 = async (source: ByteSource): Promise<ParsedMedia | null> => {
+  let offset = 0;
+
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    if (header.length < 8) return null;
+
+    let size = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (header.length < 16) return null;
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = source.size - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const moov = await source.read(offset + headerSize, size - headerSize);
+      if (moov.length < size - headerSize) return null;
+      try {
+        return parseMoov(moov);
+      } catch {
+        // Truncated or corrupt boxes
+        return null;
+      }
+    }
+
+    offset += size;
+  }
+
+  return null;
+};
+
+// PCM tracks store every audio frame as a sample
+const MAX_PCM_BLOCK_BYTES = 32 * 1024;
+
+interface Sample {
+  offset: number;
+  size: number;
+  dts: number;
+  cts: number;
+  sync: boolean;
+}
+
+// Descriptor header in an esds box: tag, then a size of up to four 7-bit bytes
+const readDescriptor = (buffer: Buffer, at: number): { tag: number; size: number; start: number } => {
+  const tag = buffer[at];
+  let size = 0;
+  let offset = at + 1;
+  for (let i = 0; i < 4; i++) {
+    const byte = buffer[offset++];
+    size = size * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) break;
+  }
+  return { tag, size, start: offset };
+};
+
+// Object type and DecoderSpecificInfo (for AAC the AudioSpecificConfig) of an esds box
+const decoderConfig = (buffer: Buffer, esds: Box): { object_type: number; specific: Buffer | null } | null => {
+  const es = readDescriptor(buffer, esds.start + 4);
+  if (es.tag !== 3) return null;
+  const flags = buffer[es.start + 2];
+  let at = es.start + 3;
+  if (flags & 0x80) at += 2;
+  if (flags & 0x40) at += 1 + buffer[at];
+  if (flags & 0x20) at += 2;
+
+  const config = readDescriptor(buffer, at);
+  if (config.tag !== 4) return null;
+  const objectType = buffer[config.start];
+  const specificAt = config.start + 13;
+  if (specificAt >= config.start + config.size) return { object_type: objectType, specific: null };
+
+  const specific = readDescriptor(buffer, specificAt);
+  return {
+    object_type: objectType,
+    specific: specific.tag === 5 ? Buffer.from(buffer.subarray(specific.start, specific.start + specific.size)) : null
+  };
+};
+
+// Opus in MP4 keeps its header in dOps (big-endian); Matroska wants the
+// OpusHead packet (little-endian)
+const opusHead = (buffer: Buffer, dops: Box): { head: Buffer; pre_skip: number } => {
+  const at = dops.start;
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = buffer[at + 1];
+  const preSkip = buffer.readUInt16BE(at + 2);
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(buffer.readUInt32BE(at + 4), 12);
+  head.writeInt16LE(buffer.readInt16BE(at + 8), 16);
+  head[18] = buffer[at + 10];
+  return { head: Buffer.concat([head, buffer.subarray(at + 11, dops.end)]), pre_skip: preSkip };
+};
+
+type CodecSetup = Pick<MediaTrack, 'codec_id' | 'codec_private' | 'codec_delay_ns' | 'seek_pre_roll_ns'> & { pcm_bits?: number };
+
+// The Matroska codec for a sample entry, or null for codecs that are not
+// carried over
+const matroskaCodec = (buffer: Buffer, entry: Box, handler: string): CodecSetup | null => {
+  if (handler === 'vide') {
+    // Configuration boxes follow the 78-byte VisualSampleEntry fields
+    const config = (type: string) => {
+      const box = readBoxes(buffer, entry.start + 78, entry.end).find(candidate => candidate.type === type);
+      return box ? Buffer.from(buffer.subarray(box.start, box.end)) : null;
+    };
+    switch (entry.type) {
+      case 'avc1':
+      case 'avc3':
+        return { codec_id: 'V_MPEG4/ISO/AVC', codec_private: config('avcC') };
+      case 'hvc1':
+      case 'hev1':
+        return { codec_id: 'V_MPEGH/ISO/HEVC', codec_private: config('hvcC') };
+      case 'av01':
+        return { codec_id: 'V_AV1', codec_private: config('av1C') };
+      case 'vp09':
+        return { codec_id: 'V_VP9', codec_private: null };
+      default:
+        return null;
+    }
+  }
+
+  // Sound sample entry versions 1 and 2 (QuickTime) have longer headers
+  const version = buffer.readUInt16BE(entry.start + 8);
+  const boxes = readBoxes(buffer, entry.start + (version === 1 ? 44 : version === 2 ? 64 : 28), entry.end);
+  const find = (type: string) => boxes.find(candidate => candidate.type === type);
+  switch (entry.type) {
+    case 'mp4a': {
+      const esds = find('esds');
+      const config = esds ? decoderConfig(buffer, esds) : null;
+      if (config && (config.object_type === 0x69 || config.object_type === 0x6b)) {
+        return { codec_id: 'A_MPEG/L3', codec_private: null };
+      }
+      return config?.specific ? { codec_id: 'A_AAC', codec_private: config.specific } : null;
+    }
+    case '.mp3':
+      return { codec_id: 'A_MPEG/L3', codec_private: null };
+    case 'ac-3':
+      return { codec_id: 'A_AC3', codec_private: null };
+    case 'ec-3':
+      return { codec_id: 'A_EAC3', codec_private: null };
+    case 'Opus': {
+      const dops = find('dOps');
+      if (!dops) return null;
+      const { head, pre_skip } = opusHead(buffer, dops);
+      return { codec_id: 'A_OPUS', codec_private: head, codec_delay_ns: Math.round((pre_skip * 1e9) / 48000), seek_pre_roll_ns: 80_000_000 };
+    }
+    case 'fLaC': {
+      // dfLa is a full box holding the FLAC metadata blocks
+      const dfla = find('dfLa');
+      return dfla ? { codec_id: 'A_FLAC', codec_private: Buffer.concat([Buffer.from('fLaC', 'latin1'), buffer.subarray(dfla.start + 4, dfla.end)]) } : null;
+    }
+    case 'sowt':
+      return { codec_id: 'A_PCM/INT/LIT', codec_private: null, pcm_bits: buffer.readUInt16BE(entry.start + 18) };
+    case 'twos':
+      return { codec_id: 'A_PCM/INT/BIG', codec_private: null, pcm_bits: buffer.readUInt16BE(entry.start + 18) };
+    default:
+      return null;
+  }
+};
+
+const readSamples = (buffer: Buffer, stbl: Box, bytesPerPcmFrame: number | null): Sample[] => {
+  const table = (type: string) => child(buffer, stbl, type);
+  const stsz = table('stsz');
+  const stsc = table('stsc');
+  const stts = table('stts');
+  const chunks = table('stco') ?? table('co64');
+  if (!stsz || !stsc || !stts || !chunks) return [];
+
+  const fixedSize = buffer.readUInt32BE(stsz.start + 4);
+  const count = buffer.readUInt32BE(stsz.start + 8);
+  // PCM counts single audio frames as samples, whatever stsz says their size is
+  const sizeOf = (index: number) => bytesPerPcmFrame ?? (fixedSize || buffer.readUInt32BE(stsz.start + 12 + index * 4));
+
+  const chunkCount = buffer.readUInt32BE(chunks.start + 4);
+  const chunkOffset = (index: number) => chunks.type === 'co64'
+    ? Number(buffer.readBigUInt64BE(chunks.start + 8 + index * 8))
+    : buffer.readUInt32BE(chunks.start + 8 + index * 4);
+  const runs = Array.from({ length: buffer.readUInt32BE(stsc.start + 4) }, (_, index) => ({
+    first_chunk: buffer.readUInt32BE(stsc.start + 8 + index * 12),
+    samples: buffer.readUInt32BE(stsc.start + 12 + index * 12)
+  }));
+
+  const samples: Sample[] = [];
+  let run = 0;
+  for (let chunk = 0; chunk < chunkCount && samples.length < count; chunk++) {
+    while (run + 1 < runs.length && runs[run + 1].first_chunk <= chunk + 1) run++;
+    let offset = chunkOffset(chunk);
+    for (let i = 0; i < (runs[run]?.samples ?? 0) && samples.length < count; i++) {
+      const size = sizeOf(samples.length);
+      samples.push({ offset, size, dts: 0, cts: 0, sync: true });
+      offset += size;
+    }
+  }
+
+  let dts = 0;
+  let index = 0;
+  for (let entry = 0; entry < buffer.readUInt32BE(stts.start + 4); entry++) {
+    const runLength = buffer.readUInt32BE(stts.start + 8 + entry * 8);
+    const delta = buffer.readUInt32BE(stts.start + 12 + entry * 8);
+    for (let i = 0; i < runLength && index < samples.length; i++, index++) {
+      samples[index].dts = dts;
+      dts += delta;
+    }
+  }
+
+  const ctts = table('ctts');
+  if (ctts) {
+    index = 0;
+    for (let entry = 0; entry < buffer.readUInt32BE(ctts.start + 4); entry++) {
+      const runLength = buffer.readUInt32BE(ctts.start + 8 + entry * 8);
+      // Signed in version 1, and written signed by many version 0 muxers too
+      const offset = buffer.readInt32BE(ctts.start + 12 + entry * 8);
+      for (let i = 0; i < runLength && index < samples.length; i++, index++) {
+        samples[index].cts = offset;
+      }
+    }
+  }
+
+  // Without stss every sample is a sync sample
+  const stss = table('stss');
+  if (stss) {
+    samples.forEach(sample => { sample.sync = false; });
+    for (let entry = 0; entry < buffer.readUInt32BE(stss.start + 4); entry++) {
+      const sample = samples[buffer.readUInt32BE(stss.start + 8 + entry * 4) - 1];
+      if (sample) sample.sync = true;
+    }
+  }
+
+  return samples;
+};
+
+// Where presentation starts according to the edit list: the media time of
+// the first edit, and how long empty edits delay it (in milliseconds)
+const editShift = (buffer: Buffer, trak: Box, movieTimescale: number): { media_time: number; delay_ms: number } => {
+  const elst = child(buffer, child(buffer, trak, 'edts'), 'elst');
+  if (!elst) {
+    return { media_time: 0, delay_ms: 0 };
+  }
+
+  const version = buffer[elst.start];
+  const entrySize = version === 1 ? 20 : 12;
+  let delay = 0;
+  for (let entry = 0; entry < buffer.readUInt32BE(elst.start + 4); entry++) {
+    const at = elst.start + 8 + entry * entrySize;
+    const duration = version === 1 ? Number(buffer.readBigUInt64BE(at)) : buffer.readUInt32BE(at);
+    const mediaTime = version === 1 ? Number(buffer.readBigInt64BE(at + 8)) : buffer.readInt32BE(at + 4);
+    if (mediaTime === -1) {
+      delay += duration;
+      continue;
+    }
+    return { media_time: mediaTime, delay_ms: movieTimescale > 0 ? (delay * 1000) / movieTimescale : 0 };
+  }
+  return { media_time: 0, delay_ms: 0 };
+};
+
+// The video and audio tracks of a whole MP4 or MOV file with all their
+// samples, or null when it has no moov box, is fragmented, or uses a codec
+// that cannot be carried over to Matroska
+export const demuxMp4 = (buffer: Buffer): MediaTrack[] | null => {
+  try {
+    const moov = readBoxes(buffer, 0, buffer.length).find(box => box.type === 'moov');
+    if (!moov || child(buffer, moov, 'mvex')) return null;
+    const mvhd = child(buffer, moov, 'mvhd');
+    const movieTimescale = mvhd ? readTimes(buffer, mvhd).timescale : 0;
+
+    const tracks: MediaTrack[] = [];
+    for (const trak of children(buffer, moov, 'trak')) {
+      const mdia = child(buffer, trak, 'mdia');
+      const hdlr = child(buffer, mdia, 'hdlr');
+      const mdhd = child(buffer, mdia, 'mdhd');
+      const stbl = child(buffer, child(buffer, mdia, 'minf'), 'stbl');
+      const stsd = child(buffer, stbl, 'stsd');
+      if (!hdlr || !mdhd || !stbl || !stsd) continue;
+
+      const handler = buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12);
+      if (handler !== 'vide' && handler !== 'soun') continue;
+      const [entry] = readBoxes(buffer, stsd.start + 8, stsd.end);
+      if (!entry) continue;
+      const codec = matroskaCodec(buffer, entry, handler);
+      if (!codec) return null;
+
+      const media = readTimes(buffer, mdhd);
+      const channels = handler === 'soun' ? buffer.readUInt16BE(entry.start + 16) : 0;
+      const samples = readSamples(buffer, stbl, codec.pcm_bits ? (channels * codec.pcm_bits) / 8 : null);
+      const shift = editShift(buffer, trak, movieTimescale);
+      const timeOf = (sample: Sample) => ((sample.dts + sample.cts - shift.media_time) * 1000) / media.timescale + shift.delay_ms;
+
+      let frames: MediaFrame[] = samples.map(sample => ({
+        time_ms: timeOf(sample),
+        keyframe: sample.sync,
+        data: Buffer.from(buffer.subarray(sample.offset, sample.offset + sample.size))
+      }));
+      if (codec.pcm_bits) {
+        // Contiguous audio frames go in blocks of up to MAX_PCM_BLOCK_BYTES
+        // rather than one block each
+        const runs: { time_ms: number; start: number; end: number }[] = [];
+        for (const sample of samples) {
+          const last = runs[runs.length - 1];
+          if (last && last.end === sample.offset && last.end - last.start < MAX_PCM_BLOCK_BYTES) {
+            last.end += sample.size;
+          } else {
+            runs.push({ time_ms: timeOf(sample), start: sample.offset, end: sample.offset + sample.size });
+          }
+        }
+        frames = runs.map(run => ({ time_ms: run.time_ms, keyframe: true, data: Buffer.from(buffer.subarray(run.start, run.end)) }));
+      }
+
+      const stts = child(buffer, stbl, 'stts');
+      const constantDelta = stts && buffer.readUInt32BE(stts.start + 4) === 1 ? buffer.readUInt32BE(stts.start + 12) : 0;
+      const display = displaySize(buffer, trak);
+      const { pcm_bits: pcmBits, ...setup } = codec;
+
+      tracks.push({
+        type: handler === 'vide' ? 'video' : 'audio',
+        ...setup,
+        language: readLanguage(buffer.readUInt16BE(media.after)),
+        name: null,
+        default: true,
+        frame_duration_ns: handler === 'vide' && constantDelta && media.timescale
+          ? Math.round((constantDelta * 1e9) / media.timescale)
+          : null,
+        ...(handler === 'vide' ? {
+          video: {
+            width: buffer.readUInt16BE(entry.start + 24),
+            height: buffer.readUInt16BE(entry.start + 26),
+            display_width: display.width || undefined,
+            display_height: display.height || undefined
+          }
+        } : {
+          audio: {
+            sample_rate: (buffer.readUInt32BE(entry.start + 24) >>> 16) || media.timescale,
+            channels,
+            bit_depth: pcmBits ?? null
+          }
+        }),
+        frames
+      });
+    }
+    return tracks;
+  } catch {
+    // Truncated or corrupt boxes
+    return null;
+  }
+};
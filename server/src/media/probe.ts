@@ -0,0 +1,56 @@
+import { type MediaInfo } from '../schema';
+import { type ByteSource } from './byte_source';
+import { parseAvi } from './avi';
+import { parseEbml } from './ebml';
+import { parseMp4 } from './mp4';
+import { sniffContainer, SNIFF_BYTES } from './sniff';
+import { type ParsedMedia } from './types';
+
+const channelLayouts: Record<number, string> = {
+  1: 'mono',
+  2: 'stereo',
+  3: '2.1',
+  4: 'quad',
+  6: '5.1',
+  8: '7.1'
+};
+
+export const channelLayout = (channels: number | null): string | null => {
+  return channels ? channelLayouts[channels] ?? `${channels} channels` : null;
+};
+
+// Read container, duration and track details from a file's headers without
+// decoding any media. Returns null when the file is not a container we can
+// parse or its headers are unreadable.
+export const probeMedia = async (source: ByteSource): Promise<MediaInfo | null> => {
+  const container = sniffContainer(await source.read(0, SNIFF_BYTES));
+  if (!container) {
+    return null;
+  }
+
+  let parsed: ParsedMedia | null;
+  switch (container) {
+    case 'mp4':
+    case 'mov':
+      parsed = await parseMp4(source);
+      break;
+    case 'mkv':
+    case 'webm':
+      parsed = await parseEbml(source);
+      break;
+    case 'avi':
+      parsed = await parseAvi(source);
+      break;
+  }
+
+  if (!parsed) {
+    return null;
+  }
+
+  return {
+    container,
+    duration_ms: parsed.duration_ms,
+    video: parsed.video,
+    audio_tracks: parsed.audio_tracks.map(track => ({ ...track, channel_layout: channelLayout(track.channels) }))
+  };
+};
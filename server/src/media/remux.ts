@@ -0,0 +1,106 @@
+import { demuxEbml } from './ebml';
+import { encodeFlacFrames, FLAC_BLOCK_SIZE, flacStreamInfo } from './flac';
+import { demuxMp4 } from './mp4';
+import { sniffContainer, SNIFF_BYTES } from './sniff';
+import { type MediaFrame, type MediaTrack } from './types';
+import { decodeWav, type PcmAudio } from './wav';
+
+// Building blocks for remuxing: the tracks of a source file, and tracks made
+// from decoded audio or subtitle cues, ready for writeMatroska
+
+type TrackLabel = Pick<MediaTrack, 'language' | 'language_bcp47' | 'name' | 'default'>;
+
+// PCM goes into blocks of this length
+const PCM_BLOCK_MS = 100;
+
+// Every track of a source file with its frames. Matroska, WebM, MP4 and MOV
+// are copied as they are and 16-bit WAV becomes a PCM track. Null for AVI,
+// fragmented MP4 and codecs Matroska cannot carry.
+export const demux = (buffer: Buffer): MediaTrack[] | null => {
+  switch (sniffContainer(buffer.subarray(0, SNIFF_BYTES))) {
+    case 'mkv':
+    case 'webm':
+      return demuxEbml(buffer);
+    case 'mp4':
+    case 'mov':
+      return demuxMp4(buffer);
+    case 'avi':
+      return null;
+    default: {
+      const pcm = decodeWav(buffer);
+      return pcm ? [pcmTrack(pcm, { language: null, name: null, default: true })] : null;
+    }
+  }
+};
+
+// 16-bit PCM as an A_PCM/INT/LIT track
+export const pcmTrack = (audio: PcmAudio, label: TrackLabel): MediaTrack => {
+  const framesPerBlock = Math.max(1, Math.round((audio.sample_rate * PCM_BLOCK_MS) / 1000));
+  const samplesPerBlock = framesPerBlock * audio.channels;
+
+  const frames: MediaFrame[] = [];
+  for (let start = 0; start < audio.samples.length; start += samplesPerBlock) {
+    const samples = audio.samples.subarray(start, start + samplesPerBlock);
+    const data = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, i) => data.writeInt16LE(sample, i * 2));
+    frames.push({ time_ms: (start / audio.channels / audio.sample_rate) * 1000, keyframe: true, data });
+  }
+
+  return {
+    type: 'audio',
+    codec_id: 'A_PCM/INT/LIT',
+    codec_private: null,
+    ...label,
+    frame_duration_ns: null,
+    audio: { sample_rate: audio.sample_rate, channels: audio.channels, bit_depth: 16 },
+    frames
+  };
+};
+
+// 16-bit PCM as an uncompressed A_FLAC track, for players without PCM support
+export const flacTrack = (audio: PcmAudio, label: TrackLabel): MediaTrack => {
+  const totalSamples = Math.floor(audio.samples.length / audio.channels);
+  return {
+    type: 'audio',
+    codec_id: 'A_FLAC',
+    codec_private: Buffer.concat([Buffer.from('fLaC', 'latin1'), flacStreamInfo(audio, totalSamples)]),
+    ...label,
+    frame_duration_ns: null,
+    audio: { sample_rate: audio.sample_rate, channels: audio.channels, bit_depth: 16 },
+    frames: encodeFlacFrames(audio).map((data, index) => ({
+      time_ms: ((index * FLAC_BLOCK_SIZE) / audio.sample_rate) * 1000,
+      keyframe: true,
+      data
+    }))
+  };
+};
+
+// The samples of a 16-bit PCM track, or null for any other codec
+export const trackPcm = (track: MediaTrack): PcmAudio | null => {
+  const bigEndian = track.codec_id === 'A_PCM/INT/BIG';
+  if ((track.codec_id !== 'A_PCM/INT/LIT' && !bigEndian) || track.audio?.bit_depth !== 16) {
+    return null;
+  }
+
+  const data = Buffer.concat(track.frames.map(frame => frame.data));
+  const samples = new Int16Array(Math.floor(data.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = bigEndian ? data.readInt16BE(i * 2) : data.readInt16LE(i * 2);
+  }
+  return { samples, sample_rate: track.audio.sample_rate, channels: track.audio.channels };
+};
+
+// Subtitle cues as a plain UTF-8 text track, one block per cue
+export const textTrack = (cues: { start_ms: number; end_ms: number; text: string }[], label: TrackLabel): MediaTrack => ({
+  type: 'subtitle',
+  codec_id: 'S_TEXT/UTF8',
+  codec_private: null,
+  ...label,
+  frame_duration_ns: null,
+  frames: cues.map(cue => ({
+    time_ms: cue.start_ms,
+    duration_ms: Math.max(0, cue.end_ms - cue.start_ms),
+    keyframe: true,
+    data: Buffer.from(cue.text, 'utf8')
+  }))
+});
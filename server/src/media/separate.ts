@@ -0,0 +1,97 @@
+import { fft } from './fft';
+import { type PlanarAudio } from './wav';
+
+export interface Stems {
+  speech: PlanarAudio;
+  // Music and effects: the input minus the speech
+  background: PlanarAudio;
+}
+
+// 5.1 in WAV channel order: FL, FR, FC, LFE, BL, BR
+const CENTER_CHANNEL = 2;
+const SURROUND_CHANNELS = 6;
+
+// Share of a frequency that may belong to speech: the voice band from 200 Hz
+// to 4 kHz, fading out an octave either side
+const voiceBand = (hz: number): number => {
+  if (hz <= 100 || hz >= 8000) return 0;
+  if (hz < 200) return (hz - 100) / 100;
+  if (hz > 4000) return (8000 - hz) / 4000;
+  return 1;
+};
+
+// Split audio into speech and background on the CPU, without a model:
+// - 5.1: the center channel is the dialog channel
+// - stereo: dialog is mixed to the center, so the voice-band content both
+//   channels share (same level and phase) is taken as speech
+// - mono: the voice band is taken as speech
+// Spectra are taken over ~40 ms frames with 50% overlapping sqrt-Hann
+// windows, which reconstruct the input exactly where nothing is masked.
+export const separateStems = (audio: PlanarAudio): Stems => {
+  const { planes, sample_rate } = audio;
+  const frames = planes[0]?.length ?? 0;
+
+  if (planes.length === SURROUND_CHANNELS) {
+    return {
+      speech: { sample_rate, planes: planes.map((plane, channel) => (channel === CENTER_CHANNEL ? plane.slice() : new Float32Array(frames))) },
+      background: { sample_rate, planes: planes.map((plane, channel) => (channel === CENTER_CHANNEL ? new Float32Array(frames) : plane.slice())) }
+    };
+  }
+
+  const size = 2 ** Math.round(Math.log2(sample_rate * 0.04));
+  const hop = size / 2;
+  const window = Float64Array.from({ length: size }, (_, i) => Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size)));
+  const bins = size / 2 + 1;
+  const band = Float64Array.from({ length: bins }, (_, bin) => voiceBand((bin * sample_rate) / size));
+  const stereo = planes.length === 2;
+
+  const speech = planes.map(() => new Float32Array(frames));
+  const spectra = planes.map(() => ({ re: new Float64Array(size), im: new Float64Array(size) }));
+  const mask = new Float64Array(bins);
+
+  for (let start = -hop; start < frames; start += hop) {
+    spectra.forEach((spectrum, channel) => {
+      spectrum.im.fill(0);
+      for (let i = 0; i < size; i++) {
+        const at = start + i;
+        spectrum.re[i] = at >= 0 && at < frames ? planes[channel][at] * window[i] : 0;
+      }
+      fft(spectrum.re, spectrum.im);
+    });
+
+    for (let bin = 0; bin < bins; bin++) {
+      if (!stereo) {
+        mask[bin] = band[bin];
+        continue;
+      }
+      // 1 where both channels carry the same signal, falling towards 0 as
+      // they differ in level or phase (the real part of L times conj(R))
+      const [left, right] = spectra;
+      const cross = left.re[bin] * right.re[bin] + left.im[bin] * right.im[bin];
+      const power = left.re[bin] ** 2 + left.im[bin] ** 2 + right.re[bin] ** 2 + right.im[bin] ** 2;
+      const similarity = power > 1e-12 ? Math.max(0, (2 * cross) / power) : 0;
+      mask[bin] = band[bin] * similarity ** 4;
+    }
+
+    spectra.forEach((spectrum, channel) => {
+      for (let bin = 0; bin < size; bin++) {
+        const share = mask[bin < bins ? bin : size - bin];
+        spectrum.re[bin] *= share;
+        spectrum.im[bin] *= share;
+      }
+      fft(spectrum.re, spectrum.im, true);
+      for (let i = 0; i < size; i++) {
+        const at = start + i;
+        if (at >= 0 && at < frames) speech[channel][at] += spectrum.re[i] * window[i];
+      }
+    });
+  }
+
+  return {
+    speech: { sample_rate, planes: speech },
+    background: {
+      sample_rate,
+      planes: planes.map((plane, channel) => plane.map((sample, i) => sample - speech[channel][i]))
+    }
+  };
+};
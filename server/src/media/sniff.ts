@@ -0,0 +1,59 @@
+import { type VideoContainer } from '../schema';
+
+// Bytes of the file start that sniffContainer needs to look at
+export const SNIFF_BYTES = 4096;
+
+// QuickTime atoms that may open a .mov written before the ftyp atom existed
+const LEGACY_QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+// ISO BMFF brands used by audio-only files
+const AUDIO_BRANDS = ['M4A ', 'M4B ', 'M4P '];
+
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+const EBML_DOCTYPE_ID = Buffer.from([0x42, 0x82]);
+
+// Read the EBML DocType ("webm" or "matroska") from the header element
+const ebmlDocType = (header: Buffer): string | null => {
+  const at = header.indexOf(EBML_DOCTYPE_ID, 4);
+  if (at === -1 || at + 3 > header.length) {
+    return null;
+  }
+
+  // One-byte size vint (0x80 | length) is what every muxer writes here
+  const size = header[at + 2];
+  if ((size & 0x80) === 0) {
+    return null;
+  }
+  const length = size & 0x7f;
+  return header.subarray(at + 3, at + 3 + length).toString('ascii');
+};
+
+// Identify the container from the first bytes of a file, or null when it is
+// not a video container we know
+export const sniffContainer = (header: Buffer): VideoContainer | null => {
+  if (header.length >= 12) {
+    const box = header.toString('ascii', 4, 8);
+
+    if (box === 'ftyp') {
+      const brand = header.toString('ascii', 8, 12);
+      if (brand === 'qt  ') return 'mov';
+      if (AUDIO_BRANDS.includes(brand)) return null;
+      return 'mp4';
+    }
+    if (LEGACY_QUICKTIME_ATOMS.includes(box)) {
+      return 'mov';
+    }
+
+    if (header.toString('ascii', 0, 4) === 'RIFF' && header.toString('ascii', 8, 12) === 'AVI ') {
+      return 'avi';
+    }
+  }
+
+  if (header.length >= 4 && header.subarray(0, 4).equals(EBML_MAGIC)) {
+    const docType = ebmlDocType(header);
+    if (docType === 'webm') return 'webm';
+    if (docType === 'matroska') return 'mkv';
+  }
+
+  return null;
+};
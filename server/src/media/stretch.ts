@@ -0,0 +1,92 @@
+import { type PcmAudio } from './wav';
+
+// Samples quieter than this (about -40 dBFS) count as silence
+const SILENCE_THRESHOLD = 328;
+// Analysis frame of the time stretcher; long enough to hold a few pitch periods
+const FRAME_MS = 30;
+
+// Drop the silence before the first and after the last audible sample frame
+export const trimSilence = (audio: PcmAudio, threshold = SILENCE_THRESHOLD): PcmAudio => {
+  const { samples, channels } = audio;
+  const frames = Math.floor(samples.length / channels);
+  const audible = (frame: number) => {
+    for (let channel = 0; channel < channels; channel++) {
+      if (Math.abs(samples[frame * channels + channel]) > threshold) return true;
+    }
+    return false;
+  };
+
+  let first = 0;
+  while (first < frames && !audible(first)) first++;
+  let last = frames - 1;
+  while (last >= first && !audible(last)) last--;
+
+  return { ...audio, samples: samples.slice(first * channels, (last + 1) * channels) };
+};
+
+// Make speech `rate` times faster without changing its pitch (WSOLA: frames
+// are overlap-added at a fixed hop, each taken from where it best continues
+// the previous one near its nominal position in the input)
+export const timeStretch = (audio: PcmAudio, rate: number): PcmAudio => {
+  const { samples, sample_rate, channels } = audio;
+  const frames = Math.floor(samples.length / channels);
+  const frameLength = Math.round((sample_rate * FRAME_MS) / 1000);
+  if (rate === 1 || frames <= frameLength * 2) {
+    return audio;
+  }
+
+  const synthesisHop = Math.floor(frameLength / 2);
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.floor(frameLength / 4);
+  const outputFrames = Math.round(frames / rate);
+  const lastStart = frames - frameLength;
+
+  // Alignment is searched on the channel average
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) sum += samples[frame * channels + channel];
+    mono[frame] = sum / channels;
+  }
+  const window = Float32Array.from({ length: frameLength }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength));
+
+  const output = new Float64Array((outputFrames + frameLength) * channels);
+  const weight = new Float64Array(outputFrames + frameLength);
+  let previous = 0;
+  for (let hop = 0; hop * synthesisHop < outputFrames; hop++) {
+    const nominal = Math.min(lastStart, Math.round(hop * analysisHop));
+    let position = nominal;
+
+    if (hop > 0) {
+      const natural = Math.min(lastStart, previous + synthesisHop);
+      let best = -Infinity;
+      for (let candidate = Math.max(0, nominal - tolerance); candidate <= Math.min(lastStart, nominal + tolerance); candidate++) {
+        let correlation = 0;
+        for (let i = 0; i < frameLength; i += 2) correlation += mono[candidate + i] * mono[natural + i];
+        if (correlation > best) {
+          best = correlation;
+          position = candidate;
+        }
+      }
+    }
+
+    const offset = hop * synthesisHop;
+    for (let i = 0; i < frameLength; i++) {
+      weight[offset + i] += window[i];
+      for (let channel = 0; channel < channels; channel++) {
+        output[(offset + i) * channels + channel] += samples[(position + i) * channels + channel] * window[i];
+      }
+    }
+    previous = position;
+  }
+
+  const stretched = new Int16Array(outputFrames * channels);
+  for (let frame = 0; frame < outputFrames; frame++) {
+    const norm = weight[frame] > 1e-3 ? weight[frame] : 1;
+    for (let channel = 0; channel < channels; channel++) {
+      const value = Math.round(output[frame * channels + channel] / norm);
+      stretched[frame * channels + channel] = Math.max(-32768, Math.min(32767, value));
+    }
+  }
+  return { samples: stretched, sample_rate, channels };
+};
@@ -0,0 +1,41 @@
+import { type AudioTrackInfo, type MediaInfo } from '../schema';
+
+// What a container parser extracts; the probe adds the container name and
+// derives channel layouts
+export interface ParsedMedia {
+  duration_ms: number | null;
+  video: MediaInfo['video'];
+  audio_tracks: Omit<AudioTrackInfo, 'channel_layout'>[];
+}
+
+// One frame (or laced group of frames) of a track being remuxed
+export interface MediaFrame {
+  time_ms: number; // Presentation time; video frames come in decode order
+  keyframe: boolean;
+  // Matroska lacing bits of a copied block; the lace headers are then part of data
+  lacing?: number;
+  // Only for frames that do not last until the next one, like subtitle cues
+  duration_ms?: number;
+  data: Buffer;
+}
+
+// A track as the Matroska writer takes it: codec setup in Matroska terms
+// plus the encoded frames, which are copied and never decoded
+export interface MediaTrack {
+  type: 'video' | 'audio' | 'subtitle';
+  codec_id: string; // Matroska codec ID, e.g. V_MPEG4/ISO/AVC
+  codec_private: Buffer | null;
+  language: string | null; // ISO 639-2
+  language_bcp47?: string;
+  name: string | null;
+  default: boolean;
+  frame_duration_ns: number | null;
+  codec_delay_ns?: number;
+  seek_pre_roll_ns?: number;
+  // Payload of a ContentEncodings element copied from a Matroska source
+  // (header stripping)
+  content_encodings?: Buffer;
+  video?: { width: number; height: number; display_width?: number; display_height?: number };
+  audio?: { sample_rate: number; channels: number; bit_depth: number | null };
+  frames: MediaFrame[];
+}
@@ -0,0 +1,64 @@
+import { type MediaInfo, type UploadPolicy, type VideoContainer, videoContainerSchema } from '../schema';
+import {
+  FileTooLargeError,
+  InvalidFilenameError,
+  NoAudioTrackError,
+  UnreadableMediaError,
+  UnsupportedMediaTypeError
+} from '../errors';
+import { sanitizeFilename } from '../storage/paths';
+import { type ByteSource } from './byte_source';
+import { probeMedia } from './probe';
+import { sniffContainer } from './sniff';
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+
+// UPLOAD_MAX_SIZE_BYTES caps the file size (2 GiB by default);
+// UPLOAD_ALLOWED_CONTAINERS is a comma-separated allowlist, e.g. "mp4,webm"
+export const loadUploadPolicy = (env: NodeJS.ProcessEnv = process.env): UploadPolicy => {
+  const allowed = env['UPLOAD_ALLOWED_CONTAINERS']
+    ? env['UPLOAD_ALLOWED_CONTAINERS'].split(',').map(name => videoContainerSchema.parse(name.trim().toLowerCase()))
+    : [...videoContainerSchema.options];
+
+  return {
+    max_size_bytes: Number(env['UPLOAD_MAX_SIZE_BYTES'] || DEFAULT_MAX_UPLOAD_BYTES),
+    allowed_containers: allowed
+  };
+};
+
+// Sanitized form of a client-supplied filename
+export const assertFilename = (filename: string): string => {
+  const sanitized = sanitizeFilename(filename);
+  if (!sanitized) {
+    throw new InvalidFilenameError(filename);
+  }
+  return sanitized;
+};
+
+export const assertUploadSize = (size: number, policy: UploadPolicy = loadUploadPolicy()): void => {
+  if (size > policy.max_size_bytes) {
+    throw new FileTooLargeError(size, policy.max_size_bytes);
+  }
+};
+
+// Check the first bytes of a file against the allowlist, returning its container
+export const assertVideoContent = (header: Buffer, policy: UploadPolicy = loadUploadPolicy()): VideoContainer => {
+  const container = sniffContainer(header);
+  if (!container || !policy.allowed_containers.includes(container)) {
+    throw new UnsupportedMediaTypeError(container, policy.allowed_containers);
+  }
+  return container;
+};
+
+// Probe an accepted file, returning its media info. Files whose headers
+// cannot be parsed, or without any audio to translate, are refused.
+export const assertTranslatableMedia = async (source: ByteSource, container: VideoContainer): Promise<MediaInfo> => {
+  const info = await probeMedia(source);
+  if (!info) {
+    throw new UnreadableMediaError(container);
+  }
+  if (info.audio_tracks.length === 0) {
+    throw new NoAudioTrackError();
+  }
+  return info;
+};
@@ -0,0 +1,137 @@
+// Minimal PCM WAV (RIFF) encoding for 16-bit little-endian audio
+export const encodeWav = (samples: Int16Array, sampleRate: number, channels = 1): Buffer => {
+  const dataSize = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(channels, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * channels * 2, 28); // byte rate
+  buffer.writeUInt16LE(channels * 2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+
+  return buffer;
+};
+
+// Duration in milliseconds of a 16-bit PCM buffer
+export const pcmDurationMs = (sampleCount: number, sampleRate: number, channels = 1): number => {
+  return Math.round((sampleCount / channels / sampleRate) * 1000);
+};
+
+export interface PcmAudio {
+  samples: Int16Array;
+  sample_rate: number;
+  channels: number;
+}
+
+// Read a 16-bit PCM WAV file. Returns null for any other encoding.
+export const decodeWav = (buffer: Buffer): PcmAudio | null => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let format: { audio_format: number; channels: number; sample_rate: number; bits: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && size >= 16 && body + 16 <= buffer.length) {
+      format = {
+        audio_format: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sample_rate: buffer.readUInt32LE(body + 4),
+        bits: buffer.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      if (!format || format.audio_format !== 1 || format.bits !== 16 || format.channels === 0) {
+        return null;
+      }
+      const end = Math.min(buffer.length, body + size);
+      const samples = new Int16Array(Math.floor((end - body) / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = buffer.readInt16LE(body + i * 2);
+      }
+      return { samples, sample_rate: format.sample_rate, channels: format.channels };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+};
+
+// Lay clips out on a silent timeline at their start times, summing (and
+// clipping) where they overlap. The timeline is at least `durationMs` long.
+export const mixClips = (clips: { start_ms: number; audio: PcmAudio }[], durationMs: number): PcmAudio => {
+  const sampleRate = clips[0]?.audio.sample_rate ?? 16000;
+  const channels = clips[0]?.audio.channels ?? 1;
+  if (clips.some(clip => clip.audio.sample_rate !== sampleRate || clip.audio.channels !== channels)) {
+    throw new Error('Cannot mix audio clips with different sample rates or channel counts');
+  }
+
+  const offsetOf = (ms: number) => Math.round((ms * sampleRate) / 1000) * channels;
+  const length = Math.max(
+    offsetOf(durationMs),
+    ...clips.map(clip => offsetOf(clip.start_ms) + clip.audio.samples.length)
+  );
+
+  const mix = new Int32Array(length);
+  for (const clip of clips) {
+    const start = offsetOf(clip.start_ms);
+    clip.audio.samples.forEach((sample, i) => {
+      mix[start + i] += sample;
+    });
+  }
+
+  return {
+    samples: Int16Array.from(mix, sample => Math.max(-32768, Math.min(32767, sample))),
+    sample_rate: sampleRate,
+    channels
+  };
+};
+
+// Audio as one float array per channel, full scale at ±1. Used where audio is
+// filtered or mixed before it is quantized again.
+export interface PlanarAudio {
+  planes: Float32Array[];
+  sample_rate: number;
+}
+
+export const toPlanar = (audio: PcmAudio): PlanarAudio => {
+  const frames = Math.floor(audio.samples.length / audio.channels);
+  const planes = Array.from({ length: audio.channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < audio.channels; channel++) {
+      planes[channel][frame] = audio.samples[frame * audio.channels + channel] / 32768;
+    }
+  }
+  return { planes, sample_rate: audio.sample_rate };
+};
+
+// Interleave and quantize, clipping anything beyond full scale
+export const fromPlanar = (audio: PlanarAudio): PcmAudio => {
+  const channels = audio.planes.length;
+  const frames = audio.planes[0]?.length ?? 0;
+  const samples = new Int16Array(frames * channels);
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const value = Math.round(audio.planes[channel][frame] * 32768);
+      samples[frame * channels + channel] = Math.max(-32768, Math.min(32767, value));
+    }
+  }
+  return { samples, sample_rate: audio.sample_rate, channels };
+};
@@ -0,0 +1,51 @@
+// The memory key of a segment: recurring lines differ in case, spacing and
+// Unicode form more often than in wording
+export const normalizeSegment = (text: string): string => {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+// Levenshtein distance over code points, keeping only one row of the matrix.
+// Once every cell of a row exceeds `limit` the distance cannot come back
+// under it, so limit + 1 is returned without finishing the matrix.
+export const editDistance = (a: string, b: string, limit = Infinity): number => {
+  const left = [...a];
+  const right = [...b];
+  if (left.length < right.length) {
+    return editDistance(b, a, limit);
+  }
+
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+  return previous[right.length];
+};
+
+// Match percentage of two normalized segments: 100 minus the edit distance
+// as a share of the longer one. Pairs that cannot reach `threshold` stop
+// early and score below it.
+export const similarity = (a: string, b: string, threshold = 0): number => {
+  const length = Math.max([...a].length, [...b].length);
+  if (length === 0) {
+    return 100;
+  }
+  const limit = Math.ceil(length * (1 - threshold / 100));
+  return Math.max(0, Math.floor(100 * (1 - editDistance(a, b, limit) / length)));
+};
+
+// The shortest and longest candidate lengths that can still reach the
+// threshold against a segment of the given length
+export const candidateLengths = (length: number, threshold: number): { min: number; max: number } => {
+  const share = threshold / 100;
+  return { min: Math.ceil(length * share), max: Math.floor(length / share) };
+};
@@ -0,0 +1,194 @@
+import { and, asc, between, desc, eq, inArray, isNotNull, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable, translationMemoryTable } from '../db/schema';
+import { type SupportedLanguage, type TranslationMemoryEntry } from '../schema';
+import { candidateLengths, normalizeSegment, similarity } from './fuzzy';
+import { type TmxUnit } from './tmx';
+
+export interface MemoryConfig {
+  // Lowest match percentage offered as a fuzzy suggestion
+  fuzzy_threshold: number;
+}
+
+export const defaultMemoryConfig: MemoryConfig = { fuzzy_threshold: 75 };
+
+// TM_FUZZY_THRESHOLD sets the lowest fuzzy match (in percent) worth showing
+export const loadMemoryConfig = (env: NodeJS.ProcessEnv = process.env): MemoryConfig => {
+  const threshold = Number(env['TM_FUZZY_THRESHOLD']);
+  return {
+    fuzzy_threshold: env['TM_FUZZY_THRESHOLD'] && Number.isFinite(threshold)
+      ? Math.min(99, Math.max(1, Math.round(threshold)))
+      : defaultMemoryConfig.fuzzy_threshold
+  };
+};
+
+export interface MemoryMatch {
+  entry_id: number;
+  target_text: string;
+  // 100 for an exact match of the normalized source
+  score: number;
+}
+
+// Candidates fetched per fuzzy lookup, most recently updated first
+const MAX_FUZZY_CANDIDATES = 5000;
+// Edit distance cells computed per fuzzy lookup; segments left when it runs
+// out get no suggestion
+const MAX_FUZZY_WORK = 50_000_000;
+// Rows per insert statement when storing many units
+const BATCH_SIZE = 500;
+
+// Store translations, replacing what the memory held for the same
+// normalized source and language pair. Returns the number of rows written.
+export const rememberTranslations = async (units: TmxUnit[], jobId: number | null = null): Promise<number> => {
+  // One row per key; a later unit overrides an earlier one
+  const rows = new Map<string, TmxUnit & { normalized_source: string }>();
+  for (const unit of units) {
+    const normalized = normalizeSegment(unit.source_text);
+    if (!normalized || !unit.target_text.trim()) continue;
+    rows.set(`${unit.source_language}|${unit.target_language}|${normalized}`, { ...unit, normalized_source: normalized });
+  }
+
+  const values = [...rows.values()];
+  await db.transaction(async (tx) => {
+    for (let start = 0; start < values.length; start += BATCH_SIZE) {
+      await tx.insert(translationMemoryTable)
+        .values(values.slice(start, start + BATCH_SIZE).map(row => ({ ...row, job_id: jobId })))
+        .onConflictDoUpdate({
+          target: [
+            translationMemoryTable.source_language,
+            translationMemoryTable.target_language,
+            translationMemoryTable.normalized_source
+          ],
+          set: {
+            source_text: sql`excluded.source_text`,
+            target_text: sql`excluded.target_text`,
+            job_id: sql`excluded.job_id`,
+            updated_at: new Date()
+          }
+        })
+        .execute();
+    }
+  });
+  return values.length;
+};
+
+// Learn the translated segments of a job. Called when a job completes and
+// when a reviewer approves it, so corrections made in the editor are kept.
+export const rememberJob = async (jobId: number): Promise<number> => {
+  const jobs = await db.select()
+    .from(translationJobsTable)
+    .where(eq(translationJobsTable.id, jobId))
+    .execute();
+  const job = jobs[0];
+  if (!job?.detected_language) {
+    return 0;
+  }
+
+  const segments = await db.select()
+    .from(transcriptSegmentsTable)
+    .where(and(eq(transcriptSegmentsTable.job_id, jobId), isNotNull(transcriptSegmentsTable.translated_text)))
+    .orderBy(asc(transcriptSegmentsTable.index))
+    .execute();
+
+  return rememberTranslations(segments.map(segment => ({
+    source_language: job.detected_language!,
+    target_language: job.target_language,
+    source_text: segment.source_text,
+    target_text: segment.translated_text!
+  })), jobId);
+};
+
+// The best memory match for each text, or null where nothing reaches the
+// fuzzy threshold. Exact matches are found by key. For the rest, remembered
+// segments of a length that can reach the threshold are fetched in one query
+// for all texts, and compared until the work budget runs out.
+export const lookupMemory = async (
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  texts: string[],
+  config: MemoryConfig = defaultMemoryConfig
+): Promise<(MemoryMatch | null)[]> => {
+  const pair = and(
+    eq(translationMemoryTable.source_language, sourceLanguage),
+    eq(translationMemoryTable.target_language, targetLanguage)
+  );
+  const normalized = texts.map(normalizeSegment);
+
+  const exact = normalized.length === 0 ? [] : await db.select()
+    .from(translationMemoryTable)
+    .where(and(pair, inArray(translationMemoryTable.normalized_source, [...new Set(normalized)])))
+    .execute();
+  const byKey = new Map<string, MemoryMatch | null>(exact.map(entry => [
+    entry.normalized_source,
+    { entry_id: entry.id, target_text: entry.target_text, score: 100 }
+  ]));
+
+  const misses = [...new Set(normalized.filter(key => !byKey.has(key)))].map(key => ({
+    key,
+    ...candidateLengths([...key].length, config.fuzzy_threshold)
+  }));
+  if (misses.length > 0) {
+    const candidates = await db.select({
+      id: translationMemoryTable.id,
+      normalized_source: translationMemoryTable.normalized_source,
+      target_text: translationMemoryTable.target_text,
+      length: sql<number>`char_length(${translationMemoryTable.normalized_source})`
+    })
+      .from(translationMemoryTable)
+      .where(and(pair, or(...misses.map(({ min, max }) => between(sql`char_length(${translationMemoryTable.normalized_source})`, min, max)))))
+      .orderBy(desc(translationMemoryTable.updated_at))
+      .limit(MAX_FUZZY_CANDIDATES)
+      .execute();
+
+    let budget = MAX_FUZZY_WORK;
+    for (const { key, min, max } of misses) {
+      let best: MemoryMatch | null = null;
+      const length = [...key].length;
+      for (const candidate of candidates) {
+        if (candidate.length < min || candidate.length > max) continue;
+        budget -= length * candidate.length;
+        if (budget < 0) break;
+        const score = similarity(key, candidate.normalized_source, config.fuzzy_threshold);
+        if (score >= config.fuzzy_threshold && (!best || score > best.score)) {
+          best = { entry_id: candidate.id, target_text: candidate.target_text, score };
+        }
+      }
+      if (budget < 0) {
+        console.warn(`Translation memory lookup stopped after ${MAX_FUZZY_WORK} comparisons; ${misses.length} segments had no exact match`);
+        break;
+      }
+      byKey.set(key, best);
+    }
+  }
+
+  return normalized.map(key => byKey.get(key) ?? null);
+};
+
+export const memoryEntries = async (filter: {
+  source_language?: SupportedLanguage;
+  target_language?: SupportedLanguage;
+}): Promise<TranslationMemoryEntry[]> => {
+  const conditions = [
+    filter.source_language ? eq(translationMemoryTable.source_language, filter.source_language) : undefined,
+    filter.target_language ? eq(translationMemoryTable.target_language, filter.target_language) : undefined
+  ];
+
+  return db.select({
+    id: translationMemoryTable.id,
+    source_language: translationMemoryTable.source_language,
+    target_language: translationMemoryTable.target_language,
+    source_text: translationMemoryTable.source_text,
+    target_text: translationMemoryTable.target_text,
+    job_id: translationMemoryTable.job_id,
+    created_at: translationMemoryTable.created_at,
+    updated_at: translationMemoryTable.updated_at
+  })
+    .from(translationMemoryTable)
+    .where(and(...conditions))
+    .orderBy(
+      asc(translationMemoryTable.source_language),
+      asc(translationMemoryTable.target_language),
+      asc(translationMemoryTable.id)
+    )
+    .execute();
+};
@@ -0,0 +1,131 @@
+import { type SupportedLanguage, supportedLanguagesSchema } from '../schema';
+import { InvalidTmxError } from '../errors';
+
+// One source/target pair read from or written to a TMX file
+export interface TmxUnit {
+  source_language: SupportedLanguage;
+  target_language: SupportedLanguage;
+  source_text: string;
+  target_text: string;
+}
+
+export interface TmxParseResult {
+  units: TmxUnit[];
+  // Translation units that yielded no pair: unsupported languages or no text
+  skipped: number;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name] ?? entity;
+  });
+};
+
+const escapeXml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const attribute = (attributes: string, name: string): string | null => {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(attributes);
+  return match ? decodeEntities(match[2] ?? match[3]) : null;
+};
+
+// Map a tag such as "en-US" to a supported language
+const supportedLanguage = (tag: string | null): SupportedLanguage | null => {
+  const parsed = supportedLanguagesSchema.safeParse(tag?.split(/[-_]/)[0].toLowerCase());
+  return parsed.success ? parsed.data : null;
+};
+
+// The plain text of a <seg>. Inline codes (<bpt>, <ept>, <it>, <ph>) hold
+// markup of the original document and are dropped; other inline elements
+// keep their text.
+const segText = (seg: string): string => {
+  const withoutCodes = seg
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escapeXml(data))
+    .replace(/<(bpt|ept|it|ph)\b[^>]*>[\s\S]*?<\/\1>/g, '')
+    .replace(/<(bpt|ept|it|ph)\b[^>]*\/>/g, '')
+    .replace(/<[^>]+>/g, '');
+  return decodeEntities(withoutCodes).replace(/\s+/g, ' ').trim();
+};
+
+// Read the translation units of a TMX 1.4 document. Every variant in the
+// source language (the unit's srclang, else the header's) is paired with
+// each other variant; with srclang="*all*" every ordered pair is used.
+export const parseTmx = (content: string): TmxParseResult => {
+  if (!/<tmx\b/.test(content)) {
+    throw new InvalidTmxError('no <tmx> element');
+  }
+  const header = /<header\b([^>]*)>/.exec(content);
+  const headerSource = header ? attribute(header[1], 'srclang') : null;
+  const body = /<body\b[^>]*>([\s\S]*?)<\/body>/.exec(content);
+  if (!body) {
+    throw new InvalidTmxError('no <body> element');
+  }
+
+  const units: TmxUnit[] = [];
+  let skipped = 0;
+  for (const tu of body[1].matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+    const sourceTag = attribute(tu[1], 'srclang') ?? headerSource;
+    const variants = [...tu[2].matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/g)].map(tuv => {
+      const tag = attribute(tuv[1], 'xml:lang') ?? attribute(tuv[1], 'lang');
+      const seg = /<seg\b[^>]*>([\s\S]*?)<\/seg>/.exec(tuv[2]);
+      return { tag, language: supportedLanguage(tag), text: seg ? segText(seg[1]) : '' };
+    }).filter(variant => variant.language !== null && variant.text !== '');
+
+    const anySource = !sourceTag || sourceTag === '*all*';
+    const sourceLanguage = anySource ? null : supportedLanguage(sourceTag);
+    const pairs: TmxUnit[] = [];
+    for (const source of variants) {
+      if (!anySource && source.language !== sourceLanguage) continue;
+      for (const target of variants) {
+        if (target.language === source.language) continue;
+        pairs.push({
+          source_language: source.language!,
+          target_language: target.language!,
+          source_text: source.text,
+          target_text: target.text
+        });
+      }
+    }
+
+    if (pairs.length === 0) {
+      skipped++;
+    }
+    units.push(...pairs);
+  }
+
+  return { units, skipped };
+};
+
+// "20240131T120000Z", the TMX date format
+const tmxDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Write units as a TMX 1.4 document, one translation unit per pair
+export const renderTmx = (units: (TmxUnit & { updated_at: Date })[]): string => {
+  const sourceLanguages = new Set(units.map(unit => unit.source_language));
+  const srclang = sourceLanguages.size === 1 ? [...sourceLanguages][0] : '*all*';
+
+  const body = units.map(unit => [
+    `    <tu srclang="${unit.source_language}" changedate="${tmxDate(unit.updated_at)}">`,
+    `      <tuv xml:lang="${unit.source_language}"><seg>${escapeXml(unit.source_text)}</seg></tuv>`,
+    `      <tuv xml:lang="${unit.target_language}"><seg>${escapeXml(unit.target_text)}</seg></tuv>`,
+    '    </tu>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="video-dubber" creationtoolversion="1.0" segtype="sentence" o-tmf="video-dubber" adminlang="en" srclang="${srclang}" datatype="plaintext"/>`,
+    '  <body>',
+    ...body,
+    '  </body>',
+    '</tmx>',
+    ''
+  ].join('\n');
+};
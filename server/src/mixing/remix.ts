@@ -0,0 +1,169 @@
+import { normalizeLoudness } from '../media/loudness';
+import { type PlanarAudio } from '../media/wav';
+
+export const CHANNEL_LAYOUTS = ['mono', 'stereo', '5.1'] as const;
+
+export type ChannelLayout = typeof CHANNEL_LAYOUTS[number];
+
+export interface MixConfig {
+  // How far the background is turned down while someone speaks, in dB
+  ducking_db: number;
+  // Integrated loudness of the finished mix; EBU R128 asks for -23 LUFS
+  loudness_lufs: number;
+  channel_layout: ChannelLayout;
+}
+
+export const defaultMixConfig: MixConfig = { ducking_db: 12, loudness_lufs: -23, channel_layout: 'stereo' };
+
+// AUDIO_DUCKING_DB (0-40), AUDIO_LOUDNESS_LUFS (-40 to -5) and
+// AUDIO_CHANNEL_LAYOUT (mono, stereo or 5.1) shape the dubbed track
+export const loadMixConfig = (env: NodeJS.ProcessEnv = process.env): MixConfig => {
+  const ducking = Number(env['AUDIO_DUCKING_DB']);
+  const loudness = Number(env['AUDIO_LOUDNESS_LUFS']);
+  const layout = CHANNEL_LAYOUTS.find(option => option === env['AUDIO_CHANNEL_LAYOUT']);
+  return {
+    ducking_db: env['AUDIO_DUCKING_DB'] && Number.isFinite(ducking)
+      ? Math.min(40, Math.max(0, ducking))
+      : defaultMixConfig.ducking_db,
+    loudness_lufs: env['AUDIO_LOUDNESS_LUFS'] && Number.isFinite(loudness)
+      ? Math.min(-5, Math.max(-40, loudness))
+      : defaultMixConfig.loudness_lufs,
+    channel_layout: layout ?? defaultMixConfig.channel_layout
+  };
+};
+
+// Dialog louder than this (about -45 dBFS RMS over 10 ms) ducks the background
+const DIALOG_THRESHOLD = 0.0056;
+const ENVELOPE_MS = 10;
+// The background starts fading this long before speech and takes this long
+// to come back after it
+const ATTACK_MS = 50;
+const RELEASE_MS = 400;
+// -3 dB, keeping a centered signal as loud in stereo as in mono
+const PAN_CENTER = Math.SQRT1_2;
+// Surround channels carry the background 6 dB down
+const SURROUND_LEVEL = 0.5;
+
+// Linear interpolation to another sample rate; enough for speech
+export const resample = (audio: PlanarAudio, sampleRate: number): PlanarAudio => {
+  if (audio.sample_rate === sampleRate) {
+    return audio;
+  }
+  const ratio = audio.sample_rate / sampleRate;
+  return {
+    sample_rate: sampleRate,
+    planes: audio.planes.map(plane => {
+      const length = Math.round(plane.length / ratio);
+      return Float32Array.from({ length }, (_, i) => {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = plane[Math.min(plane.length - 1, index + 1)] ?? 0;
+        return (plane[index] ?? 0) + (next - (plane[index] ?? 0)) * (position - index);
+      });
+    })
+  };
+};
+
+const downmix = (planes: Float32Array[]): Float32Array => {
+  const length = planes[0]?.length ?? 0;
+  return Float32Array.from({ length }, (_, i) => planes.reduce((sum, plane) => sum + plane[i], 0) / planes.length);
+};
+
+// The background as a left/right pair. 5.1 surrounds are folded into the
+// front at -3 dB; other layouts keep their first two channels.
+const stereoBed = (planes: Float32Array[]): [Float32Array, Float32Array] => {
+  if (planes.length === 1) {
+    return [planes[0], planes[0]];
+  }
+  if (planes.length === 6) {
+    const fold = (front: Float32Array, back: Float32Array) => front.map((sample, i) => sample + back[i] * PAN_CENTER);
+    return [fold(planes[0], planes[4]), fold(planes[1], planes[5])];
+  }
+  return [planes[0], planes[1]];
+};
+
+// Gain on the background for every sample: 1, or the ducking level while
+// the dialog is audible, with ramps in between. The ramp down starts early
+// enough to be complete when speech begins.
+export const duckingGains = (dialog: Float32Array, sampleRate: number, duckingDb: number): Float32Array => {
+  const gains = new Float32Array(dialog.length).fill(1);
+  if (duckingDb <= 0 || dialog.length === 0) {
+    return gains;
+  }
+
+  const window = Math.max(1, Math.round((sampleRate * ENVELOPE_MS) / 1000));
+  const blocks = Math.ceil(dialog.length / window);
+  const active = Array.from({ length: blocks }, (_, block) => {
+    let sum = 0;
+    const end = Math.min(dialog.length, (block + 1) * window);
+    for (let i = block * window; i < end; i++) sum += dialog[i] * dialog[i];
+    return Math.sqrt(sum / (end - block * window)) > DIALOG_THRESHOLD;
+  });
+
+  const floor = Math.pow(10, -duckingDb / 20);
+  const lookahead = Math.ceil(ATTACK_MS / ENVELOPE_MS);
+  const attackStep = (1 - floor) / lookahead;
+  const releaseStep = (1 - floor) / Math.ceil(RELEASE_MS / ENVELOPE_MS);
+
+  let level = 1;
+  let previous = 1;
+  for (let block = 0; block < blocks; block++) {
+    const speechAhead = active.slice(block, block + lookahead + 1).some(Boolean);
+    level = speechAhead ? Math.max(floor, level - attackStep) : Math.min(1, level + releaseStep);
+    // Interpolated across the block so the gain has no steps
+    const start = block * window;
+    const end = Math.min(dialog.length, start + window);
+    for (let i = start; i < end; i++) {
+      gains[i] = previous + ((level - previous) * (i - start + 1)) / (end - start);
+    }
+    previous = level;
+  }
+  return gains;
+};
+
+// Lay the dubbed dialog over the background kept from the original, ducking
+// the background under speech, in the configured channel layout and at the
+// configured loudness. Without a background the dialog is mixed alone. The
+// result has the background's sample rate, or the dialog's without one.
+export const remix = (
+  dialog: PlanarAudio,
+  background: PlanarAudio | null,
+  config: MixConfig = defaultMixConfig
+): { audio: PlanarAudio; gain_db: number } => {
+  const sampleRate = background?.sample_rate ?? dialog.sample_rate;
+  const voice = downmix(resample(dialog, sampleRate).planes);
+
+  const [left, right] = background ? stereoBed(background.planes) : [null, null];
+
+  const length = Math.max(voice.length, left?.length ?? 0);
+  const gains = duckingGains(voice, sampleRate, config.ducking_db);
+  const at = (plane: Float32Array | null, i: number) => (plane && i < plane.length ? plane[i] : 0);
+  const speech = (i: number) => (i < voice.length ? voice[i] : 0);
+  const ducked = (plane: Float32Array | null, i: number) => at(plane, i) * (i < gains.length ? gains[i] : 1);
+
+  const channels = { mono: 1, stereo: 2, '5.1': 6 }[config.channel_layout];
+  const planes = Array.from({ length: channels }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    const bedLeft = ducked(left, i);
+    const bedRight = ducked(right, i);
+    switch (config.channel_layout) {
+      case 'mono':
+        planes[0][i] = speech(i) + (bedLeft + bedRight) / 2;
+        break;
+      case 'stereo':
+        planes[0][i] = speech(i) * PAN_CENTER + bedLeft;
+        planes[1][i] = speech(i) * PAN_CENTER + bedRight;
+        break;
+      case '5.1':
+        // FL, FR, FC, LFE, BL, BR: dialog in the center channel
+        planes[0][i] = bedLeft;
+        planes[1][i] = bedRight;
+        planes[2][i] = speech(i);
+        planes[4][i] = bedLeft * SURROUND_LEVEL;
+        planes[5][i] = bedRight * SURROUND_LEVEL;
+        break;
+    }
+  }
+
+  return normalizeLoudness({ planes, sample_rate: sampleRate }, config.loudness_lufs);
+};
@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { jobStagesTable, translationJobsTable } from '../db/schema';
+import { type TranslationJob } from '../schema';
+import { LeaseLostError } from '../errors';
+import { and, eq } from 'drizzle-orm';
+
+// A worker holds the jobs it runs on a lease that it renews with a heartbeat.
+// Once a lease has run out the worker is taken to have died: its processing
+// job can be claimed again and stages it left running count as stopped.
+// Every claim gets a new token, and the worker's writes for the job only
+// apply while the job still carries its token, so a worker that was only
+// slow cannot overwrite the work of the one that took the job over.
+
+export interface JobLease {
+  job_id: number;
+  token: string;
+}
+
+// A job as claimed by a worker
+export type LeasedJob = TranslationJob & { lease_token: string };
+
+export const newLeaseToken = (): string => randomUUID();
+
+export const leaseOf = (job: LeasedJob): JobLease => ({ job_id: job.id, token: job.lease_token });
+
+const leaseHeld = (lease: JobLease) => and(
+  eq(translationJobsTable.id, lease.job_id),
+  eq(translationJobsTable.lease_token, lease.token)
+);
+
+// Lock the job's row for the rest of the transaction if the lease is still
+// held, so that it cannot be claimed again before the transaction's writes
+// are in. Throws LeaseLostError otherwise.
+export const holdLease = async (executor: Pick<typeof db, 'select'>, lease: JobLease): Promise<void> => {
+  const rows = await executor.select({ id: translationJobsTable.id })
+    .from(translationJobsTable)
+    .where(leaseHeld(lease))
+    .for('update')
+    .execute();
+
+  if (rows.length === 0) {
+    throw new LeaseLostError(lease.job_id);
+  }
+};
+
+export const DEFAULT_LEASE_MS = 60_000;
+
+// WORKER_LEASE_MS sets how long a job stays with a worker that has stopped
+// sending heartbeats (at least a second)
+export const loadLeaseMs = (env: NodeJS.ProcessEnv = process.env): number => {
+  const lease = Number(env['WORKER_LEASE_MS']);
+  return env['WORKER_LEASE_MS'] && Number.isFinite(lease) ? Math.max(1000, Math.round(lease)) : DEFAULT_LEASE_MS;
+};
+
+export const leaseExpired = (heartbeatAt: Date | null, leaseMs: number = loadLeaseMs()): boolean => {
+  return heartbeatAt === null || Date.now() - heartbeatAt.getTime() > leaseMs;
+};
+
+// Whether a worker is still running one of the job's stages. Stages left
+// running by a worker whose lease has run out do not count.
+export const stageRunning = async (
+  executor: Pick<typeof db, 'select'>,
+  jobId: number,
+  heartbeatAt: Date | null
+): Promise<boolean> => {
+  const running = await executor.select({ id: jobStagesTable.id })
+    .from(jobStagesTable)
+    .where(and(eq(jobStagesTable.job_id, jobId), eq(jobStagesTable.state, 'running')))
+    .execute();
+
+  return running.length > 0 && !leaseExpired(heartbeatAt);
+};
+
+// Renew a job's lease a few times per lease period until stopped, or until
+// another worker has claimed the job. The lease outlives a cancellation,
+// since the running stage still has to finish.
+export const startHeartbeat = (lease: JobLease, leaseMs: number = loadLeaseMs()): () => void => {
+  const beat = () => db.update(translationJobsTable)
+    .set({ heartbeat_at: new Date() })
+    .where(leaseHeld(lease))
+    .returning({ id: translationJobsTable.id })
+    .execute()
+    .then(rows => {
+      if (rows.length === 0) {
+        console.warn(`Translation job ${lease.job_id} has been claimed by another worker`);
+        clearInterval(timer);
+      }
+    })
+    .catch(error => console.error(`Heartbeat for translation job ${lease.job_id} failed:`, error));
+
+  const timer = setInterval(beat, Math.floor(leaseMs / 3));
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,24 @@
+import 'dotenv/config';
+import { createWorker } from './worker';
+import { createStages } from './stages';
+import { getProviders } from '../providers/registry';
+import { loadRetryPolicies } from './retry';
+
+// Standalone worker process. Run the API server with WORKER_MODE=external
+// when jobs should only be processed here.
+const worker = createWorker({
+  stages: createStages(getProviders()),
+  retryPolicy: loadRetryPolicies(),
+  pollIntervalMs: Number(process.env['WORKER_POLL_INTERVAL_MS'] || 2000)
+});
+
+const shutdown = async () => {
+  await worker.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+worker.start();
+console.log('Translation worker started');
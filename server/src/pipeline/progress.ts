@@ -0,0 +1,127 @@
+import { db } from '../db';
+import { jobStagesTable, transcriptSegmentsTable } from '../db/schema';
+import { type JobStage, type TranslationJob, type TranslationJobWithProgress } from '../schema';
+import { and, asc, eq, gt, inArray, sql } from 'drizzle-orm';
+
+export type StageUpdate = Partial<Pick<JobStage, 'state' | 'percent' | 'attempts' | 'output' | 'started_at' | 'finished_at'>>;
+
+// Create the pending stage rows of a job that are missing, e.g. the first
+// time it is processed or when the pipeline has gained a stage since
+export const initStages = async (jobId: number, names: string[]): Promise<void> => {
+  if (names.length === 0) {
+    return;
+  }
+
+  await db.insert(jobStagesTable)
+    .values(names.map((name, position) => ({ job_id: jobId, name, position })))
+    .onConflictDoNothing({ target: [jobStagesTable.job_id, jobStagesTable.name] })
+    .execute();
+};
+
+export const getStages = async (jobId: number): Promise<JobStage[]> => {
+  return db.select()
+    .from(jobStagesTable)
+    .where(eq(jobStagesTable.job_id, jobId))
+    .orderBy(asc(jobStagesTable.position))
+    .execute();
+};
+
+// Pass a transaction as the executor to write the stage together with other writes
+export const updateStage = async (
+  jobId: number,
+  name: string,
+  update: StageUpdate,
+  executor: Pick<typeof db, 'update'> = db
+): Promise<void> => {
+  await executor.update(jobStagesTable)
+    .set(update)
+    .where(and(eq(jobStagesTable.job_id, jobId), eq(jobStagesTable.name, name)))
+    .execute();
+};
+
+// Average duration in milliseconds of every stage that has completed before
+export const getStageDurations = async (): Promise<Map<string, number>> => {
+  const rows = await db.select({
+    name: jobStagesTable.name,
+    average_ms: sql<string>`avg(extract(epoch from (${jobStagesTable.finished_at} - ${jobStagesTable.started_at})) * 1000)`
+  })
+    .from(jobStagesTable)
+    .where(eq(jobStagesTable.state, 'completed'))
+    .groupBy(jobStagesTable.name)
+    .execute();
+
+  return new Map(rows
+    .filter(row => row.average_ms !== null)
+    .map(row => [row.name, parseFloat(row.average_ms)]));
+};
+
+// Remaining time for an active job, or null when it is not running or a
+// remaining stage has never completed before
+export const estimateRemainingMs = (
+  status: TranslationJob['status'],
+  stages: JobStage[],
+  durations: Map<string, number>
+): number | null => {
+  if (status !== 'processing' || stages.length === 0) {
+    return null;
+  }
+
+  let remaining = 0;
+  for (const stage of stages) {
+    if (stage.state === 'completed' || stage.state === 'skipped') {
+      continue;
+    }
+
+    const average = durations.get(stage.name);
+    if (average === undefined) {
+      return null;
+    }
+
+    remaining += stage.state === 'running'
+      ? average * (1 - stage.percent / 100)
+      : average;
+  }
+
+  return Math.round(remaining);
+};
+
+// Attach stage rows, a time estimate and the segments whose speech overruns
+// its time to each job
+export const withProgress = async (jobs: TranslationJob[]): Promise<TranslationJobWithProgress[]> => {
+  if (jobs.length === 0) {
+    return [];
+  }
+
+  const jobIds = jobs.map(job => job.id);
+  const stages = await db.select()
+    .from(jobStagesTable)
+    .where(inArray(jobStagesTable.job_id, jobIds))
+    .orderBy(asc(jobStagesTable.job_id), asc(jobStagesTable.position))
+    .execute();
+
+  const overruns = await db.select({
+    job_id: transcriptSegmentsTable.job_id,
+    segment_id: transcriptSegmentsTable.id,
+    index: transcriptSegmentsTable.index,
+    overrun_ms: transcriptSegmentsTable.overrun_ms
+  })
+    .from(transcriptSegmentsTable)
+    .where(and(inArray(transcriptSegmentsTable.job_id, jobIds), gt(transcriptSegmentsTable.overrun_ms, 0)))
+    .orderBy(asc(transcriptSegmentsTable.job_id), asc(transcriptSegmentsTable.index))
+    .execute();
+
+  const hasActiveJobs = jobs.some(job => job.status === 'processing');
+  const durations = hasActiveJobs ? await getStageDurations() : new Map<string, number>();
+
+  return jobs.map(job => {
+    const jobStages = stages.filter(stage => stage.job_id === job.id);
+    return {
+      ...job,
+      stages: jobStages,
+      estimated_remaining_ms: estimateRemainingMs(job.status, jobStages, durations),
+      timing_warnings: overruns
+        .filter(overrun => overrun.job_id === job.id)
+        .map(({ segment_id, index, overrun_ms }) => ({ segment_id, index, overrun_ms: overrun_ms! }))
+    };
+  });
+};
@@ -0,0 +1,43 @@
+export interface RetryPolicy {
+  // Total attempts including the first run
+  max_attempts: number;
+  backoff_ms: number;
+  backoff_factor: number;
+  max_backoff_ms: number;
+}
+
+export type RetryPolicyResolver = (stage: string) => RetryPolicy;
+
+export const defaultRetryPolicy: RetryPolicy = {
+  max_attempts: 3,
+  backoff_ms: 5000,
+  backoff_factor: 2,
+  max_backoff_ms: 5 * 60 * 1000
+};
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// RETRY_MAX_ATTEMPTS, RETRY_BACKOFF_MS, RETRY_BACKOFF_FACTOR and
+// RETRY_MAX_BACKOFF_MS set the defaults; RETRY_<STAGE>_<SETTING> (for example
+// RETRY_TRANSCRIBE_MAX_ATTEMPTS) overrides them for a single stage.
+export const loadRetryPolicies = (env: NodeJS.ProcessEnv = process.env): RetryPolicyResolver => {
+  const read = (stage: string, setting: string, fallback: number) => {
+    return readNumber(env[`RETRY_${stage.toUpperCase()}_${setting}`], readNumber(env[`RETRY_${setting}`], fallback));
+  };
+
+  return (stage) => ({
+    max_attempts: Math.max(1, read(stage, 'MAX_ATTEMPTS', defaultRetryPolicy.max_attempts)),
+    backoff_ms: read(stage, 'BACKOFF_MS', defaultRetryPolicy.backoff_ms),
+    backoff_factor: read(stage, 'BACKOFF_FACTOR', defaultRetryPolicy.backoff_factor),
+    max_backoff_ms: read(stage, 'MAX_BACKOFF_MS', defaultRetryPolicy.max_backoff_ms)
+  });
+};
+
+// Exponential backoff before the given retry (1 = first retry)
+export const backoffDelayMs = (policy: RetryPolicy, retry: number): number => {
+  const delay = policy.backoff_ms * Math.pow(policy.backoff_factor, Math.max(0, retry - 1));
+  return Math.min(policy.max_backoff_ms, Math.round(delay));
+};
@@ -0,0 +1,239 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type SegmentEdit, type TranscriptSegment } from '../schema';
+import { JobNotFoundError, SegmentNotFoundError, SegmentVersionConflictError } from '../errors';
+import { and, asc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { stageRunning } from './lease';
+
+// What a stage writes for one segment; the position in the list is its index
+export type SegmentDraft = Pick<TranscriptSegment,
+  'start_ms' |
+  'end_ms' |
+  'speaker' |
+  'source_text' |
+  'translated_text' |
+  'confidence'
+> & Partial<Pick<TranscriptSegment,
+  'audio_path' |
+  'memory_match' |
+  'memory_suggestion' |
+  'speech_rate' |
+  'dub_start_ms' |
+  'dub_end_ms' |
+  'overrun_ms'
+>>;
+
+// The legacy single-text columns: segment texts joined in order. The
+// translation is only complete once every segment has one.
+export const deriveTranscripts = (segments: Pick<TranscriptSegment, 'source_text' | 'translated_text'>[]): {
+  transcript: string | null;
+  translated_transcript: string | null;
+} => {
+  if (segments.length === 0) {
+    return { transcript: null, translated_transcript: null };
+  }
+
+  const translated = segments.map(segment => segment.translated_text);
+  return {
+    transcript: segments.map(segment => segment.source_text).join(' '),
+    translated_transcript: translated.every(text => text !== null) ? translated.join(' ') : null
+  };
+};
+
+export const getSegments = async (jobId: number): Promise<TranscriptSegment[]> => {
+  return db.select()
+    .from(transcriptSegmentsTable)
+    .where(eq(transcriptSegmentsTable.job_id, jobId))
+    .orderBy(asc(transcriptSegmentsTable.index))
+    .execute();
+};
+
+// Replace a job's segments with the drafts and re-derive the legacy
+// transcript columns. Rows are updated in place by index, so segment ids stay
+// stable when a stage only changes their text. Pipeline output supersedes any
+// pending edit, so the re-dub flags are cleared. Pass a transaction as the
+// executor to save them together with other writes.
+export const saveSegments = async (
+  jobId: number,
+  drafts: SegmentDraft[],
+  executor: Pick<typeof db, 'transaction'> = db
+): Promise<void> => {
+  await executor.transaction(async (tx) => {
+    if (drafts.length > 0) {
+      await tx.insert(transcriptSegmentsTable)
+        .values(drafts.map((draft, index) => ({
+          job_id: jobId,
+          index,
+          start_ms: draft.start_ms,
+          end_ms: draft.end_ms,
+          speaker: draft.speaker,
+          source_text: draft.source_text,
+          translated_text: draft.translated_text,
+          confidence: draft.confidence,
+          audio_path: draft.audio_path ?? null,
+          memory_match: draft.memory_match ?? null,
+          memory_suggestion: draft.memory_suggestion ?? null,
+          speech_rate: draft.speech_rate ?? null,
+          dub_start_ms: draft.dub_start_ms ?? null,
+          dub_end_ms: draft.dub_end_ms ?? null,
+          overrun_ms: draft.overrun_ms ?? null
+        })))
+        .onConflictDoUpdate({
+          target: [transcriptSegmentsTable.job_id, transcriptSegmentsTable.index],
+          set: {
+            start_ms: sql`excluded.start_ms`,
+            end_ms: sql`excluded.end_ms`,
+            speaker: sql`excluded.speaker`,
+            source_text: sql`excluded.source_text`,
+            translated_text: sql`excluded.translated_text`,
+            confidence: sql`excluded.confidence`,
+            audio_path: sql`excluded.audio_path`,
+            memory_match: sql`excluded.memory_match`,
+            memory_suggestion: sql`excluded.memory_suggestion`,
+            speech_rate: sql`excluded.speech_rate`,
+            dub_start_ms: sql`excluded.dub_start_ms`,
+            dub_end_ms: sql`excluded.dub_end_ms`,
+            overrun_ms: sql`excluded.overrun_ms`,
+            needs_redub: false,
+            version: sql`${transcriptSegmentsTable.version} + 1`,
+            updated_at: new Date()
+          }
+        })
+        .execute();
+    }
+
+    await tx.delete(transcriptSegmentsTable)
+      .where(and(
+        eq(transcriptSegmentsTable.job_id, jobId),
+        gte(transcriptSegmentsTable.index, drafts.length)
+      ))
+      .execute();
+
+    await tx.update(translationJobsTable)
+      .set({ ...deriveTranscripts(drafts), updated_at: new Date() })
+      .where(eq(translationJobsTable.id, jobId))
+      .execute();
+  });
+};
+
+type Timing = Pick<TranscriptSegment, 'id' | 'start_ms' | 'end_ms'>;
+
+const assertTiming = (segment: Timing, previous: Timing | undefined, next: Timing | undefined): void => {
+  if (segment.end_ms <= segment.start_ms) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Segment ${segment.id} must end after it starts` });
+  }
+  const neighbour = previous && previous.end_ms > segment.start_ms
+    ? previous
+    : next && next.start_ms < segment.end_ms ? next : null;
+  if (neighbour) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Segment ${segment.id} would overlap segment ${neighbour.id}` });
+  }
+};
+
+// Apply editor changes to segments of one job, all or nothing. Each edit
+// names the version it was based on and is refused if the segment has moved
+// on since. A new translation drops the segment's synthesized audio; a new
+// translation or timing marks it for re-dubbing. Returns the edited segments.
+export const editSegments = async (edits: SegmentEdit[], jobId?: number): Promise<TranscriptSegment[]> => {
+  return db.transaction(async (tx) => {
+    const seen = new Set<number>();
+    for (const edit of edits) {
+      if (seen.has(edit.id)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Segment ${edit.id} is edited more than once` });
+      }
+      seen.add(edit.id);
+    }
+
+    // Segments are locked before the job, in the same order the worker's
+    // saveSegments takes them
+    const targets = new Map((await tx.select()
+      .from(transcriptSegmentsTable)
+      .where(inArray(transcriptSegmentsTable.id, [...seen]))
+      .for('update')
+      .execute()).map(segment => [segment.id, segment]));
+
+    for (const edit of edits) {
+      const segment = targets.get(edit.id);
+      if (!segment || (jobId !== undefined && segment.job_id !== jobId)) {
+        throw new SegmentNotFoundError(edit.id);
+      }
+      if (segment.version !== edit.version) {
+        throw new SegmentVersionConflictError(segment.id, segment.version);
+      }
+    }
+
+    const ownerId = targets.get(edits[0].id)!.job_id;
+    const jobs = await tx.select({ status: translationJobsTable.status, heartbeat_at: translationJobsTable.heartbeat_at })
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, ownerId))
+      .for('update')
+      .execute();
+    if (jobs.length === 0) {
+      throw new JobNotFoundError(ownerId);
+    }
+    if (jobs[0].status === 'processing' || await stageRunning(tx, ownerId, jobs[0].heartbeat_at)) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Segments cannot be edited while the job is being processed' });
+    }
+
+    const segments = await tx.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, ownerId))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    const edited = segments.map(segment => {
+      const edit = edits.find(candidate => candidate.id === segment.id);
+      return edit
+        ? {
+          ...segment,
+          source_text: edit.source_text ?? segment.source_text,
+          translated_text: edit.translated_text ?? segment.translated_text,
+          start_ms: edit.start_ms ?? segment.start_ms,
+          end_ms: edit.end_ms ?? segment.end_ms
+        }
+        : segment;
+    });
+
+    const results: TranscriptSegment[] = [];
+    for (const [position, segment] of segments.entries()) {
+      const next = edited[position];
+      if (!seen.has(segment.id)) {
+        continue;
+      }
+
+      const translationChanged = next.translated_text !== segment.translated_text;
+      const timingChanged = next.start_ms !== segment.start_ms || next.end_ms !== segment.end_ms;
+      if (timingChanged) {
+        assertTiming(next, edited[position - 1], edited[position + 1]);
+      }
+      if (!translationChanged && !timingChanged && next.source_text === segment.source_text) {
+        results.push(segment);
+        continue;
+      }
+
+      const updated = await tx.update(transcriptSegmentsTable)
+        .set({
+          source_text: next.source_text,
+          translated_text: next.translated_text,
+          start_ms: next.start_ms,
+          end_ms: next.end_ms,
+          audio_path: translationChanged ? null : segment.audio_path,
+          needs_redub: segment.needs_redub || translationChanged || timingChanged,
+          version: segment.version + 1,
+          updated_at: new Date()
+        })
+        .where(eq(transcriptSegmentsTable.id, segment.id))
+        .returning()
+        .execute();
+      results.push(updated[0]);
+    }
+
+    await tx.update(translationJobsTable)
+      .set({ ...deriveTranscripts(edited), updated_at: new Date() })
+      .where(eq(translationJobsTable.id, ownerId))
+      .execute();
+
+    // In the order the edits were given
+    return edits.map(edit => results.find(segment => segment.id === edit.id)!);
+  });
+};
@@ -0,0 +1,371 @@
+import { type Providers } from '../providers/types';
+import { glossaryForJob } from '../glossary/glossaries';
+import { findViolations, protectTerms, restoreTerms } from '../glossary/terms';
+import { loadMemoryConfig, lookupMemory, type MemoryConfig } from '../memory/store';
+import { getSpeakers, syncSpeakers } from '../speakers/speakers';
+import { sharedTranscript } from '../projects/projects';
+import { dubbedTrack, matroskaFilename, originalTracks, trackEnd } from '../projects/combined';
+import { packageJob } from '../hls/package';
+import { writeMatroska } from '../media/matroska';
+import { demux } from '../media/remux';
+import { decodeWav, encodeWav, fromPlanar, mixClips, pcmDurationMs, type PcmAudio, type PlanarAudio, toPlanar } from '../media/wav';
+import { runDsp } from '../media/dsp';
+import { loadTimingConfig, planFit, type TimingConfig } from '../timing/fit';
+import { loadMixConfig, type MixConfig } from '../mixing/remix';
+import { copyBlob, readBlob } from '../storage/blobs';
+import { getBlobStore } from '../storage/registry';
+import { type BlobStore } from '../storage/types';
+import { type SegmentDraft } from './segments';
+import { type PipelineStage, type StageResult } from './types';
+
+const extensionFor = (mimeType: string): string => {
+  return mimeType === 'audio/wav' ? 'wav' : mimeType.split('/')[1] ?? 'bin';
+};
+
+// Stages that run again when edited segments are re-dubbed
+export const REDUB_STAGES = ['synthesize', 'fit', 'mix', 'mux', 'package'];
+
+// The ordered dubbing pipeline, backed by the given providers, blob store,
+// translation memory, timing and mixing settings
+export const createStages = (
+  { recognizer, diarizer, separator, translator, synthesizer }: Providers,
+  store: BlobStore = getBlobStore(),
+  memory: MemoryConfig = loadMemoryConfig(),
+  timing: TimingConfig = loadTimingConfig(),
+  mix: MixConfig = loadMixConfig()
+): PipelineStage[] => [
+  {
+    name: 'transcribe',
+    // Imported captions already are the transcript
+    skip: ({ job }) => job.transcript_source === 'subtitles',
+    run: async ({ job }) => {
+      // The same upload dubbed into another language may already have been
+      // transcribed
+      const shared = await sharedTranscript(job);
+      if (shared) {
+        return {
+          job: { detected_language: shared.detected_language, transcript_source: 'asr' },
+          segments: shared.segments
+        };
+      }
+
+      const media = await readBlob(store, job.original_file_path);
+      const result = await recognizer.transcribe({
+        media,
+        filename: job.original_filename,
+        language_hint: job.detected_language ?? undefined
+      });
+
+      const segments: SegmentDraft[] = result.segments.map(segment => ({
+        start_ms: segment.start_ms,
+        end_ms: segment.end_ms,
+        speaker: segment.speaker ?? null,
+        source_text: segment.text,
+        translated_text: null,
+        confidence: segment.confidence ?? null
+      }));
+
+      // Recognizers without timings still return the text; keep it as one
+      // segment spanning the whole file
+      if (segments.length === 0 && result.text.trim()) {
+        segments.push({
+          start_ms: 0,
+          end_ms: job.media_info?.duration_ms ?? 0,
+          speaker: null,
+          source_text: result.text,
+          translated_text: null,
+          confidence: null
+        });
+      }
+
+      return {
+        job: { detected_language: result.language, transcript_source: 'asr' },
+        segments
+      };
+    }
+  },
+  {
+    name: 'diarize',
+    run: async ({ job, segments }) => {
+      // Speakers named by the recognizer or by imported subtitles are kept
+      let drafts: SegmentDraft[] | undefined;
+      if (segments.length > 0 && segments.every(segment => segment.speaker === null)) {
+        const media = await readBlob(store, job.original_file_path);
+        const labels = await diarizer.diarize({
+          media,
+          filename: job.original_filename,
+          segments: segments.map(segment => ({
+            start_ms: segment.start_ms,
+            end_ms: segment.end_ms,
+            text: segment.source_text
+          }))
+        });
+        if (labels.length !== segments.length) {
+          throw new Error(`Diarizer returned ${labels.length} speaker labels for ${segments.length} segments`);
+        }
+        drafts = segments.map((segment, index) => ({ ...segment, speaker: labels[index] }));
+      }
+
+      await syncSpeakers(job.id, (drafts ?? segments).flatMap(segment => (segment.speaker ? [segment.speaker] : [])));
+      return { segments: drafts };
+    }
+  },
+  {
+    name: 'translate',
+    run: async ({ job, segments }) => {
+      if (segments.length === 0 || !job.detected_language) {
+        throw new Error('Cannot translate a job without a transcript');
+      }
+
+      const glossary = await glossaryForJob(job);
+      const entries = glossary?.entries ?? [];
+
+      // Lines the translation memory knows exactly are reused as they are,
+      // unless the remembered translation breaks a term of the glossary;
+      // fuzzy matches are kept as suggestions for the editor
+      const found = await lookupMemory(
+        job.detected_language,
+        job.target_language,
+        segments.map(segment => segment.source_text),
+        memory
+      );
+      const matches = found.map((match, index) => {
+        const violated = match?.score === 100 && findViolations(segments[index].source_text, match.target_text, entries).length > 0;
+        return violated ? null : match;
+      });
+      const pending = segments.filter((_, index) => matches[index]?.score !== 100);
+
+      // Glossary terms are hidden behind placeholders while the text is
+      // translated and replaced by their required rendering afterwards
+      const sources = pending.map(segment => protectTerms(segment.source_text, entries));
+
+      const output = pending.length === 0 ? [] : await translator.translate({
+        texts: sources.map(source => source.text),
+        source_language: job.detected_language,
+        target_language: job.target_language
+      });
+      if (output.length !== pending.length) {
+        throw new Error(`Translator returned ${output.length} translations for ${pending.length} segments`);
+      }
+      const translated = new Map(pending.map((segment, index) => [
+        segment.id,
+        restoreTerms(output[index], sources[index].replacements)
+      ]));
+
+      return {
+        segments: segments.map((segment, index) => {
+          const match = matches[index];
+          const translation = translated.get(segment.id) ?? match!.target_text;
+          return {
+            ...segment,
+            translated_text: translation,
+            memory_match: match?.score ?? null,
+            memory_suggestion: match && match.score < 100 ? match.target_text : null,
+            // Speech for an earlier translation no longer matches
+            audio_path: translation === segment.translated_text ? segment.audio_path : null
+          };
+        })
+      };
+    }
+  },
+  {
+    name: 'review',
+    // Only jobs created with requires_review wait for a reviewer
+    skip: ({ job }) => !job.requires_review,
+    run: async ({ job }) => (job.approved_at ? {} : { await_review: true })
+  },
+  {
+    name: 'separate',
+    run: async ({ job }): Promise<StageResult> => {
+      // The background is kept so the dub does not lose the music and
+      // effects of the original. Audio the separator cannot read leaves the
+      // dub without one, which is recorded on the stage so the job shows it.
+      const track = job.media_info?.audio_tracks[0];
+      if (job.media_info && !track) {
+        return {};
+      }
+      const media = await readBlob(store, job.original_file_path);
+      const stems = await separator.separate({ media, filename: job.original_filename });
+      if (!stems) {
+        const warning = `The ${separator.name} separator cannot decode ${track ? `${track.codec} audio` : 'the audio'}; the dub has no background`;
+        console.warn(`Job ${job.id}: ${warning}`);
+        return { artifacts: { background_warning: warning } };
+      }
+
+      const speechPath = `/outputs/audio/${job.id}/stems/speech.wav`;
+      const backgroundPath = `/outputs/audio/${job.id}/stems/background.wav`;
+      await store.put(speechPath, stems.speech, { content_type: 'audio/wav' });
+      await store.put(backgroundPath, stems.background, { content_type: 'audio/wav' });
+      return { artifacts: { speech_stem: speechPath, background_stem: backgroundPath } };
+    }
+  },
+  {
+    name: 'synthesize',
+    run: async ({ job, segments, reportProgress }) => {
+      if (segments.length === 0 || segments.some(segment => segment.translated_text === null)) {
+        throw new Error('Cannot synthesize a job without a translated transcript');
+      }
+
+      // Speech is synthesized per segment, in the voice chosen for its
+      // speaker or else the job's. Segments whose translation and voice are
+      // unchanged keep their audio.
+      const speakers = new Map((await getSpeakers(job.id)).map(speaker => [speaker.label, speaker]));
+      const drafts: SegmentDraft[] = [];
+      for (const [position, segment] of segments.entries()) {
+        let audioPath = segment.audio_path;
+
+        if (!audioPath || !(await store.stat(audioPath))) {
+          const speaker = segment.speaker ? speakers.get(segment.speaker) : undefined;
+          const speech = await synthesizer.synthesize({
+            text: segment.translated_text!,
+            language: job.target_language,
+            voice: speaker?.voice ?? job.voice ?? undefined,
+            gender: speaker?.gender ?? undefined,
+            style: speaker?.style ?? undefined
+          });
+          audioPath = `/outputs/audio/${job.id}/segments/${segment.index}.${extensionFor(speech.mime_type)}`;
+          await store.put(audioPath, speech.audio, { content_type: speech.mime_type });
+        }
+
+        drafts.push({ ...segment, audio_path: audioPath });
+        await reportProgress(((position + 1) / segments.length) * 100);
+      }
+
+      return { segments: drafts };
+    }
+  },
+  {
+    name: 'fit',
+    run: async ({ job, segments, reportProgress }) => {
+      if (segments.length === 0 || segments.some(segment => segment.audio_path === null)) {
+        throw new Error('Cannot fit a job without synthesized speech');
+      }
+
+      // Translated speech often runs longer than the line it replaces. Each
+      // segment's speech is trimmed of silence, then sped up or moved into
+      // the gaps around it as planFit decides, and laid out on one track.
+      const speech: PcmAudio[] = [];
+      for (const segment of segments) {
+        const pcm = decodeWav(await readBlob(store, segment.audio_path!));
+        if (!pcm) {
+          throw new Error(`Cannot assemble the dubbed audio: segment ${segment.index} was not synthesized as 16-bit PCM WAV`);
+        }
+        speech.push(await runDsp('trimSilence', pcm));
+      }
+
+      const durationMs = job.media_info?.duration_ms ?? 0;
+      const fits = planFit(segments.map((segment, index) => ({
+        start_ms: segment.start_ms,
+        end_ms: segment.end_ms,
+        duration_ms: pcmDurationMs(speech[index].samples.length, speech[index].sample_rate, speech[index].channels)
+      })), durationMs, timing);
+
+      const clips: { start_ms: number; audio: PcmAudio }[] = [];
+      for (const [position, fit] of fits.entries()) {
+        clips.push({ start_ms: fit.start_ms, audio: await runDsp('timeStretch', speech[position], fit.rate) });
+        await reportProgress(((position + 1) / fits.length) * 100);
+      }
+
+      const track = mixClips(clips, durationMs);
+      const dialogPath = `/outputs/audio/${job.id}/dialog.wav`;
+      await store.put(dialogPath, encodeWav(track.samples, track.sample_rate, track.channels), { content_type: 'audio/wav' });
+
+      return {
+        segments: segments.map((segment, index) => ({
+          ...segment,
+          speech_rate: fits[index].rate,
+          dub_start_ms: fits[index].start_ms,
+          dub_end_ms: fits[index].end_ms,
+          overrun_ms: fits[index].overrun_ms
+        })),
+        artifacts: { dialog_audio: dialogPath }
+      };
+    }
+  },
+  {
+    name: 'mix',
+    run: async ({ job, artifacts }) => {
+      if (!artifacts['dialog_audio']) {
+        throw new Error('Cannot mix a job without fitted dialog');
+      }
+
+      const readPcm = async (path: string, what: string): Promise<PlanarAudio> => {
+        const pcm = decodeWav(await readBlob(store, path));
+        if (!pcm) {
+          throw new Error(`Cannot mix the dubbed audio: the ${what} is not 16-bit PCM WAV`);
+        }
+        return toPlanar(pcm);
+      };
+      const dialog = await readPcm(artifacts['dialog_audio'], 'dialog');
+      const background = artifacts['background_stem'] ? await readPcm(artifacts['background_stem'], 'background stem') : null;
+
+      const track = fromPlanar((await runDsp('remix', dialog, background, mix)).audio);
+      const audioPath = `/outputs/audio/${job.id}_${job.target_language}.wav`;
+      await store.put(audioPath, encodeWav(track.samples, track.sample_rate, track.channels), { content_type: 'audio/wav' });
+
+      return { artifacts: { dubbed_audio: audioPath } };
+    }
+  },
+  {
+    name: 'mux',
+    run: async ({ job, artifacts }): Promise<StageResult> => {
+      if (!artifacts['dubbed_audio']) {
+        throw new Error('Cannot mux a job without synthesized audio');
+      }
+
+      const dub = decodeWav(await readBlob(store, artifacts['dubbed_audio']));
+      if (!dub) {
+        throw new Error('Cannot mux the dubbed audio: it is not 16-bit PCM WAV');
+      }
+
+      // The source's tracks are copied without re-encoding into Matroska, with
+      // the dub as the default audio and the original audio after it. Sources
+      // that cannot be remuxed (AVI, fragmented MP4) are delivered as they
+      // are, leaving the dub a separate download.
+      const source = demux(await readBlob(store, job.original_file_path));
+      let outputPath = `/outputs/videos/${job.id}_${job.target_language}_${job.original_filename}`;
+      let warning: string | null = null;
+      if (source) {
+        const original = originalTracks(source, job.detected_language, false);
+        const tracks = [
+          ...original.filter(track => track.type === 'video'),
+          { ...dubbedTrack(dub, job.target_language), default: true },
+          ...original.filter(track => track.type !== 'video')
+        ];
+        const durationMs = Math.max(
+          job.media_info?.duration_ms ?? 0,
+          pcmDurationMs(dub.samples.length, dub.sample_rate, dub.channels),
+          ...source.map(trackEnd)
+        );
+        const contentType = source.some(track => track.type === 'video') ? 'video/x-matroska' : 'audio/x-matroska';
+        outputPath = `/outputs/videos/${job.id}_${job.target_language}_${matroskaFilename(job.original_filename)}`;
+        await store.put(outputPath, writeMatroska(tracks, durationMs), { content_type: contentType });
+      } else {
+        await copyBlob(store, job.original_file_path, outputPath);
+        warning = `${job.media_info?.container?.toUpperCase() ?? 'These'} sources cannot be remuxed; the video keeps its original audio`;
+        console.warn(`Job ${job.id}: ${warning}`);
+      }
+
+      return { job: { translated_file_path: outputPath }, ...(warning ? { artifacts: { mux_warning: warning } } : {}) };
+    }
+  },
+  {
+    name: 'package',
+    run: async ({ job, segments, artifacts }) => {
+      if (!artifacts['dubbed_audio']) {
+        throw new Error('Cannot package a job without synthesized audio');
+      }
+
+      const dub = decodeWav(await readBlob(store, artifacts['dubbed_audio']));
+      if (!dub) {
+        throw new Error('Cannot package the dubbed audio: it is not 16-bit PCM WAV');
+      }
+
+      // HLS for playback in the browser. Sources it cannot carry without
+      // re-encoding (AVI, codecs fragmented MP4 does not take) are only
+      // delivered as files.
+      const playlist = await packageJob(job, segments, dub, store);
+      return playlist ? { artifacts: { hls_playlist: playlist } } : {};
+    }
+  }
+];
@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { jobEventsTable, translationJobsTable } from '../db/schema';
+import { type TranslationJob, type TranslationStatus, type UpdateTranslationJobInput } from '../schema';
+import { InvalidStatusTransitionError, MissingStatusFieldError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export type JobUpdate = Omit<UpdateTranslationJobInput, 'id'> & {
+  next_attempt_at?: Date | null;
+  approved_at?: Date | null;
+};
+
+// Allowed status transitions. Staying in the same status is always allowed.
+//   pending -> processing -> completed | failed
+//   processing -> retrying -> processing (automatic retry after a stage error)
+//   processing -> awaiting_review -> retrying (approved) | failed (rejected)
+//   failed | cancelled -> retrying (manual retry)
+//   completed -> retrying (re-dub after segment edits)
+//   pending | processing | retrying | awaiting_review -> cancelled
+const transitions: Record<TranslationStatus, TranslationStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['completed', 'failed', 'retrying', 'cancelled', 'awaiting_review'],
+  retrying: ['processing', 'failed', 'cancelled'],
+  failed: ['retrying'],
+  cancelled: ['retrying'],
+  completed: ['retrying'],
+  awaiting_review: ['retrying', 'failed', 'cancelled']
+};
+
+// Fields that must be set while a job is in a given status
+const requiredFields: Partial<Record<TranslationStatus, (keyof TranslationJob)[]>> = {
+  completed: ['translated_file_path'],
+  failed: ['error_message']
+};
+
+export const canTransition = (from: TranslationStatus, to: TranslationStatus): boolean => {
+  return from === to || transitions[from].includes(to);
+};
+
+export const assertTransition = (from: TranslationStatus, to: TranslationStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+};
+
+export const assertRequiredFields = (job: TranslationJob): void => {
+  for (const field of requiredFields[job.status] ?? []) {
+    if (job[field] === null || job[field] === undefined || job[field] === '') {
+      throw new MissingStatusFieldError(job.status, field);
+    }
+  }
+};
+
+// Apply an update to a job, enforcing the state machine and recording the
+// transition. The row is locked so concurrent writers cannot interleave
+// between the check and the write. `from` narrows the statuses the job may be
+// leaving for callers that only handle some of them. Returns null when the
+// job does not exist. Pass a transaction as the executor to make the
+// transition together with other writes.
+export const updateJobWithTransition = async (
+  id: number,
+  update: JobUpdate,
+  message?: string,
+  from?: TranslationStatus[],
+  executor: Pick<typeof db, 'transaction'> = db
+): Promise<TranslationJob | null> => {
+  return executor.transaction(async (tx) => {
+    const rows = await tx.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, id))
+      .for('update')
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const current = rows[0];
+    const changes = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    ) as JobUpdate;
+    const next = { ...current, ...changes };
+
+    if (from && !from.includes(current.status)) {
+      throw new InvalidStatusTransitionError(current.status, next.status);
+    }
+    assertTransition(current.status, next.status);
+    assertRequiredFields(next);
+
+    const result = await tx.update(translationJobsTable)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(translationJobsTable.id, id))
+      .returning()
+      .execute();
+
+    if (next.status !== current.status) {
+      await tx.insert(jobEventsTable)
+        .values({
+          job_id: id,
+          from_status: current.status,
+          to_status: next.status,
+          message: message ?? null
+        })
+        .execute();
+    }
+
+    return result[0];
+  });
+};
@@ -0,0 +1,38 @@
+import { type TranscriptSegment, type TranslationJob } from '../schema';
+import { type SegmentDraft } from './segments';
+
+// Job columns a stage is allowed to write back. The transcript columns are
+// derived from the segments.
+export type JobPatch = Partial<Pick<TranslationJob,
+  'detected_language' |
+  'transcript_source' |
+  'translated_file_path'
+>>;
+
+export interface StageContext {
+  // Snapshot of the job including everything earlier stages wrote
+  job: TranslationJob;
+  // The job's transcript segments in order
+  segments: TranscriptSegment[];
+  // Intermediate outputs shared between stages (storage paths keyed by name)
+  artifacts: Record<string, string>;
+  // Record how far the running stage has got (0-100)
+  reportProgress: (percent: number) => Promise<void>;
+}
+
+export interface StageResult {
+  job?: JobPatch;
+  // Replaces all of the job's segments
+  segments?: SegmentDraft[];
+  artifacts?: Record<string, string>;
+  // Stop the job here until a reviewer approves it. The stage is left pending
+  // and runs again once the approved job is picked up.
+  await_review?: boolean;
+}
+
+export interface PipelineStage {
+  name: string;
+  // Return true when the job does not need this stage; it is recorded as skipped
+  skip?: (context: Pick<StageContext, 'job' | 'segments'>) => boolean;
+  run: (context: StageContext) => Promise<StageResult>;
+}
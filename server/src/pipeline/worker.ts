@@ -0,0 +1,357 @@
+import { db } from '../db';
+import { jobEventsTable, translationJobsTable } from '../db/schema';
+import { type TranslationJob } from '../schema';
+import { InvalidStatusTransitionError, LeaseLostError } from '../errors';
+import { rememberJob } from '../memory/store';
+import { buildNextCombinedOutput, requestCombinedOutput } from '../projects/combined';
+import { and, asc, eq, isNull, lt, lte, or } from 'drizzle-orm';
+import { holdLease, type JobLease, type LeasedJob, leaseOf, loadLeaseMs, newLeaseToken, startHeartbeat } from './lease';
+import { getStages, initStages, type StageUpdate, updateStage } from './progress';
+import { getSegments, saveSegments } from './segments';
+import { backoffDelayMs, defaultRetryPolicy, type RetryPolicyResolver } from './retry';
+import { type JobUpdate, updateJobWithTransition } from './status';
+import { type JobPatch, type PipelineStage } from './types';
+
+export interface WorkerOptions {
+  stages: PipelineStage[];
+  pollIntervalMs?: number;
+  retryPolicy?: RetryPolicyResolver;
+}
+
+export interface Worker {
+  start: () => void;
+  stop: () => Promise<void>;
+  // Claim and process at most one job; resolves to the job's final state
+  runOnce: () => Promise<TranslationJob | null>;
+}
+
+// Atomically move the oldest runnable job (pending, retrying and past its
+// backoff, or processing on a worker whose lease ran out) to processing and
+// start its lease under a new token. SKIP LOCKED lets any number of workers
+// poll the same table without claiming a job twice.
+export const claimNextJob = async (leaseMs: number = loadLeaseMs()): Promise<LeasedJob | null> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const candidates = await tx.select({ id: translationJobsTable.id, status: translationJobsTable.status })
+        .from(translationJobsTable)
+        .where(or(
+          eq(translationJobsTable.status, 'pending'),
+          and(
+            eq(translationJobsTable.status, 'retrying'),
+            lte(translationJobsTable.next_attempt_at, now)
+          ),
+          and(
+            eq(translationJobsTable.status, 'processing'),
+            or(
+              isNull(translationJobsTable.heartbeat_at),
+              lt(translationJobsTable.heartbeat_at, new Date(now.getTime() - leaseMs))
+            )
+          )
+        ))
+        .orderBy(asc(translationJobsTable.created_at), asc(translationJobsTable.id))
+        .limit(1)
+        .for('update', { skipLocked: true })
+        .execute();
+
+      if (candidates.length === 0) {
+        return null;
+      }
+
+      const result = await tx.update(translationJobsTable)
+        .set({
+          status: 'processing',
+          error_message: null,
+          next_attempt_at: null,
+          heartbeat_at: now,
+          lease_token: newLeaseToken(),
+          updated_at: now
+        })
+        .where(eq(translationJobsTable.id, candidates[0].id))
+        .returning()
+        .execute();
+
+      const reclaimed = candidates[0].status === 'processing';
+      await tx.insert(jobEventsTable)
+        .values({
+          job_id: result[0].id,
+          from_status: candidates[0].status,
+          to_status: 'processing',
+          message: reclaimed ? 'Reclaimed from a worker that stopped responding' : null
+        })
+        .execute();
+
+      return { ...result[0], lease_token: result[0].lease_token! };
+    });
+  } catch (error) {
+    console.error('Claiming translation job failed:', error);
+    throw error;
+  }
+};
+
+const loadJob = async (id: number): Promise<TranslationJob> => {
+  const result = await db.select()
+    .from(translationJobsTable)
+    .where(eq(translationJobsTable.id, id))
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`Translation job ${id} no longer exists`);
+  }
+  return result[0];
+};
+
+const saveJob = async (lease: JobLease, patch: JobPatch): Promise<TranslationJob> => {
+  const result = await db.update(translationJobsTable)
+    .set({ ...patch, updated_at: new Date() })
+    .where(and(eq(translationJobsTable.id, lease.job_id), eq(translationJobsTable.lease_token, lease.token)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new LeaseLostError(lease.job_id);
+  }
+  return result[0];
+};
+
+// Write a stage row while the lease is held
+const saveStage = async (lease: JobLease, name: string, update: StageUpdate): Promise<void> => {
+  await db.transaction(async (tx) => {
+    await holdLease(tx, lease);
+    await updateStage(lease.job_id, name, update, tx);
+  });
+};
+
+// Move the job out of processing while the lease is held. If it was
+// cancelled meanwhile the cancellation wins and the job is returned as it is.
+const finishJob = async (lease: JobLease, update: JobUpdate, message?: string): Promise<TranslationJob> => {
+  try {
+    const result = await db.transaction(async (tx) => {
+      await holdLease(tx, lease);
+      return updateJobWithTransition(lease.job_id, update, message, undefined, tx);
+    });
+    return result ?? loadJob(lease.job_id);
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError && error.from === 'cancelled') {
+      return loadJob(lease.job_id);
+    }
+    throw error;
+  }
+};
+
+const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
+
+const runStages = async (
+  job: TranslationJob,
+  lease: JobLease,
+  stages: PipelineStage[],
+  retryPolicy: RetryPolicyResolver
+): Promise<TranslationJob> => {
+  let current = job;
+  let artifacts: Record<string, string> = {};
+
+  await initStages(job.id, stages.map(stage => stage.name));
+  const previous = new Map((await getStages(job.id)).map(row => [row.name, row]));
+
+  for (const stage of stages) {
+    const row = previous.get(stage.name);
+    if (row && (row.state === 'completed' || row.state === 'skipped')) {
+      artifacts = { ...artifacts, ...row.output };
+      continue;
+    }
+
+    current = await loadJob(job.id);
+    if (current.status === 'cancelled') {
+      return current;
+    }
+
+    const segments = await getSegments(job.id);
+    if (stage.skip?.({ job: current, segments })) {
+      const now = new Date();
+      await saveStage(lease, stage.name, { state: 'skipped', percent: 100, started_at: now, finished_at: now });
+      continue;
+    }
+
+    const attempt = (row?.attempts ?? 0) + 1;
+    await saveStage(lease, stage.name, {
+      state: 'running',
+      percent: 0,
+      attempts: attempt,
+      started_at: new Date(),
+      finished_at: null
+    });
+
+    try {
+      const result = await stage.run({
+        job: current,
+        segments,
+        artifacts,
+        reportProgress: (percent) => saveStage(lease, stage.name, {
+          percent: Math.max(0, Math.min(100, Math.round(percent)))
+        })
+      });
+
+      if (result.artifacts) {
+        artifacts = { ...artifacts, ...result.artifacts };
+      }
+      if (result.segments) {
+        const drafts = result.segments;
+        await db.transaction(async (tx) => {
+          await saveSegments(job.id, drafts, tx);
+          // Checked once the segments are locked, in the order editSegments
+          // takes them
+          await holdLease(tx, lease);
+        });
+      }
+      if (result.job && Object.keys(result.job).length > 0) {
+        current = await saveJob(lease, result.job);
+      }
+
+      if (result.await_review) {
+        await saveStage(lease, stage.name, {
+          state: 'pending',
+          percent: 0,
+          attempts: attempt - 1,
+          started_at: null,
+          finished_at: null
+        });
+        return finishJob(lease, { status: 'awaiting_review' }, 'Waiting for review');
+      }
+
+      await saveStage(lease, stage.name, {
+        state: 'completed',
+        percent: 100,
+        output: result.artifacts ?? null,
+        finished_at: new Date()
+      });
+    } catch (error) {
+      if (error instanceof LeaseLostError) {
+        throw error;
+      }
+      console.error(`Stage "${stage.name}" failed for translation job ${job.id} (attempt ${attempt}):`, error);
+      await saveStage(lease, stage.name, { state: 'failed', finished_at: new Date() });
+
+      const message = `${stage.name}: ${errorMessage(error)}`;
+      const policy = retryPolicy(stage.name);
+      if (attempt < policy.max_attempts) {
+        const delay = backoffDelayMs(policy, attempt);
+        return finishJob(lease, {
+          status: 'retrying',
+          error_message: message,
+          next_attempt_at: new Date(Date.now() + delay)
+        }, `Retrying ${stage.name} in ${delay}ms (attempt ${attempt + 1} of ${policy.max_attempts})`);
+      }
+
+      return finishJob(lease, { status: 'failed', error_message: message });
+    }
+  }
+
+  let completed: TranslationJob;
+  try {
+    completed = await finishJob(lease, { status: 'completed', error_message: null });
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      throw error;
+    }
+    // The stages ran but did not leave the job in a completable state
+    console.error(`Translation job ${job.id} could not be completed:`, error);
+    return finishJob(lease, { status: 'failed', error_message: errorMessage(error) });
+  }
+
+  // Finished translations feed the translation memory and the project's
+  // combined file; the job is done either way
+  if (completed.status === 'completed') {
+    await rememberJob(job.id).catch(error => {
+      console.error(`Translation job ${job.id} could not be added to the translation memory:`, error);
+    });
+    if (completed.project_id !== null) {
+      await requestCombinedOutput(completed.project_id).catch(error => {
+        console.error(`Combined output of project ${completed.project_id} could not be queued:`, error);
+      });
+    }
+  }
+  return completed;
+};
+
+// Run a claimed job through its stages in order, persisting each stage's
+// output and progress before the next one starts. Stages that completed in an
+// earlier attempt are skipped and their stored artifacts reused, as are stages
+// whose skip check says the job does not need them. A stage can park the job
+// in awaiting_review; it runs again after approval. Cancellation
+// is checked between stages. Stage errors schedule a retry or fail the job;
+// they are not rethrown. The job's lease is renewed until it returns; a stage
+// left running by a worker that died runs again as the next attempt. Once
+// another worker has claimed the job, every write fails and processing stops
+// there, returning the job as the other worker has it.
+export const processJob = async (
+  job: LeasedJob,
+  stages: PipelineStage[],
+  retryPolicy: RetryPolicyResolver = () => defaultRetryPolicy
+): Promise<TranslationJob> => {
+  const lease = leaseOf(job);
+  const stopHeartbeat = startHeartbeat(lease);
+  try {
+    return await runStages(job, lease, stages, retryPolicy);
+  } catch (error) {
+    if (error instanceof LeaseLostError) {
+      console.warn(`Stopped processing translation job ${job.id}: ${error.message}`);
+      return loadJob(job.id);
+    }
+    throw error;
+  } finally {
+    stopHeartbeat();
+  }
+};
+
+export const createWorker = ({ stages, pollIntervalMs = 2000, retryPolicy }: WorkerOptions): Worker => {
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let current: Promise<unknown> | null = null;
+
+  const runOnce = async (): Promise<TranslationJob | null> => {
+    const job = await claimNextJob();
+    return job ? processJob(job, stages, retryPolicy) : null;
+  };
+
+  const poll = async (): Promise<void> => {
+    timer = null;
+    try {
+      // Drain the queue, then the queued combined files, before going back
+      // to sleep
+      while (running) {
+        current = runOnce();
+        if (await current) continue;
+        current = buildNextCombinedOutput();
+        if (!(await current)) break;
+      }
+    } catch (error) {
+      console.error('Worker poll failed:', error);
+    } finally {
+      current = null;
+    }
+
+    if (running) {
+      timer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      timer = setTimeout(poll, 0);
+    },
+    stop: async () => {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      // Let an in-flight job finish so it is not left in processing
+      await current?.catch(() => undefined);
+    },
+    runOnce
+  };
+};
@@ -0,0 +1,295 @@
+import { randomUUID } from 'crypto';
+import { and, asc, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { jobStagesTable, projectsTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type Project, type SupportedLanguage, type TranscriptSegment, type TranslationJob, type VideoContainer } from '../schema';
+import { ProjectNotFoundError, RemuxNotSupportedError } from '../errors';
+import { languageNames } from '../handlers/get_supported_languages';
+import { writeMatroska } from '../media/matroska';
+import { demux, pcmTrack, textTrack } from '../media/remux';
+import { type MediaTrack } from '../media/types';
+import { decodeWav, type PcmAudio, pcmDurationMs } from '../media/wav';
+import { loadLeaseMs } from '../pipeline/lease';
+import { cuesForTrack } from '../subtitles/tracks';
+import { readBlob } from '../storage/blobs';
+import { getBlobStore } from '../storage/registry';
+import { type BlobStore } from '../storage/types';
+
+// Matroska tags tracks with ISO 639-2 (bibliographic) codes
+const matroskaLanguages: Record<SupportedLanguage, string> = {
+  en: 'eng',
+  es: 'spa',
+  fr: 'fre',
+  de: 'ger',
+  it: 'ita',
+  pt: 'por',
+  ru: 'rus',
+  ja: 'jpn',
+  ko: 'kor',
+  zh: 'chi',
+  ar: 'ara',
+  hi: 'hin'
+};
+
+// Containers whose tracks can be copied; sources without a probed container
+// (WAV) are tried as they are
+const REMUXABLE_CONTAINERS: VideoContainer[] = ['mp4', 'mov', 'mkv', 'webm'];
+
+export const assertRemuxable = (project: Pick<Project, 'media_info'>): void => {
+  const container = project.media_info?.container ?? null;
+  if (container && !REMUXABLE_CONTAINERS.includes(container)) {
+    throw new RemuxNotSupportedError(container);
+  }
+};
+
+const baseName = (filename: string): string => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(0, dot) : filename;
+};
+
+// interview.mp4 -> interview_dubbed.mkv
+export const combinedFilename = (project: Pick<Project, 'original_filename'>): string => {
+  return `${baseName(project.original_filename)}_dubbed.mkv`;
+};
+
+// interview.mp4 -> interview.mkv
+export const matroskaFilename = (filename: string): string => `${baseName(filename)}.mkv`;
+
+const trackLabel = (language: SupportedLanguage | null, name: string | null) => ({
+  language: language ? matroskaLanguages[language] : null,
+  ...(language ? { language_bcp47: language } : {}),
+  name,
+  default: false
+});
+
+export const trackEnd = (track: MediaTrack): number => {
+  const last = track.frames[track.frames.length - 1];
+  return last ? last.time_ms + (last.duration_ms ?? 0) : 0;
+};
+
+// The tracks of a source as they go into a remux: the video is the default
+// one, and audio without a language is tagged with the detected one. The
+// first audio track stays the default unless a dub takes its place.
+export const originalTracks = (source: MediaTrack[], sourceLanguage: SupportedLanguage | null, defaultAudio: boolean): MediaTrack[] => {
+  const firstAudio = source.findIndex(track => track.type === 'audio');
+  return source.map((track, index) => track.type === 'audio'
+    ? {
+      ...track,
+      language: track.language && track.language !== 'und'
+        ? track.language
+        : sourceLanguage && matroskaLanguages[sourceLanguage],
+      name: track.name ?? 'Original',
+      default: defaultAudio && index === firstAudio
+    }
+    : { ...track, default: track.type === 'video' });
+};
+
+export const dubbedTrack = (pcm: PcmAudio, language: SupportedLanguage): MediaTrack => {
+  return pcmTrack(pcm, trackLabel(language, `${languageNames[language]} (dubbed)`));
+};
+
+// Queue a rebuild of a project's combined file, e.g. after a job of the
+// project completed or its delivery settings changed. Projects delivering
+// separate files are left alone. Pass a transaction as the executor to queue
+// it together with other writes.
+export const requestCombinedOutput = async (
+  projectId: number,
+  executor: Pick<typeof db, 'update'> = db
+): Promise<void> => {
+  await executor.update(projectsTable)
+    .set({ combined_revision: sql`${projectsTable.combined_revision} + 1` })
+    .where(and(eq(projectsTable.id, projectId), eq(projectsTable.output_mode, 'combined')))
+    .execute();
+};
+
+// What a build works from, read when it is claimed
+interface CombinedBuild {
+  project: Project;
+  token: string;
+  revision: number;
+  dubbed: { job: TranslationJob; dubbed_audio: string }[];
+  // Segments of each dubbed job, when the project embeds subtitles
+  segments: TranscriptSegment[][];
+}
+
+// Claim the oldest project with a queued rebuild and snapshot its completed
+// languages. A build left behind by a worker that stopped can be claimed
+// again once the lease has run out.
+const claimCombinedBuild = async (leaseMs: number): Promise<CombinedBuild | null> => {
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const projects = await tx.select()
+      .from(projectsTable)
+      .where(and(
+        eq(projectsTable.output_mode, 'combined'),
+        gt(projectsTable.combined_revision, projectsTable.combined_built_revision),
+        or(
+          isNull(projectsTable.combined_build_started_at),
+          lt(projectsTable.combined_build_started_at, new Date(now.getTime() - leaseMs))
+        )
+      ))
+      .orderBy(asc(projectsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+    if (projects.length === 0) {
+      return null;
+    }
+
+    const token = randomUUID();
+    const [project] = await tx.update(projectsTable)
+      .set({ combined_build_token: token, combined_build_started_at: now })
+      .where(eq(projectsTable.id, projects[0].id))
+      .returning()
+      .execute();
+
+    const mixed = await tx.select({ job: translationJobsTable, output: jobStagesTable.output })
+      .from(translationJobsTable)
+      .innerJoin(jobStagesTable, and(
+        eq(jobStagesTable.job_id, translationJobsTable.id),
+        eq(jobStagesTable.name, 'mix'),
+        eq(jobStagesTable.state, 'completed')
+      ))
+      .where(and(
+        eq(translationJobsTable.project_id, project.id),
+        eq(translationJobsTable.status, 'completed')
+      ))
+      .orderBy(asc(translationJobsTable.id))
+      .execute();
+    const dubbed = mixed.flatMap(({ job, output }) => (output?.['dubbed_audio'] ? [{ job, dubbed_audio: output['dubbed_audio'] }] : []));
+
+    const segments = project.embed_subtitles
+      ? await Promise.all(dubbed.map(({ job }) => tx.select()
+        .from(transcriptSegmentsTable)
+        .where(eq(transcriptSegmentsTable.job_id, job.id))
+        .orderBy(asc(transcriptSegmentsTable.index))
+        .execute()))
+      : [];
+
+    return { project, token, revision: project.combined_revision, dubbed, segments };
+  });
+};
+
+// Mux the snapshot into a new file: the source's video and original audio
+// copied without re-encoding, every completed language as another audio
+// track, and, when the project asks for them, subtitle streams for the
+// source and each language. Returns the file's path.
+const writeCombinedFile = async (build: CombinedBuild, store: BlobStore): Promise<string> => {
+  const { project, dubbed } = build;
+  assertRemuxable(project);
+  const source = demux(await readBlob(store, project.original_file_path));
+  if (!source) {
+    throw new RemuxNotSupportedError(project.media_info?.container ?? null);
+  }
+
+  // The source's first audio track stays the default one
+  const sourceLanguage = dubbed[0].job.detected_language;
+  const tracks = originalTracks(source, sourceLanguage, true);
+
+  let durationMs = Math.max(project.media_info?.duration_ms ?? 0, ...source.map(trackEnd));
+  for (const { job, dubbed_audio } of dubbed) {
+    const pcm = decodeWav(await readBlob(store, dubbed_audio));
+    if (!pcm) {
+      throw new Error(`Cannot combine the dubbed tracks: the ${job.target_language} track is not 16-bit PCM WAV`);
+    }
+    durationMs = Math.max(durationMs, pcmDurationMs(pcm.samples.length, pcm.sample_rate, pcm.channels));
+    tracks.push(dubbedTrack(pcm, job.target_language));
+  }
+
+  if (project.embed_subtitles) {
+    const sourceCues = cuesForTrack(build.segments[0], 'source');
+    if (sourceCues) {
+      tracks.push(textTrack(sourceCues, trackLabel(sourceLanguage, sourceLanguage && languageNames[sourceLanguage])));
+    }
+    dubbed.forEach(({ job }, index) => {
+      const cues = cuesForTrack(build.segments[index], 'target');
+      if (cues) {
+        tracks.push(textTrack(cues, trackLabel(job.target_language, languageNames[job.target_language])));
+      }
+    });
+  }
+
+  // Every build gets a file of its own, so downloads of the previous one are
+  // not cut off while it is written
+  const path = `/outputs/projects/${project.id}/${build.token}/${combinedFilename(project)}`;
+  const contentType = tracks.some(track => track.type === 'video') ? 'video/x-matroska' : 'audio/x-matroska';
+  await store.put(path, writeMatroska(tracks, durationMs), { content_type: contentType });
+  return path;
+};
+
+// Record the outcome of a build if it still holds its claim. Returns the
+// project and the file it replaced, or null when another worker took the
+// build over.
+const finishCombinedBuild = async (
+  build: CombinedBuild,
+  outcome: { path: string | null; languages: SupportedLanguage[] } | { error: string }
+): Promise<{ project: Project; replaced: string | null } | null> => {
+  return db.transaction(async (tx) => {
+    const current = await tx.select({ combined_file_path: projectsTable.combined_file_path })
+      .from(projectsTable)
+      .where(and(eq(projectsTable.id, build.project.id), eq(projectsTable.combined_build_token, build.token)))
+      .for('update')
+      .execute();
+    if (current.length === 0) {
+      return null;
+    }
+
+    const result = 'error' in outcome
+      ? { combined_error: outcome.error }
+      : { combined_file_path: outcome.path, combined_languages: outcome.languages, combined_error: null };
+    const [project] = await tx.update(projectsTable)
+      .set({
+        ...result,
+        combined_built_revision: sql`greatest(${projectsTable.combined_built_revision}, ${build.revision})`,
+        combined_build_token: null,
+        combined_build_started_at: null
+      })
+      .where(eq(projectsTable.id, build.project.id))
+      .returning()
+      .execute();
+
+    const replaced = current[0].combined_file_path;
+    return { project, replaced: 'error' in outcome || replaced === outcome.path ? null : replaced };
+  });
+};
+
+// Build the combined file of the next project with a queued rebuild, from
+// the languages whose jobs have completed. The inputs are read when the build
+// is claimed and the file is written outside any transaction; the project
+// then points at the new file and the previous one is deleted. A build that
+// fails is recorded in combined_error and leaves the previous file in place.
+// Resolves to the project, or null when no rebuild is queued.
+export const buildNextCombinedOutput = async (
+  store: BlobStore = getBlobStore(),
+  leaseMs: number = loadLeaseMs()
+): Promise<Project | null> => {
+  const build = await claimCombinedBuild(leaseMs);
+  if (!build) {
+    return null;
+  }
+
+  let path: string | null = build.project.combined_file_path;
+  let finished: Awaited<ReturnType<typeof finishCombinedBuild>>;
+  try {
+    if (build.dubbed.length > 0) {
+      path = await writeCombinedFile(build, store);
+    }
+    finished = await finishCombinedBuild(build, { path, languages: build.dubbed.map(({ job }) => job.target_language) });
+  } catch (error) {
+    console.error(`Combined output of project ${build.project.id} failed:`, error);
+    finished = await finishCombinedBuild(build, { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (!finished) {
+    // Taken over; the file written here is not the project's
+    if (path && path !== build.project.combined_file_path) {
+      await store.delete(path).catch(error => console.error(`Deleting ${path} failed:`, error));
+    }
+    return null;
+  }
+  if (finished.replaced) {
+    const replaced = finished.replaced;
+    await store.delete(replaced).catch(error => console.error(`Deleting ${replaced} failed:`, error));
+  }
+  return finished.project;
+};
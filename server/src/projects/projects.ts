@@ -0,0 +1,127 @@
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { type MediaInfo, type SupportedLanguage, type TranscriptSegment, type TranslationJob } from '../schema';
+import { getSegments, saveSegments, type SegmentDraft } from '../pipeline/segments';
+import { type ImportedTranscript } from '../subtitles/import';
+
+// The languages an upload is to be dubbed into, in the order given
+export const targetLanguagesOf = (input: {
+  target_language?: SupportedLanguage;
+  target_languages?: SupportedLanguage[];
+}): SupportedLanguage[] => {
+  return input.target_languages ?? (input.target_language ? [input.target_language] : []);
+};
+
+export interface NewJobs {
+  filename: string;
+  file_path: string;
+  media_info: MediaInfo | null;
+  target_languages: SupportedLanguage[];
+  requires_review: boolean;
+  glossary_id: number | null;
+  voice: string | null;
+  // Captions that become every job's transcript
+  imported: ImportedTranscript | null;
+}
+
+// Create one pending job per target language for a stored source file. With
+// more than one language the jobs are grouped under a new project and share
+// the file. Jobs are returned in target language order. Pass a transaction
+// as the executor to create them together with other writes.
+export const createJobs = async (
+  input: NewJobs,
+  executor: Pick<typeof db, 'transaction'> = db
+): Promise<TranslationJob[]> => {
+  return executor.transaction(async (tx) => {
+    let projectId: number | null = null;
+    if (input.target_languages.length > 1) {
+      const projects = await tx.insert(projectsTable)
+        .values({
+          original_filename: input.filename,
+          original_file_path: input.file_path,
+          media_info: input.media_info
+        })
+        .returning()
+        .execute();
+      projectId = projects[0].id;
+    }
+
+    const created = await tx.insert(translationJobsTable)
+      .values(input.target_languages.map(language => ({
+        original_filename: input.filename,
+        original_file_path: input.file_path,
+        target_language: language,
+        requires_review: input.requires_review,
+        glossary_id: input.glossary_id,
+        voice: input.voice,
+        status: 'pending' as const,
+        media_info: input.media_info,
+        detected_language: input.imported?.language ?? null,
+        transcript_source: input.imported ? 'subtitles' as const : null,
+        project_id: projectId
+      })))
+      .returning()
+      .execute();
+    const ids = created.map(job => job.id);
+
+    if (!input.imported) {
+      return created;
+    }
+
+    // Imported captions are the transcript, so the worker never sees a job
+    // without them
+    for (const id of ids) {
+      await saveSegments(id, input.imported.segments, tx);
+    }
+    const jobs = await tx.select()
+      .from(translationJobsTable)
+      .where(inArray(translationJobsTable.id, ids))
+      .orderBy(asc(translationJobsTable.id))
+      .execute();
+    return jobs;
+  });
+};
+
+// The transcript recognized for another job of the same project, for the
+// transcribe stage to reuse instead of running speech recognition again.
+// Null when the job has no project or no sibling has a transcript yet.
+export const sharedTranscript = async (
+  job: Pick<TranslationJob, 'id' | 'project_id'>
+): Promise<{ detected_language: SupportedLanguage; segments: SegmentDraft[] } | null> => {
+  if (job.project_id === null) {
+    return null;
+  }
+
+  const siblings = await db.select()
+    .from(translationJobsTable)
+    .where(and(
+      eq(translationJobsTable.project_id, job.project_id),
+      ne(translationJobsTable.id, job.id),
+      eq(translationJobsTable.transcript_source, 'asr')
+    ))
+    .orderBy(asc(translationJobsTable.id))
+    .limit(1)
+    .execute();
+  const sibling = siblings[0];
+  if (!sibling?.detected_language) {
+    return null;
+  }
+
+  const segments = await getSegments(sibling.id);
+  if (segments.length === 0) {
+    return null;
+  }
+  return {
+    detected_language: sibling.detected_language,
+    // Lines, timings and speakers; the translations are the sibling's own
+    segments: segments.map((segment: TranscriptSegment) => ({
+      start_ms: segment.start_ms,
+      end_ms: segment.end_ms,
+      speaker: segment.speaker,
+      source_text: segment.source_text,
+      translated_text: null,
+      confidence: segment.confidence
+    }))
+  };
+};
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { speakingStyleSchema, supportedLanguagesSchema, voiceGenderSchema } from '../schema';
+import {
+  type ProviderSettings,
+  type SpeakerDiarizer,
+  type SpeechRecognizer,
+  type SpeechSynthesizer,
+  type StemSeparator,
+  type Translator
+} from './types';
+
+// JSON-over-HTTP adapters. Each provider is a single POST endpoint below the
+// configured base URL, so any service (or a local stand-in) implementing the
+// contract can be plugged in:
+//   POST {url}/transcribe  { audio_base64, filename, language_hint }  -> { language, text, segments }
+//   POST {url}/diarize     { audio_base64, filename, segments }        -> { speakers }
+//   POST {url}/separate    { audio_base64, filename }                  -> { speech_base64, background_base64 }
+//   POST {url}/translate   { texts, source_language, target_language } -> { translations }
+//   POST {url}/synthesize  { text, language, voice, gender, style }    -> { audio_base64, mime_type, duration_ms }
+//   POST {url}/voices      {}                                          -> { voices }
+// Synthesized speech and separated stems must be 16-bit PCM WAV (audio/wav)
+// to be assembled into the dubbed track. A separator that cannot read the
+// media answers with null stems.
+
+const transcribeResponseSchema = z.object({
+  language: supportedLanguagesSchema,
+  text: z.string(),
+  segments: z.array(z.object({
+    start_ms: z.number().int().nonnegative(),
+    end_ms: z.number().int().nonnegative(),
+    text: z.string(),
+    speaker: z.string().nullish(),
+    confidence: z.number().min(0).max(1).nullish()
+  }))
+});
+
+const diarizeResponseSchema = z.object({
+  speakers: z.array(z.string().min(1))
+});
+
+const separateResponseSchema = z.object({
+  speech_base64: z.string().nullable(),
+  background_base64: z.string().nullable()
+});
+
+const translateResponseSchema = z.object({
+  translations: z.array(z.string())
+});
+
+const synthesizeResponseSchema = z.object({
+  audio_base64: z.string(),
+  mime_type: z.string(),
+  duration_ms: z.number().nonnegative()
+});
+
+const voicesResponseSchema = z.object({
+  voices: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    language: supportedLanguagesSchema,
+    gender: voiceGenderSchema,
+    styles: z.array(speakingStyleSchema),
+    sample_rate: z.number().int().positive()
+  }))
+});
+
+const postJson = async <T>(settings: ProviderSettings, path: string, body: unknown, schema: z.ZodType<T>): Promise<T> => {
+  if (!settings.url) {
+    throw new Error(`HTTP provider "${path}" requires a URL`);
+  }
+
+  const url = `${settings.url.replace(/\/+$/, '')}/${path}`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(settings.timeout_ms)
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${url} responded with ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+
+  return schema.parse(await response.json());
+};
+
+export const createHttpRecognizer = (settings: ProviderSettings): SpeechRecognizer => ({
+  name: 'http',
+  transcribe: async ({ media, filename, language_hint }) => {
+    return postJson(settings, 'transcribe', {
+      audio_base64: media.toString('base64'),
+      filename,
+      language_hint: language_hint ?? null
+    }, transcribeResponseSchema);
+  }
+});
+
+export const createHttpDiarizer = (settings: ProviderSettings): SpeakerDiarizer => ({
+  name: 'http',
+  diarize: async ({ media, filename, segments }) => {
+    const { speakers } = await postJson(settings, 'diarize', {
+      audio_base64: media.toString('base64'),
+      filename,
+      segments
+    }, diarizeResponseSchema);
+
+    if (speakers.length !== segments.length) {
+      throw new Error(`Expected ${segments.length} speaker labels, received ${speakers.length}`);
+    }
+
+    return speakers;
+  }
+});
+
+export const createHttpSeparator = (settings: ProviderSettings): StemSeparator => ({
+  name: 'http',
+  separate: async ({ media, filename }) => {
+    const result = await postJson(settings, 'separate', {
+      audio_base64: media.toString('base64'),
+      filename
+    }, separateResponseSchema);
+
+    if (result.speech_base64 === null || result.background_base64 === null) {
+      return null;
+    }
+    return {
+      speech: Buffer.from(result.speech_base64, 'base64'),
+      background: Buffer.from(result.background_base64, 'base64')
+    };
+  }
+});
+
+export const createHttpTranslator = (settings: ProviderSettings): Translator => ({
+  name: 'http',
+  translate: async (input) => {
+    const { translations } = await postJson(settings, 'translate', input, translateResponseSchema);
+
+    if (translations.length !== input.texts.length) {
+      throw new Error(`Expected ${input.texts.length} translations, received ${translations.length}`);
+    }
+
+    return translations;
+  }
+});
+
+export const createHttpSynthesizer = (settings: ProviderSettings): SpeechSynthesizer => ({
+  name: 'http',
+  synthesize: async ({ text, language, voice, gender, style }) => {
+    const result = await postJson(settings, 'synthesize', {
+      text,
+      language,
+      voice: voice ?? null,
+      gender: gender ?? null,
+      style: style ?? null
+    }, synthesizeResponseSchema);
+
+    return {
+      audio: Buffer.from(result.audio_base64, 'base64'),
+      mime_type: result.mime_type,
+      duration_ms: result.duration_ms
+    };
+  },
+  listVoices: async () => {
+    const { voices } = await postJson(settings, 'voices', {}, voicesResponseSchema);
+    return voices;
+  }
+});
@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { demux, trackPcm } from '../media/remux';
+import { runDsp } from '../media/dsp';
+import { encodeWav, fromPlanar, pcmDurationMs, type PlanarAudio, toPlanar } from '../media/wav';
+import { type SpeakingStyle, supportedLanguagesSchema, type VoiceGender } from '../schema';
+import {
+  type RecognizedSegment,
+  type SpeakerDiarizer,
+  type SpeechRecognizer,
+  type SpeechSynthesizer,
+  type StemSeparator,
+  type SynthesizerVoice,
+  type Translator
+} from './types';
+
+// Deterministic offline providers. Output depends only on the input, so the
+// whole dubbing flow can run (and be asserted on) without any AI service.
+
+const SEGMENT_DURATION_MS = 2500;
+const SAMPLE_RATE = 16000;
+const MS_PER_CHARACTER = 65;
+// A silence at least this long is taken as a change of speaker
+const TURN_GAP_MS = 1500;
+
+export const localRecognizer: SpeechRecognizer = {
+  name: 'local',
+  transcribe: async ({ media, filename, language_hint }) => {
+    const digest = createHash('sha256').update(media).digest('hex').substring(0, 8);
+    const title = filename.replace(/\.[^.]+$/, '');
+    const sentences = [
+      `This is the narration of ${title}.`,
+      `Reference ${digest}.`
+    ];
+
+    const segments: RecognizedSegment[] = sentences.map((text, index) => ({
+      start_ms: index * SEGMENT_DURATION_MS,
+      end_ms: (index + 1) * SEGMENT_DURATION_MS,
+      text
+    }));
+
+    return {
+      language: language_hint ?? 'en',
+      text: sentences.join(' '),
+      segments
+    };
+  }
+};
+
+// Two speakers taking turns: the other one answers after a question or a
+// long pause. Crude, but it tells an interviewer from a guest.
+export const turnTakingDiarizer: SpeakerDiarizer = {
+  name: 'local',
+  diarize: async ({ segments }) => {
+    let speaker = 1;
+    return segments.map((segment, index) => {
+      const previous = segments[index - 1];
+      if (previous && (previous.text.trim().endsWith('?') || segment.start_ms - previous.end_ms >= TURN_GAP_MS)) {
+        speaker = 3 - speaker;
+      }
+      return `SPEAKER_${speaker}`;
+    });
+  }
+};
+
+const toWav = (audio: PlanarAudio): Buffer => {
+  const pcm = fromPlanar(audio);
+  return encodeWav(pcm.samples, pcm.sample_rate, pcm.channels);
+};
+
+// Splits uncompressed audio on the CPU, on the DSP thread: the center channel
+// of 5.1, the shared center of stereo, the voice band of mono (see
+// separateStems). The audio is the first track of WAV or of a Matroska, MP4
+// or MOV container holding 16-bit PCM. Compressed audio cannot be decoded
+// here, so such media gets no background.
+export const centerChannelSeparator: StemSeparator = {
+  name: 'local',
+  separate: async ({ media }) => {
+    const audio = demux(media)?.find(track => track.type === 'audio');
+    const pcm = audio ? trackPcm(audio) : null;
+    if (!pcm) {
+      return null;
+    }
+    const stems = await runDsp('separateStems', toPlanar(pcm));
+    return { speech: toWav(stems.speech), background: toWav(stems.background) };
+  }
+};
+
+// Tags every text with the target language instead of translating it
+export const pseudoTranslator: Translator = {
+  name: 'local',
+  translate: async ({ texts, target_language }) => {
+    return texts.map(text => `[${target_language}] ${text}`);
+  }
+};
+
+const GENDER_OFFSET: Record<VoiceGender, number> = { female: 60, male: -60, neutral: 0 };
+// Speaking rate relative to the neutral style
+const STYLE_PACE: Record<SpeakingStyle, number> = {
+  neutral: 1,
+  conversational: 0.95,
+  narration: 1.15,
+  cheerful: 0.9,
+  serious: 1.1
+};
+
+// Pick a stable pitch per language, voice and gender so outputs are distinguishable
+const toneFrequency = (language: string, voice?: string, gender?: VoiceGender): number => {
+  const languageIndex = Math.max(0, supportedLanguagesSchema.options.indexOf(language as never));
+  const voiceOffset = voice ? createHash('sha256').update(voice).digest()[0] % 40 : 0;
+  return 220 + languageIndex * 20 + voiceOffset + (gender ? GENDER_OFFSET[gender] : 0);
+};
+
+// Three voices per language, one of each gender
+const TONE_VOICES: Pick<SynthesizerVoice, 'name' | 'gender' | 'styles'>[] = [
+  { name: 'Aurora', gender: 'female', styles: ['neutral', 'conversational', 'narration', 'cheerful', 'serious'] },
+  { name: 'Basil', gender: 'male', styles: ['neutral', 'narration', 'serious'] },
+  { name: 'Cedar', gender: 'neutral', styles: ['neutral', 'conversational', 'cheerful'] }
+];
+
+// Emits a sine tone whose length is proportional to the text
+export const toneSynthesizer: SpeechSynthesizer = {
+  name: 'local',
+  synthesize: async ({ text, language, voice, gender, style }) => {
+    const durationMs = Math.max(300, Math.round(text.length * MS_PER_CHARACTER * STYLE_PACE[style ?? 'neutral']));
+    const sampleCount = Math.round((durationMs * SAMPLE_RATE) / 1000);
+    const frequency = toneFrequency(language, voice, gender);
+    const fadeSamples = Math.round(SAMPLE_RATE * 0.01);
+    const samples = new Int16Array(sampleCount);
+
+    for (let i = 0; i < sampleCount; i++) {
+      // Short linear fades avoid clicks at the segment boundaries
+      const envelope = Math.min(1, i / fadeSamples, (sampleCount - i) / fadeSamples);
+      samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 8000);
+    }
+
+    return {
+      audio: encodeWav(samples, SAMPLE_RATE),
+      mime_type: 'audio/wav',
+      duration_ms: pcmDurationMs(sampleCount, SAMPLE_RATE)
+    };
+  },
+  listVoices: async () => {
+    return supportedLanguagesSchema.options.flatMap(language => TONE_VOICES.map(voice => ({
+      ...voice,
+      id: `${language}-${voice.name.toLowerCase()}`,
+      language,
+      sample_rate: SAMPLE_RATE
+    })));
+  }
+};
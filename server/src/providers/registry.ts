@@ -0,0 +1,104 @@
+import { centerChannelSeparator, localRecognizer, pseudoTranslator, toneSynthesizer, turnTakingDiarizer } from './local';
+import {
+  createHttpDiarizer,
+  createHttpRecognizer,
+  createHttpSeparator,
+  createHttpSynthesizer,
+  createHttpTranslator
+} from './http';
+import {
+  type ProviderConfig,
+  type ProviderSettings,
+  type Providers,
+  type SpeakerDiarizer,
+  type SpeechRecognizer,
+  type SpeechSynthesizer,
+  type StemSeparator,
+  type Translator
+} from './types';
+
+type Factory<T> = (settings: ProviderSettings) => T;
+
+const recognizers = new Map<string, Factory<SpeechRecognizer>>();
+const diarizers = new Map<string, Factory<SpeakerDiarizer>>();
+const separators = new Map<string, Factory<StemSeparator>>();
+const translators = new Map<string, Factory<Translator>>();
+const synthesizers = new Map<string, Factory<SpeechSynthesizer>>();
+
+export const registerRecognizer = (driver: string, factory: Factory<SpeechRecognizer>): void => {
+  recognizers.set(driver, factory);
+};
+
+export const registerDiarizer = (driver: string, factory: Factory<SpeakerDiarizer>): void => {
+  diarizers.set(driver, factory);
+};
+
+export const registerSeparator = (driver: string, factory: Factory<StemSeparator>): void => {
+  separators.set(driver, factory);
+};
+
+export const registerTranslator = (driver: string, factory: Factory<Translator>): void => {
+  translators.set(driver, factory);
+};
+
+export const registerSynthesizer = (driver: string, factory: Factory<SpeechSynthesizer>): void => {
+  synthesizers.set(driver, factory);
+};
+
+// Built-in drivers
+registerRecognizer('local', () => localRecognizer);
+registerDiarizer('local', () => turnTakingDiarizer);
+registerSeparator('local', () => centerChannelSeparator);
+registerTranslator('local', () => pseudoTranslator);
+registerSynthesizer('local', () => toneSynthesizer);
+registerRecognizer('http', createHttpRecognizer);
+registerDiarizer('http', createHttpDiarizer);
+registerSeparator('http', createHttpSeparator);
+registerTranslator('http', createHttpTranslator);
+registerSynthesizer('http', createHttpSynthesizer);
+
+const readSettings = (env: NodeJS.ProcessEnv, prefix: string): ProviderSettings => ({
+  driver: env[`${prefix}_PROVIDER`] || 'local',
+  url: env[`${prefix}_URL`] || undefined,
+  timeout_ms: Number(env[`${prefix}_TIMEOUT_MS`] || env['PROVIDER_TIMEOUT_MS'] || 60000)
+});
+
+// ASR_PROVIDER / DIARIZATION_PROVIDER / SEPARATION_PROVIDER / MT_PROVIDER /
+// TTS_PROVIDER select the driver ("local" by default); *_URL and *_TIMEOUT_MS
+// configure HTTP-backed drivers.
+export const loadProviderConfig = (env: NodeJS.ProcessEnv = process.env): ProviderConfig => ({
+  recognizer: readSettings(env, 'ASR'),
+  diarizer: readSettings(env, 'DIARIZATION'),
+  separator: readSettings(env, 'SEPARATION'),
+  translator: readSettings(env, 'MT'),
+  synthesizer: readSettings(env, 'TTS')
+});
+
+const build = <T>(registry: Map<string, Factory<T>>, kind: string, settings: ProviderSettings): T => {
+  const factory = registry.get(settings.driver);
+  if (!factory) {
+    throw new Error(`Unknown ${kind} provider "${settings.driver}". Registered: ${[...registry.keys()].join(', ')}`);
+  }
+  return factory(settings);
+};
+
+export const createProviders = (config: ProviderConfig = loadProviderConfig()): Providers => ({
+  recognizer: build(recognizers, 'speech recognition', config.recognizer),
+  diarizer: build(diarizers, 'speaker diarization', config.diarizer),
+  separator: build(separators, 'stem separation', config.separator),
+  translator: build(translators, 'translation', config.translator),
+  synthesizer: build(synthesizers, 'speech synthesis', config.synthesizer)
+});
+
+let defaultProviders: Providers | null = null;
+
+// The providers shared by the worker and handlers, created from the
+// environment on first use
+export const getProviders = (): Providers => {
+  defaultProviders ??= createProviders();
+  return defaultProviders;
+};
+
+export const setProviders = (providers: Providers | null): void => {
+  defaultProviders = providers;
+};
@@ -0,0 +1,122 @@
+import { type SpeakingStyle, type SupportedLanguage, type Voice, type VoiceGender } from '../schema';
+
+export interface RecognizedSegment {
+  start_ms: number;
+  end_ms: number;
+  text: string;
+  speaker?: string | null;
+  confidence?: number | null; // 0-1
+}
+
+export interface RecognitionInput {
+  media: Buffer;
+  filename: string;
+  language_hint?: SupportedLanguage;
+}
+
+export interface RecognitionResult {
+  language: SupportedLanguage;
+  text: string;
+  segments: RecognizedSegment[];
+}
+
+export interface DiarizationInput {
+  media: Buffer;
+  filename: string;
+  // The timed transcript whose lines are attributed to speakers
+  segments: Pick<RecognizedSegment, 'start_ms' | 'end_ms' | 'text'>[];
+}
+
+export interface SeparationInput {
+  media: Buffer;
+  filename: string;
+}
+
+// The media's audio split in two, both 16-bit PCM WAV at the source's sample
+// rate and channel count
+export interface SeparationResult {
+  speech: Buffer;
+  // Music and effects: everything but the speech
+  background: Buffer;
+}
+
+export interface TranslationInput {
+  texts: string[];
+  source_language: SupportedLanguage;
+  target_language: SupportedLanguage;
+}
+
+export interface SynthesisInput {
+  text: string;
+  language: SupportedLanguage;
+  voice?: string;
+  gender?: VoiceGender;
+  style?: SpeakingStyle;
+}
+
+// A voice as a synthesizer describes it; the catalog adds the provider name
+export type SynthesizerVoice = Omit<Voice, 'provider'>;
+
+export interface SynthesisResult {
+  audio: Buffer;
+  mime_type: string;
+  duration_ms: number;
+}
+
+// Automatic speech recognition: media in, timed transcript out
+export interface SpeechRecognizer {
+  name: string;
+  transcribe: (input: RecognitionInput) => Promise<RecognitionResult>;
+}
+
+// Speaker diarization: one speaker label per transcript segment, in order.
+// Labels only need to be consistent within one call.
+export interface SpeakerDiarizer {
+  name: string;
+  diarize: (input: DiarizationInput) => Promise<string[]>;
+}
+
+// Source separation: the original speech and the background it is mixed
+// over. Returns null when the separator cannot read the media's audio; the
+// dub then carries no background.
+export interface StemSeparator {
+  name: string;
+  separate: (input: SeparationInput) => Promise<SeparationResult | null>;
+}
+
+// Machine translation; output order matches input order
+export interface Translator {
+  name: string;
+  translate: (input: TranslationInput) => Promise<string[]>;
+}
+
+// Text to speech. Synthesizers that cannot enumerate their voices leave out
+// listVoices; any voice name is then passed through as given.
+export interface SpeechSynthesizer {
+  name: string;
+  synthesize: (input: SynthesisInput) => Promise<SynthesisResult>;
+  listVoices?: () => Promise<SynthesizerVoice[]>;
+}
+
+export interface Providers {
+  recognizer: SpeechRecognizer;
+  diarizer: SpeakerDiarizer;
+  separator: StemSeparator;
+  translator: Translator;
+  synthesizer: SpeechSynthesizer;
+}
+
+// Settings for a single provider slot, read from the environment
+export interface ProviderSettings {
+  driver: string;
+  url?: string;
+  timeout_ms: number;
+}
+
+export interface ProviderConfig {
+  recognizer: ProviderSettings;
+  diarizer: ProviderSettings;
+  separator: ProviderSettings;
+  translator: ProviderSettings;
+  synthesizer: ProviderSettings;
+}
@@ -12,11 +12,67 @@ export const translationStatusSchema = z.enum([
   'pending',
   'processing',
   'completed',
-  'failed'
+  'failed',
+  'cancelled',
+  'retrying',
+  'awaiting_review' // Translated; paused until a reviewer approves it
 ]);
 
 export type TranslationStatus = z.infer<typeof translationStatusSchema>;
 
+// Video containers recognised by content sniffing
+export const videoContainerSchema = z.enum(['mp4', 'mov', 'mkv', 'webm', 'avi']);
+
+export type VideoContainer = z.infer<typeof videoContainerSchema>;
+
+// Technical facts about an uploaded file, read by the media probe
+export const videoTrackInfoSchema = z.object({
+  codec: z.string(),
+  width: z.number().int().nullable(),
+  height: z.number().int().nullable(),
+  frame_rate: z.number().nullable()
+});
+
+export type VideoTrackInfo = z.infer<typeof videoTrackInfoSchema>;
+
+export const audioTrackInfoSchema = z.object({
+  codec: z.string(),
+  channels: z.number().int().nullable(),
+  channel_layout: z.string().nullable(), // e.g. mono, stereo, 5.1
+  sample_rate: z.number().int().nullable(),
+  language: z.string().nullable() // As tagged in the container (ISO 639-2 or BCP 47)
+});
+
+export type AudioTrackInfo = z.infer<typeof audioTrackInfoSchema>;
+
+export const mediaInfoSchema = z.object({
+  container: videoContainerSchema,
+  duration_ms: z.number().int().nullable(),
+  video: videoTrackInfoSchema.nullable(), // First video track
+  audio_tracks: z.array(audioTrackInfoSchema)
+});
+
+export type MediaInfo = z.infer<typeof mediaInfoSchema>;
+
+// Where a job's transcript came from: speech recognition or imported captions
+export const transcriptSourceSchema = z.enum(['asr', 'subtitles']);
+
+export type TranscriptSource = z.infer<typeof transcriptSourceSchema>;
+
+// Voice characteristics a speaker can be dubbed with
+export const voiceGenderSchema = z.enum(['female', 'male', 'neutral']);
+
+export type VoiceGender = z.infer<typeof voiceGenderSchema>;
+
+export const speakingStyleSchema = z.enum(['neutral', 'conversational', 'narration', 'cheerful', 'serious']);
+
+export type SpeakingStyle = z.infer<typeof speakingStyleSchema>;
+
+export const MAX_VOICE_ID_LENGTH = 100;
+
+// A voice of the speech synthesizer, as listed by getVoices
+export const voiceIdSchema = z.string().trim().min(1).max(MAX_VOICE_ID_LENGTH);
+
 // Translation job schema
 export const translationJobSchema = z.object({
   id: z.number(),
@@ -29,17 +85,184 @@ export const translationJobSchema = z.object({
   transcript: z.string().nullable(),
   translated_transcript: z.string().nullable(),
   error_message: z.string().nullable(),
+  next_attempt_at: z.coerce.date().nullable(),
+  heartbeat_at: z.coerce.date().nullable(), // Kept fresh by the worker running the job
+  media_info: mediaInfoSchema.nullable(),
+  transcript_source: transcriptSourceSchema.nullable(), // Null until the transcript exists
+  requires_review: z.boolean(), // Pause for approval between translation and dubbing
+  approved_at: z.coerce.date().nullable(), // When a reviewer signed off on the translation
+  glossary_id: z.number().nullable(), // Terminology enforced by the translate stage
+  voice: z.string().nullable(), // Voice for speakers without one of their own; null for the provider's default
+  project_id: z.number().nullable(), // Set when the upload was dubbed into several languages
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type TranslationJob = z.infer<typeof translationJobSchema>;
 
+// Recorded status transition of a translation job
+export const jobEventSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  from_status: translationStatusSchema,
+  to_status: translationStatusSchema,
+  message: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type JobEvent = z.infer<typeof jobEventSchema>;
+
+// One timed line of a job's transcript
+export const transcriptSegmentSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  index: z.number().int(), // 0-based position in the transcript
+  start_ms: z.number().int(),
+  end_ms: z.number().int(),
+  speaker: z.string().nullable(),
+  source_text: z.string(),
+  translated_text: z.string().nullable(),
+  confidence: z.number().nullable(), // 0-1, as reported by the recognizer
+  audio_path: z.string().nullable(), // Synthesized speech; cleared when the translation changes
+  needs_redub: z.boolean(), // Edited since the dubbed audio was last assembled
+  version: z.number().int(), // Optimistic concurrency token, bumped on every write
+  memory_match: z.number().int().nullable(), // Best translation memory match in percent; 100 = reused as is
+  memory_suggestion: z.string().nullable(), // Translation of a fuzzy memory match, for the editor
+  speech_rate: z.number().nullable(), // Speed-up applied to fit the speech into its window; 1 = as synthesized
+  dub_start_ms: z.number().int().nullable(), // Where the fitted speech plays; may reach into the gaps around the segment
+  dub_end_ms: z.number().int().nullable(),
+  overrun_ms: z.number().int().nullable(), // How far the speech still runs past the time it may use; 0 when it fits
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+// Pipeline stage state enum
+export const stageStateSchema = z.enum([
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'skipped'
+]);
+
+export type StageState = z.infer<typeof stageStateSchema>;
+
+// Progress of a single pipeline stage
+export const jobStageSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  name: z.string(),
+  position: z.number().int(),
+  state: stageStateSchema,
+  percent: z.number().int().min(0).max(100),
+  attempts: z.number().int(),
+  output: z.record(z.string()).nullable(),
+  started_at: z.coerce.date().nullable(),
+  finished_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type JobStage = z.infer<typeof jobStageSchema>;
+
+// A segment whose dubbed speech could not be fitted into its time
+export const timingWarningSchema = z.object({
+  segment_id: z.number(),
+  index: z.number().int(),
+  overrun_ms: z.number().int()
+});
+
+export type TimingWarning = z.infer<typeof timingWarningSchema>;
+
+// Translation job with its stage progress, as returned by the job queries
+export const translationJobWithProgressSchema = translationJobSchema.extend({
+  stages: z.array(jobStageSchema),
+  estimated_remaining_ms: z.number().nullable(), // Null when there is no history to estimate from
+  timing_warnings: z.array(timingWarningSchema) // In segment order
+});
+
+export type TranslationJobWithProgress = z.infer<typeof translationJobWithProgressSchema>;
+
+// A source video uploaded once and dubbed into several languages
+// How a project delivers its languages: a file per job, or additionally one
+// file holding the original and every dubbed language as audio tracks
+export const projectOutputModeSchema = z.enum(['separate', 'combined']);
+
+export type ProjectOutputMode = z.infer<typeof projectOutputModeSchema>;
+
+export const projectSchema = z.object({
+  id: z.number(),
+  original_filename: z.string(),
+  original_file_path: z.string(),
+  media_info: mediaInfoSchema.nullable(),
+  output_mode: projectOutputModeSchema,
+  embed_subtitles: z.boolean(),
+  combined_file_path: z.string().nullable(),
+  combined_languages: z.array(supportedLanguagesSchema), // Dubbed tracks in the combined file
+  combined_revision: z.number().int(), // Ahead of combined_built_revision while a rebuild is queued
+  combined_built_revision: z.number().int(),
+  combined_error: z.string().nullable(), // Why the last build of the combined file failed
+  created_at: z.coerce.date()
+});
+
+export type Project = z.infer<typeof projectSchema>;
+
+export const projectWithJobsSchema = projectSchema.extend({
+  jobs: z.array(translationJobWithProgressSchema) // In target language order
+});
+
+export type ProjectWithJobs = z.infer<typeof projectWithJobsSchema>;
+
+// Input schema for fetching a project with its jobs
+export const getProjectInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetProjectInput = z.infer<typeof getProjectInputSchema>;
+
+// Input schema for fetching the projects of a list of jobs at once
+export const getProjectsInputSchema = z.object({
+  ids: z.array(z.number())
+});
+
+export type GetProjectsInput = z.infer<typeof getProjectsInputSchema>;
+
+// Input schema for changing how a project is delivered
+export const updateProjectInputSchema = z.object({
+  id: z.number(),
+  output_mode: projectOutputModeSchema.optional(),
+  embed_subtitles: z.boolean().optional() // Subtitle streams in the combined file
+});
+
+export type UpdateProjectInput = z.infer<typeof updateProjectInputSchema>;
+
+// Subtitle file formats
+export const subtitleFormatSchema = z.enum(['srt', 'vtt', 'ass']);
+
+export type SubtitleFormat = z.infer<typeof subtitleFormatSchema>;
+
+export const MAX_SUBTITLE_LENGTH = 5 * 1024 * 1024;
+
+// Existing captions for a video. The format is detected from the content
+// when omitted; the language defaults to the one the file declares.
+export const subtitleAttachmentSchema = z.object({
+  content: z.string().min(1, "Subtitle content is required").max(MAX_SUBTITLE_LENGTH),
+  format: subtitleFormatSchema.optional(),
+  language: supportedLanguagesSchema.optional()
+});
+
+export type SubtitleAttachment = z.infer<typeof subtitleAttachmentSchema>;
+
 // Input schema for creating a translation job
 export const createTranslationJobInputSchema = z.object({
   original_filename: z.string().min(1, "Filename is required"),
   original_file_path: z.string().min(1, "File path is required"),
-  target_language: supportedLanguagesSchema
+  target_language: supportedLanguagesSchema,
+  subtitles: subtitleAttachmentSchema.optional(), // Skips speech recognition
+  requires_review: z.boolean().optional(), // Pause for approval after translation
+  glossary_id: z.number().optional(), // Must be for the job's target language
+  voice: voiceIdSchema.optional() // Must speak the job's target language
 });
 
 export type CreateTranslationJobInput = z.infer<typeof createTranslationJobInputSchema>;
@@ -64,11 +287,567 @@ export const getTranslationJobInputSchema = z.object({
 
 export type GetTranslationJobInput = z.infer<typeof getTranslationJobInputSchema>;
 
+// Input schema for cancelling a job
+export const cancelTranslationJobInputSchema = z.object({
+  id: z.number()
+});
+
+export type CancelTranslationJobInput = z.infer<typeof cancelTranslationJobInputSchema>;
+
+// Input schema for signing off on a translation awaiting review
+export const approveTranslationJobInputSchema = z.object({
+  id: z.number(),
+  comment: z.string().trim().min(1).max(2000).optional()
+});
+
+export type ApproveTranslationJobInput = z.infer<typeof approveTranslationJobInputSchema>;
+
+// Input schema for sending a translation back; the reason becomes the job's error
+export const rejectTranslationJobInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1, "A reason is required").max(2000)
+});
+
+export type RejectTranslationJobInput = z.infer<typeof rejectTranslationJobInputSchema>;
+
+// Input schema for re-running a failed or cancelled job
+export const retryTranslationJobInputSchema = z.object({
+  id: z.number()
+});
+
+export type RetryTranslationJobInput = z.infer<typeof retryTranslationJobInputSchema>;
+
+// Input schema for listing the status history of a job
+export const getJobEventsInputSchema = z.object({
+  job_id: z.number()
+});
+
+export type GetJobEventsInput = z.infer<typeof getJobEventsInputSchema>;
+
+// Input schema for listing all segments of a job
+export const getTranscriptSegmentsInputSchema = z.object({
+  job_id: z.number()
+});
+
+export type GetTranscriptSegmentsInput = z.infer<typeof getTranscriptSegmentsInputSchema>;
+
+export const MAX_SEGMENT_PAGE_SIZE = 500;
+
+// Input schema for paging through a job's segments; the cursor is the index
+// of the last segment already seen
+export const getTranscriptSegmentPageInputSchema = z.object({
+  job_id: z.number(),
+  cursor: z.number().int().nonnegative().nullish(),
+  limit: z.number().int().positive().max(MAX_SEGMENT_PAGE_SIZE).default(100)
+});
+
+export type GetTranscriptSegmentPageInput = z.infer<typeof getTranscriptSegmentPageInputSchema>;
+
+export const transcriptSegmentPageSchema = z.object({
+  segments: z.array(transcriptSegmentSchema),
+  next_cursor: z.number().int().nullable(), // null on the last page
+  total: z.number().int()
+});
+
+export type TranscriptSegmentPage = z.infer<typeof transcriptSegmentPageSchema>;
+
+// Reviewer remark on one segment
+export const segmentCommentSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  segment_id: z.number(),
+  author: z.string().nullable(),
+  body: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type SegmentComment = z.infer<typeof segmentCommentSchema>;
+
+// Input schema for commenting on a segment
+export const addSegmentCommentInputSchema = z.object({
+  segment_id: z.number(),
+  author: z.string().trim().min(1).max(100).optional(),
+  body: z.string().trim().min(1, "Comment is required").max(2000)
+});
+
+export type AddSegmentCommentInput = z.infer<typeof addSegmentCommentInputSchema>;
+
+// Input schema for listing the comments on a job's segments
+export const getSegmentCommentsInputSchema = z.object({
+  job_id: z.number()
+});
+
+export type GetSegmentCommentsInput = z.infer<typeof getSegmentCommentsInputSchema>;
+
+// One segment edit. `version` is the version the editor last saw; the edit is
+// refused if the segment has changed since.
+export const segmentEditSchema = z.object({
+  id: z.number(),
+  version: z.number().int(),
+  source_text: z.string().trim().min(1).optional(),
+  translated_text: z.string().trim().min(1).optional(),
+  start_ms: z.number().int().nonnegative().optional(),
+  end_ms: z.number().int().positive().optional()
+});
+
+export type SegmentEdit = z.infer<typeof segmentEditSchema>;
+
+// Input schema for editing a single segment
+export const updateSegmentInputSchema = segmentEditSchema;
+
+export type UpdateSegmentInput = z.infer<typeof updateSegmentInputSchema>;
+
+// Input schema for saving several edits to one job's segments at once; either
+// all of them are applied or none
+export const bulkUpdateSegmentsInputSchema = z.object({
+  job_id: z.number(),
+  updates: z.array(segmentEditSchema).min(1).max(MAX_SEGMENT_PAGE_SIZE)
+});
+
+export type BulkUpdateSegmentsInput = z.infer<typeof bulkUpdateSegmentsInputSchema>;
+
+// Input schema for re-synthesizing the edited segments of a completed job
+export const redubTranslationJobInputSchema = z.object({
+  id: z.number()
+});
+
+export type RedubTranslationJobInput = z.infer<typeof redubTranslationJobInputSchema>;
+
+// Terminology for one language pair, enforced when jobs that reference it
+// are translated
+export const glossarySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  source_language: supportedLanguagesSchema,
+  target_language: supportedLanguagesSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Glossary = z.infer<typeof glossarySchema>;
+
+// A term and how it must be translated. Do-not-translate entries keep the
+// source term as it is and have no target term.
+export const glossaryEntrySchema = z.object({
+  id: z.number(),
+  glossary_id: z.number(),
+  source_term: z.string(),
+  target_term: z.string().nullable(),
+  case_sensitive: z.boolean(),
+  do_not_translate: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+export const glossaryWithEntriesSchema = glossarySchema.extend({
+  entries: z.array(glossaryEntrySchema)
+});
+
+export type GlossaryWithEntries = z.infer<typeof glossaryWithEntriesSchema>;
+
+export const MAX_GLOSSARY_TERM_LENGTH = 200;
+export const MAX_GLOSSARY_ENTRIES = 1000;
+
+const glossaryTermFieldsSchema = z.object({
+  source_term: z.string().trim().min(1, "Source term is required").max(MAX_GLOSSARY_TERM_LENGTH),
+  target_term: z.string().trim().min(1).max(MAX_GLOSSARY_TERM_LENGTH).optional(),
+  case_sensitive: z.boolean().optional(),
+  do_not_translate: z.boolean().optional()
+});
+
+const requireTargetTerm = (entry: { target_term?: string; do_not_translate?: boolean }) => {
+  return entry.do_not_translate === true || entry.target_term !== undefined;
+};
+
+const targetTermMessage = {
+  message: "A target term is required unless the term is not to be translated",
+  path: ['target_term']
+};
+
+export const glossaryEntryInputSchema = glossaryTermFieldsSchema.refine(requireTargetTerm, targetTermMessage);
+
+export type GlossaryEntryInput = z.infer<typeof glossaryEntryInputSchema>;
+
+// Input schema for creating a glossary, optionally with its entries
+export const createGlossaryInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  source_language: supportedLanguagesSchema,
+  target_language: supportedLanguagesSchema,
+  entries: z.array(glossaryEntryInputSchema).max(MAX_GLOSSARY_ENTRIES).optional()
+}).refine(input => input.source_language !== input.target_language, {
+  message: "Source and target language must differ",
+  path: ['target_language']
+});
+
+export type CreateGlossaryInput = z.infer<typeof createGlossaryInputSchema>;
+
+export const getGlossaryInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetGlossaryInput = z.infer<typeof getGlossaryInputSchema>;
+
+// Input schema for renaming a glossary. The language pair is fixed, since
+// jobs were checked against it when they were created.
+export const updateGlossaryInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Name is required").max(200)
+});
+
+export type UpdateGlossaryInput = z.infer<typeof updateGlossaryInputSchema>;
+
+// Input schema for deleting a glossary; jobs that used it keep running without one
+export const deleteGlossaryInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteGlossaryInput = z.infer<typeof deleteGlossaryInputSchema>;
+
+export const addGlossaryEntryInputSchema = glossaryTermFieldsSchema.extend({
+  glossary_id: z.number()
+}).refine(requireTargetTerm, targetTermMessage);
+
+export type AddGlossaryEntryInput = z.infer<typeof addGlossaryEntryInputSchema>;
+
+// Input schema for changing an entry; omitted fields keep their value
+export const updateGlossaryEntryInputSchema = glossaryTermFieldsSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateGlossaryEntryInput = z.infer<typeof updateGlossaryEntryInputSchema>;
+
+export const deleteGlossaryEntryInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteGlossaryEntryInput = z.infer<typeof deleteGlossaryEntryInputSchema>;
+
+// A glossary term found in a segment's source text whose required rendering
+// is missing from the translation
+export const glossaryViolationSchema = z.object({
+  entry_id: z.number(),
+  source_term: z.string(),
+  expected_term: z.string()
+});
+
+export type GlossaryViolation = z.infer<typeof glossaryViolationSchema>;
+
+export const segmentGlossaryViolationsSchema = z.object({
+  segment_id: z.number(),
+  index: z.number().int(),
+  violations: z.array(glossaryViolationSchema)
+});
+
+export type SegmentGlossaryViolations = z.infer<typeof segmentGlossaryViolationsSchema>;
+
+// Input schema for checking a job's translations against its glossary
+export const getGlossaryViolationsInputSchema = z.object({
+  job_id: z.number()
+});
+
+export type GetGlossaryViolationsInput = z.infer<typeof getGlossaryViolationsInputSchema>;
+
+// A remembered translation of a source segment for one language pair
+export const translationMemoryEntrySchema = z.object({
+  id: z.number(),
+  source_language: supportedLanguagesSchema,
+  target_language: supportedLanguagesSchema,
+  source_text: z.string(),
+  target_text: z.string(),
+  job_id: z.number().nullable(), // The job it was learned from; null for imports
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type TranslationMemoryEntry = z.infer<typeof translationMemoryEntrySchema>;
+
+// Number of remembered segments per language pair
+export const translationMemoryStatsSchema = z.object({
+  source_language: supportedLanguagesSchema,
+  target_language: supportedLanguagesSchema,
+  entries: z.number().int()
+});
+
+export type TranslationMemoryStats = z.infer<typeof translationMemoryStatsSchema>;
+
+export const MAX_TMX_LENGTH = 20 * 1024 * 1024;
+
+// Input schema for importing a TMX document
+export const importTranslationMemoryInputSchema = z.object({
+  content: z.string().min(1, "TMX content is required").max(MAX_TMX_LENGTH)
+});
+
+export type ImportTranslationMemoryInput = z.infer<typeof importTranslationMemoryInputSchema>;
+
+export const translationMemoryImportResultSchema = z.object({
+  imported: z.number().int(), // Translation units stored
+  skipped: z.number().int() // Units for unsupported languages or without text
+});
+
+export type TranslationMemoryImportResult = z.infer<typeof translationMemoryImportResultSchema>;
+
+// Input schema for exporting the memory as TMX, optionally for one language pair
+export const exportTranslationMemoryInputSchema = z.object({
+  source_language: supportedLanguagesSchema.optional(),
+  target_language: supportedLanguagesSchema.optional()
+});
+
+export type ExportTranslationMemoryInput = z.infer<typeof exportTranslationMemoryInputSchema>;
+
+export const translationMemoryExportSchema = z.object({
+  filename: z.string(),
+  content: z.string(),
+  entries: z.number().int()
+});
+
+export type TranslationMemoryExport = z.infer<typeof translationMemoryExportSchema>;
+
+// A voice in a job's transcript, as told apart by diarization or named by
+// imported subtitles. Segments refer to it by label; the voice settings are
+// used when its lines are synthesized.
+export const jobSpeakerSchema = z.object({
+  id: z.number(),
+  job_id: z.number(),
+  label: z.string(),
+  name: z.string(), // Display name, starts out derived from the label
+  voice: z.string().nullable(), // Synthesizer voice; null for the provider's default
+  gender: voiceGenderSchema.nullable(),
+  style: speakingStyleSchema.nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type JobSpeaker = z.infer<typeof jobSpeakerSchema>;
+
+export const MAX_SPEAKER_NAME_LENGTH = 100;
+
+// Input schema for listing the speakers of a job
+export const getJobSpeakersInputSchema = z.object({
+  job_id: z.number()
+});
+
+export type GetJobSpeakersInput = z.infer<typeof getJobSpeakersInputSchema>;
+
+// Input schema for renaming a speaker or changing its voice; omitted fields
+// keep their value and null resets a voice setting to the default
+export const updateJobSpeakerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Speaker name is required").max(MAX_SPEAKER_NAME_LENGTH).optional(),
+  voice: voiceIdSchema.nullable().optional(),
+  gender: voiceGenderSchema.nullable().optional(),
+  style: speakingStyleSchema.nullable().optional()
+});
+
+export type UpdateJobSpeakerInput = z.infer<typeof updateJobSpeakerInputSchema>;
+
+// A voice the configured speech synthesizer offers for one language
+export const voiceSchema = z.object({
+  id: z.string(), // Passed to the synthesizer as the voice
+  name: z.string(),
+  language: supportedLanguagesSchema,
+  gender: voiceGenderSchema,
+  styles: z.array(speakingStyleSchema), // Styles the voice can speak in
+  sample_rate: z.number().int(), // Of the synthesized audio, in Hz
+  provider: z.string() // Name of the synthesizer offering it
+});
+
+export type Voice = z.infer<typeof voiceSchema>;
+
+// Input schema for listing voices, optionally for one language
+export const getVoicesInputSchema = z.object({
+  language: supportedLanguagesSchema.optional()
+});
+
+export type GetVoicesInput = z.infer<typeof getVoicesInputSchema>;
+
+export const MAX_PREVIEW_TEXT_LENGTH = 200;
+
+// Input schema for hearing a voice before choosing it. Without a text a
+// short greeting in the language is spoken.
+export const previewVoiceInputSchema = z.object({
+  voice: voiceIdSchema,
+  language: supportedLanguagesSchema,
+  text: z.string().trim().min(1).max(MAX_PREVIEW_TEXT_LENGTH).optional(),
+  style: speakingStyleSchema.optional()
+});
+
+export type PreviewVoiceInput = z.infer<typeof previewVoiceInputSchema>;
+
+export const voicePreviewSchema = z.object({
+  audio_base64: z.string(),
+  mime_type: z.string(),
+  duration_ms: z.number()
+});
+
+export type VoicePreview = z.infer<typeof voicePreviewSchema>;
+
+// An upload names one target language, or several to create a job for each
+// of them under a project. Glossaries and voices are for one language, so
+// they can only be given with a single one.
+const targetLanguageFieldsSchema = z.object({
+  target_language: supportedLanguagesSchema.optional(),
+  target_languages: z.array(supportedLanguagesSchema).min(1).optional(),
+  glossary_id: z.number().optional(), // Must be for the job's target language
+  voice: voiceIdSchema.optional() // Must speak the job's target language
+});
+
+const checkTargetLanguages = (input: z.infer<typeof targetLanguageFieldsSchema>, context: z.RefinementCtx) => {
+  if ((input.target_language === undefined) === (input.target_languages === undefined)) {
+    context.addIssue({ code: 'custom', message: "Give either target_language or target_languages", path: ['target_languages'] });
+    return;
+  }
+  const languages = input.target_languages ?? [];
+  if (new Set(languages).size !== languages.length) {
+    context.addIssue({ code: 'custom', message: "Target languages must not repeat", path: ['target_languages'] });
+  }
+  if (languages.length > 1 && (input.glossary_id !== undefined || input.voice !== undefined)) {
+    context.addIssue({
+      code: 'custom',
+      message: "A glossary or voice can only be chosen for a single target language",
+      path: [input.glossary_id !== undefined ? 'glossary_id' : 'voice']
+    });
+  }
+};
+
 // File upload input schema
-export const uploadVideoInputSchema = z.object({
+export const uploadVideoInputSchema = targetLanguageFieldsSchema.extend({
   filename: z.string().min(1, "Filename is required"),
   file_data: z.string(), // Base64 encoded file data
-  target_language: supportedLanguagesSchema
+  subtitles: subtitleAttachmentSchema.optional(), // Skips speech recognition
+  requires_review: z.boolean().optional() // Pause for approval after translation
+}).superRefine(checkTargetLanguages);
+
+export type UploadVideoInput = z.infer<typeof uploadVideoInputSchema>;
+
+// The job for the first target language, with all jobs the upload created
+export const uploadResultSchema = translationJobSchema.extend({
+  jobs: z.array(translationJobSchema) // In target language order
+});
+
+export type UploadResult = z.infer<typeof uploadResultSchema>;
+
+// Limits the server applies to uploads
+export const uploadPolicySchema = z.object({
+  max_size_bytes: z.number().int(),
+  allowed_containers: z.array(videoContainerSchema)
+});
+
+export type UploadPolicy = z.infer<typeof uploadPolicySchema>;
+
+// Why an upload was refused; attached to the error so clients can explain it
+export const uploadRejectionSchema = z.object({
+  reason: z.enum(['invalid_filename', 'file_too_large', 'unsupported_type', 'unreadable_media', 'no_audio']),
+  max_size_bytes: z.number().int().optional(),
+  allowed_containers: z.array(videoContainerSchema).optional(),
+  detected_container: z.string().nullable().optional()
+});
+
+export type UploadRejection = z.infer<typeof uploadRejectionSchema>;
+
+// Resumable upload session status enum
+export const uploadStatusSchema = z.enum(['open', 'finalizing', 'completed']);
+
+export type UploadStatus = z.infer<typeof uploadStatusSchema>;
+
+// Chunk sizes stay below the reverse proxy's request body limit
+export const MIN_CHUNK_SIZE = 256 * 1024;
+export const MAX_CHUNK_SIZE = 8 * 1024 * 1024;
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Resumable upload session schema
+export const uploadSessionSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  target_languages: z.array(supportedLanguagesSchema),
+  total_size: z.number().int(),
+  chunk_size: z.number().int(),
+  total_chunks: z.number().int(),
+  received_chunks: z.array(z.number().int()),
+  status: uploadStatusSchema,
+  finalizing_at: z.coerce.date().nullable(), // When the finalize under way claimed the session
+  requires_review: z.boolean(), // Passed on to the job created from the upload
+  glossary_id: z.number().nullable(), // Passed on to the job created from the upload
+  voice: z.string().nullable(), // Passed on to the job created from the upload
+  job_id: z.number().nullable(), // The job for the first target language
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+// Input schema for starting a resumable upload
+export const createUploadSessionInputSchema = targetLanguageFieldsSchema.extend({
+  filename: z.string().min(1, "Filename is required"),
+  size: z.number().int().positive(),
+  chunk_size: z.number().int().min(MIN_CHUNK_SIZE).max(MAX_CHUNK_SIZE).default(DEFAULT_CHUNK_SIZE),
+  requires_review: z.boolean().optional() // Pause for approval after translation
+}).superRefine(checkTargetLanguages);
+
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionInputSchema>;
+
+// Input schema for looking up an upload session (to resume it)
+export const getUploadSessionInputSchema = z.object({
+  id: z.string()
+});
+
+export type GetUploadSessionInput = z.infer<typeof getUploadSessionInputSchema>;
+
+// Input for a single chunk, received over the HTTP upload endpoint
+export const uploadChunkInputSchema = z.object({
+  session_id: z.string(),
+  index: z.number().int().nonnegative(),
+  data: z.instanceof(Buffer),
+  checksum: z.string().regex(/^[a-f0-9]{64}$/).optional() // Hex SHA-256 of the chunk
+});
+
+export type UploadChunkInput = z.infer<typeof uploadChunkInputSchema>;
+
+// Input schema for assembling an upload into a translation job. The checksum
+// is the hex SHA-256 of the concatenated SHA-256 digests of every chunk in
+// order, so clients never need to hash the whole file at once.
+export const finalizeUploadInputSchema = z.object({
+  id: z.string(),
+  checksum: z.string().regex(/^[a-f0-9]{64}$/, "Checksum must be a hex SHA-256 digest"),
+  subtitles: subtitleAttachmentSchema.optional() // Skips speech recognition
+});
+
+export type FinalizeUploadInput = z.infer<typeof finalizeUploadInputSchema>;
+// Files a finished job can be downloaded as
+export const downloadKindSchema = z.enum(['video', 'transcript']);
+
+export type DownloadKind = z.infer<typeof downloadKindSchema>;
+
+// Which text of the segments a subtitle file carries
+export const subtitleTrackSchema = z.enum(['source', 'target']);
+
+export type SubtitleTrack = z.infer<typeof subtitleTrackSchema>;
+
+export const subtitleLinkSchema = z.object({
+  track: subtitleTrackSchema,
+  language: supportedLanguagesSchema,
+  format: subtitleFormatSchema,
+  url: z.string()
+});
+
+export type SubtitleLink = z.infer<typeof subtitleLinkSchema>;
+
+// Input schema for requesting signed download links
+export const getDownloadLinksInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetDownloadLinksInput = z.infer<typeof getDownloadLinksInputSchema>;
+
+// Signed, time-limited download URLs; null when the file does not exist yet
+export const downloadLinksSchema = z.object({
+  video_url: z.string().nullable(),
+  transcript_url: z.string().nullable(),
+  subtitles: z.array(subtitleLinkSchema), // Only for tracks whose text is complete
+  combined_url: z.string().nullable(), // The project's file with every language, once built
+  hls_url: z.string().nullable(), // Master playlist for streaming, once the job is packaged
+  expires_at: z.coerce.date()
 });
 
-export type UploadVideoInput = z.infer<typeof uploadVideoInputSchema>;
\ No newline at end of file
+export type DownloadLinks = z.infer<typeof downloadLinksSchema>;
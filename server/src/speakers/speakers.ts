@@ -0,0 +1,40 @@
+import { and, asc, eq, notInArray } from 'drizzle-orm';
+import { db } from '../db';
+import { jobSpeakersTable } from '../db/schema';
+import { type JobSpeaker } from '../schema';
+
+// "SPEAKER_2" becomes "Speaker 2"; names from imported subtitles stay as they are
+export const speakerName = (label: string): string => {
+  const match = /^SPEAKER_(\d+)$/.exec(label);
+  return match ? `Speaker ${match[1]}` : label;
+};
+
+// Make a job's speakers match the labels its segments use. New labels get a
+// row with the default voice, in order of first appearance; rows for labels
+// no longer used are dropped, and the others keep their name and voice.
+export const syncSpeakers = async (jobId: number, labels: string[]): Promise<void> => {
+  const unique = [...new Set(labels)];
+  await db.transaction(async (tx) => {
+    await tx.delete(jobSpeakersTable)
+      .where(and(
+        eq(jobSpeakersTable.job_id, jobId),
+        unique.length > 0 ? notInArray(jobSpeakersTable.label, unique) : undefined
+      ))
+      .execute();
+
+    if (unique.length > 0) {
+      await tx.insert(jobSpeakersTable)
+        .values(unique.map(label => ({ job_id: jobId, label, name: speakerName(label) })))
+        .onConflictDoNothing()
+        .execute();
+    }
+  });
+};
+
+export const getSpeakers = async (jobId: number): Promise<JobSpeaker[]> => {
+  return db.select()
+    .from(jobSpeakersTable)
+    .where(eq(jobSpeakersTable.job_id, jobId))
+    .orderBy(asc(jobSpeakersTable.id))
+    .execute();
+};
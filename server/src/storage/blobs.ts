@@ -0,0 +1,21 @@
+import { type Readable } from 'stream';
+import { type BlobStore } from './types';
+
+export const readStream = async (stream: Readable): Promise<Buffer> => {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.isBuffer(part) ? part : Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+};
+
+// Read a whole blob into memory, for inputs the providers take as a buffer
+export const readBlob = async (store: BlobStore, key: string): Promise<Buffer> => {
+  return readStream(await store.get(key));
+};
+
+// Copy a blob to a new key without buffering it
+export const copyBlob = async (store: BlobStore, from: string, to: string): Promise<void> => {
+  const source = await store.stat(from);
+  await store.put(to, await store.get(from), { size: source?.size, content_type: source?.content_type });
+};
@@ -0,0 +1,94 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rmdir, stat as statFile, unlink } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BlobNotFoundError } from '../errors';
+import { contentTypeFor, normalizeKey } from './paths';
+import { signResource } from './signing';
+import { type BlobStat, type BlobStore, type StorageSettings } from './types';
+
+const isMissing = (error: unknown): boolean => {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+};
+
+// Blobs as plain files under a root directory. Signed URLs point at this
+// API's /files route, which checks the HMAC before serving the file.
+export const createLocalBlobStore = ({ root, public_url, signing_secret }: Pick<StorageSettings, 'root' | 'public_url' | 'signing_secret'>): BlobStore => {
+  const rootDir = resolve(root);
+
+  const pathFor = (key: string): string => {
+    const path = resolve(join(rootDir, normalizeKey(key)));
+    if (!path.startsWith(rootDir + '/')) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return path;
+  };
+
+  const stat = async (key: string): Promise<BlobStat | null> => {
+    try {
+      const info = await statFile(pathFor(key));
+      if (!info.isFile()) {
+        return null;
+      }
+      return {
+        size: info.size,
+        content_type: contentTypeFor(key),
+        etag: `"${info.size.toString(16)}-${Math.floor(info.mtimeMs).toString(16)}"`,
+        last_modified: info.mtime
+      };
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+
+  // Remove directories left empty by a delete, up to the root
+  const pruneEmptyDirs = async (dir: string): Promise<void> => {
+    while (dir.startsWith(rootDir + '/')) {
+      try {
+        await rmdir(dir);
+      } catch {
+        return;
+      }
+      dir = dirname(dir);
+    }
+  };
+
+  return {
+    name: 'local',
+    put: async (key, body) => {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, createWriteStream(path));
+
+      const result = await stat(key);
+      if (!result) {
+        throw new Error(`Stored file ${key} disappeared after writing`);
+      }
+      return result;
+    },
+    get: async (key, range) => {
+      if (!(await stat(key))) {
+        throw new BlobNotFoundError(key);
+      }
+      return createReadStream(pathFor(key), range ? { start: range.start, end: range.end } : {});
+    },
+    stat,
+    delete: async (key) => {
+      const path = pathFor(key);
+      try {
+        await unlink(path);
+      } catch (error) {
+        if (!isMissing(error)) throw error;
+      }
+      await pruneEmptyDirs(dirname(path));
+    },
+    signedUrl: async (key, expiresInSeconds) => {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const path = normalizeKey(key).split('/').map(encodeURIComponent).join('/');
+      const signature = signResource(key, expires, signing_secret);
+      return `${public_url}/files/${path}?expires=${expires}&signature=${signature}`;
+    }
+  };
+};
@@ -0,0 +1,71 @@
+// Layout of the blob store. Keys stored on jobs start with a slash, e.g.
+// /uploads/videos/<file>.
+
+const MAX_FILENAME_LENGTH = 200;
+
+// Reduce a client-supplied filename to a safe single path segment: directory
+// parts and control characters are dropped, anything other than letters,
+// digits and a few punctuation marks becomes "_", and leading dots go so the
+// result is never hidden or relative. Returns an empty string when nothing
+// usable is left.
+export const sanitizeFilename = (filename: string): string => {
+  const base = filename.normalize('NFC').split(/[/\\]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[\p{Cc}\p{Cf}]/gu, '')
+    .replace(/[^\p{L}\p{M}\p{N}._() -]/gu, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[.\s]+/, '')
+    .trim();
+
+  if (!/[\p{L}\p{N}]/u.test(cleaned)) {
+    return '';
+  }
+  if (cleaned.length <= MAX_FILENAME_LENGTH) {
+    return cleaned;
+  }
+
+  // Keep the extension when shortening
+  const dot = cleaned.lastIndexOf('.');
+  const extension = dot > 0 && cleaned.length - dot <= 10 ? cleaned.slice(dot) : '';
+  return cleaned.slice(0, MAX_FILENAME_LENGTH - extension.length) + extension;
+};
+
+// Unique location for a newly uploaded source video. The filename must
+// already be sanitized.
+export const newVideoPath = (filename: string): string => {
+  const timestamp = Date.now();
+  const randomId = Math.random().toString(36).substring(2, 8);
+  return `/uploads/videos/${timestamp}_${randomId}_${filename}`;
+};
+
+export const uploadSessionDir = (sessionId: string): string => `/uploads/sessions/${sessionId}`;
+
+export const uploadChunkPath = (sessionId: string, index: number): string => {
+  return `${uploadSessionDir(sessionId)}/${index}.part`;
+};
+
+// Blob stores address objects without the leading slash
+export const normalizeKey = (key: string): string => key.replace(/^\/+/, '');
+
+const contentTypes: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  m4s: 'video/iso.segment',
+  m3u8: 'application/vnd.apple.mpegurl',
+  json: 'application/json'
+};
+
+export const contentTypeFor = (key: string): string => {
+  const extension = key.split('.').pop()?.toLowerCase() ?? '';
+  return contentTypes[extension] ?? 'application/octet-stream';
+};
@@ -0,0 +1,56 @@
+import { randomBytes } from 'crypto';
+import { createLocalBlobStore } from './local';
+import { createS3BlobStoreFromSettings } from './s3';
+import { type BlobStore, type StorageSettings } from './types';
+
+type Factory = (settings: StorageSettings) => BlobStore;
+
+const drivers = new Map<string, Factory>();
+
+export const registerBlobStore = (driver: string, factory: Factory): void => {
+  drivers.set(driver, factory);
+};
+
+// Built-in drivers
+registerBlobStore('local', createLocalBlobStore);
+registerBlobStore('s3', createS3BlobStoreFromSettings);
+
+// Used when STORAGE_SIGNING_SECRET is unset; signed URLs then only verify in
+// the process that issued them
+const processSecret = randomBytes(32).toString('hex');
+
+// STORAGE_DRIVER selects the driver ("local" by default). The local driver
+// keeps files under STORAGE_ROOT; the s3 driver talks to S3_ENDPOINT.
+export const loadStorageConfig = (env: NodeJS.ProcessEnv = process.env): StorageSettings => ({
+  driver: env['STORAGE_DRIVER'] || 'local',
+  root: env['STORAGE_ROOT'] || './storage',
+  public_url: env['STORAGE_PUBLIC_URL'] ?? '/api',
+  signing_secret: env['STORAGE_SIGNING_SECRET'] || processSecret,
+  endpoint: env['S3_ENDPOINT'] || undefined,
+  bucket: env['S3_BUCKET'] || undefined,
+  region: env['S3_REGION'] || 'us-east-1',
+  access_key_id: env['S3_ACCESS_KEY_ID'] || undefined,
+  secret_access_key: env['S3_SECRET_ACCESS_KEY'] || undefined,
+  force_path_style: (env['S3_FORCE_PATH_STYLE'] ?? 'true') !== 'false'
+});
+
+export const createBlobStore = (settings: StorageSettings = loadStorageConfig()): BlobStore => {
+  const factory = drivers.get(settings.driver);
+  if (!factory) {
+    throw new Error(`Unknown storage driver "${settings.driver}". Registered: ${[...drivers.keys()].join(', ')}`);
+  }
+  return factory(settings);
+};
+
+let defaultStore: BlobStore | null = null;
+
+// The store shared by handlers and the pipeline, created from the environment
+// on first use
+export const getBlobStore = (): BlobStore => {
+  defaultStore ??= createBlobStore();
+  return defaultStore;
+};
+
+export const setBlobStore = (store: BlobStore | null): void => {
+  defaultStore = store;
+};
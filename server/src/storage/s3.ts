@@ -0,0 +1,228 @@
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import { type ReadableStream as WebReadableStream } from 'stream/web';
+import { BlobNotFoundError } from '../errors';
+import { readStream } from './blobs';
+import { contentTypeFor, normalizeKey } from './paths';
+import { type BlobStat, type BlobStore, type StorageSettings } from './types';
+
+// S3-compatible object storage (AWS S3, MinIO, R2, ...) over plain fetch,
+// authenticated with AWS Signature Version 4.
+
+export interface S3Settings {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  access_key_id: string;
+  secret_access_key: string;
+  // Address buckets as /bucket/key (MinIO) instead of bucket.host/key (AWS)
+  force_path_style: boolean;
+}
+
+interface SignInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payload_hash: string;
+  date: Date;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as SigV4 expects it
+const encodeRfc3986 = (value: string): string => {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+const amzDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const canonicalQuery = (url: URL): string => {
+  return [...url.searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+};
+
+const credentialScope = (date: Date, region: string): string => `${amzDate(date).slice(0, 8)}/${region}/s3/aws4_request`;
+
+const signature = (settings: S3Settings, { method, url, headers, payload_hash, date }: SignInput): { signed_headers: string; signature: string } => {
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = names.map(name => `${name}:${lowered[name].trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery(url),
+    canonicalHeaders,
+    signedHeaders,
+    payload_hash
+  ].join('\n');
+
+  const scope = credentialScope(date, settings.region);
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate(date), scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${settings.secret_access_key}`, amzDate(date).slice(0, 8));
+  const signingKey = hmac(hmac(hmac(dateKey, settings.region), 's3'), 'aws4_request');
+
+  return {
+    signed_headers: signedHeaders,
+    signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+  };
+};
+
+export const objectUrl = (settings: S3Settings, key: string): URL => {
+  const endpoint = new URL(settings.endpoint);
+  const path = normalizeKey(key).split('/').map(encodeRfc3986).join('/');
+
+  if (settings.force_path_style) {
+    return new URL(`${endpoint.origin}/${settings.bucket}/${path}`);
+  }
+  return new URL(`${endpoint.protocol}//${settings.bucket}.${endpoint.host}/${path}`);
+};
+
+// Query-string signed GET URL (X-Amz-* parameters)
+export const presignGetUrl = (settings: S3Settings, key: string, expiresInSeconds: number, date: Date = new Date()): string => {
+  const url = objectUrl(settings, key);
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set('X-Amz-Credential', `${settings.access_key_id}/${credentialScope(date, settings.region)}`);
+  url.searchParams.set('X-Amz-Date', amzDate(date));
+  url.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+  url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const signed = signature(settings, {
+    method: 'GET',
+    url,
+    headers: { host: url.host },
+    payload_hash: UNSIGNED_PAYLOAD,
+    date
+  });
+  url.searchParams.set('X-Amz-Signature', signed.signature);
+  return url.toString();
+};
+
+export const createS3BlobStore = (settings: S3Settings): BlobStore => {
+  const send = async (
+    method: string,
+    key: string,
+    options: { headers?: Record<string, string>; body?: Buffer | Readable } = {}
+  ): Promise<Response> => {
+    const url = objectUrl(settings, key);
+    const date = new Date();
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': amzDate(date)
+    };
+    const signed = signature(settings, { method, url, headers: signedHeaders, payload_hash: UNSIGNED_PAYLOAD, date });
+
+    const headers: Record<string, string> = {
+      ...options.headers,
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': signedHeaders['x-amz-date'],
+      authorization: `AWS4-HMAC-SHA256 Credential=${settings.access_key_id}/${credentialScope(date, settings.region)}, ` +
+        `SignedHeaders=${signed.signed_headers}, Signature=${signed.signature}`
+    };
+
+    const body = options.body instanceof Readable
+      ? (Readable.toWeb(options.body) as unknown as ReadableStream)
+      : options.body;
+
+    return fetch(url, { method, headers, body, duplex: 'half' } as RequestInit);
+  };
+
+  const fail = async (response: Response, action: string, key: string): Promise<never> => {
+    const detail = await response.text().catch(() => '');
+    const code = /<Code>([^<]+)<\/Code>/.exec(detail)?.[1];
+    throw new Error(`S3 ${action} ${key} failed with status ${response.status}${code ? ` (${code})` : ''}`);
+  };
+
+  const stat = async (key: string): Promise<BlobStat | null> => {
+    const response = await send('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      return fail(response, 'HEAD', key);
+    }
+
+    return {
+      size: Number(response.headers.get('content-length') ?? 0),
+      content_type: response.headers.get('content-type') ?? contentTypeFor(key),
+      etag: response.headers.get('etag') ?? '',
+      last_modified: new Date(response.headers.get('last-modified') ?? Date.now())
+    };
+  };
+
+  return {
+    name: 's3',
+    put: async (key, body, options = {}) => {
+      // S3 needs the length of a PUT body up front
+      const payload = Buffer.isBuffer(body) || options.size !== undefined ? body : await readStream(body);
+      const length = Buffer.isBuffer(payload) ? payload.length : options.size!;
+
+      const response = await send('PUT', key, {
+        headers: {
+          'content-type': options.content_type ?? contentTypeFor(key),
+          'content-length': String(length)
+        },
+        body: payload
+      });
+      if (!response.ok) {
+        return fail(response, 'PUT', key);
+      }
+      await response.arrayBuffer();
+
+      const result = await stat(key);
+      if (!result) {
+        throw new Error(`S3 object ${key} missing after upload`);
+      }
+      return result;
+    },
+    get: async (key, range) => {
+      const response = await send('GET', key, {
+        headers: range ? { range: `bytes=${range.start}-${range.end}` } : {}
+      });
+      if (response.status === 404) {
+        await response.arrayBuffer();
+        throw new BlobNotFoundError(key);
+      }
+      if (!response.ok || !response.body) {
+        return fail(response, 'GET', key);
+      }
+      return Readable.fromWeb(response.body as WebReadableStream);
+    },
+    stat,
+    delete: async (key) => {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        return fail(response, 'DELETE', key);
+      }
+      await response.arrayBuffer();
+    },
+    signedUrl: async (key, expiresInSeconds) => presignGetUrl(settings, key, expiresInSeconds)
+  };
+};
+
+export const createS3BlobStoreFromSettings = (settings: StorageSettings): BlobStore => {
+  const missing = (['endpoint', 'bucket', 'access_key_id', 'secret_access_key'] as const)
+    .filter(field => !settings[field]);
+  if (missing.length > 0) {
+    throw new Error(`The s3 storage driver requires ${missing.map(field => `S3_${field.toUpperCase()}`).join(', ')}`);
+  }
+
+  return createS3BlobStore({
+    endpoint: settings.endpoint!,
+    bucket: settings.bucket!,
+    region: settings.region,
+    access_key_id: settings.access_key_id!,
+    secret_access_key: settings.secret_access_key!,
+    force_path_style: settings.force_path_style
+  });
+};
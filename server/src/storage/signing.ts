@@ -0,0 +1,34 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { normalizeKey } from './paths';
+
+// HMAC signatures for time-limited links served by this API (download routes
+// and the local driver's signed URLs). The signature covers the resource, a
+// blob key or route path, and the expiry in Unix seconds.
+
+export const signResource = (resource: string, expires: number, secret: string): string => {
+  return createHmac('sha256', secret)
+    .update(`${normalizeKey(resource)}\n${expires}`)
+    .digest('hex');
+};
+
+export const verifyResourceSignature = (
+  resource: string,
+  expires: number,
+  signature: string,
+  secret: string,
+  now: number = Date.now()
+): boolean => {
+  if (!Number.isFinite(expires) || expires * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signResource(resource, expires, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// Append expires and signature parameters to a route path
+export const signPath = (path: string, expiresInSeconds: number, secret: string): string => {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${path}?expires=${expires}&signature=${signResource(path, expires, secret)}`;
+};
@@ -0,0 +1,49 @@
+import { type Readable } from 'stream';
+
+export interface BlobStat {
+  size: number;
+  content_type: string;
+  etag: string;
+  last_modified: Date;
+}
+
+export interface PutOptions {
+  content_type?: string;
+  // Byte length of a streamed body; drivers that need it up front buffer the stream otherwise
+  size?: number;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where uploads, intermediate artifacts and outputs live. Keys are the paths
+// stored on jobs (e.g. /uploads/videos/<file>); a leading slash is ignored.
+export interface BlobStore {
+  name: string;
+  put: (key: string, body: Buffer | Readable, options?: PutOptions) => Promise<BlobStat>;
+  // Throws BlobNotFoundError when nothing is stored under the key
+  get: (key: string, range?: ByteRange) => Promise<Readable>;
+  stat: (key: string) => Promise<BlobStat | null>;
+  // Deleting a missing key is not an error
+  delete: (key: string) => Promise<void>;
+  // Time-limited URL a client can fetch the blob from without other credentials
+  signedUrl: (key: string, expiresInSeconds: number) => Promise<string>;
+}
+
+export interface StorageSettings {
+  driver: string;
+  // local driver
+  root: string;
+  public_url: string;
+  signing_secret: string;
+  // s3 driver
+  endpoint?: string;
+  bucket?: string;
+  region: string;
+  access_key_id?: string;
+  secret_access_key?: string;
+  force_path_style: boolean;
+}
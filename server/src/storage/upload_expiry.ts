@@ -0,0 +1,96 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { getBlobStore } from './registry';
+import { uploadChunkPath } from './paths';
+import { and, eq, inArray, isNull, lt, or } from 'drizzle-orm';
+
+// Sessions that stop receiving chunks are abandoned uploads. Once they have
+// been idle for the TTL they are deleted together with their chunks. A
+// session left finalizing by a server that stopped is reopened once the
+// finalize timeout has passed, so the client can finalize it again.
+
+export const DEFAULT_UPLOAD_SESSION_TTL_MS = 24 * 60 * 60_000;
+export const DEFAULT_UPLOAD_FINALIZE_TIMEOUT_MS = 15 * 60_000;
+
+// UPLOAD_SESSION_TTL_MS sets how long an unfinished session is kept after
+// its last chunk (at least a minute)
+export const loadUploadSessionTtlMs = (env: NodeJS.ProcessEnv = process.env): number => {
+  const ttl = Number(env['UPLOAD_SESSION_TTL_MS']);
+  return env['UPLOAD_SESSION_TTL_MS'] && Number.isFinite(ttl) ? Math.max(60_000, Math.round(ttl)) : DEFAULT_UPLOAD_SESSION_TTL_MS;
+};
+
+// UPLOAD_FINALIZE_TIMEOUT_MS sets how long a finalize may take before its
+// claim on the session counts as abandoned (at least a minute)
+export const loadUploadFinalizeTimeoutMs = (env: NodeJS.ProcessEnv = process.env): number => {
+  const timeout = Number(env['UPLOAD_FINALIZE_TIMEOUT_MS']);
+  return env['UPLOAD_FINALIZE_TIMEOUT_MS'] && Number.isFinite(timeout)
+    ? Math.max(60_000, Math.round(timeout))
+    : DEFAULT_UPLOAD_FINALIZE_TIMEOUT_MS;
+};
+
+// Whether a finalizing session's claim has outlived the timeout
+export const finalizeAbandoned = (finalizingAt: Date | null, timeoutMs: number = loadUploadFinalizeTimeoutMs()): boolean => {
+  return finalizingAt === null || Date.now() - finalizingAt.getTime() > timeoutMs;
+};
+
+// Put sessions whose finalize was abandoned back to open, returning their ids
+export const reopenAbandonedUploads = async (timeoutMs: number = loadUploadFinalizeTimeoutMs()): Promise<string[]> => {
+  const reopened = await db.update(uploadSessionsTable)
+    .set({ status: 'open', finalizing_at: null, updated_at: new Date() })
+    .where(and(
+      eq(uploadSessionsTable.status, 'finalizing'),
+      or(
+        isNull(uploadSessionsTable.finalizing_at),
+        lt(uploadSessionsTable.finalizing_at, new Date(Date.now() - timeoutMs))
+      )
+    ))
+    .returning({ id: uploadSessionsTable.id })
+    .execute();
+
+  return reopened.map(session => session.id);
+};
+
+// Delete the unfinished sessions idle for longer than the TTL, returning their ids
+export const expireUploadSessions = async (ttlMs: number = loadUploadSessionTtlMs()): Promise<string[]> => {
+  const expired = await db.delete(uploadSessionsTable)
+    .where(and(
+      inArray(uploadSessionsTable.status, ['open', 'finalizing']),
+      lt(uploadSessionsTable.updated_at, new Date(Date.now() - ttlMs))
+    ))
+    .returning({ id: uploadSessionsTable.id, total_chunks: uploadSessionsTable.total_chunks })
+    .execute();
+
+  const store = getBlobStore();
+  for (const session of expired) {
+    for (let index = 0; index < session.total_chunks; index++) {
+      await store.delete(uploadChunkPath(session.id, index));
+    }
+  }
+  return expired.map(session => session.id);
+};
+
+// Expire sessions and reopen abandoned finalizes periodically until stopped,
+// starting with sessions a previous server left behind
+export const startUploadExpiry = (
+  ttlMs: number = loadUploadSessionTtlMs(),
+  finalizeTimeoutMs: number = loadUploadFinalizeTimeoutMs()
+): () => void => {
+  const sweep = async () => {
+    try {
+      const expired = await expireUploadSessions(ttlMs);
+      if (expired.length > 0) {
+        console.log(`Expired ${expired.length} abandoned upload sessions`);
+      }
+      const reopened = await reopenAbandonedUploads(finalizeTimeoutMs);
+      if (reopened.length > 0) {
+        console.log(`Reopened ${reopened.length} upload sessions left finalizing`);
+      }
+    } catch (error) {
+      console.error('Upload session expiry failed:', error);
+    }
+  };
+
+  sweep();
+  const timer = setInterval(sweep, Math.min(ttlMs, finalizeTimeoutMs, 60 * 60_000));
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,126 @@
+import { type FormatOptions, type SubtitleCue } from './types';
+
+// Advanced SubStation Alpha (v4.00+). Lines are pre-wrapped with \N, so the
+// script disables the renderer's own wrapping (WrapStyle 2).
+
+const STYLE_FIELDS = 'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, ' +
+  'Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const EVENT_FIELDS = 'Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+// Fonts with coverage for scripts that common Latin fonts lack
+const fonts: Record<string, string> = {
+  zh: 'Noto Sans CJK SC',
+  ja: 'Noto Sans CJK JP',
+  ko: 'Noto Sans CJK KR',
+  ar: 'Noto Naskh Arabic',
+  hi: 'Noto Sans Devanagari'
+};
+
+// Windows charset codes, still read by some renderers
+const encodings: Record<string, number> = { ar: 178, ja: 128, ko: 129, zh: 134, ru: 204 };
+
+// H:MM:SS.cc
+const formatTime = (ms: number): string => {
+  const centiseconds = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(centiseconds / 360_000);
+  const minutes = Math.floor((centiseconds % 360_000) / 6000);
+  const seconds = Math.floor((centiseconds % 6000) / 100);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centiseconds % 100)}`;
+};
+
+const parseTime = (value: string): number | null => {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})[.:](\d{1,3})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  // Centiseconds by spec, but some tools write milliseconds
+  const fractionMs = fraction.length === 3 ? Number(fraction) : Number(fraction.padEnd(2, '0')) * 10;
+  return Number(hours) * 3_600_000 + Number(minutes) * 60_000 + Number(seconds) * 1000 + fractionMs;
+};
+
+// Braces open override blocks; escaped ones are shown literally
+const escapeText = (text: string): string => text.replace(/[{}]/g, brace => `\\${brace}`).replace(/\n/g, '\\N');
+
+const unescapeText = (text: string): string => {
+  return text
+    .replace(/(?<!\\)\{[^}]*\}/g, '')
+    .replace(/\\([{}])/g, '$1')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ');
+};
+
+// Names go in a comma-separated field
+const escapeName = (name: string): string => name.replace(/,/g, ' ');
+
+export const formatAss = (cues: SubtitleCue[], options: FormatOptions = {}): string => {
+  const language = options.language ?? '';
+  const font = fonts[language] ?? 'Arial';
+  const encoding = encodings[language] ?? 1;
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    ...(language ? [`Language: ${language}`] : []),
+    '',
+    '[V4+ Styles]',
+    `Format: ${STYLE_FIELDS}`,
+    `Style: Default,${font},64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,80,80,60,${encoding}`,
+    '',
+    '[Events]',
+    `Format: ${EVENT_FIELDS}`,
+    ...cues.map(cue => `Dialogue: 0,${formatTime(cue.start_ms)},${formatTime(cue.end_ms)},Default,` +
+      `${cue.speaker ? escapeName(cue.speaker) : ''},0,0,0,,${escapeText(cue.text)}`)
+  ].join('\n') + '\n';
+};
+
+// Dialogue lines of an ASS/SSA script, using the [Events] Format line to find
+// the fields. Override tags are dropped.
+export const parseAss = (content: string): SubtitleCue[] => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const cues: SubtitleCue[] = [];
+  let section = '';
+  let fields: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (/^\[.+\]$/.test(trimmed)) {
+      section = trimmed.toLowerCase();
+      continue;
+    }
+    if (section !== '[events]') continue;
+
+    if (trimmed.startsWith('Format:')) {
+      fields = trimmed.slice('Format:'.length).split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+    if (!trimmed.startsWith('Dialogue:') || fields.length === 0) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = line.slice(line.indexOf(':') + 1).trimStart().split(',');
+    const record = Object.fromEntries(fields.map((field, index) => [
+      field,
+      index === fields.length - 1 ? values.slice(index).join(',') : (values[index] ?? '').trim()
+    ]));
+
+    const start_ms = parseTime(record['start'] ?? '');
+    const end_ms = parseTime(record['end'] ?? '');
+    const text = unescapeText(record['text'] ?? '').trim();
+    if (start_ms === null || end_ms === null || !text) continue;
+
+    cues.push({ start_ms, end_ms, text, speaker: record['name'] || null });
+  }
+
+  return cues;
+};
+
+// The Language field of [Script Info], when the script declares one
+export const assLanguage = (content: string): string | null => {
+  const match = /^Language:[ \t]*(.+)$/im.exec(content);
+  return match?.[1].trim() || null;
+};
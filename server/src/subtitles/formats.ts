@@ -0,0 +1,34 @@
+import { type SubtitleFormat } from '../schema';
+import { assLanguage, formatAss, parseAss } from './ass';
+import { formatSrt, parseSrt } from './srt';
+import { type FormatOptions, type SubtitleCue } from './types';
+import { formatVtt, parseVtt, vttLanguage } from './vtt';
+import { layoutCues, wrapRulesFor } from './wrap';
+
+interface SubtitleCodec {
+  content_type: string;
+  format: (cues: SubtitleCue[], options?: FormatOptions) => string;
+  parse: (content: string) => SubtitleCue[];
+  // Language tag the file declares about itself, if the format has one
+  declared_language: (content: string) => string | null;
+}
+
+export const subtitleCodecs: Record<SubtitleFormat, SubtitleCodec> = {
+  srt: { content_type: 'application/x-subrip; charset=utf-8', format: formatSrt, parse: parseSrt, declared_language: () => null },
+  vtt: { content_type: 'text/vtt; charset=utf-8', format: formatVtt, parse: parseVtt, declared_language: vttLanguage },
+  ass: { content_type: 'text/x-ssa; charset=utf-8', format: formatAss, parse: parseAss, declared_language: assLanguage }
+};
+
+// Lay out cues by the language's wrapping rules and write them in a format
+export const renderSubtitles = (format: SubtitleFormat, cues: SubtitleCue[], language?: string | null): string => {
+  const laidOut = layoutCues(cues, wrapRulesFor(language));
+  return subtitleCodecs[format].format(laidOut, { language });
+};
+
+// Tell the format from the content: WebVTT and ASS open with a fixed header
+export const detectSubtitleFormat = (content: string): SubtitleFormat => {
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(start)) return 'ass';
+  return 'srt';
+};
@@ -0,0 +1,53 @@
+import { type SubtitleAttachment, type SupportedLanguage, supportedLanguagesSchema } from '../schema';
+import { InvalidSubtitlesError } from '../errors';
+import { type SegmentDraft } from '../pipeline/segments';
+import { detectSubtitleFormat, subtitleCodecs } from './formats';
+import { unwrapText, wrapRulesFor } from './wrap';
+
+export interface ImportedTranscript {
+  language: SupportedLanguage;
+  segments: SegmentDraft[];
+}
+
+// Map a declared tag such as "en-US" or "pt_BR" to a supported language
+const supportedLanguage = (tag: string | null): SupportedLanguage | null => {
+  const primary = tag?.split(/[-_]/)[0].toLowerCase();
+  const parsed = supportedLanguagesSchema.safeParse(primary);
+  return parsed.success ? parsed.data : null;
+};
+
+// Turn attached captions into transcript segments in their own language.
+// Caption line breaks are layout, not content, so lines are joined again.
+export const importSubtitles = (attachment: SubtitleAttachment): ImportedTranscript => {
+  const format = attachment.format ?? detectSubtitleFormat(attachment.content);
+  const codec = subtitleCodecs[format];
+
+  let cues;
+  try {
+    cues = codec.parse(attachment.content);
+  } catch (error) {
+    throw new InvalidSubtitlesError(error instanceof Error ? error.message : String(error));
+  }
+  if (cues.length === 0) {
+    throw new InvalidSubtitlesError(`no cues found in the ${format.toUpperCase()} file`);
+  }
+
+  const language = attachment.language ?? supportedLanguage(codec.declared_language(attachment.content));
+  if (!language) {
+    throw new InvalidSubtitlesError('the caption language is not declared in the file; set it explicitly');
+  }
+
+  const rules = wrapRulesFor(language);
+  const segments = [...cues]
+    .sort((a, b) => a.start_ms - b.start_ms)
+    .map(cue => ({
+      start_ms: cue.start_ms,
+      end_ms: Math.max(cue.start_ms, cue.end_ms),
+      speaker: cue.speaker ?? null,
+      source_text: unwrapText(cue.text, rules),
+      translated_text: null,
+      confidence: null
+    }));
+
+  return { language, segments };
+};
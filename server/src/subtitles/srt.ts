@@ -0,0 +1,40 @@
+import { formatTimestamp, markRtl, parseTimestamp, splitBlocks, stripRtlMarks } from './timecode';
+import { type FormatOptions, type SubtitleCue } from './types';
+import { wrapRulesFor } from './wrap';
+
+const TIMING = /^\s*(\S+)\s*-->\s*(\S+)/;
+
+export const formatSrt = (cues: SubtitleCue[], options: FormatOptions = {}): string => {
+  const rtl = wrapRulesFor(options.language).rtl;
+  return cues.map((cue, index) => [
+    String(index + 1),
+    `${formatTimestamp(cue.start_ms, ',')} --> ${formatTimestamp(cue.end_ms, ',')}`,
+    rtl ? markRtl(cue.text) : cue.text
+  ].join('\n')).join('\n\n') + '\n';
+};
+
+// Cues of an SRT file. Formatting tags (<i>, <font ...>, {\an8}) are dropped and
+// blocks without a valid timing line are skipped.
+export const parseSrt = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  for (const lines of splitBlocks(content)) {
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = TIMING.exec(lines[timingIndex])!;
+    const start_ms = parseTimestamp(start);
+    const end_ms = parseTimestamp(end);
+    if (start_ms === null || end_ms === null) continue;
+
+    const text = stripRtlMarks(lines.slice(timingIndex + 1).join('\n'))
+      .replace(/<\/?(?:b|i|u|s|font)\b[^>]*>/gi, '')
+      .replace(/\{\\[^}]*\}/g, '')
+      .trim();
+    if (text) {
+      cues.push({ start_ms, end_ms, text });
+    }
+  }
+
+  return cues;
+};
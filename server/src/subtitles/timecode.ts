@@ -0,0 +1,41 @@
+const pad = (value: number, width = 2): string => String(value).padStart(width, '0');
+
+// HH:MM:SS<separator>mmm, as used by SRT (",") and WebVTT (".")
+export const formatTimestamp = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// [HH:]MM:SS(,|.)fraction; the fraction may have 1-3 digits
+export const parseTimestamp = (value: string): number | null => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, '0'));
+};
+
+// Split a file into blank-line separated blocks of lines, tolerating a BOM and CRLF
+export const splitBlocks = (content: string): string[][] => {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => block.split('\n').filter(line => line.trim() !== ''))
+    .filter(lines => lines.length > 0);
+};
+
+// Right-to-left marks keep punctuation at the correct end of RTL lines in
+// players that do not apply the bidi algorithm per line
+const RLM = '\u200F';
+
+export const markRtl = (text: string): string => text.split('\n').map(line => RLM + line).join('\n');
+
+export const stripRtlMarks = (text: string): string => text.replace(/[\u200E\u200F]/g, '');
@@ -0,0 +1,27 @@
+import { type SubtitleTrack, type SupportedLanguage, type TranscriptSegment, type TranslationJob } from '../schema';
+import { type SubtitleCue } from './types';
+
+export const subtitleLanguage = (
+  job: Pick<TranslationJob, 'detected_language' | 'target_language'>,
+  track: SubtitleTrack
+): SupportedLanguage | null => {
+  return track === 'source' ? job.detected_language : job.target_language;
+};
+
+// Cues for one side of the transcript, or null until every segment has text
+// for it
+export const cuesForTrack = (segments: TranscriptSegment[], track: SubtitleTrack): SubtitleCue[] | null => {
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const cues: SubtitleCue[] = [];
+  for (const segment of segments) {
+    const text = track === 'source' ? segment.source_text : segment.translated_text;
+    if (text === null) {
+      return null;
+    }
+    cues.push({ start_ms: segment.start_ms, end_ms: segment.end_ms, text, speaker: segment.speaker });
+  }
+  return cues;
+};
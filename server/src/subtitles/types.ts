@@ -0,0 +1,19 @@
+// A timed subtitle; lines are separated by \n
+export interface SubtitleCue {
+  start_ms: number;
+  end_ms: number;
+  text: string;
+  speaker?: string | null;
+}
+
+// How subtitle text is laid out for a language
+export interface WrapRules {
+  max_line_length: number; // Characters per line
+  max_lines: number; // Lines per cue before it is split in time
+  word_separated: boolean; // Break only at spaces; false for scripts written without them
+  rtl: boolean;
+}
+
+export interface FormatOptions {
+  language?: string | null;
+}
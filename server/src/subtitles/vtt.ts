@@ -0,0 +1,74 @@
+import { formatTimestamp, markRtl, parseTimestamp, splitBlocks, stripRtlMarks } from './timecode';
+import { type FormatOptions, type SubtitleCue } from './types';
+import { wrapRulesFor } from './wrap';
+
+const TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+const escapeText = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const entities: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F'
+};
+
+const unescapeText = (text: string): string => text.replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, entity => entities[entity]);
+
+export const formatVtt = (cues: SubtitleCue[], options: FormatOptions = {}): string => {
+  const rtl = wrapRulesFor(options.language).rtl;
+  const header = options.language ? `WEBVTT\nLanguage: ${options.language}` : 'WEBVTT';
+
+  const blocks = cues.map(cue => {
+    const text = escapeText(rtl ? markRtl(cue.text) : cue.text);
+    return [
+      `${formatTimestamp(cue.start_ms, '.')} --> ${formatTimestamp(cue.end_ms, '.')}`,
+      // Voice spans name the speaker
+      cue.speaker ? `<v ${escapeText(cue.speaker)}>${text}` : text
+    ].join('\n');
+  });
+
+  return [header, ...blocks].join('\n\n') + '\n';
+};
+
+// Cues of a WebVTT file. NOTE, STYLE and REGION blocks and cue settings are
+// ignored; a leading voice span becomes the speaker.
+export const parseVtt = (content: string): SubtitleCue[] => {
+  const blocks = splitBlocks(content);
+  if (!blocks[0]?.[0]?.startsWith('WEBVTT')) {
+    throw new Error('Not a WebVTT file: missing WEBVTT header');
+  }
+
+  const cues: SubtitleCue[] = [];
+  for (const lines of blocks.slice(1)) {
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const timingIndex = lines.findIndex(line => TIMING.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, start, end] = TIMING.exec(lines[timingIndex])!;
+    const start_ms = parseTimestamp(start);
+    const end_ms = parseTimestamp(end);
+    if (start_ms === null || end_ms === null) continue;
+
+    let raw = lines.slice(timingIndex + 1).join('\n');
+    const voice = /^<v(?:\.[^\s>]+)?\s+([^>]+)>/.exec(raw);
+    raw = raw.replace(/<[^>]*>/g, '');
+
+    const text = stripRtlMarks(unescapeText(raw)).trim();
+    if (text) {
+      cues.push({ start_ms, end_ms, text, speaker: voice ? unescapeText(voice[1]).trim() : null });
+    }
+  }
+
+  return cues;
+};
+
+// The Language header, when the file declares one
+export const vttLanguage = (content: string): string | null => {
+  const header = splitBlocks(content)[0] ?? [];
+  const line = header.find(entry => /^Language:/i.test(entry));
+  return line?.replace(/^Language:/i, '').trim() || null;
+};
@@ -0,0 +1,144 @@
+import { type SubtitleCue, type WrapRules } from './types';
+
+// Line lengths follow common broadcast subtitle guidelines: 42 characters for
+// alphabetic scripts, 16 for Chinese, Japanese and Korean, whose characters
+// are about twice as wide.
+const defaultRules: WrapRules = { max_line_length: 42, max_lines: 2, word_separated: true, rtl: false };
+
+const languageRules: Record<string, Partial<WrapRules>> = {
+  zh: { max_line_length: 16, word_separated: false },
+  ja: { max_line_length: 16, word_separated: false },
+  ko: { max_line_length: 16 },
+  ar: { rtl: true }
+};
+
+export const wrapRulesFor = (language?: string | null): WrapRules => {
+  return { ...defaultRules, ...(language ? languageRules[language] : undefined) };
+};
+
+// Punctuation that must not start a line (closing marks) or end one
+// (opening marks) in CJK text
+const NO_LINE_START = new Set([...'、。，．,.！？!?：；:;）」』】〉》”’)]}ー～…・々ゝゞぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ']);
+const NO_LINE_END = new Set([...'（「『【〈《“‘([{']);
+
+const length = (text: string): number => [...text].length;
+
+// Words for spaced scripts; single characters otherwise, keeping runs of
+// Latin letters and digits (names, numbers) together
+const tokenize = (text: string, rules: WrapRules): string[] => {
+  if (rules.word_separated) {
+    return text.split(' ').filter(Boolean);
+  }
+  return text.match(/[A-Za-z0-9]+(?:[.,'’-][A-Za-z0-9]+)*| |[^ ]/gu) ?? [];
+};
+
+// Tokens longer than a whole line have to be cut
+const splitLongTokens = (tokens: string[], max: number): string[] => {
+  return tokens.flatMap(token => {
+    const chars = [...token];
+    if (chars.length <= max) return [token];
+    const parts: string[] = [];
+    for (let i = 0; i < chars.length; i += max) {
+      parts.push(chars.slice(i, i + max).join(''));
+    }
+    return parts;
+  });
+};
+
+const fill = (tokens: string[], width: number, rules: WrapRules): string[] => {
+  const separator = rules.word_separated ? ' ' : '';
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    const candidate = line ? line + separator + token : token;
+    if (line && length(candidate.trimEnd()) > width) {
+      lines.push(line.trim());
+      line = token === ' ' ? '' : token;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) {
+    lines.push(line.trim());
+  }
+  return lines;
+};
+
+// Move closing punctuation up to the previous line and opening punctuation
+// down to the next one; such lines may run one character over
+const applyKinsoku = (lines: string[]): string[] => {
+  const result = [...lines];
+  for (let i = 1; i < result.length; i++) {
+    let chars = [...result[i]];
+    while (chars.length > 1 && NO_LINE_START.has(chars[0])) {
+      result[i - 1] += chars.shift();
+    }
+    const previous = [...result[i - 1]];
+    while (previous.length > 1 && NO_LINE_END.has(previous[previous.length - 1])) {
+      chars = [previous.pop()!, ...chars];
+    }
+    result[i - 1] = previous.join('');
+    result[i] = chars.join('');
+  }
+  return result.filter(Boolean);
+};
+
+// Break text into lines of at most max_line_length characters, balancing the
+// line lengths rather than filling the first line greedily
+export const wrapText = (text: string, rules: WrapRules): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) {
+    return [];
+  }
+
+  const max = rules.max_line_length;
+  const tokens = splitLongTokens(tokenize(normalized, rules), max);
+  const greedy = fill(tokens, max, rules);
+
+  // The narrowest width that still needs no more lines than greedy filling
+  let lines = greedy;
+  for (let width = Math.ceil(length(normalized) / greedy.length); width < max; width++) {
+    const candidate = fill(tokens, width, rules);
+    if (candidate.length <= greedy.length) {
+      lines = candidate;
+      break;
+    }
+  }
+
+  return rules.word_separated ? lines : applyKinsoku(lines);
+};
+
+// Wrap each cue's text and split cues with more lines than allowed into
+// consecutive cues, sharing out the time by text length
+export const layoutCues = (cues: SubtitleCue[], rules: WrapRules): SubtitleCue[] => {
+  return cues.flatMap(cue => {
+    const lines = wrapText(cue.text, rules);
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += rules.max_lines) {
+      groups.push(lines.slice(i, i + rules.max_lines));
+    }
+
+    const total = lines.reduce((sum, line) => sum + length(line), 0);
+    const duration = cue.end_ms - cue.start_ms;
+    let consumed = 0;
+
+    return groups.map(group => {
+      const start = cue.start_ms + Math.round(duration * consumed / total);
+      consumed += group.reduce((sum, line) => sum + length(line), 0);
+      const end = cue.start_ms + Math.round(duration * consumed / total);
+      return { ...cue, start_ms: start, end_ms: end, text: group.join('\n') };
+    });
+  });
+};
+
+// Undo wrapping: join lines with a space, or directly for scripts written
+// without spaces
+export const unwrapText = (text: string, rules: WrapRules): string => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return rules.word_separated ? lines.join(' ') : lines.join('');
+};
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobEventsTable, transcriptSegmentsTable, translationJobsTable, translationMemoryTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { approveTranslationJob } from '../handlers/approve_translation_job';
+import { claimNextJob } from '../pipeline/worker';
+import { eq } from 'drizzle-orm';
+
+const createTestJob = async (status: TranslationStatus) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'review.mp4',
+      original_file_path: '/uploads/review.mp4',
+      target_language: 'fr',
+      status,
+      requires_review: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('approveTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record the approval and make the job claimable again', async () => {
+    const job = await createTestJob('awaiting_review');
+
+    const result = await approveTranslationJob({ id: job.id, comment: 'Looks good' });
+
+    expect(result.status).toEqual('retrying');
+    expect(result.approved_at).toBeInstanceOf(Date);
+    expect((await claimNextJob())!.id).toEqual(job.id);
+
+    const events = await db.select().from(jobEventsTable).where(eq(jobEventsTable.job_id, job.id)).execute();
+    expect(events[0]).toMatchObject({ from_status: 'awaiting_review', to_status: 'retrying', message: 'Approved: Looks good' });
+  });
+
+  it('should add the reviewed translation to the translation memory', async () => {
+    const job = await createTestJob('awaiting_review');
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hello there', translated_text: 'Bonjour à tous' },
+        { job_id: job.id, index: 1, start_ms: 1000, end_ms: 2000, source_text: 'Untranslated' }
+      ])
+      .execute();
+
+    await approveTranslationJob({ id: job.id });
+
+    const entries = await db.select().from(translationMemoryTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      source_language: 'en',
+      target_language: 'fr',
+      source_text: 'Hello there',
+      target_text: 'Bonjour à tous',
+      job_id: job.id
+    });
+  });
+
+  it('should only approve jobs awaiting review', async () => {
+    const job = await createTestJob('failed');
+
+    await expect(approveTranslationJob({ id: job.id })).rejects.toMatchObject({ code: 'CONFLICT' });
+
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.approved_at).toBeNull();
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(approveTranslationJob({ id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
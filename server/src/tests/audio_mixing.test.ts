@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'bun:test';
+import { integratedLoudness, normalizeLoudness } from '../media/loudness';
+import { runDsp } from '../media/dsp';
+import { separateStems } from '../media/separate';
+import { type PlanarAudio } from '../media/wav';
+import { defaultMixConfig, duckingGains, loadMixConfig, remix } from '../mixing/remix';
+
+const sine = (hz: number, amplitude: number, seconds: number, sampleRate = 48000): Float32Array => {
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / sampleRate));
+};
+
+// RMS of a minus b, ignoring the first and last 100 ms
+const rmsDifference = (a: Float32Array, b: Float32Array, sampleRate = 48000): number => {
+  const edge = sampleRate / 10;
+  let sum = 0;
+  for (let i = edge; i < a.length - edge; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum / (a.length - 2 * edge));
+};
+
+const peak = (audio: PlanarAudio): number => {
+  return Math.max(...audio.planes.map(plane => plane.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0)));
+};
+
+describe('loudness', () => {
+  it('should measure a -20 dBFS 1 kHz tone at -23 LUFS per channel', () => {
+    const tone = sine(1000, 0.1, 2);
+
+    expect(integratedLoudness({ planes: [tone], sample_rate: 48000 })).toBeCloseTo(-23, 1);
+    expect(integratedLoudness({ planes: [tone, tone], sample_rate: 48000 })).toBeCloseTo(-20, 1);
+    expect(integratedLoudness({ planes: [sine(1000, 0.1, 2, 44100)], sample_rate: 44100 })).toBeCloseTo(-23, 1);
+  });
+
+  it('should leave the LFE channel of 5.1 out', () => {
+    const tone = sine(1000, 0.1, 1);
+    const silence = new Float32Array(tone.length);
+
+    const loudness = integratedLoudness({ planes: [silence, silence, tone, tone, silence, silence], sample_rate: 48000 });
+
+    expect(loudness).toBeCloseTo(-23, 1);
+  });
+
+  it('should normalize to the target without exceeding the peak ceiling', () => {
+    const quiet = normalizeLoudness({ planes: [sine(1000, 0.02, 2)], sample_rate: 48000 }, -23);
+    expect(integratedLoudness(quiet.audio)).toBeCloseTo(-23, 1);
+
+    // A +6 dB gain would clip; it stops at -1 dBFS
+    const loud = normalizeLoudness({ planes: [sine(1000, 0.5, 2)], sample_rate: 48000 }, -3);
+    expect(loud.gain_db).toBeCloseTo(5.02, 1);
+    expect(peak(loud.audio)).toBeCloseTo(Math.pow(10, -1 / 20), 3);
+  });
+
+  it('should leave silence alone', () => {
+    const silence: PlanarAudio = { planes: [new Float32Array(48000)], sample_rate: 48000 };
+
+    expect(integratedLoudness(silence)).toBe(-Infinity);
+    expect(normalizeLoudness(silence, -23).gain_db).toBe(0);
+  });
+});
+
+describe('stem separation', () => {
+  it('should take what stereo channels share as speech', () => {
+    const voice = sine(440, 0.3, 1);
+    const wide = sine(1500, 0.2, 1);
+    // The voice is centered, the other tone is out of phase between channels
+    const left = voice.map((sample, i) => sample + wide[i]);
+    const right = voice.map((sample, i) => sample - wide[i]);
+
+    const { speech, background } = separateStems({ planes: [left, right], sample_rate: 48000 });
+
+    expect(rmsDifference(speech.planes[0], voice)).toBeLessThan(0.02);
+    expect(rmsDifference(background.planes[0], wide)).toBeLessThan(0.02);
+    expect(rmsDifference(background.planes[1], wide.map(sample => -sample))).toBeLessThan(0.02);
+    // The stems add up to the input
+    expect(rmsDifference(speech.planes[0].map((sample, i) => sample + background.planes[0][i]), left)).toBeLessThan(1e-6);
+  });
+
+  it('should take the voice band of mono audio as speech', () => {
+    const voice = sine(1000, 0.3, 1);
+    const hum = sine(50, 0.3, 1);
+
+    const { speech, background } = separateStems({ planes: [voice.map((sample, i) => sample + hum[i])], sample_rate: 48000 });
+
+    expect(rmsDifference(speech.planes[0], voice)).toBeLessThan(0.02);
+    expect(rmsDifference(background.planes[0], hum)).toBeLessThan(0.02);
+  });
+
+  it('should take the center channel of 5.1 as speech', () => {
+    const planes = [1, 2, 3, 4, 5, 6].map(channel => sine(200 * channel, 0.1, 0.5));
+
+    const { speech, background } = separateStems({ planes, sample_rate: 48000 });
+
+    expect(speech.planes[2]).toEqual(planes[2]);
+    expect(speech.planes[0].every(sample => sample === 0)).toBe(true);
+    expect(background.planes[2].every(sample => sample === 0)).toBe(true);
+    expect(background.planes[4]).toEqual(planes[4]);
+  });
+});
+
+describe('remixing', () => {
+  // One second of silence, one of speech, one of silence
+  const dialog = (sampleRate: number) => {
+    const plane = new Float32Array(3 * sampleRate);
+    plane.set(sine(300, 0.3, 1, sampleRate), sampleRate);
+    return plane;
+  };
+
+  it('should duck the background under dialog and bring it back after', () => {
+    const gains = duckingGains(dialog(16000), 16000, 12);
+    const floor = Math.pow(10, -12 / 20);
+
+    expect(gains[8000]).toBe(1);
+    // Fully down when the speech starts, and while it lasts
+    expect(gains[16000 - 1]).toBeCloseTo(floor, 4);
+    expect(gains[24000]).toBeCloseTo(floor, 4);
+    // Recovering 200 ms after it, back up 400 ms after it
+    expect(gains[35200]).toBeGreaterThan(floor);
+    expect(gains[35200]).toBeLessThan(1);
+    expect(gains[40000]).toBe(1);
+    expect(duckingGains(dialog(16000), 16000, 0).every(gain => gain === 1)).toBe(true);
+  });
+
+  it('should lay dialog over the background in stereo at the target loudness', () => {
+    const background: PlanarAudio = { planes: [sine(100, 0.1, 3), sine(150, 0.1, 3)], sample_rate: 48000 };
+
+    const { audio } = remix({ planes: [dialog(16000)], sample_rate: 16000 }, background, defaultMixConfig);
+
+    expect(audio.sample_rate).toBe(48000);
+    expect(audio.planes).toHaveLength(2);
+    expect(audio.planes[0].length).toBe(3 * 48000);
+    expect(integratedLoudness(audio)).toBeCloseTo(-23, 1);
+  });
+
+  it('should put the dialog in the center channel of 5.1', () => {
+    const background: PlanarAudio = { planes: [sine(100, 0.1, 3), sine(150, 0.1, 3)], sample_rate: 48000 };
+
+    const { audio } = remix({ planes: [dialog(48000)], sample_rate: 48000 }, background, { ...defaultMixConfig, channel_layout: '5.1' });
+
+    expect(audio.planes).toHaveLength(6);
+    expect(audio.planes[3].every(sample => sample === 0)).toBe(true);
+    // Speech only reaches the center; the background is everywhere else
+    expect(audio.planes[2].slice(0, 48000).every(sample => sample === 0)).toBe(true);
+    expect(peak({ planes: [audio.planes[2]], sample_rate: 48000 })).toBeGreaterThan(0);
+    expect(peak({ planes: [audio.planes[0]], sample_rate: 48000 })).toBeGreaterThan(0);
+  });
+
+  it('should mix dialog alone when there is no background', () => {
+    const { audio } = remix({ planes: [dialog(16000)], sample_rate: 16000 }, null, { ...defaultMixConfig, channel_layout: 'mono' });
+
+    expect(audio.sample_rate).toBe(16000);
+    expect(audio.planes).toHaveLength(1);
+    expect(integratedLoudness(audio)).toBeCloseTo(-23, 1);
+  });
+
+  it('should read the mix settings from the environment', () => {
+    expect(loadMixConfig({})).toEqual(defaultMixConfig);
+    expect(loadMixConfig({ AUDIO_DUCKING_DB: '6', AUDIO_LOUDNESS_LUFS: '-16', AUDIO_CHANNEL_LAYOUT: '5.1' }))
+      .toEqual({ ducking_db: 6, loudness_lufs: -16, channel_layout: '5.1' });
+    expect(loadMixConfig({ AUDIO_DUCKING_DB: '90', AUDIO_LOUDNESS_LUFS: '0', AUDIO_CHANNEL_LAYOUT: '7.1' }))
+      .toEqual({ ducking_db: 40, loudness_lufs: -5, channel_layout: 'stereo' });
+  });
+});
+
+describe('DSP thread', () => {
+  it('should return what the processing returns on the calling thread', async () => {
+    const voice = sine(440, 0.3, 1);
+    const wide = sine(1500, 0.2, 1);
+    const input = { planes: [voice.map((sample, i) => sample + wide[i]), voice.map((sample, i) => sample - wide[i])], sample_rate: 48000 };
+
+    const stems = await runDsp('separateStems', input);
+    const mixed = await runDsp('remix', stems.speech, stems.background, defaultMixConfig);
+
+    expect(stems).toEqual(separateStems(input));
+    expect(mixed).toEqual(remix(stems.speech, stems.background, defaultMixConfig));
+  });
+
+  it('should keep the event loop free while it works', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+
+    await runDsp('separateStems', { planes: [sine(440, 0.3, 20), sine(440, 0.3, 20)], sample_rate: 48000 });
+    clearInterval(timer);
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { bulkUpdateSegments } from '../handlers/bulk_update_segments';
+import { getSegments, saveSegments, type SegmentDraft } from '../pipeline/segments';
+import { eq } from 'drizzle-orm';
+
+const createTestJob = async () => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'bulk.mp4',
+      original_file_path: '/uploads/bulk.mp4',
+      target_language: 'es',
+      status: 'failed',
+      error_message: 'synthesize: Timeout'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const draft = (start_ms: number, source_text: string, translated_text: string): SegmentDraft => ({
+  start_ms,
+  end_ms: start_ms + 1000,
+  speaker: null,
+  source_text,
+  translated_text,
+  confidence: null
+});
+
+const createSegments = async (jobId: number) => {
+  await saveSegments(jobId, [draft(0, 'One.', 'Uno.'), draft(1000, 'Two.', 'Dos.'), draft(2000, 'Three.', 'Tres.')]);
+  return getSegments(jobId);
+};
+
+describe('bulkUpdateSegments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should apply every edit and return the segments in the given order', async () => {
+    const job = await createTestJob();
+    const [first, , third] = await createSegments(job.id);
+
+    const result = await bulkUpdateSegments({
+      job_id: job.id,
+      updates: [
+        { id: third.id, version: third.version, translated_text: 'Tres!' },
+        { id: first.id, version: first.version, translated_text: 'Uno!' }
+      ]
+    });
+
+    expect(result.map(segment => segment.translated_text)).toEqual(['Tres!', 'Uno!']);
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.translated_transcript).toEqual('Uno! Dos. Tres!');
+  });
+
+  it('should allow moving neighbouring segments together', async () => {
+    const job = await createTestJob();
+    const [first, second] = await createSegments(job.id);
+
+    const result = await bulkUpdateSegments({
+      job_id: job.id,
+      updates: [
+        { id: first.id, version: first.version, end_ms: 1500 },
+        { id: second.id, version: second.version, start_ms: 1500 }
+      ]
+    });
+
+    expect(result.map(segment => [segment.start_ms, segment.end_ms])).toEqual([[0, 1500], [1500, 2000]]);
+  });
+
+  it('should apply nothing when one edit conflicts', async () => {
+    const job = await createTestJob();
+    const [first, second] = await createSegments(job.id);
+
+    await expect(bulkUpdateSegments({
+      job_id: job.id,
+      updates: [
+        { id: first.id, version: first.version, translated_text: 'Uno!' },
+        { id: second.id, version: second.version - 1, translated_text: 'Dos!' }
+      ]
+    })).rejects.toMatchObject({ code: 'CONFLICT', segmentId: second.id });
+
+    const segments = await getSegments(job.id);
+    expect(segments.map(segment => segment.translated_text)).toEqual(['Uno.', 'Dos.', 'Tres.']);
+  });
+
+  it('should not touch segments of another job', async () => {
+    const job = await createTestJob();
+    const other = await createTestJob();
+    const [foreign] = await createSegments(other.id);
+
+    await expect(bulkUpdateSegments({
+      job_id: job.id,
+      updates: [{ id: foreign.id, version: foreign.version, translated_text: 'Uno!' }]
+    })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should reject editing the same segment twice', async () => {
+    const job = await createTestJob();
+    const [first] = await createSegments(job.id);
+
+    await expect(bulkUpdateSegments({
+      job_id: job.id,
+      updates: [
+        { id: first.id, version: first.version, translated_text: 'Uno!' },
+        { id: first.id, version: first.version, translated_text: 'Uno?' }
+      ]
+    })).rejects.toThrow(/edited more than once/);
+  });
+});
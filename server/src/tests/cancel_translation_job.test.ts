@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable, jobEventsTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { cancelTranslationJob } from '../handlers/cancel_translation_job';
+import { eq } from 'drizzle-orm';
+
+const createTestJob = async (status: TranslationStatus, extra: Partial<typeof translationJobsTable.$inferInsert> = {}) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'cancel.mp4',
+      original_file_path: '/uploads/cancel.mp4',
+      target_language: 'fr',
+      status,
+      ...extra
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('cancelTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should cancel a pending job', async () => {
+    const job = await createTestJob('pending');
+
+    const result = await cancelTranslationJob({ id: job.id });
+
+    expect(result.id).toEqual(job.id);
+    expect(result.status).toEqual('cancelled');
+  });
+
+  it('should cancel a processing job and record why', async () => {
+    const job = await createTestJob('processing');
+
+    await cancelTranslationJob({ id: job.id });
+
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, job.id))
+      .execute();
+    expect(events).toHaveLength(1);
+    expect(events[0].from_status).toEqual('processing');
+    expect(events[0].to_status).toEqual('cancelled');
+    expect(events[0].message).toEqual('Cancelled by user');
+  });
+
+  it('should clear the scheduled attempt of a retrying job', async () => {
+    const job = await createTestJob('retrying', { next_attempt_at: new Date(Date.now() + 60000) });
+
+    const result = await cancelTranslationJob({ id: job.id });
+
+    expect(result.status).toEqual('cancelled');
+    expect(result.next_attempt_at).toBeNull();
+  });
+
+  it('should reject cancelling a completed job', async () => {
+    const job = await createTestJob('completed', { translated_file_path: '/outputs/videos/done.mp4' });
+
+    await expect(cancelTranslationJob({ id: job.id })).rejects.toMatchObject({ code: 'CONFLICT' });
+
+    const saved = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    expect(saved[0].status).toEqual('completed');
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(cancelTranslationJob({ id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
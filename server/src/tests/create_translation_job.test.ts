@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
+import { transcriptSegmentsTable, translationJobsTable } from '../db/schema';
 import { type CreateTranslationJobInput } from '../schema';
 import { createTranslationJob } from '../handlers/create_translation_job';
+import { createGlossary } from '../handlers/create_glossary';
 import { eq } from 'drizzle-orm';
 
 // Test input with all required fields
@@ -40,6 +41,32 @@ describe('createTranslationJob', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
   });
 
+  it('should flag jobs that need a reviewer', async () => {
+    const result = await createTranslationJob({ ...testInput, requires_review: true });
+
+    expect(result.requires_review).toBe(true);
+    expect(result.approved_at).toBeNull();
+  });
+
+  it('should reference a glossary for the target language', async () => {
+    const glossary = await createGlossary({ name: 'Brands', source_language: 'en', target_language: 'es' });
+    const other = await createGlossary({ name: 'Marken', source_language: 'en', target_language: 'de' });
+
+    const result = await createTranslationJob({ ...testInput, glossary_id: glossary.id });
+
+    expect(result.glossary_id).toEqual(glossary.id);
+    await expect(createTranslationJob({ ...testInput, glossary_id: other.id })).rejects.toThrow(/Glossary \d+ is for de, but the job translates to es/);
+    await expect(createTranslationJob({ ...testInput, glossary_id: 999 })).rejects.toThrow(/Glossary 999 not found/);
+  });
+
+  it('should take a voice offered for the target language', async () => {
+    const result = await createTranslationJob({ ...testInput, voice: 'es-aurora' });
+
+    expect(result.voice).toEqual('es-aurora');
+    expect((await createTranslationJob(testInput)).voice).toBeNull();
+    await expect(createTranslationJob({ ...testInput, voice: 'de-aurora' })).rejects.toThrow(/Voice "de-aurora" is not available for es/);
+  });
+
   it('should save translation job to database', async () => {
     const result = await createTranslationJob(testInput);
 
@@ -139,4 +166,29 @@ describe('createTranslationJob', () => {
     expect(firstJob.created_at.getTime()).toEqual(firstJob.updated_at.getTime());
     expect(secondJob.created_at.getTime()).toEqual(secondJob.updated_at.getTime());
   });
-});
\ No newline at end of file
+
+  it('should use attached subtitles as the transcript', async () => {
+    const content = 'WEBVTT\nLanguage: fr\n\n00:00:00.000 --> 00:00:02.000\nBonjour à\ntous.\n\n00:00:02.500 --> 00:00:04.000\nOn commence.\n';
+
+    const result = await createTranslationJob({ ...testInput, subtitles: { content } });
+
+    expect(result.detected_language).toEqual('fr');
+    expect(result.transcript_source).toEqual('subtitles');
+    expect(result.transcript).toEqual('Bonjour à tous. On commence.');
+    expect(result.translated_transcript).toBeNull();
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, result.id))
+      .execute();
+    expect(segments.map(segment => [segment.index, segment.start_ms, segment.end_ms])).toEqual([[0, 0, 2000], [1, 2500, 4000]]);
+  });
+
+  it('should not create a job when the subtitles cannot be used', async () => {
+    await expect(createTranslationJob({ ...testInput, subtitles: { content: 'no cues here' } }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+  });
+});
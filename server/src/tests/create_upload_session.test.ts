@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { DEFAULT_CHUNK_SIZE, MIN_CHUNK_SIZE, createUploadSessionInputSchema } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { getUploadSession } from '../handlers/get_upload_session';
+import { DEFAULT_MAX_UPLOAD_BYTES } from '../media/upload_policy';
+
+describe('createUploadSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an open session with the chunk count', async () => {
+    const result = await createUploadSession({
+      filename: 'lecture.mp4',
+      size: MIN_CHUNK_SIZE * 2 + 10,
+      target_language: 'de',
+      chunk_size: MIN_CHUNK_SIZE
+    });
+
+    expect(result.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(result.filename).toEqual('lecture.mp4');
+    expect(result.total_size).toEqual(MIN_CHUNK_SIZE * 2 + 10);
+    expect(result.total_chunks).toEqual(3);
+    expect(result.received_chunks).toEqual([]);
+    expect(result.status).toEqual('open');
+    expect(result.job_id).toBeNull();
+    expect(result.target_languages).toEqual(['de']);
+  });
+
+  it('should keep every target language for the jobs', async () => {
+    const result = await createUploadSession({
+      filename: 'lecture.mp4',
+      size: 1000,
+      target_languages: ['ja', 'ko'],
+      chunk_size: MIN_CHUNK_SIZE
+    });
+
+    expect(result.target_languages).toEqual(['ja', 'ko']);
+  });
+
+  it('should default the chunk size', async () => {
+    const input = createUploadSessionInputSchema.parse({
+      filename: 'small.mp4',
+      size: 1000,
+      target_language: 'es'
+    });
+
+    const result = await createUploadSession(input);
+
+    expect(result.chunk_size).toEqual(DEFAULT_CHUNK_SIZE);
+    expect(result.total_chunks).toEqual(1);
+  });
+
+  it('should sanitize the filename', async () => {
+    const result = await createUploadSession({
+      filename: 'C:\\Users\\me\\My <Holiday>.mp4',
+      size: 1000,
+      target_language: 'es',
+      chunk_size: MIN_CHUNK_SIZE
+    });
+
+    expect(result.filename).toEqual('My _Holiday_.mp4');
+  });
+
+  it('should refuse files over the size limit', async () => {
+    await expect(createUploadSession({
+      filename: 'huge.mp4',
+      size: DEFAULT_MAX_UPLOAD_BYTES + 1,
+      target_language: 'es',
+      chunk_size: DEFAULT_CHUNK_SIZE
+    })).rejects.toMatchObject({
+      code: 'PAYLOAD_TOO_LARGE',
+      rejection: { reason: 'file_too_large', max_size_bytes: DEFAULT_MAX_UPLOAD_BYTES }
+    });
+  });
+
+  it('should reject chunk sizes outside the allowed range', () => {
+    const parsed = createUploadSessionInputSchema.safeParse({
+      filename: 'small.mp4',
+      size: 1000,
+      target_language: 'es',
+      chunk_size: 1024
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+});
+
+describe('getUploadSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a session by id', async () => {
+    const session = await createUploadSession({
+      filename: 'resume.mp4',
+      size: 500,
+      target_language: 'fr',
+      chunk_size: MIN_CHUNK_SIZE
+    });
+
+    const result = await getUploadSession({ id: session.id });
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(session.id);
+    expect(result!.total_chunks).toEqual(1);
+  });
+
+  it('should return null for unknown sessions', async () => {
+    const result = await getUploadSession({ id: 'missing' });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { getDownloadLinks } from '../handlers/get_download_links';
+import { createRouter } from '../http/router';
+import { contentDisposition, downloadFilename, downloadRoutes, parseRange, subtitlePath } from '../http/downloads';
+import { getBlobStore, loadStorageConfig } from '../storage/registry';
+import { signPath } from '../storage/signing';
+import { saveSegments } from '../pipeline/segments';
+import { parseSrt } from '../subtitles/srt';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { existsSync } from 'fs';
+import { rm } from 'fs/promises';
+
+const video = Buffer.from('0123456789'.repeat(10));
+
+let server: Server;
+let baseUrl: string;
+
+// Links are issued with the client's /api prefix, which the proxy strips
+const local = (url: string | null) => `${baseUrl}${url!.replace(/^\/api/, '')}`;
+
+const createCompletedJob = async () => {
+  await getBlobStore().put('/outputs/videos/1_es_Mi charla.mp4', video);
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'Mi charla.mp4',
+      original_file_path: '/uploads/videos/Mi charla.mp4',
+      target_language: 'es',
+      status: 'completed',
+      translated_file_path: '/outputs/videos/1_es_Mi charla.mp4',
+      detected_language: 'en',
+      translated_transcript: 'Hola, ¿qué tal?'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('download routes', () => {
+  beforeEach(async () => {
+    await createDB();
+    const routes = createRouter(downloadRoutes);
+    server = createServer((req, res) => routes(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    }));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should serve the translated video with download headers', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(local(links.video_url));
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('video/mp4');
+    expect(response.headers.get('content-length')).toEqual(String(video.length));
+    expect(response.headers.get('accept-ranges')).toEqual('bytes');
+    expect(response.headers.get('content-disposition'))
+      .toEqual(`attachment; filename="Mi charla_es.mp4"; filename*=UTF-8''Mi%20charla_es.mp4`);
+    expect(Buffer.from(await response.arrayBuffer()).equals(video)).toBe(true);
+  });
+
+  it('should serve the combined file of a project', async () => {
+    await getBlobStore().put('/outputs/projects/1/Mi charla_dubbed.mkv', video, { content_type: 'video/x-matroska' });
+    const [project] = await db.insert(projectsTable)
+      .values({
+        original_filename: 'Mi charla.mp4',
+        original_file_path: '/uploads/videos/Mi charla.mp4',
+        output_mode: 'combined',
+        combined_file_path: '/outputs/projects/1/Mi charla_dubbed.mkv'
+      })
+      .returning()
+      .execute();
+    const job = await createCompletedJob();
+    await db.update(translationJobsTable).set({ project_id: project.id }).execute();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(local(links.combined_url));
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('video/x-matroska');
+    expect(response.headers.get('content-disposition')).toContain(`filename*=UTF-8''Mi%20charla_dubbed.mkv`);
+    expect(Buffer.from(await response.arrayBuffer()).equals(video)).toBe(true);
+
+    // Back to separate files: the link no longer serves it
+    await db.update(projectsTable).set({ output_mode: 'separate' }).execute();
+    expect((await fetch(local(links.combined_url))).status).toEqual(404);
+  });
+
+  it('should serve HLS playlists with every link in them signed', async () => {
+    const store = getBlobStore();
+    await store.put('/outputs/hls/1/master.m3u8', Buffer.from(
+      '#EXTM3U\n#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Spanish (dubbed)",URI="audio/es.m3u8"\n#EXT-X-STREAM-INF:BANDWIDTH=1000\nvideo.m3u8\n'
+    ));
+    await store.put('/outputs/hls/1/audio/es.m3u8', Buffer.from('#EXTM3U\n#EXT-X-MAP:URI="es/init.mp4"\n#EXTINF:6.000,\nes/0.m4s\n#EXT-X-ENDLIST\n'));
+    await store.put('/outputs/hls/1/audio/es/0.m4s', video);
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const master = await fetch(local(links.hls_url));
+
+    expect(master.status).toEqual(200);
+    expect(master.headers.get('content-type')).toEqual('application/vnd.apple.mpegurl');
+    const lines = (await master.text()).split('\n');
+    const expires = new URL(links.hls_url!, 'http://localhost').searchParams.get('expires');
+    expect(lines[1]).toMatch(new RegExp(`URI="/api/downloads/jobs/${job.id}/hls/audio/es\\.m3u8\\?expires=${expires}&signature=[0-9a-f]+"$`));
+    expect(lines[3]).toMatch(new RegExp(`^/api/downloads/jobs/${job.id}/hls/video\\.m3u8\\?expires=${expires}&`));
+
+    // Segments come straight from the blob store
+    const audio = await (await fetch(local(/URI="([^"]+)"/.exec(lines[1])![1]))).text();
+    const segment = audio.split('\n')[3];
+    expect(segment).toMatch(new RegExp(`^/api/files/outputs/hls/1/audio/es/0\\.m4s\\?expires=${expires}&`));
+    const response = await fetch(local(segment));
+    expect(response.headers.get('content-type')).toEqual('video/iso.segment');
+    expect(Buffer.from(await response.arrayBuffer()).equals(video)).toBe(true);
+
+    // The signature covers the playlist
+    expect((await fetch(local(links.hls_url!.replace('master.m3u8', 'video.m3u8')))).status).toEqual(403);
+  });
+
+  it('should serve byte ranges for streaming playback', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(local(links.video_url), { headers: { Range: 'bytes=10-19' } });
+
+    expect(response.status).toEqual(206);
+    expect(response.headers.get('content-range')).toEqual(`bytes 10-19/${video.length}`);
+    expect(await response.text()).toEqual('0123456789');
+  });
+
+  it('should reject ranges past the end', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(local(links.video_url), { headers: { Range: 'bytes=500-' } });
+
+    expect(response.status).toEqual(416);
+    expect(response.headers.get('content-range')).toEqual(`bytes */${video.length}`);
+  });
+
+  it('should answer conditional requests with 304', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const first = await fetch(local(links.video_url));
+    await first.arrayBuffer();
+    const etag = first.headers.get('etag')!;
+    const second = await fetch(local(links.video_url), { headers: { 'If-None-Match': etag } });
+
+    expect(etag).toMatch(/^".+"$/);
+    expect(second.status).toEqual(304);
+  });
+
+  it('should serve the translated transcript as text', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(local(links.transcript_url));
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('text/plain; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toContain(`filename*=UTF-8''Mi%20charla_es.txt`);
+    expect(await response.text()).toEqual('Hola, ¿qué tal?');
+  });
+
+  it('should serve subtitles rendered from the segments', async () => {
+    const job = await createCompletedJob();
+    await saveSegments(job.id, [
+      { start_ms: 0, end_ms: 2000, speaker: null, source_text: 'Hi, how are you?', translated_text: 'Hola, ¿qué tal?', confidence: null },
+      { start_ms: 2500, end_ms: 4000, speaker: null, source_text: 'Fine.', translated_text: 'Bien.', confidence: null }
+    ]);
+    const links = await getDownloadLinks({ id: job.id });
+    const srt = links.subtitles.find(link => link.track === 'target' && link.format === 'srt')!;
+    const vtt = links.subtitles.find(link => link.track === 'source' && link.format === 'vtt')!;
+
+    const response = await fetch(local(srt.url));
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('application/x-subrip; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toContain(`filename*=UTF-8''Mi%20charla_es.srt`);
+    expect(parseSrt(await response.text())).toEqual([
+      { start_ms: 0, end_ms: 2000, text: 'Hola, ¿qué tal?' },
+      { start_ms: 2500, end_ms: 4000, text: 'Bien.' }
+    ]);
+
+    const source = await fetch(local(vtt.url));
+    expect(source.headers.get('content-disposition')).toContain(`filename*=UTF-8''Mi%20charla_en.vtt`);
+    expect(await source.text()).toStartWith('WEBVTT');
+  });
+
+  it('should not serve subtitles for an incomplete track', async () => {
+    const job = await createCompletedJob();
+    await saveSegments(job.id, [
+      { start_ms: 0, end_ms: 2000, speaker: null, source_text: 'Hi.', translated_text: null, confidence: null }
+    ]);
+    const url = signPath(subtitlePath(job.id, 'target', 'srt'), 60, loadStorageConfig().signing_secret);
+
+    const response = await fetch(`${baseUrl}${url}`);
+
+    expect(response.status).toEqual(404);
+    expect((await getDownloadLinks({ id: job.id })).subtitles.every(link => link.track === 'source')).toBe(true);
+  });
+
+  it('should serve inline when asked', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+
+    const response = await fetch(`${local(links.video_url)}&disposition=inline`, { method: 'HEAD' });
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-disposition')).toStartWith('inline;');
+  });
+
+  it('should refuse unsigned, tampered and expired links', async () => {
+    const job = await createCompletedJob();
+    const links = await getDownloadLinks({ id: job.id });
+    const signed = new URL(local(links.video_url));
+
+    const unsigned = await fetch(`${baseUrl}/downloads/jobs/${job.id}/video`);
+    const otherJob = await fetch(`${baseUrl}/downloads/jobs/${job.id + 1}/video${signed.search}`);
+    signed.searchParams.set('expires', String(Math.floor(Date.now() / 1000) - 10));
+    const expired = await fetch(signed);
+
+    expect(unsigned.status).toEqual(403);
+    expect(otherJob.status).toEqual(403);
+    expect(expired.status).toEqual(403);
+  });
+
+  it('should serve blobs behind local signed URLs', async () => {
+    const store = getBlobStore();
+    await store.put('/outputs/audio/7_es.wav', video);
+
+    const response = await fetch(local(await store.signedUrl('/outputs/audio/7_es.wav', 60)));
+
+    expect(response.status).toEqual(200);
+    expect(response.headers.get('content-type')).toEqual('audio/wav');
+    expect(Buffer.from(await response.arrayBuffer()).equals(video)).toBe(true);
+  });
+});
+
+describe('download helpers', () => {
+  it('should parse range headers', () => {
+    expect(parseRange(undefined, 100)).toBeNull();
+    expect(parseRange('bytes=0-9', 100)).toEqual({ start: 0, end: 9 });
+    expect(parseRange('bytes=90-', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRange('bytes=-20', 100)).toEqual({ start: 80, end: 99 });
+    expect(parseRange('bytes=50-500', 100)).toEqual({ start: 50, end: 99 });
+    expect(parseRange('bytes=100-', 100)).toEqual('unsatisfiable');
+    expect(parseRange('bytes=0-1,5-6', 100)).toBeNull();
+  });
+
+  it('should name downloads after the original file and target language', () => {
+    expect(downloadFilename({ original_filename: 'talk.final.mov', target_language: 'ja' })).toEqual('talk.final_ja.mov');
+    expect(downloadFilename({ original_filename: 'talk.mp4', target_language: 'de' }, 'txt')).toEqual('talk_de.txt');
+    expect(downloadFilename({ original_filename: 'README', target_language: 'fr' })).toEqual('README_fr');
+  });
+
+  it('should keep non-ASCII filenames intact for modern clients', () => {
+    expect(contentDisposition('attachment', 'résumé "final".mp4'))
+      .toEqual(`attachment; filename="r_sum_ _final_.mp4"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22final%22.mp4`);
+  });
+});
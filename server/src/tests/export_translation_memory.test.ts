@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { rememberTranslations } from '../memory/store';
+import { parseTmx } from '../memory/tmx';
+import { exportTranslationMemory } from '../handlers/export_translation_memory';
+import { getTranslationMemoryStats } from '../handlers/get_translation_memory_stats';
+
+const seedMemory = () => rememberTranslations([
+  { source_language: 'en', target_language: 'es', source_text: 'Good morning', target_text: 'Buenos días' },
+  { source_language: 'en', target_language: 'es', source_text: 'Good night', target_text: 'Buenas noches' },
+  { source_language: 'en', target_language: 'fr', source_text: 'Good morning', target_text: 'Bonjour' }
+]);
+
+describe('exportTranslationMemory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should export every remembered translation as TMX', async () => {
+    await seedMemory();
+
+    const result = await exportTranslationMemory({});
+
+    expect(result.filename).toEqual('translation-memory_all-all.tmx');
+    expect(result.entries).toBe(3);
+    expect(parseTmx(result.content).units).toEqual([
+      { source_language: 'en', target_language: 'es', source_text: 'Good morning', target_text: 'Buenos días' },
+      { source_language: 'en', target_language: 'es', source_text: 'Good night', target_text: 'Buenas noches' },
+      { source_language: 'en', target_language: 'fr', source_text: 'Good morning', target_text: 'Bonjour' }
+    ]);
+  });
+
+  it('should export one language pair', async () => {
+    await seedMemory();
+
+    const result = await exportTranslationMemory({ source_language: 'en', target_language: 'fr' });
+
+    expect(result.filename).toEqual('translation-memory_en-fr.tmx');
+    expect(result.entries).toBe(1);
+    expect(result.content).toContain('<seg>Bonjour</seg>');
+    expect(result.content).not.toContain('Buenos días');
+  });
+
+  it('should export an empty memory as a valid document', async () => {
+    const result = await exportTranslationMemory({});
+
+    expect(result.entries).toBe(0);
+    expect(parseTmx(result.content)).toEqual({ units: [], skipped: 0 });
+  });
+});
+
+describe('getTranslationMemoryStats', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should count entries per language pair', async () => {
+    await seedMemory();
+
+    expect(await getTranslationMemoryStats()).toEqual([
+      { source_language: 'en', target_language: 'es', entries: 2 },
+      { source_language: 'en', target_language: 'fr', entries: 1 }
+    ]);
+  });
+});
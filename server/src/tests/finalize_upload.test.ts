@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { transcriptSegmentsTable, translationJobsTable, uploadSessionsTable } from '../db/schema';
+import { MIN_CHUNK_SIZE } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { uploadChunk } from '../handlers/upload_chunk';
+import { createGlossary } from '../handlers/create_glossary';
+import { finalizeUpload } from '../handlers/finalize_upload';
+import { expireUploadSessions, reopenAbandonedUploads } from '../storage/upload_expiry';
+import { eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readFile, rm } from 'fs/promises';
+import { buildMp4, type TestMediaOptions } from '../helpers/media';
+
+// A video just over two chunks long, with its moov box in the last chunk
+const splitIntoChunks = (file: Buffer) => {
+  const parts: Buffer[] = [];
+  for (let start = 0; start < file.length; start += MIN_CHUNK_SIZE) {
+    parts.push(file.subarray(start, start + MIN_CHUNK_SIZE));
+  }
+  return parts;
+};
+
+const videoChunks = (options: TestMediaOptions = {}) => {
+  const file = buildMp4({ ...options, moov_at_end: true });
+  return splitIntoChunks(buildMp4({ ...options, moov_at_end: true, media_bytes: 2 * MIN_CHUNK_SIZE - file.length + 100 }));
+};
+
+const chunks = videoChunks();
+
+// Same scheme the client uses: SHA-256 over the chunk digests
+const uploadChecksum = (parts: Buffer[]) => {
+  const digests = parts.map(part => createHash('sha256').update(part).digest());
+  return createHash('sha256').update(Buffer.concat(digests)).digest('hex');
+};
+
+// Open a session for every chunk and upload the first `count` of them
+const uploadChunks = async (count = chunks.length, parts = chunks) => {
+  const session = await createUploadSession({
+    filename: 'assembled.mp4',
+    size: parts.reduce((sum, part) => sum + part.length, 0),
+    target_language: 'it',
+    chunk_size: MIN_CHUNK_SIZE
+  });
+  for (const [index, data] of parts.slice(0, count).entries()) {
+    await uploadChunk({ session_id: session.id, index, data });
+  }
+  return session;
+};
+
+describe('finalizeUpload', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should assemble the chunks and create a pending job', async () => {
+    const session = await uploadChunks();
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    expect(job.original_filename).toEqual('assembled.mp4');
+    expect(job.target_language).toEqual('it');
+    expect(job.status).toEqual('pending');
+    expect(job.requires_review).toBe(false);
+    expect(job.original_file_path).toMatch(/^\/uploads\/videos\/\d+_[a-z0-9]+_assembled\.mp4$/);
+
+    const saved = await readFile(`./storage${job.original_file_path}`);
+    expect(saved.equals(Buffer.concat(chunks))).toBe(true);
+  });
+
+  it('should pass the review requirement, glossary and voice on to the job', async () => {
+    const glossary = await createGlossary({ name: 'Marchi', source_language: 'en', target_language: 'it' });
+    const session = await createUploadSession({
+      filename: 'reviewed.mp4',
+      size: chunks.reduce((sum, part) => sum + part.length, 0),
+      target_language: 'it',
+      chunk_size: MIN_CHUNK_SIZE,
+      requires_review: true,
+      glossary_id: glossary.id,
+      voice: 'it-cedar'
+    });
+    for (const [index, data] of chunks.entries()) {
+      await uploadChunk({ session_id: session.id, index, data });
+    }
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    expect(job.requires_review).toBe(true);
+    expect(job.glossary_id).toEqual(glossary.id);
+    expect(job.voice).toEqual('it-cedar');
+  });
+
+  it('should create a job for every target language of the session', async () => {
+    const session = await createUploadSession({
+      filename: 'multilingual.mp4',
+      size: chunks.reduce((sum, part) => sum + part.length, 0),
+      target_languages: ['fr', 'de'],
+      chunk_size: MIN_CHUNK_SIZE
+    });
+    for (const [index, data] of chunks.entries()) {
+      await uploadChunk({ session_id: session.id, index, data });
+    }
+
+    const result = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    expect(result.jobs.map(job => job.target_language)).toEqual(['fr', 'de']);
+    expect(result.jobs[0].project_id).not.toBeNull();
+    expect(result.jobs[1].project_id).toEqual(result.jobs[0].project_id);
+    expect(result.jobs[1].original_file_path).toEqual(result.original_file_path);
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+    expect(sessions[0].job_id).toEqual(result.jobs[0].id);
+  });
+
+  it('should complete the session and remove its chunks', async () => {
+    const session = await uploadChunks();
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    const sessions = await db.select()
+      .from(uploadSessionsTable)
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+    expect(sessions[0].status).toEqual('completed');
+    expect(sessions[0].job_id).toEqual(job.id);
+    expect(existsSync(`./storage/uploads/sessions/${session.id}`)).toBe(false);
+  });
+
+  it('should import attached captions as the transcript of every job', async () => {
+    const session = await uploadChunks();
+    const srt = '1\n00:00:01,000 --> 00:00:02,500\nHello there.\n\n2\n00:00:03,000 --> 00:00:04,000\nGoodbye.\n';
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks), subtitles: { content: srt, language: 'en' } });
+
+    expect(job.transcript_source).toEqual('subtitles');
+    expect(job.detected_language).toEqual('en');
+    const segments = await db.select().from(transcriptSegmentsTable).where(eq(transcriptSegmentsTable.job_id, job.id)).execute();
+    expect(segments.map(segment => [segment.start_ms, segment.end_ms, segment.source_text])).toEqual([
+      [1000, 2500, 'Hello there.'],
+      [3000, 4000, 'Goodbye.']
+    ]);
+  });
+
+  it('should reject unreadable captions and keep the session open', async () => {
+    const session = await uploadChunks();
+
+    await expect(finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks), subtitles: { content: 'not captions', format: 'srt' } }))
+      .rejects.toThrow(/no cues found/);
+
+    const [saved] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(saved.status).toEqual('open');
+  });
+
+  it('should refuse to finalize an incomplete upload', async () => {
+    const session = await uploadChunks(2);
+
+    await expect(finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) }))
+      .rejects.toThrow(/received 2 of 3 chunks/);
+  });
+
+  it('should reject a checksum mismatch and keep the chunks for a retry', async () => {
+    const session = await uploadChunks();
+
+    await expect(finalizeUpload({ id: session.id, checksum: '0'.repeat(64) }))
+      .rejects.toThrow(/checksum mismatch/i);
+
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+    expect(existsSync(`./storage/uploads/sessions/${session.id}/0.part`)).toBe(true);
+
+    const [reopened] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(reopened.status).toEqual('open');
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+    expect(job.status).toEqual('pending');
+  });
+
+  it('should probe the assembled file', async () => {
+    const session = await uploadChunks();
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    expect(job.media_info?.container).toEqual('mp4');
+    expect(job.media_info?.duration_ms).toEqual(12_500);
+    expect(job.media_info?.audio_tracks).toHaveLength(1);
+  });
+
+  it('should reject an assembled video without audio', async () => {
+    const silent = videoChunks({ audio: [] });
+    const session = await uploadChunks(silent.length, silent);
+
+    await expect(finalizeUpload({ id: session.id, checksum: uploadChecksum(silent) })).rejects.toMatchObject({
+      rejection: { reason: 'no_audio' }
+    });
+
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+    expect(existsSync('./storage/uploads/videos')).toBe(false);
+  });
+
+  it('should not finalize the same session twice', async () => {
+    const session = await uploadChunks();
+    await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    await expect(finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) }))
+      .rejects.toThrow(/already finalized/);
+  });
+
+  it('should turn away a second finalize while the first assembles the file', async () => {
+    const session = await uploadChunks();
+
+    const results = await Promise.allSettled([
+      finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) }),
+      finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected');
+    expect(String(rejected?.reason)).toMatch(/being finalized|already finalized/);
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(1);
+  });
+
+  it('should take over a finalize abandoned past the timeout', async () => {
+    const session = await uploadChunks();
+    await db.update(uploadSessionsTable)
+      .set({ status: 'finalizing', finalizing_at: new Date(Date.now() - 60 * 60_000) })
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    const job = await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+
+    expect(job.status).toEqual('pending');
+    const [saved] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(saved.status).toEqual('completed');
+    expect(saved.finalizing_at).toBeNull();
+  });
+
+  it('should refuse chunks for a session being finalized', async () => {
+    const session = await uploadChunks(2);
+    await db.update(uploadSessionsTable).set({ status: 'finalizing', finalizing_at: new Date() }).where(eq(uploadSessionsTable.id, session.id)).execute();
+
+    await expect(uploadChunk({ session_id: session.id, index: 2, data: chunks[2] }))
+      .rejects.toThrow(/being finalized/);
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(finalizeUpload({ id: 'missing', checksum: '0'.repeat(64) }))
+      .rejects.toThrow(/not found/);
+  });
+});
+
+describe('expireUploadSessions', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should delete unfinished sessions idle past the TTL with their chunks', async () => {
+    const stale = await uploadChunks(2);
+    const finalizing = await uploadChunks(1);
+    const fresh = await uploadChunks(1);
+    const idle = new Date(Date.now() - 2 * 60 * 60_000);
+    await db.update(uploadSessionsTable).set({ updated_at: idle }).where(eq(uploadSessionsTable.id, stale.id)).execute();
+    await db.update(uploadSessionsTable).set({ status: 'finalizing', updated_at: idle }).where(eq(uploadSessionsTable.id, finalizing.id)).execute();
+
+    const expired = await expireUploadSessions(60 * 60_000);
+
+    expect(expired.sort()).toEqual([stale.id, finalizing.id].sort());
+    const remaining = await db.select().from(uploadSessionsTable).execute();
+    expect(remaining.map(session => session.id)).toEqual([fresh.id]);
+    expect(existsSync(`./storage/uploads/sessions/${stale.id}`)).toBe(false);
+    expect(existsSync(`./storage/uploads/sessions/${fresh.id}/0.part`)).toBe(true);
+  });
+
+  it('should reopen sessions whose finalize was abandoned', async () => {
+    const abandoned = await uploadChunks(2);
+    const finalizing = await uploadChunks(2);
+    await db.update(uploadSessionsTable)
+      .set({ status: 'finalizing', finalizing_at: new Date(Date.now() - 30 * 60_000) })
+      .where(eq(uploadSessionsTable.id, abandoned.id))
+      .execute();
+    await db.update(uploadSessionsTable)
+      .set({ status: 'finalizing', finalizing_at: new Date() })
+      .where(eq(uploadSessionsTable.id, finalizing.id))
+      .execute();
+
+    expect(await reopenAbandonedUploads(15 * 60_000)).toEqual([abandoned.id]);
+
+    const [reopened] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, abandoned.id)).execute();
+    expect(reopened.status).toEqual('open');
+    expect(reopened.finalizing_at).toBeNull();
+    await uploadChunk({ session_id: abandoned.id, index: 2, data: chunks[2] });
+    const job = await finalizeUpload({ id: abandoned.id, checksum: uploadChecksum(chunks) });
+    expect(job.status).toEqual('pending');
+    const [still] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, finalizing.id)).execute();
+    expect(still.status).toEqual('finalizing');
+  });
+
+  it('should keep completed sessions', async () => {
+    const session = await uploadChunks();
+    await finalizeUpload({ id: session.id, checksum: uploadChecksum(chunks) });
+    await db.update(uploadSessionsTable).set({ updated_at: new Date(0) }).execute();
+
+    expect(await expireUploadSessions(60 * 60_000)).toEqual([]);
+  });
+});
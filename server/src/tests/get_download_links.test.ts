@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { getDownloadLinks } from '../handlers/get_download_links';
+import { saveSegments } from '../pipeline/segments';
+import { getBlobStore } from '../storage/registry';
+import { existsSync } from 'fs';
+import { rm } from 'fs/promises';
+
+const createTestJob = async (values: Partial<typeof translationJobsTable.$inferInsert> = {}) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'talk.mp4',
+      original_file_path: '/uploads/videos/talk.mp4',
+      target_language: 'es',
+      status: 'pending',
+      ...values
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getDownloadLinks', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should sign links for a completed job', async () => {
+    const job = await createTestJob({
+      status: 'completed',
+      translated_file_path: '/outputs/videos/1_es_talk.mp4',
+      translated_transcript: 'Hola'
+    });
+
+    const result = await getDownloadLinks({ id: job.id });
+
+    expect(result.video_url).toMatch(new RegExp(`^/api/downloads/jobs/${job.id}/video\\?expires=\\d+&signature=[0-9a-f]{64}$`));
+    expect(result.transcript_url).toMatch(new RegExp(`^/api/downloads/jobs/${job.id}/transcript\\?`));
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should omit files that do not exist yet', async () => {
+    const job = await createTestJob({ status: 'processing', translated_transcript: 'Hola' });
+
+    const result = await getDownloadLinks({ id: job.id });
+
+    expect(result.video_url).toBeNull();
+    expect(result.transcript_url).not.toBeNull();
+  });
+
+  it('should link subtitles for each complete track', async () => {
+    const job = await createTestJob({ status: 'processing', detected_language: 'en' });
+    await saveSegments(job.id, [
+      { start_ms: 0, end_ms: 1500, speaker: null, source_text: 'Hello', translated_text: null, confidence: null }
+    ]);
+
+    const result = await getDownloadLinks({ id: job.id });
+
+    expect(result.subtitles.map(link => [link.track, link.language, link.format])).toEqual([
+      ['source', 'en', 'srt'],
+      ['source', 'en', 'vtt'],
+      ['source', 'en', 'ass']
+    ]);
+    expect(result.subtitles[0].url).toMatch(new RegExp(`^/api/downloads/jobs/${job.id}/subtitles/source/srt\\?expires=`));
+  });
+
+  it('should link the combined file of the job\'s project', async () => {
+    const [project] = await db.insert(projectsTable)
+      .values({
+        original_filename: 'talk.mp4',
+        original_file_path: '/uploads/videos/talk.mp4',
+        output_mode: 'combined',
+        combined_file_path: '/outputs/projects/1/talk_dubbed.mkv'
+      })
+      .returning()
+      .execute();
+    const job = await createTestJob({ project_id: project.id });
+    const separate = await createTestJob();
+
+    const result = await getDownloadLinks({ id: job.id });
+
+    expect(result.combined_url).toMatch(new RegExp(`^/api/downloads/projects/${project.id}/combined\\?expires=\\d+&signature=`));
+    expect((await getDownloadLinks({ id: separate.id })).combined_url).toBeNull();
+  });
+
+  it('should link the HLS package once it is written', async () => {
+    const job = await createTestJob({ status: 'completed' });
+    expect((await getDownloadLinks({ id: job.id })).hls_url).toBeNull();
+
+    await getBlobStore().put(`/outputs/hls/${job.id}/master.m3u8`, Buffer.from('#EXTM3U\n'));
+
+    const result = await getDownloadLinks({ id: job.id });
+    expect(result.hls_url).toMatch(new RegExp(`^/api/downloads/jobs/${job.id}/hls/master\\.m3u8\\?expires=\\d+&signature=`));
+  });
+
+  it('should throw for unknown jobs', async () => {
+    await expect(getDownloadLinks({ id: 999 })).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { createGlossary } from '../handlers/create_glossary';
+import { getGlossaryViolations } from '../handlers/get_glossary_violations';
+import { getSegments, saveSegments } from '../pipeline/segments';
+import { updateSegment } from '../handlers/update_segment';
+
+const createTestJob = async (glossaryId: number | null, detectedLanguage: 'en' | 'fr' = 'en') => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'glossary.mp4',
+      original_file_path: '/uploads/glossary.mp4',
+      target_language: 'es',
+      detected_language: detectedLanguage,
+      status: 'completed',
+      glossary_id: glossaryId
+    })
+    .returning()
+    .execute();
+
+  await saveSegments(result[0].id, [
+    ['Open the Acme dashboard.', 'Abre el panel de Acme.'],
+    ['Acme sends an invoice.', 'acme envía una cuenta.'],
+    ['Thanks for watching.', null]
+  ].map(([source_text, translated_text], index) => ({
+    start_ms: index * 1000,
+    end_ms: (index + 1) * 1000,
+    speaker: null,
+    source_text: source_text!,
+    translated_text,
+    confidence: null
+  })));
+  return result[0];
+};
+
+const createTestGlossary = () => createGlossary({
+  name: 'Acme',
+  source_language: 'en',
+  target_language: 'es',
+  entries: [
+    { source_term: 'Acme', do_not_translate: true, case_sensitive: true },
+    { source_term: 'dashboard', target_term: 'panel' },
+    { source_term: 'invoice', target_term: 'factura' }
+  ]
+});
+
+describe('getGlossaryViolations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report the glossary terms missing from each translation', async () => {
+    const glossary = await createTestGlossary();
+    const job = await createTestJob(glossary.id);
+    const segments = await getSegments(job.id);
+
+    const result = await getGlossaryViolations({ job_id: job.id });
+
+    expect(result).toEqual([{
+      segment_id: segments[1].id,
+      index: 1,
+      violations: [
+        { entry_id: glossary.entries[0].id, source_term: 'Acme', expected_term: 'Acme' },
+        { entry_id: glossary.entries[2].id, source_term: 'invoice', expected_term: 'factura' }
+      ]
+    }]);
+  });
+
+  it('should reflect corrected translations', async () => {
+    const glossary = await createTestGlossary();
+    const job = await createTestJob(glossary.id);
+    const segments = await getSegments(job.id);
+
+    await updateSegment({ id: segments[1].id, version: segments[1].version, translated_text: 'Acme envía una factura.' });
+
+    expect(await getGlossaryViolations({ job_id: job.id })).toEqual([]);
+  });
+
+  it('should report nothing without a glossary for the job\'s language pair', async () => {
+    const glossary = await createTestGlossary();
+    const withoutGlossary = await createTestJob(null);
+    const otherSource = await createTestJob(glossary.id, 'fr');
+
+    expect(await getGlossaryViolations({ job_id: withoutGlossary.id })).toEqual([]);
+    expect(await getGlossaryViolations({ job_id: otherSource.id })).toEqual([]);
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(getGlossaryViolations({ job_id: 999 })).rejects.toThrow(/Translation job 999 not found/);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable, jobEventsTable } from '../db/schema';
+import { getJobEvents } from '../handlers/get_job_events';
+
+const createTestJob = async () => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'events.mp4',
+      original_file_path: '/uploads/events.mp4',
+      target_language: 'de',
+      status: 'failed',
+      error_message: 'Synthesis failed'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getJobEvents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty history for a job without transitions', async () => {
+    const job = await createTestJob();
+
+    const result = await getJobEvents({ job_id: job.id });
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return the transitions of a job in order', async () => {
+    const job = await createTestJob();
+    const other = await createTestJob();
+
+    await db.insert(jobEventsTable)
+      .values([
+        { job_id: job.id, from_status: 'pending', to_status: 'processing' },
+        { job_id: job.id, from_status: 'processing', to_status: 'failed', message: 'Synthesis failed' },
+        { job_id: other.id, from_status: 'pending', to_status: 'cancelled' }
+      ])
+      .execute();
+
+    const result = await getJobEvents({ job_id: job.id });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].to_status).toEqual('processing');
+    expect(result[1].from_status).toEqual('processing');
+    expect(result[1].to_status).toEqual('failed');
+    expect(result[1].message).toEqual('Synthesis failed');
+    expect(result[1].created_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { uploadVideo } from '../handlers/upload_video';
+import { getProject } from '../handlers/get_project';
+import { rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { buildMp4 } from '../helpers/media';
+
+describe('getProject', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should return the project with a job per target language', async () => {
+    const upload = await uploadVideo({
+      filename: 'lecture.mp4',
+      file_data: buildMp4({ media_bytes: 32 }).toString('base64'),
+      target_languages: ['de', 'es']
+    });
+
+    const project = await getProject({ id: upload.project_id! });
+
+    expect(project!.original_filename).toEqual('lecture.mp4');
+    expect(project!.original_file_path).toEqual(upload.original_file_path);
+    expect(project!.media_info?.container).toEqual('mp4');
+    expect(project!.jobs.map(job => [job.id, job.target_language])).toEqual(upload.jobs.map(job => [job.id, job.target_language]));
+    expect(project!.jobs[0].stages).toEqual([]);
+  });
+
+  it('should return null for unknown projects', async () => {
+    expect(await getProject({ id: 999 })).toBeNull();
+  });
+});
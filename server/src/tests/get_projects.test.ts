@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { uploadVideo } from '../handlers/upload_video';
+import { getProjects } from '../handlers/get_projects';
+import { rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { buildMp4 } from '../helpers/media';
+
+describe('getProjects', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should return every requested project and skip unknown ids', async () => {
+    const uploads = [];
+    for (const filename of ['lecture.mp4', 'interview.mp4']) {
+      uploads.push(await uploadVideo({
+        filename,
+        file_data: buildMp4({ media_bytes: 32 }).toString('base64'),
+        target_languages: ['de', 'es']
+      }));
+    }
+
+    const projects = await getProjects({ ids: [uploads[1].project_id!, 999, uploads[0].project_id!] });
+
+    expect(projects.map(project => [project.id, project.original_filename])).toEqual([
+      [uploads[0].project_id!, 'lecture.mp4'],
+      [uploads[1].project_id!, 'interview.mp4']
+    ]);
+    expect(projects[0].output_mode).toEqual('separate');
+  });
+
+  it('should return nothing for no ids', async () => {
+    expect(await getProjects({ ids: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { getReviewQueue } from '../handlers/get_review_queue';
+
+const createTestJob = async (filename: string, status: TranslationStatus, updatedAt: Date) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: filename,
+      original_file_path: `/uploads/${filename}`,
+      target_language: 'ja',
+      status,
+      requires_review: true,
+      updated_at: updatedAt
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getReviewQueue', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list jobs awaiting review, longest-waiting first', async () => {
+    await createTestJob('recent.mp4', 'awaiting_review', new Date('2026-03-02T10:00:00Z'));
+    await createTestJob('processing.mp4', 'processing', new Date('2026-03-01T10:00:00Z'));
+    await createTestJob('oldest.mp4', 'awaiting_review', new Date('2026-03-01T09:00:00Z'));
+
+    const result = await getReviewQueue();
+
+    expect(result.map(job => job.original_filename)).toEqual(['oldest.mp4', 'recent.mp4']);
+    expect(result[0].stages).toEqual([]);
+    expect(result[0].estimated_remaining_ms).toBeNull();
+  });
+
+  it('should return an empty list when nothing awaits review', async () => {
+    expect(await getReviewQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { getTranscriptSegmentPage } from '../handlers/get_transcript_segment_page';
+import { saveSegments } from '../pipeline/segments';
+
+const createJobWithSegments = async (count: number) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'paged.mp4',
+      original_file_path: '/uploads/paged.mp4',
+      target_language: 'ja'
+    })
+    .returning()
+    .execute();
+
+  await saveSegments(result[0].id, Array.from({ length: count }, (_, index) => ({
+    start_ms: index * 1000,
+    end_ms: (index + 1) * 1000,
+    speaker: null,
+    source_text: `Line ${index}`,
+    translated_text: null,
+    confidence: null
+  })));
+
+  return result[0];
+};
+
+describe('getTranscriptSegmentPage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the first page with a cursor to the next', async () => {
+    const job = await createJobWithSegments(5);
+
+    const page = await getTranscriptSegmentPage({ job_id: job.id, limit: 2 });
+
+    expect(page.segments.map(segment => segment.source_text)).toEqual(['Line 0', 'Line 1']);
+    expect(page.next_cursor).toEqual(1);
+    expect(page.total).toEqual(5);
+  });
+
+  it('should continue after the cursor', async () => {
+    const job = await createJobWithSegments(5);
+
+    const page = await getTranscriptSegmentPage({ job_id: job.id, cursor: 1, limit: 2 });
+
+    expect(page.segments.map(segment => segment.index)).toEqual([2, 3]);
+    expect(page.next_cursor).toEqual(3);
+  });
+
+  it('should end on the last page', async () => {
+    const job = await createJobWithSegments(5);
+
+    const page = await getTranscriptSegmentPage({ job_id: job.id, cursor: 3, limit: 2 });
+
+    expect(page.segments.map(segment => segment.index)).toEqual([4]);
+    expect(page.next_cursor).toBeNull();
+  });
+
+  it('should return an empty page for a job without segments', async () => {
+    const job = await createJobWithSegments(0);
+
+    const page = await getTranscriptSegmentPage({ job_id: job.id, limit: 10 });
+
+    expect(page).toEqual({ segments: [], next_cursor: null, total: 0 });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { getTranscriptSegments } from '../handlers/get_transcript_segments';
+import { deriveTranscripts, saveSegments, type SegmentDraft } from '../pipeline/segments';
+import { eq } from 'drizzle-orm';
+
+const createTestJob = async () => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'segments.mp4',
+      original_file_path: '/uploads/segments.mp4',
+      target_language: 'fr'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const draft = (start_ms: number, source_text: string, translated_text: string | null = null): SegmentDraft => ({
+  start_ms,
+  end_ms: start_ms + 1000,
+  speaker: null,
+  source_text,
+  translated_text,
+  confidence: 0.9
+});
+
+describe('getTranscriptSegments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the segments of a job in order', async () => {
+    const job = await createTestJob();
+    const other = await createTestJob();
+    await saveSegments(job.id, [draft(0, 'Hello.'), draft(1000, 'How are you?')]);
+    await saveSegments(other.id, [draft(0, 'Unrelated.')]);
+
+    const result = await getTranscriptSegments({ job_id: job.id });
+
+    expect(result.map(segment => segment.index)).toEqual([0, 1]);
+    expect(result.map(segment => segment.source_text)).toEqual(['Hello.', 'How are you?']);
+    expect(result[0].confidence).toBeCloseTo(0.9);
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should return an empty list for a job without a transcript', async () => {
+    const job = await createTestJob();
+
+    expect(await getTranscriptSegments({ job_id: job.id })).toEqual([]);
+  });
+
+  it('should derive the legacy transcript columns', async () => {
+    const job = await createTestJob();
+
+    await saveSegments(job.id, [draft(0, 'Hello.', 'Bonjour.'), draft(1000, 'Bye.', 'Au revoir.')]);
+
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.transcript).toEqual('Hello. Bye.');
+    expect(saved.translated_transcript).toEqual('Bonjour. Au revoir.');
+  });
+
+  it('should update segments in place and drop the ones no longer present', async () => {
+    const job = await createTestJob();
+    await saveSegments(job.id, [draft(0, 'One.'), draft(1000, 'Two.'), draft(2000, 'Three.')]);
+    const before = await getTranscriptSegments({ job_id: job.id });
+
+    await saveSegments(job.id, [draft(0, 'One.', 'Un.'), draft(1000, 'Two.', 'Deux.')]);
+
+    const after = await getTranscriptSegments({ job_id: job.id });
+    expect(after.map(segment => segment.id)).toEqual(before.slice(0, 2).map(segment => segment.id));
+    expect(after.map(segment => segment.translated_text)).toEqual(['Un.', 'Deux.']);
+    const rows = await db.select().from(transcriptSegmentsTable).execute();
+    expect(rows).toHaveLength(2);
+  });
+
+  it('should delete segments with their job', async () => {
+    const job = await createTestJob();
+    await saveSegments(job.id, [draft(0, 'Hello.')]);
+
+    await db.delete(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+
+    expect(await db.select().from(transcriptSegmentsTable).execute()).toEqual([]);
+  });
+});
+
+describe('deriveTranscripts', () => {
+  it('should leave the translation empty until every segment has one', () => {
+    expect(deriveTranscripts([
+      { source_text: 'Hello.', translated_text: 'Hola.' },
+      { source_text: 'Bye.', translated_text: null }
+    ])).toEqual({ transcript: 'Hello. Bye.', translated_transcript: null });
+  });
+
+  it('should clear both columns without segments', () => {
+    expect(deriveTranscripts([])).toEqual({ transcript: null, translated_transcript: null });
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
+import { translationJobsTable, jobStagesTable } from '../db/schema';
 import { type GetTranslationJobInput } from '../schema';
 import { getTranslationJob } from '../handlers/get_translation_job';
 import { eq } from 'drizzle-orm';
@@ -166,4 +166,48 @@ describe('getTranslationJob', () => {
       expect(result!.original_filename).toEqual(`${status}_video.mp4`);
     }
   });
-});
\ No newline at end of file
+
+  it('should include stage progress and an estimate from stage history', async () => {
+    const [finished] = await db.insert(translationJobsTable)
+      .values({ ...testJobData, status: 'completed' })
+      .returning()
+      .execute();
+    const [active] = await db.insert(translationJobsTable)
+      .values({ ...testJobData, status: 'processing' })
+      .returning()
+      .execute();
+
+    // History: transcribe took 4s, translate took 2s
+    await db.insert(jobStagesTable)
+      .values([
+        { job_id: finished.id, name: 'transcribe', position: 0, state: 'completed', percent: 100, started_at: new Date('2024-01-01T00:00:00Z'), finished_at: new Date('2024-01-01T00:00:04Z') },
+        { job_id: finished.id, name: 'translate', position: 1, state: 'completed', percent: 100, started_at: new Date('2024-01-01T00:00:04Z'), finished_at: new Date('2024-01-01T00:00:06Z') },
+        { job_id: active.id, name: 'transcribe', position: 0, state: 'running', percent: 50, started_at: new Date() },
+        { job_id: active.id, name: 'translate', position: 1, state: 'pending', percent: 0 }
+      ])
+      .execute();
+
+    const result = await getTranslationJob({ id: active.id });
+
+    expect(result!.stages).toHaveLength(2);
+    expect(result!.stages.map(stage => stage.name)).toEqual(['transcribe', 'translate']);
+    expect(result!.stages[0].state).toEqual('running');
+    expect(result!.stages[0].percent).toEqual(50);
+    expect(result!.stages[0].started_at).toBeInstanceOf(Date);
+    expect(result!.stages[1].started_at).toBeNull();
+    // Half of transcribe (2s) plus all of translate (2s)
+    expect(result!.estimated_remaining_ms).toEqual(4000);
+  });
+
+  it('should return no estimate for a job that is not processing', async () => {
+    const [job] = await db.insert(translationJobsTable)
+      .values(testJobData)
+      .returning()
+      .execute();
+
+    const result = await getTranslationJob({ id: job.id });
+
+    expect(result!.stages).toEqual([]);
+    expect(result!.estimated_remaining_ms).toBeNull();
+  });
+});
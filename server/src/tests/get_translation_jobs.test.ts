@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
+import { translationJobsTable, jobStagesTable } from '../db/schema';
 import { getTranslationJobs } from '../handlers/get_translation_jobs';
 
 describe('getTranslationJobs', () => {
@@ -204,4 +204,31 @@ describe('getTranslationJobs', () => {
     const arabicJob = result.find(job => job.target_language === 'ar');
     expect(arabicJob!.detected_language).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should attach stages to each job in pipeline order', async () => {
+    const jobs = await db.insert(translationJobsTable)
+      .values([
+        { original_filename: 'a.mp4', original_file_path: '/uploads/a.mp4', target_language: 'es', status: 'processing' },
+        { original_filename: 'b.mp4', original_file_path: '/uploads/b.mp4', target_language: 'fr', status: 'pending' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(jobStagesTable)
+      .values([
+        { job_id: jobs[0].id, name: 'translate', position: 1, state: 'pending' },
+        { job_id: jobs[0].id, name: 'transcribe', position: 0, state: 'running', percent: 30, started_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getTranslationJobs();
+    const processing = result.find(job => job.id === jobs[0].id)!;
+    const pending = result.find(job => job.id === jobs[1].id)!;
+
+    expect(processing.stages.map(stage => stage.name)).toEqual(['transcribe', 'translate']);
+    expect(processing.stages[0].percent).toEqual(30);
+    // No completed stage history yet, so no estimate
+    expect(processing.estimated_remaining_ms).toBeNull();
+    expect(pending.stages).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { glossaryEntriesTable, translationJobsTable } from '../db/schema';
+import { createGlossaryInputSchema, type CreateGlossaryInput } from '../schema';
+import { createGlossary } from '../handlers/create_glossary';
+import { getGlossaries } from '../handlers/get_glossaries';
+import { getGlossary } from '../handlers/get_glossary';
+import { updateGlossary } from '../handlers/update_glossary';
+import { deleteGlossary } from '../handlers/delete_glossary';
+import { addGlossaryEntry } from '../handlers/add_glossary_entry';
+import { updateGlossaryEntry } from '../handlers/update_glossary_entry';
+import { deleteGlossaryEntry } from '../handlers/delete_glossary_entry';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateGlossaryInput = {
+  name: 'Product names',
+  source_language: 'en',
+  target_language: 'de',
+  entries: [
+    { source_term: 'Acme', do_not_translate: true, case_sensitive: true },
+    { source_term: 'dashboard', target_term: 'Dashboard' }
+  ]
+};
+
+describe('glossaries', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a glossary with its entries', async () => {
+    const result = await createGlossary(testInput);
+
+    expect(result).toMatchObject({ name: 'Product names', source_language: 'en', target_language: 'de' });
+    expect(result.entries.map(entry => [entry.source_term, entry.target_term, entry.case_sensitive, entry.do_not_translate])).toEqual([
+      ['Acme', null, true, true],
+      ['dashboard', 'Dashboard', false, false]
+    ]);
+  });
+
+  it('should require a target term unless the term is kept as is', () => {
+    expect(createGlossaryInputSchema.safeParse({ ...testInput, entries: [{ source_term: 'Acme' }] }).success).toBe(false);
+    expect(createGlossaryInputSchema.safeParse({ ...testInput, target_language: 'en' }).success).toBe(false);
+  });
+
+  it('should refuse the same source term twice', async () => {
+    await expect(createGlossary({ ...testInput, entries: [...testInput.entries!, { source_term: 'Acme', target_term: 'ACME' }] }))
+      .rejects.toThrow(/already has an entry for "Acme"/);
+
+    const glossary = await createGlossary(testInput);
+    await expect(addGlossaryEntry({ glossary_id: glossary.id, source_term: 'dashboard', target_term: 'Übersicht' }))
+      .rejects.toThrow(/already has an entry/);
+  });
+
+  it('should list glossaries by name and get one with its entries', async () => {
+    await createGlossary({ ...testInput, name: 'Support' });
+    const created = await createGlossary(testInput);
+
+    expect((await getGlossaries()).map(glossary => glossary.name)).toEqual(['Product names', 'Support']);
+    const result = await getGlossary({ id: created.id });
+    expect(result!.entries.map(entry => entry.source_term)).toEqual(['Acme', 'dashboard']);
+    expect(await getGlossary({ id: 999 })).toBeNull();
+  });
+
+  it('should rename a glossary', async () => {
+    const created = await createGlossary(testInput);
+
+    const result = await updateGlossary({ id: created.id, name: 'Brands' });
+
+    expect(result.name).toEqual('Brands');
+    expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(created.updated_at.getTime());
+    await expect(updateGlossary({ id: 999, name: 'Missing' })).rejects.toThrow(/Glossary 999 not found/);
+  });
+
+  it('should add, change and remove entries', async () => {
+    const glossary = await createGlossary({ ...testInput, entries: [] });
+
+    const added = await addGlossaryEntry({ glossary_id: glossary.id, source_term: 'invoice', target_term: 'Rechnung' });
+    expect(added).toMatchObject({ glossary_id: glossary.id, source_term: 'invoice', target_term: 'Rechnung', case_sensitive: false });
+
+    const kept = await updateGlossaryEntry({ id: added.id, do_not_translate: true });
+    expect(kept).toMatchObject({ target_term: null, do_not_translate: true });
+
+    await expect(updateGlossaryEntry({ id: added.id, do_not_translate: false })).rejects.toThrow(/target term is required/);
+    const translated = await updateGlossaryEntry({ id: added.id, do_not_translate: false, target_term: 'Faktura' });
+    expect(translated).toMatchObject({ target_term: 'Faktura', do_not_translate: false });
+
+    await deleteGlossaryEntry({ id: added.id });
+    expect((await getGlossary({ id: glossary.id }))!.entries).toEqual([]);
+    await expect(deleteGlossaryEntry({ id: added.id })).rejects.toThrow(/Glossary entry \d+ not found/);
+  });
+
+  it('should throw when adding to a non-existent glossary', async () => {
+    await expect(addGlossaryEntry({ glossary_id: 999, source_term: 'Acme', do_not_translate: true }))
+      .rejects.toThrow(/Glossary 999 not found/);
+  });
+
+  it('should delete a glossary with its entries and detach its jobs', async () => {
+    const glossary = await createGlossary(testInput);
+    const [job] = await db.insert(translationJobsTable)
+      .values({ original_filename: 'a.mp4', original_file_path: '/uploads/a.mp4', target_language: 'de', glossary_id: glossary.id })
+      .returning()
+      .execute();
+
+    const result = await deleteGlossary({ id: glossary.id });
+
+    expect(result.id).toEqual(glossary.id);
+    expect(await getGlossary({ id: glossary.id })).toBeNull();
+    const entries = await db.select().from(glossaryEntriesTable).where(eq(glossaryEntriesTable.glossary_id, glossary.id)).execute();
+    expect(entries).toHaveLength(0);
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.glossary_id).toBeNull();
+    await expect(deleteGlossary({ id: glossary.id })).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test';
+import { containsTerm, findViolations, protectTerms, restoreTerms, type GlossaryTerm } from '../glossary/terms';
+
+const term = (id: number, source_term: string, target_term: string | null, options: Partial<GlossaryTerm> = {}): GlossaryTerm => ({
+  id,
+  source_term,
+  target_term,
+  case_sensitive: false,
+  do_not_translate: target_term === null,
+  ...options
+});
+
+describe('glossary terms', () => {
+  it('should match whole words only in spaced scripts', () => {
+    expect(containsTerm('Install Go today', 'Go', true)).toBe(true);
+    expect(containsTerm('Search with Google', 'Go', true)).toBe(false);
+    expect(containsTerm('the go-to tool', 'go', false)).toBe(true);
+  });
+
+  it('should match terms inside Chinese and Japanese text', () => {
+    expect(containsTerm('我们在东京见面', '东京', true)).toBe(true);
+    expect(containsTerm('アクメのダッシュボード', 'アクメ', true)).toBe(true);
+  });
+
+  it('should respect case sensitivity', () => {
+    expect(containsTerm('an apple a day', 'Apple', true)).toBe(false);
+    expect(containsTerm('an apple a day', 'Apple', false)).toBe(true);
+  });
+
+  it('should replace terms with placeholders and restore their renderings', () => {
+    const entries = [term(1, 'Acme', null), term(2, 'dashboard', 'panel')];
+
+    const result = protectTerms('Open the ACME dashboard, then the Acme dashboard.', entries);
+
+    expect(result.text).toEqual('Open the __TERM_0__ __TERM_1__, then the __TERM_2__ __TERM_3__.');
+    // Do-not-translate terms come back as they were written
+    expect(result.replacements).toEqual(['ACME', 'panel', 'Acme', 'panel']);
+    expect(restoreTerms('Abre el __TERM_0__ __TERM_1__, luego el __ TERM_2 __ __TERM_3__.', result.replacements))
+      .toEqual('Abre el ACME panel, luego el Acme panel.');
+  });
+
+  it('should prefer the longest of overlapping terms', () => {
+    const entries = [term(1, 'Acme', null), term(2, 'Acme Cloud', 'Nube Acme')];
+
+    const result = protectTerms('Try Acme Cloud.', entries);
+
+    expect(result.text).toEqual('Try __TERM_0__.');
+    expect(result.replacements).toEqual(['Nube Acme']);
+  });
+
+  it('should leave text without terms unchanged', () => {
+    const result = protectTerms('Nothing to see here.', [term(1, 'Acme', null)]);
+
+    expect(result).toEqual({ text: 'Nothing to see here.', replacements: [] });
+    expect(restoreTerms('__TERM_7__ stays', [])).toEqual('__TERM_7__ stays');
+  });
+
+  it('should report terms whose rendering is missing from the translation', () => {
+    const entries = [term(1, 'Acme', null), term(2, 'dashboard', 'panel'), term(3, 'invoice', 'factura')];
+
+    const violations = findViolations('The Acme dashboard', 'El tablero de acme', entries);
+
+    expect(violations).toEqual([{ entry_id: 2, source_term: 'dashboard', expected_term: 'panel' }]);
+    expect(findViolations('The Acme dashboard', 'El panel de Acme', entries)).toEqual([]);
+  });
+});
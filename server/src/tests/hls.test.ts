@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'bun:test';
+import { packageHls, type HlsFile, type HlsInput } from '../hls/package';
+import { rewritePlaylist } from '../hls/playlists';
+import { fmp4Setup } from '../media/fmp4';
+import { FLAC_BLOCK_SIZE } from '../media/flac';
+import { probeMedia } from '../media/probe';
+import { bufferSource } from '../media/byte_source';
+import { demux, flacTrack, pcmTrack, trackPcm } from '../media/remux';
+import { type MediaTrack } from '../media/types';
+import {
+  buildMp4,
+  readFragment,
+  TEST_AUDIO_SAMPLE_BYTES,
+  TEST_VIDEO_SAMPLE_BYTES,
+  testSample
+} from '../helpers/media';
+
+const label = { language: null, name: null, default: false };
+
+const tone = (seconds: number, sampleRate = 16000, channels = 1) => ({
+  samples: Int16Array.from({ length: seconds * sampleRate * channels }, (_, i) => Math.round(Math.sin(i / 5) * 1000)),
+  sample_rate: sampleRate,
+  channels
+});
+
+// 14 s with keyframes every second: segments start at 0, 6 and 12 s
+const videoInput = (): HlsInput => {
+  const [video, original] = demux(buildMp4({
+    duration_ms: 14000,
+    video: { width: 320, height: 240, frame_rate: 25 },
+    audio: [{ channels: 2, sample_rate: 48000, language: 'eng' }],
+    samples: true
+  }))!;
+  return {
+    video,
+    audio: [
+      { id: 'original', name: 'Original', language: 'en', default: false, track: original },
+      { id: 'es', name: 'Spanish (dubbed)', language: 'es', default: true, track: flacTrack(tone(14), label) }
+    ],
+    subtitles: [
+      { id: 'target', name: 'Spanish', language: 'es', default: false, cues: [
+        { start_ms: 1000, end_ms: 2000, text: 'Hola.' },
+        { start_ms: 5500, end_ms: 6500, text: '¿Qué tal?' }
+      ] }
+    ],
+    duration_ms: 14000
+  };
+};
+
+const file = (files: HlsFile[], path: string): Buffer => files.find(entry => entry.path === path)!.body;
+
+const text = (files: HlsFile[], path: string): string => file(files, path).toString('utf8');
+
+describe('packageHls', () => {
+  it('should tie video, audio renditions and subtitles together in a master playlist', () => {
+    const files = packageHls(videoInput())!;
+
+    expect(text(files, 'master.m3u8').split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Original",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=NO,URI="audio/original.m3u8"',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Spanish (dubbed)",LANGUAGE="es",DEFAULT=YES,AUTOSELECT=YES,URI="audio/es.m3u8"',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subtitles",NAME="Spanish",LANGUAGE="es",DEFAULT=NO,AUTOSELECT=NO,URI="subtitles/target.m3u8"',
+      expect.stringMatching(/^#EXT-X-STREAM-INF:BANDWIDTH=\d+,CODECS="avc1\.64001f,mp4a\.40\.2,fLaC",RESOLUTION=320x240,FRAME-RATE=25\.000,AUDIO="audio",SUBTITLES="subtitles"$/),
+      'video.m3u8',
+      ''
+    ]);
+    expect(text(files, 'video.m3u8')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:6',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-MAP:URI="video/init.mp4"',
+      '#EXTINF:6.000,',
+      'video/0.m4s',
+      '#EXTINF:6.000,',
+      'video/1.m4s',
+      '#EXTINF:2.000,',
+      'video/2.m4s',
+      '#EXT-X-ENDLIST',
+      ''
+    ].join('\n'));
+    expect(text(files, 'audio/es.m3u8')).toContain('#EXT-X-MAP:URI="es/init.mp4"\n#EXTINF:6.000,\nes/0.m4s');
+    // The master playlist comes last, once everything it points to is there
+    expect(files[files.length - 1].path).toEqual('master.m3u8');
+  });
+
+  it('should cut fragmented MP4 segments at keyframes', async () => {
+    const files = packageHls(videoInput())!;
+
+    const info = await probeMedia(bufferSource(file(files, 'video/init.mp4')));
+    expect(info!.video).toMatchObject({ codec: 'h264', width: 320, height: 240 });
+
+    const second = readFragment(file(files, 'video/1.m4s'));
+    expect(second.sequence).toBe(2);
+    expect(second.base_decode_time).toBe(6 * 90000);
+    expect(second.samples).toHaveLength(150);
+    expect(second.samples[0]).toEqual({ duration: 3600, size: TEST_VIDEO_SAMPLE_BYTES, keyframe: true, composition_offset: 0 });
+    expect(second.samples.filter(sample => sample.keyframe)).toHaveLength(6);
+    expect(second.data.subarray(0, TEST_VIDEO_SAMPLE_BYTES)).toEqual(testSample(1, 150, TEST_VIDEO_SAMPLE_BYTES));
+
+    // The original AAC is copied as it is
+    const original = await probeMedia(bufferSource(file(files, 'audio/original/init.mp4')));
+    expect(original!.audio_tracks).toMatchObject([{ codec: 'aac', channels: 2, sample_rate: 48000 }]);
+    const audio = readFragment(file(files, 'audio/original/0.m4s'));
+    expect(audio.base_decode_time).toBe(0);
+    expect(audio.samples[0]).toEqual({ duration: 1024, size: TEST_AUDIO_SAMPLE_BYTES, keyframe: true, composition_offset: 0 });
+    expect(audio.data.subarray(0, TEST_AUDIO_SAMPLE_BYTES)).toEqual(testSample(2, 0, TEST_AUDIO_SAMPLE_BYTES));
+    // AAC frames at 48 kHz: the second segment starts with the first at or after 6 s
+    expect(readFragment(file(files, 'audio/original/1.m4s')).base_decode_time).toBe(282 * 1024);
+  });
+
+  it('should split subtitles into WebVTT segments on the media timeline', () => {
+    const files = packageHls(videoInput())!;
+
+    const first = text(files, 'subtitles/target/0.vtt');
+    expect(first.startsWith('WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:0,LOCAL:00:00:00.000\nLanguage: es\n')).toBe(true);
+    expect(first).toContain('00:00:01.000 --> 00:00:02.000\nHola.');
+    // A cue across the cut is in both segments
+    expect(first).toContain('00:00:05.500 --> 00:00:06.500\n¿Qué tal?');
+    expect(text(files, 'subtitles/target/1.vtt')).toContain('00:00:05.500 --> 00:00:06.500\n¿Qué tal?');
+    expect(text(files, 'subtitles/target/2.vtt')).not.toContain('-->');
+    expect(text(files, 'subtitles/target.m3u8')).toContain('#EXTINF:6.000,\ntarget/0.vtt');
+  });
+
+  it('should package audio-only media in fixed steps', () => {
+    const files = packageHls({
+      video: null,
+      audio: [
+        { id: 'original', name: 'Original', language: null, default: false, track: flacTrack(tone(8), label) },
+        { id: 'fr', name: 'French (dubbed)', language: 'fr', default: true, track: flacTrack(tone(8), label) }
+      ],
+      subtitles: [],
+      duration_ms: 8000
+    })!;
+
+    const master = text(files, 'master.m3u8');
+    // The default audio rendition is the variant stream
+    expect(master).toContain('CODECS="fLaC",AUDIO="audio"\naudio/fr.m3u8\n');
+    expect(master).not.toContain('LANGUAGE="null"');
+    expect(text(files, 'audio/fr.m3u8')).toContain('#EXTINF:6.000,\nfr/0.m4s\n#EXTINF:2.000,\nfr/1.m4s');
+    expect(files.map(entry => entry.path).filter(path => path.startsWith('video'))).toEqual([]);
+  });
+
+  it('should refuse tracks fragmented MP4 cannot carry', () => {
+    const vp9: MediaTrack = { ...videoInput().video!, codec_id: 'V_VP9', codec_private: null };
+    expect(packageHls({ ...videoInput(), video: vp9 })).toBeNull();
+
+    // PCM has to be turned into FLAC first
+    const pcm = pcmTrack(tone(1), label);
+    expect(fmp4Setup(pcm)).toBeNull();
+    expect(packageHls({ video: null, audio: [{ id: 'a', name: 'A', language: null, default: true, track: pcm }], subtitles: [], duration_ms: 1000 })).toBeNull();
+  });
+});
+
+describe('flacTrack', () => {
+  it('should carry PCM in verbatim FLAC frames', () => {
+    const audio = tone(1, 48000, 2);
+
+    const track = flacTrack(audio, label);
+
+    expect(track.codec_id).toEqual('A_FLAC');
+    expect(track.codec_private!.subarray(0, 4).toString('latin1')).toEqual('fLaC');
+    expect(fmp4Setup(track)?.codecs).toEqual('fLaC');
+    // 48000 samples per channel: 11 full blocks and a short one
+    expect(track.frames).toHaveLength(12);
+    expect(track.frames[1].time_ms).toBeCloseTo((FLAC_BLOCK_SIZE / 48000) * 1000, 6);
+
+    const [frame] = track.frames;
+    // Sync code, header, then the first channel's verbatim subframe
+    expect([...frame.data.subarray(0, 4)]).toEqual([0xff, 0xf8, 0x7a, 0x18]);
+    expect(frame.data[8]).toBe(0x02);
+    expect(frame.data.readInt16BE(9)).toBe(audio.samples[0]);
+    expect(frame.data.readInt16BE(11)).toBe(audio.samples[2]);
+    expect(frame.data.readInt16BE(9 + FLAC_BLOCK_SIZE * 2 + 1)).toBe(audio.samples[1]);
+    // Two subframes after the 8 header bytes, then the CRC-16
+    expect(frame.data).toHaveLength(8 + 2 * (1 + FLAC_BLOCK_SIZE * 2) + 2);
+  });
+
+});
+
+describe('trackPcm', () => {
+  it('should read the samples of 16-bit PCM tracks back', () => {
+    const audio = tone(1, 16000, 2);
+
+    expect(trackPcm(pcmTrack(audio, label))).toEqual(audio);
+    expect(trackPcm(flacTrack(audio, label))).toBeNull();
+  });
+});
+
+describe('rewritePlaylist', () => {
+  it('should replace segment lines and URI attributes', async () => {
+    const playlist = '#EXTM3U\n#EXT-X-MAP:URI="es/init.mp4"\n#EXTINF:6.000,\nes/0.m4s\n#EXT-X-ENDLIST\n';
+
+    const rewritten = await rewritePlaylist(playlist, async (uri) => `https://cdn.example/${uri}?signed`);
+
+    expect(rewritten).toEqual('#EXTM3U\n#EXT-X-MAP:URI="https://cdn.example/es/init.mp4?signed"\n#EXTINF:6.000,\nhttps://cdn.example/es/0.m4s?signed\n#EXT-X-ENDLIST\n');
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationMemoryTable } from '../db/schema';
+import { importTranslationMemory } from '../handlers/import_translation_memory';
+import { lookupMemory } from '../memory/store';
+import { asc } from 'drizzle-orm';
+
+const tmx = (...units: [string, string][]) => `<tmx version="1.4"><header srclang="en"/><body>
+${units.map(([source, target]) => `<tu><tuv xml:lang="en"><seg>${source}</seg></tuv><tuv xml:lang="es"><seg>${target}</seg></tuv></tu>`).join('\n')}
+</body></tmx>`;
+
+describe('importTranslationMemory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store the translation units of a TMX document', async () => {
+    const result = await importTranslationMemory({
+      content: tmx(['Good morning', 'Buenos días'], ['See you tomorrow', 'Hasta mañana'])
+    });
+
+    expect(result).toEqual({ imported: 2, skipped: 0 });
+    const entries = await db.select().from(translationMemoryTable).orderBy(asc(translationMemoryTable.id)).execute();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      source_language: 'en',
+      target_language: 'es',
+      source_text: 'Good morning',
+      normalized_source: 'good morning',
+      target_text: 'Buenos días',
+      job_id: null
+    });
+  });
+
+  it('should replace remembered translations of the same segment', async () => {
+    await importTranslationMemory({ content: tmx(['Good morning', 'Buen día']) });
+
+    const result = await importTranslationMemory({
+      content: tmx(['GOOD  morning', 'Hola'], ['good morning', 'Buenos días'])
+    });
+
+    // Both units share a key, so only the last one is kept
+    expect(result.imported).toBe(1);
+    const entries = await db.select().from(translationMemoryTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].target_text).toEqual('Buenos días');
+  });
+
+  it('should count units without a usable pair as skipped', async () => {
+    const result = await importTranslationMemory({
+      content: tmx(['Good morning', 'Buenos días']).replace('</body>', '<tu><tuv xml:lang="en"><seg>Alone</seg></tuv></tu></body>')
+    });
+
+    expect(result).toEqual({ imported: 1, skipped: 1 });
+  });
+
+  it('should reject content that is not TMX', async () => {
+    await expect(importTranslationMemory({ content: 'WEBVTT\n\n00:00.000 --> 00:01.000\nHi' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should find exact and fuzzy matches for the language pair', async () => {
+    await importTranslationMemory({
+      content: tmx(['Welcome to the show', 'Bienvenidos al programa'], ['Thanks for watching', 'Gracias por ver'])
+    });
+
+    const matches = await lookupMemory('en', 'es', ['welcome to the  show', 'Thanks for watching!', 'Something else'], {
+      fuzzy_threshold: 75
+    });
+
+    expect(matches[0]).toMatchObject({ target_text: 'Bienvenidos al programa', score: 100 });
+    expect(matches[1]).toMatchObject({ target_text: 'Gracias por ver', score: 95 });
+    expect(matches[2]).toBeNull();
+    expect(await lookupMemory('en', 'fr', ['Welcome to the show'])).toEqual([null]);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobStagesTable, transcriptSegmentsTable, translationJobsTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { getJobSpeakers } from '../handlers/get_job_speakers';
+import { updateJobSpeaker } from '../handlers/update_job_speaker';
+import { getSegments, saveSegments } from '../pipeline/segments';
+import { syncSpeakers } from '../speakers/speakers';
+import { eq } from 'drizzle-orm';
+
+// A dubbed interview: the host asks, the guest answers twice
+const createTestJob = async (status: TranslationStatus = 'completed') => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'interview.mp4',
+      original_file_path: '/uploads/interview.mp4',
+      target_language: 'de',
+      status
+    })
+    .returning()
+    .execute();
+  const job = result[0];
+
+  await saveSegments(job.id, ['SPEAKER_1', 'SPEAKER_2', 'SPEAKER_2'].map((speaker, index) => ({
+    start_ms: index * 1000,
+    end_ms: (index + 1) * 1000,
+    speaker,
+    source_text: `Line ${index}.`,
+    translated_text: `Zeile ${index}.`,
+    confidence: null,
+    audio_path: `/outputs/audio/${job.id}/segments/${index}.wav`
+  })));
+  await syncSpeakers(job.id, ['SPEAKER_1', 'SPEAKER_2', 'SPEAKER_2']);
+  return job;
+};
+
+describe('job speakers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list speakers in order of appearance with default names', async () => {
+    const job = await createTestJob();
+
+    const speakers = await getJobSpeakers({ job_id: job.id });
+
+    expect(speakers.map(speaker => [speaker.label, speaker.name, speaker.voice, speaker.gender, speaker.style])).toEqual([
+      ['SPEAKER_1', 'Speaker 1', null, null, null],
+      ['SPEAKER_2', 'Speaker 2', null, null, null]
+    ]);
+  });
+
+  it('should drop speakers whose label is no longer used', async () => {
+    const job = await createTestJob();
+
+    await syncSpeakers(job.id, ['SPEAKER_2', 'Narrator']);
+
+    const speakers = await getJobSpeakers({ job_id: job.id });
+    expect(speakers.map(speaker => speaker.name)).toEqual(['Speaker 2', 'Narrator']);
+  });
+
+  it('should rename a speaker without touching its dubbed lines', async () => {
+    const job = await createTestJob();
+    const [host] = await getJobSpeakers({ job_id: job.id });
+
+    const result = await updateJobSpeaker({ id: host.id, name: 'Host' });
+
+    expect(result.name).toEqual('Host');
+    const segments = await getSegments(job.id);
+    expect(segments.every(segment => !segment.needs_redub && segment.audio_path !== null)).toBe(true);
+  });
+
+  it('should mark the lines of a speaker whose voice changed for re-dubbing', async () => {
+    const job = await createTestJob();
+    const [, guest] = await getJobSpeakers({ job_id: job.id });
+
+    const result = await updateJobSpeaker({ id: guest.id, voice: 'de-aurora', gender: 'female', style: 'conversational' });
+
+    expect(result).toMatchObject({ voice: 'de-aurora', gender: 'female', style: 'conversational' });
+    const segments = await getSegments(job.id);
+    expect(segments.map(segment => [segment.needs_redub, segment.audio_path === null, segment.version])).toEqual([
+      [false, false, 1],
+      [true, true, 2],
+      [true, true, 2]
+    ]);
+  });
+
+  it('should reset voice settings to the default with null', async () => {
+    const job = await createTestJob();
+    const [host] = await getJobSpeakers({ job_id: job.id });
+    await updateJobSpeaker({ id: host.id, voice: 'de-basil', gender: 'male' });
+
+    const result = await updateJobSpeaker({ id: host.id, voice: null });
+
+    expect(result).toMatchObject({ voice: null, gender: 'male' });
+  });
+
+  it('should only accept voices offered for the job\'s language', async () => {
+    const job = await createTestJob();
+    const [host] = await getJobSpeakers({ job_id: job.id });
+
+    await expect(updateJobSpeaker({ id: host.id, voice: 'fr-basil' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(updateJobSpeaker({ id: host.id, voice: 'nonexistent' })).rejects.toThrow(/not available for de/);
+  });
+
+  it('should not change voices while the job is being processed', async () => {
+    const job = await createTestJob('processing');
+    const [host] = await getJobSpeakers({ job_id: job.id });
+
+    await expect(updateJobSpeaker({ id: host.id, gender: 'male' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    // Renaming does not affect the running synthesis
+    expect((await updateJobSpeaker({ id: host.id, name: 'Host' })).name).toEqual('Host');
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .execute();
+    expect(segments.some(segment => segment.needs_redub)).toBe(false);
+  });
+
+  it('should not change voices while a cancelled job finishes its stage', async () => {
+    const job = await createTestJob('cancelled');
+    const [host] = await getJobSpeakers({ job_id: job.id });
+    await db.insert(jobStagesTable)
+      .values({ job_id: job.id, name: 'synthesize', position: 0, state: 'running' })
+      .execute();
+
+    // Stages left running by a worker that died do not hold the job
+    const stale = new Date(Date.now() - 60 * 60_000);
+    await db.update(translationJobsTable).set({ heartbeat_at: stale }).where(eq(translationJobsTable.id, job.id)).execute();
+    expect((await updateJobSpeaker({ id: host.id, gender: 'male' })).gender).toEqual('male');
+
+    await db.update(translationJobsTable).set({ heartbeat_at: new Date() }).where(eq(translationJobsTable.id, job.id)).execute();
+    await expect(updateJobSpeaker({ id: host.id, gender: 'female' }))
+      .rejects.toThrow(/while the job is being processed/);
+  });
+
+  it('should throw for a non-existent speaker', async () => {
+    await expect(updateJobSpeaker({ id: 99999, name: 'Nobody' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'bun:test';
+import { probeMedia } from '../media/probe';
+import { bufferSource, type ByteSource } from '../media/byte_source';
+import { buildAvi, buildMp4, buildWebm } from '../helpers/media';
+
+// Records every read so tests can check the probe skips the media data
+const trackedSource = (buffer: Buffer): ByteSource & { bytes_read: number } => {
+  const source = bufferSource(buffer);
+  const tracked = {
+    size: source.size,
+    bytes_read: 0,
+    read: async (offset: number, length: number) => {
+      const part = await source.read(offset, length);
+      tracked.bytes_read += part.length;
+      return part;
+    }
+  };
+  return tracked;
+};
+
+describe('probeMedia', () => {
+  it('should read an mp4 file', async () => {
+    const info = await probeMedia(bufferSource(buildMp4({
+      duration_ms: 95_250,
+      video: { width: 1920, height: 1080, frame_rate: 29.97 },
+      audio: [
+        { channels: 2, sample_rate: 48000, language: 'eng' },
+        { channels: 6, sample_rate: 44100, language: 'spa' }
+      ]
+    })));
+
+    expect(info).toEqual({
+      container: 'mp4',
+      duration_ms: 95_250,
+      video: { codec: 'h264', width: 1920, height: 1080, frame_rate: 29.97 },
+      audio_tracks: [
+        { codec: 'aac', channels: 2, channel_layout: 'stereo', sample_rate: 48000, language: 'eng' },
+        { codec: 'aac', channels: 6, channel_layout: '5.1', sample_rate: 44100, language: 'spa' }
+      ]
+    });
+  });
+
+  it('should find the moov box after the media data without reading it', async () => {
+    const source = trackedSource(buildMp4({ moov_at_end: true, media_bytes: 1024 * 1024 }));
+
+    const info = await probeMedia(source);
+
+    expect(info?.duration_ms).toEqual(12_500);
+    expect(info?.audio_tracks).toHaveLength(1);
+    expect(source.bytes_read).toBeLessThan(64 * 1024);
+  });
+
+  it('should leave an undetermined language empty', async () => {
+    const info = await probeMedia(bufferSource(buildMp4({ audio: [{ channels: 1, sample_rate: 16000, language: 'und' }] })));
+
+    expect(info?.audio_tracks[0]).toEqual({
+      codec: 'aac', channels: 1, channel_layout: 'mono', sample_rate: 16000, language: null
+    });
+  });
+
+  it('should read a webm file', async () => {
+    const info = await probeMedia(bufferSource(buildWebm({
+      duration_ms: 61_000,
+      video: { width: 640, height: 360, frame_rate: 30 },
+      audio: [{ channels: 2, sample_rate: 48000, language: 'fre' }]
+    })));
+
+    expect(info).toEqual({
+      container: 'webm',
+      duration_ms: 61_000,
+      video: { codec: 'vp9', width: 640, height: 360, frame_rate: 30 },
+      audio_tracks: [{ codec: 'opus', channels: 2, channel_layout: 'stereo', sample_rate: 48000, language: 'fre' }]
+    });
+  });
+
+  it('should read a matroska file', async () => {
+    const info = await probeMedia(bufferSource(buildWebm({ doc_type: 'matroska', media_bytes: 4096 })));
+
+    expect(info?.container).toEqual('mkv');
+    expect(info?.video?.frame_rate).toEqual(25);
+  });
+
+  it('should read an avi file', async () => {
+    const info = await probeMedia(bufferSource(buildAvi({
+      duration_ms: 8_000,
+      video: { width: 720, height: 576, frame_rate: 25 },
+      audio: [{ channels: 2, sample_rate: 44100 }]
+    })));
+
+    expect(info).toEqual({
+      container: 'avi',
+      duration_ms: 8_000,
+      video: { codec: 'h264', width: 720, height: 576, frame_rate: 25 },
+      audio_tracks: [{ codec: 'mp3', channels: 2, channel_layout: 'stereo', sample_rate: 44100, language: null }]
+    });
+  });
+
+  it('should report files without audio', async () => {
+    const info = await probeMedia(bufferSource(buildMp4({ audio: [] })));
+
+    expect(info?.video?.codec).toEqual('h264');
+    expect(info?.audio_tracks).toEqual([]);
+  });
+
+  it('should return null for truncated headers', async () => {
+    const file = buildMp4();
+
+    expect(await probeMedia(bufferSource(file.subarray(0, 40)))).toBeNull();
+    expect(await probeMedia(bufferSource(buildWebm().subarray(0, 30)))).toBeNull();
+  });
+
+  it('should return null for files that are not video', async () => {
+    expect(await probeMedia(bufferSource(Buffer.from('not a video at all')))).toBeNull();
+  });
+});
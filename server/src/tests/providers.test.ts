@@ -0,0 +1,297 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { centerChannelSeparator, localRecognizer, pseudoTranslator, toneSynthesizer, turnTakingDiarizer } from '../providers/local';
+import { decodeWav, encodeWav } from '../media/wav';
+import { writeMatroska } from '../media/matroska';
+import { demux, pcmTrack } from '../media/remux';
+import { buildMp4 } from '../helpers/media';
+import { createProviders, loadProviderConfig, registerTranslator } from '../providers/registry';
+import { type Translator } from '../providers/types';
+
+const media = Buffer.from('video bytes for recognition');
+
+// Local stand-in for a remote AI service implementing the HTTP provider contract
+let server: ReturnType<typeof Bun.serve>;
+// The request fields the fake service reads; each endpoint is sent some of them
+interface ProviderRequest {
+  audio_base64?: string;
+  filename?: string;
+  segments?: unknown[];
+  texts?: string[];
+}
+const requests: { path: string; body: ProviderRequest }[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const path = new URL(request.url).pathname;
+      const body = await request.json() as ProviderRequest;
+      requests.push({ path, body });
+
+      switch (path) {
+        case '/transcribe':
+          return Response.json({
+            language: 'fr',
+            text: 'Bonjour le monde',
+            segments: [{ start_ms: 0, end_ms: 1200, text: 'Bonjour le monde' }]
+          });
+        case '/diarize':
+          return Response.json({ speakers: (body.segments ?? []).map((_, index) => `S${index % 2}`) });
+        case '/translate':
+          return Response.json({ translations: (body.texts ?? []).map(text => text.toUpperCase()) });
+        case '/voices':
+          return Response.json({
+            voices: [{ id: 'anna', name: 'Anna', language: 'de', gender: 'female', styles: ['neutral'], sample_rate: 24000 }]
+          });
+        case '/separate':
+          return body.filename?.endsWith('.wav')
+            ? Response.json({ speech_base64: Buffer.from('speech').toString('base64'), background_base64: Buffer.from('music').toString('base64') })
+            : Response.json({ speech_base64: null, background_base64: null });
+        case '/synthesize':
+          return Response.json({ audio_base64: Buffer.from('RIFF').toString('base64'), mime_type: 'audio/wav', duration_ms: 800 });
+        default:
+          return new Response('Not found', { status: 404 });
+      }
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const httpEnv = () => ({
+  ASR_PROVIDER: 'http',
+  ASR_URL: `http://localhost:${server.port}`,
+  DIARIZATION_PROVIDER: 'http',
+  DIARIZATION_URL: `http://localhost:${server.port}`,
+  SEPARATION_PROVIDER: 'http',
+  SEPARATION_URL: `http://localhost:${server.port}`,
+  MT_PROVIDER: 'http',
+  MT_URL: `http://localhost:${server.port}/`,
+  TTS_PROVIDER: 'http',
+  TTS_URL: `http://localhost:${server.port}`
+});
+
+describe('local providers', () => {
+  it('should produce a deterministic transcript', async () => {
+    const first = await localRecognizer.transcribe({ media, filename: 'interview.mp4' });
+    const second = await localRecognizer.transcribe({ media, filename: 'interview.mp4' });
+
+    expect(first).toEqual(second);
+    expect(first.language).toBe('en');
+    expect(first.text).toMatch(/interview/);
+    expect(first.segments.length).toBeGreaterThan(0);
+    expect(first.text).toBe(first.segments.map(segment => segment.text).join(' '));
+  });
+
+  it('should honour the language hint', async () => {
+    const result = await localRecognizer.transcribe({ media, filename: 'clip.mp4', language_hint: 'de' });
+
+    expect(result.language).toBe('de');
+  });
+
+  it('should produce ordered, non-overlapping segments', async () => {
+    const { segments } = await localRecognizer.transcribe({ media, filename: 'clip.mp4' });
+
+    segments.forEach((segment, index) => {
+      expect(segment.end_ms).toBeGreaterThan(segment.start_ms);
+      if (index > 0) {
+        expect(segment.start_ms).toBeGreaterThanOrEqual(segments[index - 1].end_ms);
+      }
+    });
+  });
+
+  it('should switch speakers after a question or a long pause', async () => {
+    const speakers = await turnTakingDiarizer.diarize({
+      media,
+      filename: 'interview.mp4',
+      segments: [
+        { start_ms: 0, end_ms: 1000, text: 'Where are you from?' },
+        { start_ms: 1000, end_ms: 2000, text: 'Lisbon.' },
+        { start_ms: 2000, end_ms: 3000, text: 'A lovely city.' },
+        { start_ms: 5000, end_ms: 6000, text: 'It is.' }
+      ]
+    });
+
+    expect(speakers).toEqual(['SPEAKER_1', 'SPEAKER_2', 'SPEAKER_2', 'SPEAKER_1']);
+  });
+
+  it('should tag translations with the target language', async () => {
+    const result = await pseudoTranslator.translate({
+      texts: ['Hello', 'World'],
+      source_language: 'en',
+      target_language: 'es'
+    });
+
+    expect(result).toEqual(['[es] Hello', '[es] World']);
+  });
+
+  it('should synthesize a WAV tone proportional to the text length', async () => {
+    const short = await toneSynthesizer.synthesize({ text: 'Hola', language: 'es' });
+    const long = await toneSynthesizer.synthesize({ text: 'Hola, esta es una frase mucho más larga', language: 'es' });
+
+    expect(short.mime_type).toBe('audio/wav');
+    expect(short.audio.subarray(0, 4).toString('ascii')).toBe('RIFF');
+    expect(short.audio.subarray(8, 12).toString('ascii')).toBe('WAVE');
+    expect(long.duration_ms).toBeGreaterThan(short.duration_ms);
+  });
+
+  it('should synthesize identical audio for identical input', async () => {
+    const first = await toneSynthesizer.synthesize({ text: 'Bonjour', language: 'fr', voice: 'narrator' });
+    const second = await toneSynthesizer.synthesize({ text: 'Bonjour', language: 'fr', voice: 'narrator' });
+
+    expect(first.audio.equals(second.audio)).toBe(true);
+  });
+
+  it('should vary the synthesized voice with gender and style', async () => {
+    const neutral = await toneSynthesizer.synthesize({ text: 'Bonjour à tous', language: 'fr' });
+    const female = await toneSynthesizer.synthesize({ text: 'Bonjour à tous', language: 'fr', gender: 'female' });
+    const narration = await toneSynthesizer.synthesize({ text: 'Bonjour à tous', language: 'fr', style: 'narration' });
+
+    expect(female.audio.equals(neutral.audio)).toBe(false);
+    expect(female.duration_ms).toBe(neutral.duration_ms);
+    expect(narration.duration_ms).toBeGreaterThan(neutral.duration_ms);
+  });
+
+  it('should separate the center channel of a 5.1 WAV as speech', async () => {
+    // Channel n carries the value n + 1 in every frame
+    const samples = Int16Array.from({ length: 6 * 4800 }, (_, i) => (i % 6) + 1);
+
+    const stems = await centerChannelSeparator.separate({ media: encodeWav(samples, 48000, 6), filename: 'mix.wav' });
+
+    const speech = decodeWav(stems!.speech)!;
+    const background = decodeWav(stems!.background)!;
+    expect(speech.channels).toBe(6);
+    expect(Array.from(speech.samples.slice(0, 6))).toEqual([0, 0, 3, 0, 0, 0]);
+    expect(Array.from(background.samples.slice(0, 6))).toEqual([1, 2, 0, 4, 5, 6]);
+    expect(await centerChannelSeparator.separate({ media, filename: 'clip.mp4' })).toBeNull();
+  });
+
+  it('should separate the PCM audio of a video container', async () => {
+    const [video] = demux(buildMp4({ duration_ms: 1000, audio: [], samples: true }))!;
+    const samples = Int16Array.from({ length: 6 * 48000 }, (_, i) => (i % 6) + 1);
+    const mkv = writeMatroska([video, pcmTrack({ samples, sample_rate: 48000, channels: 6 }, { language: 'eng', name: null, default: true })], 1000);
+
+    const stems = await centerChannelSeparator.separate({ media: mkv, filename: 'clip.mkv' });
+
+    const speech = decodeWav(stems!.speech)!;
+    expect(speech.samples.length).toBe(samples.length);
+    expect(Array.from(speech.samples.slice(0, 6))).toEqual([0, 0, 3, 0, 0, 0]);
+    expect(Array.from(decodeWav(stems!.background)!.samples.slice(0, 6))).toEqual([1, 2, 0, 4, 5, 6]);
+    // AAC cannot be decoded here
+    expect(await centerChannelSeparator.separate({ media: buildMp4({ samples: true }), filename: 'clip.mp4' })).toBeNull();
+  });
+});
+
+describe('provider registry', () => {
+  it('should default every provider to the local driver', () => {
+    const config = loadProviderConfig({});
+    const providers = createProviders(config);
+
+    expect(config.recognizer.driver).toBe('local');
+    expect(providers.recognizer).toBe(localRecognizer);
+    expect(providers.diarizer).toBe(turnTakingDiarizer);
+    expect(providers.separator).toBe(centerChannelSeparator);
+    expect(providers.translator).toBe(pseudoTranslator);
+    expect(providers.synthesizer).toBe(toneSynthesizer);
+  });
+
+  it('should read URLs and timeouts from the environment', () => {
+    const config = loadProviderConfig({ MT_PROVIDER: 'http', MT_URL: 'http://localhost:9000', PROVIDER_TIMEOUT_MS: '5000', TTS_TIMEOUT_MS: '100' });
+
+    expect(config.translator).toEqual({ driver: 'http', url: 'http://localhost:9000', timeout_ms: 5000 });
+    expect(config.synthesizer.timeout_ms).toBe(100);
+  });
+
+  it('should reject unknown drivers', () => {
+    expect(() => createProviders(loadProviderConfig({ ASR_PROVIDER: 'nonexistent' }))).toThrow(/unknown speech recognition provider/i);
+  });
+
+  it('should use registered drivers', async () => {
+    const reversing: Translator = {
+      name: 'reversing',
+      translate: async ({ texts }) => texts.map(text => text.split('').reverse().join(''))
+    };
+    registerTranslator('reversing', () => reversing);
+
+    const providers = createProviders(loadProviderConfig({ MT_PROVIDER: 'reversing' }));
+
+    expect(await providers.translator.translate({ texts: ['abc'], source_language: 'en', target_language: 'es' })).toEqual(['cba']);
+  });
+});
+
+describe('http providers', () => {
+  it('should transcribe through the remote service', async () => {
+    const { recognizer } = createProviders(loadProviderConfig(httpEnv()));
+
+    const result = await recognizer.transcribe({ media, filename: 'clip.mp4' });
+
+    expect(result.language).toBe('fr');
+    expect(result.segments).toHaveLength(1);
+    const request = requests.find(entry => entry.path === '/transcribe');
+    expect(Buffer.from(request!.body.audio_base64 ?? '', 'base64').equals(media)).toBe(true);
+    expect(request!.body.filename).toBe('clip.mp4');
+  });
+
+  it('should diarize through the remote service', async () => {
+    const { diarizer } = createProviders(loadProviderConfig(httpEnv()));
+
+    const speakers = await diarizer.diarize({
+      media,
+      filename: 'clip.mp4',
+      segments: [{ start_ms: 0, end_ms: 1000, text: 'Hi' }, { start_ms: 1000, end_ms: 2000, text: 'Hello' }]
+    });
+
+    expect(speakers).toEqual(['S0', 'S1']);
+    const request = requests.find(entry => entry.path === '/diarize');
+    expect(request!.body.segments).toHaveLength(2);
+  });
+
+  it('should separate stems through the remote service', async () => {
+    const { separator } = createProviders(loadProviderConfig(httpEnv()));
+
+    const stems = await separator.separate({ media, filename: 'clip.wav' });
+
+    expect(stems!.speech.toString()).toBe('speech');
+    expect(stems!.background.toString()).toBe('music');
+    expect(await separator.separate({ media, filename: 'clip.mp4' })).toBeNull();
+  });
+
+  it('should translate through the remote service', async () => {
+    const { translator } = createProviders(loadProviderConfig(httpEnv()));
+
+    const result = await translator.translate({ texts: ['hola', 'mundo'], source_language: 'es', target_language: 'en' });
+
+    expect(result).toEqual(['HOLA', 'MUNDO']);
+  });
+
+  it('should synthesize through the remote service', async () => {
+    const { synthesizer } = createProviders(loadProviderConfig(httpEnv()));
+
+    const result = await synthesizer.synthesize({ text: 'Hello', language: 'en' });
+
+    expect(result.audio.toString('ascii')).toBe('RIFF');
+    expect(result.duration_ms).toBe(800);
+  });
+
+  it('should list the voices of the remote service', async () => {
+    const { synthesizer } = createProviders(loadProviderConfig(httpEnv()));
+
+    expect(await synthesizer.listVoices!()).toEqual([
+      { id: 'anna', name: 'Anna', language: 'de', gender: 'female', styles: ['neutral'], sample_rate: 24000 }
+    ]);
+  });
+
+  it('should surface HTTP errors', async () => {
+    const { recognizer } = createProviders(loadProviderConfig({ ASR_PROVIDER: 'http', ASR_URL: `http://localhost:${server.port}/missing` }));
+
+    await expect(recognizer.transcribe({ media, filename: 'clip.mp4' })).rejects.toThrow(/404/);
+  });
+
+  it('should require a URL', async () => {
+    const { translator } = createProviders(loadProviderConfig({ MT_PROVIDER: 'http' }));
+
+    await expect(translator.translate({ texts: ['a'], source_language: 'en', target_language: 'es' })).rejects.toThrow(/requires a URL/);
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobEventsTable, jobStagesTable, translationJobsTable } from '../db/schema';
+import { redubTranslationJob } from '../handlers/redub_translation_job';
+import { updateSegment } from '../handlers/update_segment';
+import { createWorker } from '../pipeline/worker';
+import { createStages } from '../pipeline/stages';
+import { getSegments } from '../pipeline/segments';
+import { centerChannelSeparator, localRecognizer, pseudoTranslator, toneSynthesizer, turnTakingDiarizer } from '../providers/local';
+import { type SpeechSynthesizer } from '../providers/types';
+import { decodeWav } from '../media/wav';
+import { trimSilence } from '../media/stretch';
+import { and, asc, eq } from 'drizzle-orm';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+
+// Records what was synthesized so re-dubs can be checked for reuse
+const synthesized: string[] = [];
+const countingSynthesizer: SpeechSynthesizer = {
+  name: 'counting',
+  synthesize: async (input) => {
+    synthesized.push(input.text);
+    return toneSynthesizer.synthesize(input);
+  }
+};
+
+const stages = createStages({
+  recognizer: localRecognizer,
+  diarizer: turnTakingDiarizer,
+  separator: centerChannelSeparator,
+  translator: pseudoTranslator,
+  synthesizer: countingSynthesizer
+});
+
+// A job taken through the whole pipeline once
+const createCompletedJob = async () => {
+  const filePath = `/uploads/videos/${Date.now()}_redub.mp4`;
+  await mkdir('./storage/uploads/videos', { recursive: true });
+  await writeFile(`./storage${filePath}`, 'video bytes for the re-dub');
+  await db.insert(translationJobsTable)
+    .values({ original_filename: 'redub.mp4', original_file_path: filePath, target_language: 'es' })
+    .execute();
+
+  const job = await createWorker({ stages }).runOnce();
+  synthesized.length = 0;
+  return job!;
+};
+
+describe('redubTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should re-synthesize only the segments whose translation changed', async () => {
+    const job = await createCompletedJob();
+    expect(job.status).toEqual('completed');
+    const [first, second] = await getSegments(job.id);
+    await updateSegment({ id: first.id, version: first.version, translated_text: 'Esta es la narración.' });
+    await updateSegment({ id: second.id, version: second.version, start_ms: 3000, end_ms: 5500 });
+
+    const queued = await redubTranslationJob({ id: job.id });
+    expect(queued.status).toEqual('retrying');
+
+    const result = await createWorker({ stages }).runOnce();
+
+    expect(result!.status).toEqual('completed');
+    expect(result!.translated_transcript).toStartWith('Esta es la narración. [es] Reference');
+    expect(synthesized).toEqual(['Esta es la narración.']);
+
+    const segments = await getSegments(job.id);
+    expect(segments.every(segment => !segment.needs_redub && segment.audio_path !== null)).toBe(true);
+
+    // The dubbed track follows the new timing of the second segment, whose
+    // speech is laid out trimmed of its silent ends
+    expect(segments[1].dub_start_ms).toEqual(3000);
+    const track = decodeWav(await readFile(`./storage/outputs/audio/${job.id}_es.wav`))!;
+    const secondClip = trimSilence(decodeWav(await readFile(`./storage${segments[1].audio_path}`))!);
+    expect(track.samples.length / track.channels).toEqual(3000 * 16 + secondClip.samples.length);
+  });
+
+  it('should only reset the synthesis and mux stages', async () => {
+    const job = await createCompletedJob();
+    const [first] = await getSegments(job.id);
+    await updateSegment({ id: first.id, version: first.version, translated_text: 'Hola.' });
+
+    await redubTranslationJob({ id: job.id });
+
+    const rows = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+    expect(rows.map(row => [row.name, row.state])).toEqual([
+      ['transcribe', 'completed'],
+      ['diarize', 'completed'],
+      ['translate', 'completed'],
+      ['review', 'skipped'],
+      ['separate', 'completed'],
+      ['synthesize', 'pending'],
+      ['fit', 'pending'],
+      ['mix', 'pending'],
+      ['mux', 'pending'],
+      ['package', 'pending']
+    ]);
+  });
+
+  it('should re-dub once when asked twice at the same time', async () => {
+    const job = await createCompletedJob();
+    const [first] = await getSegments(job.id);
+    await updateSegment({ id: first.id, version: first.version, translated_text: 'Hola.' });
+
+    const results = await Promise.allSettled([redubTranslationJob({ id: job.id }), redubTranslationJob({ id: job.id })]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(and(eq(jobEventsTable.job_id, job.id), eq(jobEventsTable.from_status, 'completed')))
+      .execute();
+    expect(events).toHaveLength(1);
+  });
+
+  it('should reject jobs without edited segments', async () => {
+    const job = await createCompletedJob();
+
+    await expect(redubTranslationJob({ id: job.id })).rejects.toThrow(/no edited segments/);
+  });
+
+  it('should reject jobs that are not completed', async () => {
+    const result = await db.insert(translationJobsTable)
+      .values({ original_filename: 'redub.mp4', original_file_path: '/uploads/redub.mp4', target_language: 'es' })
+      .returning()
+      .execute();
+
+    await expect(redubTranslationJob({ id: result[0].id })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(redubTranslationJob({ id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
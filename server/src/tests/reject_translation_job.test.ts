@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { rejectTranslationJob } from '../handlers/reject_translation_job';
+import { retryTranslationJob } from '../handlers/retry_translation_job';
+
+const createTestJob = async (status: TranslationStatus) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'review.mp4',
+      original_file_path: '/uploads/review.mp4',
+      target_language: 'fr',
+      status,
+      requires_review: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('rejectTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should fail the job with the reason', async () => {
+    const job = await createTestJob('awaiting_review');
+
+    const result = await rejectTranslationJob({ id: job.id, reason: 'Formal address throughout, please' });
+
+    expect(result.status).toEqual('failed');
+    expect(result.error_message).toEqual('Rejected in review: Formal address throughout, please');
+  });
+
+  it('should let a rejected job be retried for another review', async () => {
+    const job = await createTestJob('awaiting_review');
+    await rejectTranslationJob({ id: job.id, reason: 'Wrong terminology' });
+
+    const result = await retryTranslationJob({ id: job.id });
+
+    expect(result.status).toEqual('retrying');
+    expect(result.approved_at).toBeNull();
+  });
+
+  it('should only reject jobs awaiting review', async () => {
+    const job = await createTestJob('processing');
+
+    await expect(rejectTranslationJob({ id: job.id, reason: 'Too late' })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(rejectTranslationJob({ id: 99999, reason: 'Missing' })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'bun:test';
+import { demux, pcmTrack, textTrack } from '../media/remux';
+import { writeMatroska } from '../media/matroska';
+import { probeMedia } from '../media/probe';
+import { bufferSource } from '../media/byte_source';
+import { type MediaTrack } from '../media/types';
+import { encodeWav } from '../media/wav';
+import {
+  buildAvi,
+  buildMp4,
+  TEST_AAC_CONFIG,
+  TEST_AUDIO_SAMPLE_BYTES,
+  TEST_AVC_CONFIG,
+  TEST_VIDEO_SAMPLE_BYTES,
+  testSample
+} from '../helpers/media';
+
+const CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+const CUES_ID = Buffer.from([0x1c, 0x53, 0xbb, 0x6b]);
+
+const count = (buffer: Buffer, pattern: Buffer): number => {
+  let found = 0;
+  for (let at = buffer.indexOf(pattern); at !== -1; at = buffer.indexOf(pattern, at + 1)) found++;
+  return found;
+};
+
+const sourceMp4 = () => buildMp4({
+  duration_ms: 2000,
+  video: { width: 320, height: 240, frame_rate: 25 },
+  audio: [{ channels: 2, sample_rate: 48000, language: 'eng' }],
+  samples: true
+});
+
+describe('demux', () => {
+  it('should copy the samples of an mp4 file', () => {
+    const tracks = demux(sourceMp4());
+
+    expect(tracks).not.toBeNull();
+    const [video, audio] = tracks!;
+    expect(video).toMatchObject({
+      type: 'video',
+      codec_id: 'V_MPEG4/ISO/AVC',
+      codec_private: TEST_AVC_CONFIG,
+      frame_duration_ns: 40_000_000,
+      video: { width: 320, height: 240 }
+    });
+    expect(video.frames).toHaveLength(50);
+    // The edit list takes back the one-frame composition offset
+    expect(video.frames[0].time_ms).toBeCloseTo(0, 6);
+    expect(video.frames[13].time_ms).toBeCloseTo(520, 6);
+    expect(video.frames.filter(frame => frame.keyframe).map(frame => frame.time_ms)).toEqual([0, 1000]);
+    expect(video.frames[13].data).toEqual(testSample(1, 13, TEST_VIDEO_SAMPLE_BYTES));
+
+    expect(audio).toMatchObject({
+      type: 'audio',
+      codec_id: 'A_AAC',
+      codec_private: TEST_AAC_CONFIG,
+      language: 'eng',
+      audio: { sample_rate: 48000, channels: 2, bit_depth: null }
+    });
+    expect(audio.frames).toHaveLength(93);
+    expect(audio.frames[10].time_ms).toBeCloseTo(10 * 1024 / 48, 6);
+    expect(audio.frames[10].data).toEqual(testSample(2, 10, TEST_AUDIO_SAMPLE_BYTES));
+  });
+
+  it('should turn 16-bit WAV into a PCM track', () => {
+    const samples = Int16Array.from({ length: 16000 }, (_, i) => (i % 100) - 50);
+
+    const [track] = demux(encodeWav(samples, 16000))!;
+
+    expect(track).toMatchObject({ type: 'audio', codec_id: 'A_PCM/INT/LIT', audio: { sample_rate: 16000, channels: 1, bit_depth: 16 } });
+    // 100 ms blocks
+    expect(track.frames.map(frame => frame.time_ms)).toEqual([0, 100, 200, 300, 400, 500, 600, 700, 800, 900]);
+    expect(track.frames[3].data.readInt16LE(2)).toBe(samples[4801]);
+  });
+
+  it('should refuse sources it cannot copy', () => {
+    expect(demux(buildAvi())).toBeNull();
+    // Sample entries without their codec configuration
+    expect(demux(buildMp4())).toBeNull();
+    expect(demux(Buffer.from('not a media file'))).toBeNull();
+  });
+});
+
+describe('writeMatroska', () => {
+  it('should write tracks that read back as they were given', async () => {
+    const [video, audio] = demux(sourceMp4())!;
+    const dub = pcmTrack({ samples: new Int16Array(2 * 2 * 16000), sample_rate: 16000, channels: 2 }, {
+      language: 'spa',
+      language_bcp47: 'es',
+      name: 'Spanish (dubbed)',
+      default: false
+    });
+    const subtitles = textTrack([
+      { start_ms: 0, end_ms: 900, text: 'Hola.' },
+      { start_ms: 1000, end_ms: 1800, text: '¿Qué tal?' }
+    ], { language: 'spa', language_bcp47: 'es', name: 'Spanish', default: false });
+
+    const file = writeMatroska([video, { ...audio, name: 'Original' }, dub, subtitles], 2000);
+    const tracks = demux(file)!;
+
+    expect(tracks.map(track => [track.type, track.codec_id, track.language, track.name, track.default])).toEqual([
+      ['video', 'V_MPEG4/ISO/AVC', 'und', null, true],
+      ['audio', 'A_AAC', 'eng', 'Original', true],
+      ['audio', 'A_PCM/INT/LIT', 'spa', 'Spanish (dubbed)', false],
+      ['subtitle', 'S_TEXT/UTF8', 'spa', 'Spanish', false]
+    ]);
+    expect(tracks[0].codec_private).toEqual(TEST_AVC_CONFIG);
+    expect(tracks[1].codec_private).toEqual(TEST_AAC_CONFIG);
+    expect(tracks[2].language_bcp47).toBe('es');
+    expect(tracks[2].audio).toEqual({ sample_rate: 16000, channels: 2, bit_depth: 16 });
+
+    // Frames come back in their order with millisecond timestamps
+    expect(tracks[0].frames.map(frame => frame.data)).toEqual(video.frames.map(frame => frame.data));
+    expect(tracks[0].frames.map(frame => frame.keyframe)).toEqual(video.frames.map(frame => frame.keyframe));
+    expect(tracks[1].frames.map(frame => frame.time_ms)).toEqual(audio.frames.map(frame => Math.round(frame.time_ms)));
+    expect(tracks[2].frames).toHaveLength(20);
+    expect(tracks[3].frames.map(frame => [frame.time_ms, frame.duration_ms, frame.data.toString('utf8')])).toEqual([
+      [0, 900, 'Hola.'],
+      [1000, 800, '¿Qué tal?']
+    ]);
+
+    const info = await probeMedia(bufferSource(file));
+    expect(info).toMatchObject({
+      container: 'mkv',
+      duration_ms: 2000,
+      video: { codec: 'h264', width: 320, height: 240, frame_rate: 25 },
+      audio_tracks: [
+        { codec: 'aac', channels: 2, sample_rate: 48000, language: 'eng' },
+        { codec: 'pcm', channels: 2, sample_rate: 16000, language: 'es' }
+      ]
+    });
+  });
+
+  it('should start clusters at video keyframes and index them', () => {
+    const [video, audio] = demux(sourceMp4())!;
+
+    const file = writeMatroska([video, audio], 2000);
+
+    // Keyframes at 0 s and 1 s
+    expect(count(file, CLUSTER_ID)).toBe(2);
+    expect(count(file, CUES_ID)).toBe(2); // The SeekHead entry and the Cues
+  });
+
+  it('should keep laced blocks and compressed headers of Matroska sources', () => {
+    const laced: MediaTrack = {
+      type: 'audio',
+      codec_id: 'A_VORBIS',
+      codec_private: Buffer.from([2, 1, 1, 0x61, 0x62, 0x63]),
+      language: 'fre',
+      name: null,
+      default: true,
+      frame_duration_ns: null,
+      content_encodings: Buffer.from([0x62, 0x40, 0x80]),
+      audio: { sample_rate: 44100, channels: 2, bit_depth: null },
+      frames: [
+        { time_ms: 0, keyframe: true, lacing: 0x02, data: Buffer.from([1, 4, 9, 9, 9, 9, 9, 8, 8]) },
+        { time_ms: 30, keyframe: true, data: Buffer.from([7, 7, 7]) }
+      ]
+    };
+
+    const [track] = demux(writeMatroska([laced], 60))!;
+
+    expect(track.content_encodings).toEqual(laced.content_encodings!);
+    expect(track.codec_private).toEqual(laced.codec_private);
+    expect(track.frames).toEqual(laced.frames);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import { backoffDelayMs, defaultRetryPolicy, loadRetryPolicies } from '../pipeline/retry';
+
+describe('retry policy', () => {
+  it('should use the defaults without configuration', () => {
+    const resolve = loadRetryPolicies({});
+
+    expect(resolve('transcribe')).toEqual(defaultRetryPolicy);
+  });
+
+  it('should apply global and per-stage settings', () => {
+    const resolve = loadRetryPolicies({
+      RETRY_MAX_ATTEMPTS: '5',
+      RETRY_BACKOFF_MS: '1000',
+      RETRY_TRANSCRIBE_MAX_ATTEMPTS: '1'
+    });
+
+    expect(resolve('translate').max_attempts).toEqual(5);
+    expect(resolve('translate').backoff_ms).toEqual(1000);
+    expect(resolve('transcribe').max_attempts).toEqual(1);
+    expect(resolve('transcribe').backoff_ms).toEqual(1000);
+  });
+
+  it('should ignore invalid values and allow at least one attempt', () => {
+    const resolve = loadRetryPolicies({ RETRY_MAX_ATTEMPTS: '0', RETRY_BACKOFF_MS: 'soon' });
+
+    expect(resolve('mux').max_attempts).toEqual(1);
+    expect(resolve('mux').backoff_ms).toEqual(defaultRetryPolicy.backoff_ms);
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const policy = { max_attempts: 10, backoff_ms: 1000, backoff_factor: 2, max_backoff_ms: 5000 };
+
+    expect(backoffDelayMs(policy, 1)).toEqual(1000);
+    expect(backoffDelayMs(policy, 2)).toEqual(2000);
+    expect(backoffDelayMs(policy, 3)).toEqual(4000);
+    expect(backoffDelayMs(policy, 4)).toEqual(5000);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable, jobStagesTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { retryTranslationJob } from '../handlers/retry_translation_job';
+import { asc, eq } from 'drizzle-orm';
+
+const createTestJob = async (status: TranslationStatus, extra: Partial<typeof translationJobsTable.$inferInsert> = {}) => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'retry.mp4',
+      original_file_path: '/uploads/retry.mp4',
+      target_language: 'it',
+      status,
+      ...extra
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('retryTranslationJob', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should make a failed job claimable again', async () => {
+    const job = await createTestJob('failed', { error_message: 'synthesize: Timeout' });
+
+    const result = await retryTranslationJob({ id: job.id });
+
+    expect(result.status).toEqual('retrying');
+    expect(result.error_message).toBeNull();
+    expect(result.next_attempt_at).toBeInstanceOf(Date);
+    expect(result.next_attempt_at!.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should retry a cancelled job', async () => {
+    const job = await createTestJob('cancelled');
+
+    const result = await retryTranslationJob({ id: job.id });
+
+    expect(result.status).toEqual('retrying');
+  });
+
+  it('should keep completed stages and reset the rest', async () => {
+    const job = await createTestJob('failed', { error_message: 'translate: Timeout' });
+    await db.insert(jobStagesTable)
+      .values([
+        { job_id: job.id, name: 'transcribe', position: 0, state: 'completed', percent: 100, attempts: 1, output: { audio: '/a.wav' } },
+        { job_id: job.id, name: 'translate', position: 1, state: 'failed', percent: 40, attempts: 3, started_at: new Date(), finished_at: new Date() },
+        { job_id: job.id, name: 'synthesize', position: 2, state: 'pending' }
+      ])
+      .execute();
+
+    await retryTranslationJob({ id: job.id });
+
+    const stages = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+
+    expect(stages[0].state).toEqual('completed');
+    expect(stages[0].attempts).toEqual(1);
+    expect(stages[0].output).toEqual({ audio: '/a.wav' });
+    expect(stages[1].state).toEqual('pending');
+    expect(stages[1].attempts).toEqual(0);
+    expect(stages[1].percent).toEqual(0);
+    expect(stages[1].started_at).toBeNull();
+  });
+
+  it('should refuse while a cancelled job is still running a stage', async () => {
+    const job = await createTestJob('cancelled', { heartbeat_at: new Date() });
+    await db.insert(jobStagesTable)
+      .values({ job_id: job.id, name: 'transcribe', position: 0, state: 'running' })
+      .execute();
+
+    await expect(retryTranslationJob({ id: job.id })).rejects.toThrow(/still stopping/);
+  });
+
+  it('should retry a cancelled job whose worker died mid-stage', async () => {
+    const job = await createTestJob('cancelled', { heartbeat_at: new Date(Date.now() - 10 * 60_000) });
+    await db.insert(jobStagesTable)
+      .values({ job_id: job.id, name: 'transcribe', position: 0, state: 'running', attempts: 1, started_at: new Date() })
+      .execute();
+
+    const result = await retryTranslationJob({ id: job.id });
+
+    expect(result.status).toEqual('retrying');
+    const [stage] = await db.select().from(jobStagesTable).where(eq(jobStagesTable.job_id, job.id)).execute();
+    expect(stage.state).toEqual('pending');
+    expect(stage.attempts).toEqual(0);
+  });
+
+  it('should reject retrying a completed job', async () => {
+    const job = await createTestJob('completed', { translated_file_path: '/outputs/videos/done.mp4' });
+
+    await expect(retryTranslationJob({ id: job.id })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should throw for a non-existent job', async () => {
+    await expect(retryTranslationJob({ id: 99999 })).rejects.toThrow(/not found/i);
+  });
+});
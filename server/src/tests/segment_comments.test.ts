@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { translationJobsTable } from '../db/schema';
+import { addSegmentComment } from '../handlers/add_segment_comment';
+import { getSegmentComments } from '../handlers/get_segment_comments';
+import { getSegments, saveSegments } from '../pipeline/segments';
+
+const createTestJob = async () => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'comments.mp4',
+      original_file_path: '/uploads/comments.mp4',
+      target_language: 'it',
+      status: 'awaiting_review',
+      requires_review: true
+    })
+    .returning()
+    .execute();
+
+  await saveSegments(result[0].id, [0, 1000].map(start_ms => ({
+    start_ms,
+    end_ms: start_ms + 1000,
+    speaker: null,
+    source_text: `Line at ${start_ms}.`,
+    translated_text: `Riga a ${start_ms}.`,
+    confidence: null
+  })));
+  return { job: result[0], segments: await getSegments(result[0].id) };
+};
+
+describe('segment comments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add a comment to a segment of the job', async () => {
+    const { job, segments } = await createTestJob();
+
+    const result = await addSegmentComment({ segment_id: segments[1].id, author: 'Giulia', body: 'Use "battuta" here.' });
+
+    expect(result).toMatchObject({ job_id: job.id, segment_id: segments[1].id, author: 'Giulia', body: 'Use "battuta" here.' });
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should list the comments of a job oldest first', async () => {
+    const { job, segments } = await createTestJob();
+    const other = await createTestJob();
+    await addSegmentComment({ segment_id: segments[0].id, body: 'First.' });
+    await addSegmentComment({ segment_id: segments[1].id, body: 'Second.' });
+    await addSegmentComment({ segment_id: other.segments[0].id, body: 'Elsewhere.' });
+
+    const result = await getSegmentComments({ job_id: job.id });
+
+    expect(result.map(comment => [comment.segment_id, comment.body, comment.author])).toEqual([
+      [segments[0].id, 'First.', null],
+      [segments[1].id, 'Second.', null]
+    ]);
+  });
+
+  it('should throw for a non-existent segment', async () => {
+    await expect(addSegmentComment({ segment_id: 99999, body: 'Hello?' })).rejects.toThrow(/not found/i);
+  });
+});
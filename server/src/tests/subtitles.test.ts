@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'bun:test';
+import { layoutCues, unwrapText, wrapRulesFor, wrapText } from '../subtitles/wrap';
+import { formatSrt, parseSrt } from '../subtitles/srt';
+import { formatVtt, parseVtt } from '../subtitles/vtt';
+import { formatAss, parseAss } from '../subtitles/ass';
+import { detectSubtitleFormat, renderSubtitles, subtitleCodecs } from '../subtitles/formats';
+import { importSubtitles } from '../subtitles/import';
+import { type SubtitleCue } from '../subtitles/types';
+import { subtitleFormatSchema } from '../schema';
+
+const cues: SubtitleCue[] = [
+  { start_ms: 0, end_ms: 2500, text: 'Welcome to the show.', speaker: null },
+  { start_ms: 2500, end_ms: 6120, text: 'Tonight we talk about\nsubtitles & <tags>, {braces}, commas.', speaker: 'Host' },
+  { start_ms: 3_723_456, end_ms: 3_725_000, text: 'Over an hour in.', speaker: null }
+];
+
+describe('wrapText', () => {
+  it('should keep short lines as they are', () => {
+    expect(wrapText('Hello there.', wrapRulesFor('en'))).toEqual(['Hello there.']);
+  });
+
+  it('should balance two lines within 42 characters', () => {
+    const lines = wrapText('This sentence is a little too long to fit on one subtitle line.', wrapRulesFor('en'));
+
+    expect(lines).toEqual(['This sentence is a little too', 'long to fit on one subtitle line.']);
+    lines.forEach(line => expect(line.length).toBeLessThanOrEqual(42));
+  });
+
+  it('should cut words longer than a line', () => {
+    const lines = wrapText('a'.repeat(50), wrapRulesFor('en'));
+
+    expect(lines.map(line => line.length)).toEqual([42, 8]);
+  });
+
+  it('should break Chinese text between characters at 16 per line', () => {
+    const lines = wrapText('今天我们来讨论一下字幕的换行规则以及它们的重要性', wrapRulesFor('zh'));
+
+    expect(lines).toEqual(['今天我们来讨论一下字幕的', '换行规则以及它们的重要性']);
+  });
+
+  it('should not start a Japanese line with closing punctuation', () => {
+    const lines = wrapText('これは字幕の改行のテストです。句読点が行頭に来ないようにします', wrapRulesFor('ja'));
+
+    lines.slice(1).forEach(line => expect('、。」'.includes(line[0])).toBe(false));
+    expect(lines.join('')).toEqual('これは字幕の改行のテストです。句読点が行頭に来ないようにします');
+  });
+
+  it('should keep Latin words whole inside CJK text', () => {
+    const lines = wrapText('新しいiPhoneのカメラについて詳しく説明します', wrapRulesFor('ja'));
+
+    expect(lines.some(line => line.includes('iPhone'))).toBe(true);
+  });
+
+  it('should wrap Korean at spaces', () => {
+    const lines = wrapText('자막 줄바꿈 규칙을 확인하는 테스트 문장입니다', wrapRulesFor('ko'));
+
+    expect(lines).toEqual(['자막 줄바꿈 규칙을', '확인하는 테스트 문장입니다']);
+  });
+
+  it('should undo wrapping per script', () => {
+    expect(unwrapText('Tonight we talk\nabout subtitles', wrapRulesFor('en'))).toEqual('Tonight we talk about subtitles');
+    expect(unwrapText('今天我们\n来讨论', wrapRulesFor('zh'))).toEqual('今天我们来讨论');
+  });
+});
+
+describe('layoutCues', () => {
+  it('should split cues with more than two lines and share out the time', () => {
+    const text = 'One two three four five six seven eight nine ten. '.repeat(3).trim();
+
+    const result = layoutCues([{ start_ms: 1000, end_ms: 10_000, text }], wrapRulesFor('en'));
+
+    expect(result.length).toBeGreaterThan(1);
+    result.forEach(cue => expect(cue.text.split('\n').length).toBeLessThanOrEqual(2));
+    expect(result[0].start_ms).toEqual(1000);
+    expect(result[result.length - 1].end_ms).toEqual(10_000);
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].start_ms).toEqual(result[i - 1].end_ms);
+    }
+  });
+
+  it('should drop cues without text', () => {
+    expect(layoutCues([{ start_ms: 0, end_ms: 100, text: '  ' }], wrapRulesFor('en'))).toEqual([]);
+  });
+});
+
+describe('SRT', () => {
+  it('should write numbered cues with comma timestamps', () => {
+    expect(formatSrt(cues.slice(0, 1))).toEqual('1\n00:00:00,000 --> 00:00:02,500\nWelcome to the show.\n');
+    expect(formatSrt(cues)).toContain('3\n01:02:03,456 --> 01:02:05,000\n');
+  });
+
+  it('should round-trip cues', () => {
+    expect(parseSrt(formatSrt(cues))).toEqual(cues.map(({ speaker: _, ...cue }) => cue));
+  });
+
+  it('should tolerate a BOM, CRLF, missing numbers and formatting tags', () => {
+    const content = '﻿00:00:01,000 --> 00:00:02,000\r\n<i>Hello</i>\r\n\r\n\r\n2\r\n00:00:03,5 --> 00:00:04,000 X1:0\r\n<font color="red">World</font>\r\n';
+
+    expect(parseSrt(content)).toEqual([
+      { start_ms: 1000, end_ms: 2000, text: 'Hello' },
+      { start_ms: 3500, end_ms: 4000, text: 'World' }
+    ]);
+  });
+
+  it('should mark right-to-left lines for Arabic', () => {
+    const srt = formatSrt([{ start_ms: 0, end_ms: 1000, text: 'مرحبا!\nكيف حالك؟' }], { language: 'ar' });
+
+    expect(srt).toContain('‏مرحبا!\n‏كيف حالك؟');
+    expect(parseSrt(srt)[0].text).toEqual('مرحبا!\nكيف حالك؟');
+  });
+});
+
+describe('WebVTT', () => {
+  it('should write a header, dot timestamps, escaped text and voice spans', () => {
+    const vtt = formatVtt(cues, { language: 'en' });
+
+    expect(vtt).toStartWith('WEBVTT\nLanguage: en\n\n00:00:00.000 --> 00:00:02.500\nWelcome to the show.\n');
+    expect(vtt).toContain('<v Host>Tonight we talk about\nsubtitles &amp; &lt;tags&gt;');
+  });
+
+  it('should round-trip cues and speakers', () => {
+    expect(parseVtt(formatVtt(cues))).toEqual(cues);
+  });
+
+  it('should skip notes, styles and cue settings', () => {
+    const content = [
+      'WEBVTT - captions',
+      'NOTE written by hand',
+      'STYLE\n::cue { color: yellow }',
+      'intro\n00:01.000 --> 00:02.500 align:start position:10%\n<b>Hi</b> &amp; welcome'
+    ].join('\n\n');
+
+    expect(parseVtt(content)).toEqual([{ start_ms: 1000, end_ms: 2500, text: 'Hi & welcome', speaker: null }]);
+  });
+
+  it('should reject files without the header', () => {
+    expect(() => parseVtt('00:01.000 --> 00:02.000\nHi')).toThrow(/WEBVTT header/);
+  });
+});
+
+describe('ASS', () => {
+  it('should write a script with a style and dialogue events', () => {
+    const ass = formatAss(cues, { language: 'ja' });
+
+    expect(ass).toContain('[Script Info]\nScriptType: v4.00+');
+    expect(ass).toContain('Style: Default,Noto Sans CJK JP,');
+    expect(ass).toContain('Dialogue: 0,0:00:00.00,0:00:02.50,Default,,0,0,0,,Welcome to the show.');
+    expect(ass).toContain('Dialogue: 0,1:02:03.46,1:02:05.00,Default,,0,0,0,,Over an hour in.');
+    expect(ass).toContain('Tonight we talk about\\Nsubtitles & <tags>, \\{braces\\}, commas.');
+  });
+
+  it('should round-trip cues at centisecond precision', () => {
+    const parsed = parseAss(formatAss(cues));
+
+    expect(parsed.map(cue => cue.text)).toEqual(cues.map(cue => cue.text));
+    expect(parsed.map(cue => cue.speaker)).toEqual([null, 'Host', null]);
+    expect(parsed.map(cue => cue.start_ms)).toEqual([0, 2500, 3_723_460]);
+  });
+
+  it('should drop override tags and follow the Format line', () => {
+    const content = [
+      '[Events]',
+      'Format: Layer, Start, End, Style, Actor, MarginL, MarginR, MarginV, Effect, Text',
+      'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\an8\\i1}Top, then\\Nbottom'
+    ].join('\n');
+
+    expect(parseAss(content)).toEqual([{ start_ms: 1000, end_ms: 2000, text: 'Top, then\nbottom', speaker: null }]);
+  });
+});
+
+describe('renderSubtitles', () => {
+  it('should wrap by the language rules and round-trip in every format', () => {
+    const long = [{ start_ms: 0, end_ms: 4000, text: 'This sentence is a little too long to fit on one subtitle line.' }];
+
+    for (const format of subtitleFormatSchema.options) {
+      const rendered = renderSubtitles(format, long, 'en');
+      const parsed = subtitleCodecs[format].parse(rendered);
+
+      expect(parsed.map(cue => cue.text)).toEqual(['This sentence is a little too\nlong to fit on one subtitle line.']);
+      expect(renderSubtitles(format, parsed, 'en')).toEqual(rendered);
+    }
+  });
+});
+
+describe('importSubtitles', () => {
+  it('should detect the format from the content', () => {
+    expect(detectSubtitleFormat(formatVtt(cues, { language: 'en' }))).toEqual('vtt');
+    expect(detectSubtitleFormat(formatAss(cues, { language: 'en' }))).toEqual('ass');
+    expect(detectSubtitleFormat(formatSrt(cues))).toEqual('srt');
+  });
+
+  it('should turn cues into segments with their line breaks undone', () => {
+    const imported = importSubtitles({ content: formatSrt(cues), language: 'en' });
+
+    expect(imported.language).toEqual('en');
+    expect(imported.segments).toHaveLength(3);
+    expect(imported.segments[1]).toEqual({
+      start_ms: 2500,
+      end_ms: 6120,
+      speaker: null,
+      source_text: 'Tonight we talk about subtitles & <tags>, {braces}, commas.',
+      translated_text: null,
+      confidence: null
+    });
+  });
+
+  it('should take the language and speakers declared in the file', () => {
+    const imported = importSubtitles({ content: formatVtt(cues, { language: 'de' }).replace('Language: de', 'Language: de-AT') });
+
+    expect(imported.language).toEqual('de');
+    expect(imported.segments[1].speaker).toEqual('Host');
+  });
+
+  it('should order cues by start time', () => {
+    const content = '2\n00:00:05,000 --> 00:00:06,000\nSecond\n\n1\n00:00:01,000 --> 00:00:02,000\nFirst\n';
+
+    const imported = importSubtitles({ content, language: 'en' });
+
+    expect(imported.segments.map(segment => segment.source_text)).toEqual(['First', 'Second']);
+  });
+
+  it('should require a language when the file does not declare one', () => {
+    expect(() => importSubtitles({ content: formatSrt(cues) })).toThrow(/language is not declared/);
+  });
+
+  it('should reject files without cues or with the wrong format', () => {
+    expect(() => importSubtitles({ content: 'just some text', language: 'en' })).toThrow(/no cues found in the SRT file/);
+    expect(() => importSubtitles({ content: formatSrt(cues), format: 'vtt', language: 'en' })).toThrow(/Invalid subtitles: Not a WebVTT file/);
+  });
+});
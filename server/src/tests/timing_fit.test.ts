@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import { defaultTimingConfig, loadTimingConfig, planFit } from '../timing/fit';
+import { timeStretch, trimSilence } from '../media/stretch';
+import { type PcmAudio } from '../media/wav';
+
+const tone = (durationMs: number, silenceMs = 0): PcmAudio => {
+  const rate = 16000;
+  const padding = Math.round((silenceMs * rate) / 1000);
+  const length = Math.round((durationMs * rate) / 1000);
+  const samples = new Int16Array(padding * 2 + length);
+  for (let i = 0; i < length; i++) {
+    samples[padding + i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / rate) * 8000);
+  }
+  return { samples, sample_rate: rate, channels: 1 };
+};
+
+describe('timing fit planning', () => {
+  it('should leave speech that fits as it is', () => {
+    expect(planFit([{ start_ms: 1000, end_ms: 3000, duration_ms: 1800 }], 5000)).toEqual([
+      { rate: 1, start_ms: 1000, end_ms: 2800, overrun_ms: 0 }
+    ]);
+  });
+
+  it('should speed up long speech within the bound', () => {
+    const [fit] = planFit([{ start_ms: 0, end_ms: 2000, duration_ms: 2200 }], 2000);
+
+    expect(fit).toEqual({ rate: 1.1, start_ms: 0, end_ms: 2000, overrun_ms: 0 });
+  });
+
+  it('should borrow the gap after and then the gap before a segment', () => {
+    const fits = planFit([
+      { start_ms: 0, end_ms: 1000, duration_ms: 800 },
+      { start_ms: 1500, end_ms: 2500, duration_ms: 2000 },
+      { start_ms: 3000, end_ms: 4000, duration_ms: 900 }
+    ], 4000);
+
+    // 2000 ms at 1.25x is 1600 ms: 400 ms are taken after (up to the
+    // 100 ms pause before the next line) and 200 ms before
+    expect(fits[1]).toEqual({ rate: 1.25, start_ms: 1300, end_ms: 2900, overrun_ms: 0 });
+    expect(fits[0].overrun_ms).toBe(0);
+    expect(fits[2]).toEqual({ rate: 1, start_ms: 3000, end_ms: 3900, overrun_ms: 0 });
+  });
+
+  it('should report what still does not fit as an overrun', () => {
+    const fits = planFit([
+      { start_ms: 0, end_ms: 1000, duration_ms: 3000 },
+      { start_ms: 1000, end_ms: 2000, duration_ms: 500 }
+    ], 2000);
+
+    expect(fits[0]).toEqual({ rate: 1.25, start_ms: 0, end_ms: 2400, overrun_ms: 1400 });
+    expect(fits[1].overrun_ms).toBe(0);
+  });
+
+  it('should let the last segment run to the end of the media', () => {
+    const [fit] = planFit([{ start_ms: 0, end_ms: 1000, duration_ms: 2000 }], 1500);
+
+    expect(fit).toEqual({ rate: 1.25, start_ms: 0, end_ms: 1600, overrun_ms: 100 });
+  });
+
+  it('should read the bounds from the environment', () => {
+    expect(loadTimingConfig({})).toEqual(defaultTimingConfig);
+    expect(loadTimingConfig({ TIMING_MAX_RATE: '1.5', TIMING_MIN_GAP_MS: '40' })).toEqual({ max_rate: 1.5, min_gap_ms: 40 });
+    expect(loadTimingConfig({ TIMING_MAX_RATE: '9', TIMING_MIN_GAP_MS: '-5' })).toEqual({ max_rate: 2, min_gap_ms: 0 });
+  });
+});
+
+describe('speech fitting', () => {
+  it('should trim leading and trailing silence', () => {
+    const trimmed = trimSilence(tone(500, 200));
+
+    expect(trimmed.samples.length).toBeGreaterThan(7900);
+    expect(trimmed.samples.length).toBeLessThanOrEqual(8000);
+    expect(trimSilence(tone(0, 100)).samples.length).toBe(0);
+  });
+
+  it('should shorten speech by the rate and keep it audible', () => {
+    const stretched = timeStretch(tone(2000), 1.25);
+
+    expect(stretched.samples.length).toBe(25600);
+    expect(stretched.sample_rate).toBe(16000);
+    const peak = stretched.samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+    expect(peak).toBeGreaterThan(6000);
+  });
+
+  it('should return speech unchanged at rate 1', () => {
+    const audio = tone(300);
+
+    expect(timeStretch(audio, 1)).toBe(audio);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test';
+import { candidateLengths, editDistance, normalizeSegment, similarity } from '../memory/fuzzy';
+import { parseTmx, renderTmx } from '../memory/tmx';
+
+describe('translation memory matching', () => {
+  it('should normalize case, spacing and Unicode form', () => {
+    expect(normalizeSegment('  Hello,\n  WORLD ')).toEqual('hello, world');
+    expect(normalizeSegment('Ｃａｆé')).toEqual(normalizeSegment('café'));
+  });
+
+  it('should measure edit distance over code points', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('東京へ', '東京で')).toBe(1);
+    // Past the limit only the excess is known
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+
+  it('should score similarity as a floored percentage', () => {
+    expect(similarity('hello world', 'hello world')).toBe(100);
+    expect(similarity('hello world', 'hello words')).toBe(81);
+    expect(similarity('abc', 'xyz')).toBe(0);
+    expect(similarity('hello world', 'hello words', 80)).toBe(81);
+    expect(similarity('hello world', 'help wanted', 80)).toBeLessThan(80);
+  });
+
+  it('should bound the lengths that can reach a threshold', () => {
+    expect(candidateLengths(20, 75)).toEqual({ min: 15, max: 26 });
+  });
+});
+
+describe('TMX', () => {
+  const document = `<?xml version="1.0"?>
+<tmx version="1.4">
+  <header srclang="en-US" segtype="sentence"/>
+  <body>
+    <tu>
+      <tuv xml:lang="en-US"><seg>Press <bpt i="1">&lt;b&gt;</bpt>Start<ept i="1">&lt;/b&gt;</ept> &amp; wait</seg></tuv>
+      <tuv xml:lang="es-ES"><seg>Pulsa Start y espera</seg></tuv>
+      <tuv lang="de"><seg><![CDATA[Drücke <Start>]]></seg></tuv>
+    </tu>
+    <tu srclang="fr">
+      <tuv xml:lang="fr"><seg>Bonjour</seg></tuv>
+      <tuv xml:lang="en"><seg>Hello</seg></tuv>
+    </tu>
+    <tu>
+      <tuv xml:lang="en"><seg>Only one side</seg></tuv>
+    </tu>
+    <tu>
+      <tuv xml:lang="en"><seg>Yes</seg></tuv>
+      <tuv xml:lang="tlh"><seg>HIja'</seg></tuv>
+    </tu>
+  </body>
+</tmx>`;
+
+  it('should pair source variants with every translation', () => {
+    const result = parseTmx(document);
+
+    expect(result.units).toEqual([
+      { source_language: 'en', target_language: 'es', source_text: 'Press Start & wait', target_text: 'Pulsa Start y espera' },
+      { source_language: 'en', target_language: 'de', source_text: 'Press Start & wait', target_text: 'Drücke <Start>' },
+      { source_language: 'fr', target_language: 'en', source_text: 'Bonjour', target_text: 'Hello' }
+    ]);
+    // One unit has no translation, the other only an unsupported language
+    expect(result.skipped).toBe(2);
+  });
+
+  it('should use every ordered pair when any variant can be the source', () => {
+    const result = parseTmx(`<tmx version="1.4"><header srclang="*all*"/><body>
+      <tu><tuv xml:lang="en"><seg>Yes</seg></tuv><tuv xml:lang="es"><seg>Sí</seg></tuv></tu>
+    </body></tmx>`);
+
+    expect(result.units.map(unit => `${unit.source_language}>${unit.target_language}`)).toEqual(['en>es', 'es>en']);
+  });
+
+  it('should reject documents that are not TMX', () => {
+    expect(() => parseTmx('<xliff version="1.2"></xliff>')).toThrow(/Invalid TMX/);
+    expect(() => parseTmx('<tmx version="1.4"><header/></tmx>')).toThrow(/no <body>/);
+  });
+
+  it('should render units that read back unchanged', () => {
+    const units = [
+      { source_language: 'en' as const, target_language: 'es' as const, source_text: 'Tom & "Jerry" <3', target_text: 'Tom y "Jerry" <3' },
+      { source_language: 'fr' as const, target_language: 'en' as const, source_text: 'Oui', target_text: 'Yes' }
+    ];
+
+    const content = renderTmx(units.map(unit => ({ ...unit, updated_at: new Date('2024-01-31T12:00:00.123Z') })));
+
+    expect(content).toContain('srclang="*all*"');
+    expect(content).toContain('changedate="20240131T120000Z"');
+    expect(parseTmx(content)).toEqual({ units, skipped: 0 });
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobStagesTable, translationJobsTable } from '../db/schema';
+import { uploadVideo } from '../handlers/upload_video';
+import { updateProject } from '../handlers/update_project';
+import { getProject } from '../handlers/get_project';
+import { saveSegments } from '../pipeline/segments';
+import { buildNextCombinedOutput } from '../projects/combined';
+import { demux } from '../media/remux';
+import { encodeWav } from '../media/wav';
+import { readBlob } from '../storage/blobs';
+import { getBlobStore } from '../storage/registry';
+import { type TranslationJob } from '../schema';
+import { buildAvi, buildMp4 } from '../helpers/media';
+import { rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { eq } from 'drizzle-orm';
+
+const uploadProject = async (fileData = buildMp4({ duration_ms: 2000, samples: true })) => {
+  const upload = await uploadVideo({
+    filename: 'lecture.mp4',
+    file_data: fileData.toString('base64'),
+    target_languages: ['es', 'fr']
+  });
+  return { projectId: upload.project_id!, jobs: upload.jobs };
+};
+
+// What the mix stage leaves behind: the dubbed track and its stage output,
+// on a job that ends in the given status
+const mixDub = async (job: TranslationJob, status: TranslationJob['status'] = 'completed') => {
+  const path = `/outputs/audio/${job.id}_${job.target_language}.wav`;
+  await getBlobStore().put(path, encodeWav(new Int16Array(2 * 48000 * 2), 48000, 2));
+  await db.insert(jobStagesTable)
+    .values({ job_id: job.id, name: 'mix', position: 0, state: 'completed', output: { dubbed_audio: path } })
+    .execute();
+  await db.update(translationJobsTable)
+    .set({ status, translated_file_path: `/outputs/videos/${job.id}.mkv`, error_message: status === 'failed' ? 'mux: failed' : null })
+    .where(eq(translationJobsTable.id, job.id))
+    .execute();
+};
+
+describe('updateProject', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should switch a project to a combined file', async () => {
+    const { projectId } = await uploadProject();
+    expect((await getProject({ id: projectId }))!.output_mode).toEqual('separate');
+
+    const project = await updateProject({ id: projectId, output_mode: 'combined' });
+
+    expect(project.output_mode).toEqual('combined');
+    expect(project.embed_subtitles).toBe(false);
+    // Queued for the worker, which has nothing to combine yet
+    expect(project.combined_revision).toBeGreaterThan(project.combined_built_revision);
+    const built = (await buildNextCombinedOutput())!;
+    expect(built.combined_built_revision).toEqual(project.combined_revision);
+    expect(built.combined_file_path).toBeNull();
+    expect(built.combined_languages).toEqual([]);
+    expect(await buildNextCombinedOutput()).toBeNull();
+  });
+
+  it('should combine the languages that are already dubbed', async () => {
+    const { projectId, jobs } = await uploadProject();
+    await mixDub(jobs[0]);
+    await saveSegments(jobs[0].id, [
+      { start_ms: 0, end_ms: 900, speaker: null, source_text: 'Hello.', translated_text: 'Hola.', confidence: null }
+    ]);
+    // Not translated yet: no subtitles for it
+    await saveSegments(jobs[1].id, [
+      { start_ms: 0, end_ms: 900, speaker: null, source_text: 'Hello.', translated_text: null, confidence: null }
+    ]);
+
+    await updateProject({ id: projectId, output_mode: 'combined', embed_subtitles: true });
+    const project = (await buildNextCombinedOutput())!;
+
+    expect(project.combined_file_path).toMatch(new RegExp(`^/outputs/projects/${projectId}/[0-9a-f-]+/lecture_dubbed\\.mkv$`));
+    expect(project.combined_languages).toEqual(['es']);
+    expect(project.combined_error).toBeNull();
+    const tracks = demux(await readBlob(getBlobStore(), project.combined_file_path!))!;
+    expect(tracks.map(track => [track.type, track.codec_id, track.language, track.name, track.default])).toEqual([
+      ['video', 'V_MPEG4/ISO/AVC', 'und', null, true],
+      ['audio', 'A_AAC', 'eng', 'Original', true],
+      ['audio', 'A_PCM/INT/LIT', 'spa', 'Spanish (dubbed)', false],
+      ['subtitle', 'S_TEXT/UTF8', 'und', null, false],
+      ['subtitle', 'S_TEXT/UTF8', 'spa', 'Spanish', false]
+    ]);
+    expect(tracks[4].frames.map(frame => frame.data.toString('utf8'))).toEqual(['Hola.']);
+  });
+
+  it('should leave out languages whose jobs did not complete', async () => {
+    const { projectId, jobs } = await uploadProject();
+    await mixDub(jobs[0]);
+    await mixDub(jobs[1], 'failed');
+    await updateProject({ id: projectId, output_mode: 'combined' });
+
+    const project = (await buildNextCombinedOutput())!;
+
+    expect(project.combined_languages).toEqual(['es']);
+  });
+
+  it('should replace the previous file when the project is rebuilt', async () => {
+    const { projectId, jobs } = await uploadProject();
+    await mixDub(jobs[0]);
+    await updateProject({ id: projectId, output_mode: 'combined' });
+    const first = (await buildNextCombinedOutput())!;
+
+    await updateProject({ id: projectId, embed_subtitles: true });
+    const second = (await buildNextCombinedOutput())!;
+
+    expect(second.combined_file_path).not.toEqual(first.combined_file_path);
+    expect(await getBlobStore().stat(first.combined_file_path!)).toBeNull();
+    expect(await getBlobStore().stat(second.combined_file_path!)).not.toBeNull();
+  });
+
+  it('should record a failed build and keep the previous file', async () => {
+    const { projectId, jobs } = await uploadProject();
+    await mixDub(jobs[0]);
+    await updateProject({ id: projectId, output_mode: 'combined' });
+    const first = (await buildNextCombinedOutput())!;
+    await mixDub(jobs[1]);
+    await getBlobStore().put(`/outputs/audio/${jobs[1].id}_fr.wav`, Buffer.from('not a wav'));
+
+    await updateProject({ id: projectId, embed_subtitles: true });
+    const failed = (await buildNextCombinedOutput())!;
+
+    expect(failed.combined_error).toMatch(/the fr track is not 16-bit PCM WAV/);
+    expect(failed.combined_file_path).toEqual(first.combined_file_path);
+    expect(failed.combined_languages).toEqual(['es']);
+    expect(failed.combined_built_revision).toEqual(failed.combined_revision);
+  });
+
+  it('should not rebuild for separate files', async () => {
+    const { projectId, jobs } = await uploadProject();
+    await mixDub(jobs[0]);
+
+    const project = await updateProject({ id: projectId, embed_subtitles: true });
+
+    expect(project.combined_revision).toEqual(0);
+    expect(await buildNextCombinedOutput()).toBeNull();
+  });
+
+  it('should refuse a combined file for AVI sources', async () => {
+    const { projectId } = await uploadProject(buildAvi({ media_bytes: 32 }));
+
+    await expect(updateProject({ id: projectId, output_mode: 'combined' })).rejects.toThrow(/AVI sources cannot be combined/);
+    expect((await getProject({ id: projectId }))!.output_mode).toEqual('separate');
+    // Other settings can still change
+    expect((await updateProject({ id: projectId, embed_subtitles: true })).embed_subtitles).toBe(true);
+  });
+
+  it('should throw for unknown projects', async () => {
+    await expect(updateProject({ id: 999, output_mode: 'combined' })).rejects.toThrow(/Project 999 not found/);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { jobStagesTable, translationJobsTable, transcriptSegmentsTable } from '../db/schema';
+import { type TranslationStatus } from '../schema';
+import { updateSegment } from '../handlers/update_segment';
+import { getSegments, saveSegments, type SegmentDraft } from '../pipeline/segments';
+import { eq } from 'drizzle-orm';
+
+const createTestJob = async (status: TranslationStatus = 'completed') => {
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: 'edit.mp4',
+      original_file_path: '/uploads/edit.mp4',
+      target_language: 'de',
+      status,
+      translated_file_path: status === 'completed' ? '/outputs/videos/edit.mp4' : null
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const draft = (start_ms: number, source_text: string, translated_text: string): SegmentDraft => ({
+  start_ms,
+  end_ms: start_ms + 1000,
+  speaker: null,
+  source_text,
+  translated_text,
+  confidence: null,
+  audio_path: `/outputs/audio/1/segments/${start_ms}.wav`
+});
+
+const createSegments = async (jobId: number) => {
+  await saveSegments(jobId, [draft(0, 'Hello.', 'Hallo.'), draft(1000, 'Good bye.', 'Tschüss.'), draft(3000, 'See you.', 'Bis bald.')]);
+  return getSegments(jobId);
+};
+
+describe('updateSegment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should save a new translation and mark the segment for re-dubbing', async () => {
+    const job = await createTestJob();
+    const [first] = await createSegments(job.id);
+
+    const result = await updateSegment({ id: first.id, version: first.version, translated_text: 'Guten Tag.' });
+
+    expect(result.translated_text).toEqual('Guten Tag.');
+    expect(result.version).toEqual(first.version + 1);
+    expect(result.needs_redub).toBe(true);
+    expect(result.audio_path).toBeNull();
+
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.translated_transcript).toEqual('Guten Tag. Tschüss. Bis bald.');
+  });
+
+  it('should keep the audio when only the timing changes', async () => {
+    const job = await createTestJob();
+    const [, second] = await createSegments(job.id);
+
+    const result = await updateSegment({ id: second.id, version: second.version, start_ms: 1200, end_ms: 2800 });
+
+    expect(result).toMatchObject({ start_ms: 1200, end_ms: 2800, needs_redub: true, audio_path: second.audio_path });
+  });
+
+  it('should not need a re-dub for source text corrections', async () => {
+    const job = await createTestJob();
+    const [first] = await createSegments(job.id);
+
+    const result = await updateSegment({ id: first.id, version: first.version, source_text: 'Hello!' });
+
+    expect(result.needs_redub).toBe(false);
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.transcript).toEqual('Hello! Good bye. See you.');
+  });
+
+  it('should refuse edits based on a stale version', async () => {
+    const job = await createTestJob();
+    const [first] = await createSegments(job.id);
+    await updateSegment({ id: first.id, version: first.version, translated_text: 'Servus.' });
+
+    await expect(updateSegment({ id: first.id, version: first.version, translated_text: 'Moin.' }))
+      .rejects.toMatchObject({ code: 'CONFLICT', currentVersion: first.version + 1 });
+
+    const [saved] = await db.select().from(transcriptSegmentsTable).where(eq(transcriptSegmentsTable.id, first.id)).execute();
+    expect(saved.translated_text).toEqual('Servus.');
+  });
+
+  it('should leave the version alone when nothing changes', async () => {
+    const job = await createTestJob();
+    const [first] = await createSegments(job.id);
+
+    const result = await updateSegment({ id: first.id, version: first.version, translated_text: 'Hallo.' });
+
+    expect(result.version).toEqual(first.version);
+  });
+
+  it('should reject timings that end before they start or overlap a neighbour', async () => {
+    const job = await createTestJob();
+    const [, second] = await createSegments(job.id);
+
+    await expect(updateSegment({ id: second.id, version: second.version, end_ms: 900 }))
+      .rejects.toThrow(/must end after it starts/);
+    await expect(updateSegment({ id: second.id, version: second.version, start_ms: 800 }))
+      .rejects.toThrow(/would overlap segment/);
+    await expect(updateSegment({ id: second.id, version: second.version, end_ms: 3500 }))
+      .rejects.toThrow(/would overlap segment/);
+  });
+
+  it('should refuse edits while the job is being processed', async () => {
+    const processing = await createTestJob('processing');
+    const [first] = await createSegments(processing.id);
+
+    await expect(updateSegment({ id: first.id, version: first.version, translated_text: 'Tag.' }))
+      .rejects.toMatchObject({ code: 'CONFLICT' });
+
+    const cancelled = await createTestJob('cancelled');
+    await db.update(translationJobsTable).set({ heartbeat_at: new Date() }).where(eq(translationJobsTable.id, cancelled.id)).execute();
+    const [other] = await createSegments(cancelled.id);
+    await db.insert(jobStagesTable)
+      .values({ job_id: cancelled.id, name: 'synthesize', position: 0, state: 'running' })
+      .execute();
+
+    await expect(updateSegment({ id: other.id, version: other.version, translated_text: 'Tag.' }))
+      .rejects.toThrow(/while the job is being processed/);
+  });
+
+  it('should throw for a non-existent segment', async () => {
+    await expect(updateSegment({ id: 99999, version: 1, translated_text: 'Tag.' })).rejects.toThrow(/not found/i);
+  });
+});
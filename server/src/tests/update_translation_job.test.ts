@@ -1,13 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
-import { type UpdateTranslationJobInput, type CreateTranslationJobInput } from '../schema';
+import { translationJobsTable, jobEventsTable } from '../db/schema';
+import { type UpdateTranslationJobInput, type CreateTranslationJobInput, type TranslationStatus } from '../schema';
 import { updateTranslationJob } from '../handlers/update_translation_job';
 import { eq } from 'drizzle-orm';
 
 // Helper function to create a test translation job
-const createTestJob = async (overrides: Partial<CreateTranslationJobInput> = {}) => {
+const createTestJob = async (overrides: Partial<CreateTranslationJobInput> & { status?: TranslationStatus } = {}) => {
   const jobData = {
     original_filename: 'test_video.mp4',
     original_file_path: '/uploads/test_video.mp4',
@@ -77,7 +77,7 @@ describe('updateTranslationJob', () => {
   });
 
   it('should update file paths', async () => {
-    const createdJob = await createTestJob();
+    const createdJob = await createTestJob({ status: 'processing' });
     
     const updateInput: UpdateTranslationJobInput = {
       id: createdJob.id,
@@ -93,7 +93,7 @@ describe('updateTranslationJob', () => {
   });
 
   it('should update error message on failure', async () => {
-    const createdJob = await createTestJob();
+    const createdJob = await createTestJob({ status: 'processing' });
     
     const updateInput: UpdateTranslationJobInput = {
       id: createdJob.id,
@@ -109,7 +109,7 @@ describe('updateTranslationJob', () => {
   });
 
   it('should update multiple fields simultaneously', async () => {
-    const createdJob = await createTestJob();
+    const createdJob = await createTestJob({ status: 'processing' });
     
     const updateInput: UpdateTranslationJobInput = {
       id: createdJob.id,
@@ -143,7 +143,7 @@ describe('updateTranslationJob', () => {
   });
 
   it('should persist changes to database', async () => {
-    const createdJob = await createTestJob();
+    const createdJob = await createTestJob({ status: 'processing' });
     
     const updateInput: UpdateTranslationJobInput = {
       id: createdJob.id,
@@ -197,4 +197,88 @@ describe('updateTranslationJob', () => {
     expect(dbJob[0].transcript).toBeNull();
     expect(dbJob[0].error_message).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should reject reopening a completed job', async () => {
+    const createdJob = await createTestJob({ status: 'processing' });
+    await updateTranslationJob({
+      id: createdJob.id,
+      status: 'completed',
+      translated_file_path: '/outputs/videos/done.mp4'
+    });
+
+    await expect(updateTranslationJob({ id: createdJob.id, status: 'pending' }))
+      .rejects.toThrow(/cannot move translation job from completed to pending/i);
+
+    const dbJob = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, createdJob.id))
+      .execute();
+    expect(dbJob[0].status).toBe('completed');
+  });
+
+  it('should reject skipping the processing state', async () => {
+    const createdJob = await createTestJob();
+
+    await expect(updateTranslationJob({
+      id: createdJob.id,
+      status: 'completed',
+      translated_file_path: '/outputs/videos/done.mp4'
+    })).rejects.toMatchObject({ code: 'CONFLICT', from: 'pending', to: 'completed' });
+  });
+
+  it('should require an output path to complete a job', async () => {
+    const createdJob = await createTestJob({ status: 'processing' });
+
+    await expect(updateTranslationJob({ id: createdJob.id, status: 'completed' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', field: 'translated_file_path' });
+  });
+
+  it('should require an error message to fail a job', async () => {
+    const createdJob = await createTestJob({ status: 'processing' });
+
+    await expect(updateTranslationJob({ id: createdJob.id, status: 'failed' }))
+      .rejects.toThrow(/requires error_message/);
+  });
+
+  it('should allow retrying a failed job', async () => {
+    const createdJob = await createTestJob({ status: 'processing' });
+    await updateTranslationJob({ id: createdJob.id, status: 'failed', error_message: 'Boom' });
+
+    const result = await updateTranslationJob({ id: createdJob.id, status: 'retrying' });
+
+    expect(result!.status).toBe('retrying');
+  });
+
+  it('should record status transitions in the job history', async () => {
+    const createdJob = await createTestJob();
+
+    await updateTranslationJob({ id: createdJob.id, status: 'processing' });
+    await updateTranslationJob({ id: createdJob.id, transcript: 'No status change' });
+    await updateTranslationJob({ id: createdJob.id, status: 'cancelled' });
+
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, createdJob.id))
+      .orderBy(jobEventsTable.id)
+      .execute();
+
+    expect(events).toHaveLength(2);
+    expect(events[0].from_status).toBe('pending');
+    expect(events[0].to_status).toBe('processing');
+    expect(events[1].from_status).toBe('processing');
+    expect(events[1].to_status).toBe('cancelled');
+    expect(events[1].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should not record an event for a rejected transition', async () => {
+    const createdJob = await createTestJob();
+
+    await expect(updateTranslationJob({ id: createdJob.id, status: 'failed', error_message: 'x' })).rejects.toThrow();
+
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, createdJob.id))
+      .execute();
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { MIN_CHUNK_SIZE, type UploadRejection } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { uploadChunk } from '../handlers/upload_chunk';
+import { createRouter } from '../http/router';
+import { uploadRoutes } from '../http/uploads';
+import { createHash } from 'crypto';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { existsSync } from 'fs';
+import { readFile, rm } from 'fs/promises';
+
+const chunk = (length: number, fill: number) => Buffer.alloc(length, fill);
+
+// The first chunk must start with a video container header
+const ftyp = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypisom\0\0\x02\0isomiso2', 'latin1')]);
+const firstChunk = () => Buffer.concat([ftyp, chunk(MIN_CHUNK_SIZE - ftyp.length, 1)]);
+
+// What the router sends for a failed request
+interface ErrorBody {
+  error: string;
+  code: string;
+  upload_rejection: UploadRejection | null;
+}
+
+const createTestSession = () => createUploadSession({
+  filename: 'chunked.mp4',
+  size: MIN_CHUNK_SIZE * 2 + 100,
+  target_language: 'es',
+  chunk_size: MIN_CHUNK_SIZE
+});
+
+describe('uploadChunk', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should store a chunk and record its index', async () => {
+    const session = await createTestSession();
+    const data = chunk(MIN_CHUNK_SIZE, 1);
+
+    const result = await uploadChunk({ session_id: session.id, index: 1, data });
+
+    expect(result.received_chunks).toEqual([1]);
+    const stored = await readFile(`./storage/uploads/sessions/${session.id}/1.part`);
+    expect(stored.equals(data)).toBe(true);
+  });
+
+  it('should keep received chunks sorted and unique', async () => {
+    const session = await createTestSession();
+
+    await uploadChunk({ session_id: session.id, index: 2, data: chunk(100, 3) });
+    await uploadChunk({ session_id: session.id, index: 0, data: firstChunk() });
+    const result = await uploadChunk({ session_id: session.id, index: 2, data: chunk(100, 3) });
+
+    expect(result.received_chunks).toEqual([0, 2]);
+  });
+
+  it('should accept a matching checksum', async () => {
+    const session = await createTestSession();
+    const data = chunk(100, 7);
+    const checksum = createHash('sha256').update(data).digest('hex');
+
+    const result = await uploadChunk({ session_id: session.id, index: 2, data, checksum });
+
+    expect(result.received_chunks).toEqual([2]);
+  });
+
+  it('should reject a chunk whose checksum does not match', async () => {
+    const session = await createTestSession();
+
+    await expect(uploadChunk({
+      session_id: session.id,
+      index: 2,
+      data: chunk(100, 7),
+      checksum: '0'.repeat(64)
+    })).rejects.toThrow(/checksum mismatch/i);
+  });
+
+  it('should reject a first chunk that is not video', async () => {
+    const session = await createTestSession();
+
+    await expect(uploadChunk({ session_id: session.id, index: 0, data: chunk(MIN_CHUNK_SIZE, 1) }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE', rejection: { reason: 'unsupported_type' } });
+  });
+
+  it('should reject chunks of the wrong size', async () => {
+    const session = await createTestSession();
+
+    await expect(uploadChunk({ session_id: session.id, index: 0, data: chunk(100, 1) }))
+      .rejects.toThrow(/must be 262144 bytes/);
+  });
+
+  it('should reject out of range indexes', async () => {
+    const session = await createTestSession();
+
+    await expect(uploadChunk({ session_id: session.id, index: 3, data: chunk(100, 1) }))
+      .rejects.toThrow(/out of range/);
+  });
+
+  it('should reject unknown sessions', async () => {
+    await expect(uploadChunk({ session_id: 'missing', index: 0, data: chunk(1, 1) }))
+      .rejects.toThrow(/not found/);
+  });
+});
+
+describe('upload chunk route', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    await createDB();
+    const routes = createRouter(uploadRoutes);
+    server = createServer((req, res) => routes(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    }));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should accept a raw chunk body', async () => {
+    const session = await createTestSession();
+    const data = chunk(100, 9);
+
+    const response = await fetch(`${baseUrl}/uploads/${session.id}/chunks/2`, {
+      method: 'PUT',
+      headers: { 'X-Chunk-Checksum': createHash('sha256').update(data).digest('hex') },
+      body: data
+    });
+
+    expect(response.status).toEqual(200);
+    expect(await response.json()).toEqual({ received_chunks: [2], total_chunks: 3 });
+  });
+
+  it('should map handler errors to HTTP statuses', async () => {
+    const session = await createTestSession();
+
+    const wrongSize = await fetch(`${baseUrl}/uploads/${session.id}/chunks/0`, {
+      method: 'PUT',
+      body: chunk(10, 1)
+    });
+    const missing = await fetch(`${baseUrl}/uploads/missing/chunks/0`, {
+      method: 'PUT',
+      body: chunk(10, 1)
+    });
+
+    expect(wrongSize.status).toEqual(400);
+    expect(missing.status).toEqual(404);
+    const body = await missing.json() as ErrorBody;
+    expect(body.code).toEqual('NOT_FOUND');
+  });
+
+  it('should explain upload rejections', async () => {
+    const session = await createTestSession();
+
+    const response = await fetch(`${baseUrl}/uploads/${session.id}/chunks/0`, {
+      method: 'PUT',
+      body: chunk(MIN_CHUNK_SIZE, 1)
+    });
+
+    expect(response.status).toEqual(415);
+    const body = await response.json() as ErrorBody;
+    expect(body.upload_rejection?.reason).toEqual('unsupported_type');
+    expect(body.upload_rejection?.allowed_containers).toContain('mp4');
+  });
+
+  it('should pass other requests on', async () => {
+    const response = await fetch(`${baseUrl}/uploads/abc`, { method: 'GET' });
+
+    expect(response.status).toEqual(404);
+  });
+});
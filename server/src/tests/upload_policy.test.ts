@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test';
+import { sniffContainer } from '../media/sniff';
+import { assertFilename, assertUploadSize, assertVideoContent, loadUploadPolicy } from '../media/upload_policy';
+import { sanitizeFilename } from '../storage/paths';
+
+const ftyp = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}\0\0\0\0isom`, 'latin1')]);
+
+// EBML header: magic, header size, EBMLVersion 1, DocType
+const ebml = (docType: string) => Buffer.concat([
+  Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01, 0x42, 0x82, 0x80 | docType.length]),
+  Buffer.from(docType, 'ascii'),
+  Buffer.from([0x42, 0x87, 0x81, 0x04])
+]);
+
+describe('sniffContainer', () => {
+  it('should recognise ISO media files', () => {
+    expect(sniffContainer(ftyp('isom'))).toEqual('mp4');
+    expect(sniffContainer(ftyp('mp42'))).toEqual('mp4');
+    expect(sniffContainer(ftyp('qt  '))).toEqual('mov');
+  });
+
+  it('should recognise QuickTime files without an ftyp atom', () => {
+    const header = Buffer.concat([Buffer.from([0, 0, 0, 8]), Buffer.from('wide\0\0\0\0mdat', 'latin1')]);
+
+    expect(sniffContainer(header)).toEqual('mov');
+  });
+
+  it('should tell WebM from Matroska by DocType', () => {
+    expect(sniffContainer(ebml('webm'))).toEqual('webm');
+    expect(sniffContainer(ebml('matroska'))).toEqual('mkv');
+  });
+
+  it('should recognise AVI but not other RIFF files', () => {
+    expect(sniffContainer(Buffer.from('RIFF\x10\0\0\0AVI LIST', 'latin1'))).toEqual('avi');
+    expect(sniffContainer(Buffer.from('RIFF\x10\0\0\0WAVEfmt ', 'latin1'))).toBeNull();
+  });
+
+  it('should not accept audio-only or unrelated files', () => {
+    expect(sniffContainer(ftyp('M4A '))).toBeNull();
+    expect(sniffContainer(Buffer.from('%PDF-1.7\n%\xe2\xe3', 'latin1'))).toBeNull();
+    expect(sniffContainer(Buffer.from([0x1a, 0x45]))).toBeNull();
+    expect(sniffContainer(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('should keep ordinary names', () => {
+    expect(sanitizeFilename('Interview (final) v2.mp4')).toEqual('Interview (final) v2.mp4');
+    expect(sanitizeFilename('東京 ツアー.mp4')).toEqual('東京 ツアー.mp4');
+    expect(sanitizeFilename('नमस्ते.mp4')).toEqual('नमस्ते.mp4');
+  });
+
+  it('should drop directory components', () => {
+    expect(sanitizeFilename('../../secret.mp4')).toEqual('secret.mp4');
+    expect(sanitizeFilename('..\\..\\windows\\clip.mov')).toEqual('clip.mov');
+  });
+
+  it('should replace unsafe characters and drop control characters', () => {
+    expect(sanitizeFilename('a:b*c?"d|e.mp4')).toEqual('a_b_c_d_e.mp4');
+    expect(sanitizeFilename('clip\u0000\u202e4pm.exe')).toEqual('clip4pm.exe');
+  });
+
+  it('should not produce hidden or relative names', () => {
+    expect(sanitizeFilename('.hidden.mp4')).toEqual('hidden.mp4');
+    expect(sanitizeFilename('..')).toEqual('');
+    expect(sanitizeFilename('   ')).toEqual('');
+  });
+
+  it('should shorten long names but keep the extension', () => {
+    const result = sanitizeFilename(`${'a'.repeat(300)}.webm`);
+
+    expect(result.length).toEqual(200);
+    expect(result.endsWith('.webm')).toBe(true);
+  });
+});
+
+describe('upload policy', () => {
+  it('should allow every known container by default', () => {
+    const policy = loadUploadPolicy({});
+
+    expect(policy.allowed_containers).toEqual(['mp4', 'mov', 'mkv', 'webm', 'avi']);
+    expect(policy.max_size_bytes).toEqual(2 * 1024 * 1024 * 1024);
+  });
+
+  it('should read the allowlist and size limit from the environment', () => {
+    const policy = loadUploadPolicy({ UPLOAD_ALLOWED_CONTAINERS: 'MP4, webm', UPLOAD_MAX_SIZE_BYTES: '1000' });
+
+    expect(policy).toEqual({ max_size_bytes: 1000, allowed_containers: ['mp4', 'webm'] });
+  });
+
+  it('should reject unknown containers in the allowlist', () => {
+    expect(() => loadUploadPolicy({ UPLOAD_ALLOWED_CONTAINERS: 'mp4,flv' })).toThrow();
+  });
+
+  it('should enforce the allowlist', () => {
+    const policy = { max_size_bytes: 1000, allowed_containers: ['mp4' as const] };
+
+    expect(assertVideoContent(ftyp('isom'), policy)).toEqual('mp4');
+    expect(() => assertVideoContent(ebml('webm'), policy)).toThrow(/WEBM files are not accepted; allowed: mp4/);
+  });
+
+  it('should enforce the size limit', () => {
+    const policy = { max_size_bytes: 1000, allowed_containers: ['mp4' as const] };
+
+    expect(() => assertUploadSize(1000, policy)).not.toThrow();
+    expect(() => assertUploadSize(1001, policy)).toThrow(/limit is 1000 bytes/);
+  });
+
+  it('should reject filenames with nothing usable', () => {
+    expect(assertFilename('/tmp/clip.mp4')).toEqual('clip.mp4');
+    expect(() => assertFilename('///')).toThrow(/not a usable filename/);
+  });
+});
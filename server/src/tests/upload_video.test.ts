@@ -1,15 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { translationJobsTable } from '../db/schema';
-import { type UploadVideoInput } from '../schema';
+import { projectsTable, translationJobsTable } from '../db/schema';
+import { type UploadVideoInput, uploadVideoInputSchema } from '../schema';
 import { uploadVideo } from '../handlers/upload_video';
 import { eq } from 'drizzle-orm';
 import { readFile, rm } from 'fs/promises';
 import { existsSync } from 'fs';
+import { buildAvi, buildMp4 } from '../helpers/media';
 
-// Test input with base64 encoded dummy video data
-const testVideoData = Buffer.from('dummy video content for testing').toString('base64');
+// Test input with a base64 encoded video: valid headers, filler media data
+const testVideoData = buildMp4({ media_bytes: 32 }).toString('base64');
 
 const testInput: UploadVideoInput = {
   filename: 'test-video.mp4',
@@ -78,7 +79,7 @@ describe('uploadVideo', () => {
   it('should handle different file types', async () => {
     const aviInput: UploadVideoInput = {
       filename: 'video.avi',
-      file_data: Buffer.from('avi video content').toString('base64'),
+      file_data: buildAvi({ media_bytes: 17 }).toString('base64'),
       target_language: 'fr'
     };
 
@@ -99,7 +100,7 @@ describe('uploadVideo', () => {
     for (const lang of languages) {
       const input: UploadVideoInput = {
         filename: `test-${lang}.mp4`,
-        file_data: Buffer.from(`video for ${lang}`).toString('base64'),
+        file_data: buildMp4().toString('base64'),
         target_language: lang
       };
 
@@ -113,7 +114,7 @@ describe('uploadVideo', () => {
     // Create multiple uploads with same filename
     const uploads = Array.from({ length: 3 }, (_, i) => ({
       filename: 'same-name.mp4',
-      file_data: Buffer.from(`content ${i}`).toString('base64'),
+      file_data: buildMp4({ media_bytes: i }).toString('base64'),
       target_language: 'en' as const
     }));
 
@@ -134,7 +135,7 @@ describe('uploadVideo', () => {
 
   it('should handle large base64 data', async () => {
     // Create larger test data (1KB)
-    const largeData = Buffer.from('x'.repeat(1024)).toString('base64');
+    const largeData = buildMp4({ media_bytes: 1024 - buildMp4().length }).toString('base64');
     const largeInput: UploadVideoInput = {
       filename: 'large-video.mp4',
       file_data: largeData,
@@ -152,4 +153,118 @@ describe('uploadVideo', () => {
     expect(savedFileBuffer.equals(originalBuffer)).toBe(true);
     expect(savedFileBuffer.length).toEqual(1024);
   });
-});
\ No newline at end of file
+
+  it('should strip directory components from the filename', async () => {
+    const result = await uploadVideo({ ...testInput, filename: '../../etc/passwd/../clip.mp4' });
+
+    expect(result.original_filename).toEqual('clip.mp4');
+    expect(result.original_file_path).toMatch(/^\/uploads\/videos\/\d+_[a-z0-9]+_clip\.mp4$/);
+  });
+
+  it('should reject filenames with nothing usable left', async () => {
+    await expect(uploadVideo({ ...testInput, filename: '../..' })).rejects.toThrow(/not a usable filename/);
+  });
+
+  it('should reject files that are not video', async () => {
+    const input = { ...testInput, file_data: Buffer.from('#!/bin/sh\nrm -rf /').toString('base64') };
+
+    await expect(uploadVideo(input)).rejects.toMatchObject({
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      rejection: { reason: 'unsupported_type', detected_container: null }
+    });
+
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('should store the probed media info on the job', async () => {
+    const result = await uploadVideo(testInput);
+
+    expect(result.media_info).toEqual({
+      container: 'mp4',
+      duration_ms: 12_500,
+      video: { codec: 'h264', width: 1280, height: 720, frame_rate: 25 },
+      audio_tracks: [{ codec: 'aac', channels: 2, channel_layout: 'stereo', sample_rate: 48000, language: 'eng' }]
+    });
+
+    const jobs = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, result.id)).execute();
+    expect(jobs[0].media_info).toEqual(result.media_info);
+  });
+
+  it('should reject videos without an audio track', async () => {
+    const input = { ...testInput, file_data: buildMp4({ audio: [] }).toString('base64') };
+
+    await expect(uploadVideo(input)).rejects.toMatchObject({
+      code: 'UNPROCESSABLE_CONTENT',
+      rejection: { reason: 'no_audio' }
+    });
+
+    const jobs = await db.select().from(translationJobsTable).execute();
+    expect(jobs).toHaveLength(0);
+  });
+
+  it('should reject videos whose headers cannot be read', async () => {
+    const input = { ...testInput, file_data: buildMp4().subarray(0, 64).toString('base64') };
+
+    await expect(uploadVideo(input)).rejects.toMatchObject({
+      code: 'UNPROCESSABLE_CONTENT',
+      rejection: { reason: 'unreadable_media', detected_container: 'mp4' }
+    });
+  });
+
+  it('should import attached subtitles as the transcript', async () => {
+    const content = '1\n00:00:01,000 --> 00:00:03,500\nHello there.\n';
+
+    const result = await uploadVideo({ ...testInput, subtitles: { content, format: 'srt', language: 'en' } });
+
+    expect(result.detected_language).toEqual('en');
+    expect(result.transcript_source).toEqual('subtitles');
+    expect(result.transcript).toEqual('Hello there.');
+  });
+
+  it('should check the subtitles before storing the video', async () => {
+    await expect(uploadVideo({ ...testInput, subtitles: { content: 'no cues here' } })).rejects.toThrow(/Invalid subtitles/);
+
+    expect(existsSync('./storage/uploads')).toBe(false);
+  });
+
+  it('should create a job per target language under one project', async () => {
+    const { target_language: _, ...rest } = testInput;
+    const content = '1\n00:00:01,000 --> 00:00:03,500\nHello there.\n';
+
+    const result = await uploadVideo({ ...rest, target_languages: ['es', 'fr', 'de'], subtitles: { content, format: 'srt', language: 'en' } });
+
+    expect(result.jobs.map(job => job.target_language)).toEqual(['es', 'fr', 'de']);
+    expect(result.id).toEqual(result.jobs[0].id);
+    // The video is stored once and shared
+    expect(new Set(result.jobs.map(job => job.original_file_path)).size).toBe(1);
+    expect(result.jobs.every(job => job.transcript === 'Hello there.')).toBe(true);
+
+    const projects = await db.select().from(projectsTable).execute();
+    expect(projects).toHaveLength(1);
+    expect(projects[0].original_file_path).toEqual(result.original_file_path);
+    expect(projects[0].media_info).toEqual(result.media_info);
+    expect(result.jobs.every(job => job.project_id === projects[0].id)).toBe(true);
+  });
+
+  it('should not group single language uploads', async () => {
+    const { target_language: _, ...rest } = testInput;
+
+    const result = await uploadVideo({ ...rest, target_languages: ['fr'] });
+
+    expect(result.jobs).toHaveLength(1);
+    expect(result.project_id).toBeNull();
+    expect(await db.select().from(projectsTable).execute()).toHaveLength(0);
+  });
+
+  it('should validate the target languages', () => {
+    const { target_language: _, ...rest } = testInput;
+
+    expect(uploadVideoInputSchema.safeParse(rest).success).toBe(false);
+    expect(uploadVideoInputSchema.safeParse({ ...testInput, target_languages: ['fr'] }).success).toBe(false);
+    expect(uploadVideoInputSchema.safeParse({ ...rest, target_languages: [] }).success).toBe(false);
+    expect(uploadVideoInputSchema.safeParse({ ...rest, target_languages: ['fr', 'fr'] }).success).toBe(false);
+    expect(uploadVideoInputSchema.safeParse({ ...rest, target_languages: ['fr', 'de'], voice: 'fr-1' }).success).toBe(false);
+    expect(uploadVideoInputSchema.safeParse({ ...rest, target_languages: ['fr'], voice: 'fr-1' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { getVoices } from '../handlers/get_voices';
+import { previewVoice } from '../handlers/preview_voice';
+import { createProviders, setProviders } from '../providers/registry';
+import { type SpeechSynthesizer } from '../providers/types';
+import { decodeWav } from '../media/wav';
+import { assertVoiceFor } from '../voices/catalog';
+
+describe('voices', () => {
+  afterEach(() => setProviders(null));
+
+  it('should list the voices of every language with their provider', async () => {
+    const voices = await getVoices({});
+
+    expect(voices.length).toBe(36);
+    expect(voices[0]).toEqual({
+      id: 'ar-aurora',
+      name: 'Aurora',
+      language: 'ar',
+      gender: 'female',
+      styles: ['neutral', 'conversational', 'narration', 'cheerful', 'serious'],
+      sample_rate: 16000,
+      provider: 'local'
+    });
+  });
+
+  it('should list the voices of one language', async () => {
+    const voices = await getVoices({ language: 'ja' });
+
+    expect(voices.map(voice => [voice.id, voice.gender])).toEqual([
+      ['ja-aurora', 'female'],
+      ['ja-basil', 'male'],
+      ['ja-cedar', 'neutral']
+    ]);
+  });
+
+  it('should list no voices when the synthesizer cannot', async () => {
+    const silent: SpeechSynthesizer = { name: 'silent', synthesize: async () => { throw new Error('unused'); } };
+    setProviders({ ...createProviders(), synthesizer: silent });
+
+    expect(await getVoices({})).toEqual([]);
+    // Any voice is passed through to such synthesizers
+    await assertVoiceFor('whatever', 'en');
+  });
+
+  it('should synthesize a greeting in the voice', async () => {
+    const preview = await previewVoice({ voice: 'fr-basil', language: 'fr' });
+
+    expect(preview.mime_type).toBe('audio/wav');
+    expect(preview.duration_ms).toBeGreaterThan(0);
+    expect(decodeWav(Buffer.from(preview.audio_base64, 'base64'))).not.toBeNull();
+  });
+
+  it('should speak the given text in the given style', async () => {
+    const plain = await previewVoice({ voice: 'en-aurora', language: 'en', text: 'Testing one two' });
+    const narrated = await previewVoice({ voice: 'en-aurora', language: 'en', text: 'Testing one two', style: 'narration' });
+
+    expect(narrated.duration_ms).toBeGreaterThan(plain.duration_ms);
+  });
+
+  it('should refuse voices not offered for the language', async () => {
+    await expect(previewVoice({ voice: 'en-aurora', language: 'de' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
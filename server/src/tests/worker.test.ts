@@ -0,0 +1,1090 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { projectsTable, translationJobsTable, jobStagesTable, jobEventsTable, transcriptSegmentsTable, glossariesTable, glossaryEntriesTable, translationMemoryTable, jobSpeakersTable } from '../db/schema';
+import { claimNextJob, createWorker, processJob } from '../pipeline/worker';
+import { createStages } from '../pipeline/stages';
+import { centerChannelSeparator, localRecognizer, pseudoTranslator, toneSynthesizer, turnTakingDiarizer } from '../providers/local';
+import { type PipelineStage } from '../pipeline/types';
+import { type SynthesisInput } from '../providers/types';
+import { defaultRetryPolicy } from '../pipeline/retry';
+import { leaseExpired, startHeartbeat } from '../pipeline/lease';
+import { rememberTranslations } from '../memory/store';
+import { buildNextCombinedOutput } from '../projects/combined';
+import { getTranslationJob } from '../handlers/get_translation_job';
+import { asc, eq } from 'drizzle-orm';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { decodeWav, encodeWav, toPlanar } from '../media/wav';
+import { integratedLoudness } from '../media/loudness';
+import { demux, trackPcm } from '../media/remux';
+import { buildMp4 } from '../helpers/media';
+
+const localStages = createStages({
+  recognizer: localRecognizer,
+  diarizer: turnTakingDiarizer,
+  separator: centerChannelSeparator,
+  translator: pseudoTranslator,
+  synthesizer: toneSynthesizer
+});
+
+const noRetries = () => ({ ...defaultRetryPolicy, max_attempts: 1 });
+const immediateRetries = () => ({ ...defaultRetryPolicy, max_attempts: 2, backoff_ms: 0 });
+
+const videoContent = Buffer.from('video bytes for the worker');
+
+// Helper function to create a pending job with its source file in storage
+const createTestJob = async (filename = 'worker-test.mp4') => {
+  const filePath = `/uploads/videos/${Date.now()}_${filename}`;
+  await mkdir('./storage/uploads/videos', { recursive: true });
+  await writeFile(`./storage${filePath}`, videoContent);
+
+  const result = await db.insert(translationJobsTable)
+    .values({
+      original_filename: filename,
+      original_file_path: filePath,
+      target_language: 'es'
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('worker', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (existsSync('./storage')) {
+      await rm('./storage', { recursive: true, force: true });
+    }
+    await resetDB();
+  });
+
+  it('should claim the oldest pending job', async () => {
+    const first = await createTestJob('first.mp4');
+    await createTestJob('second.mp4');
+
+    const claimed = await claimNextJob();
+
+    expect(claimed).not.toBeNull();
+    expect(claimed!.id).toBe(first.id);
+    expect(claimed!.status).toBe('processing');
+  });
+
+  it('should not claim the same job twice', async () => {
+    await createTestJob();
+
+    const claims = await Promise.all([claimNextJob(), claimNextJob()]);
+
+    expect(claims.filter(job => job !== null)).toHaveLength(1);
+    expect(await claimNextJob()).toBeNull();
+  });
+
+  it('should reclaim a processing job whose worker stopped sending heartbeats', async () => {
+    const stale = await createTestJob('stale.mp4');
+    const live = await createTestJob('live.mp4');
+    await db.update(translationJobsTable)
+      .set({ status: 'processing', heartbeat_at: new Date(Date.now() - 10 * 60_000) })
+      .where(eq(translationJobsTable.id, stale.id))
+      .execute();
+    await db.update(translationJobsTable)
+      .set({ status: 'processing', heartbeat_at: new Date() })
+      .where(eq(translationJobsTable.id, live.id))
+      .execute();
+
+    const claimed = await claimNextJob();
+
+    expect(claimed!.id).toBe(stale.id);
+    expect(claimed!.heartbeat_at!.getTime()).toBeGreaterThan(Date.now() - 60_000);
+    expect(await claimNextJob()).toBeNull();
+    const [event] = await db.select().from(jobEventsTable).where(eq(jobEventsTable.job_id, stale.id)).execute();
+    expect(event).toMatchObject({ from_status: 'processing', to_status: 'processing', message: 'Reclaimed from a worker that stopped responding' });
+  });
+
+  it('should rerun the stage a dead worker left running', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ status: 'processing', heartbeat_at: new Date(Date.now() - 10 * 60_000) })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(jobStagesTable)
+      .values({ job_id: job.id, name: 'transcribe', position: 0, state: 'running', attempts: 1, started_at: new Date() })
+      .execute();
+
+    const result = await createWorker({ stages: localStages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    const [stage] = await db.select().from(jobStagesTable).where(eq(jobStagesTable.name, 'transcribe')).execute();
+    expect(stage.state).toBe('completed');
+    expect(stage.attempts).toBe(2);
+  });
+
+  it('should renew the lease of a job while it runs', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable).set({ heartbeat_at: new Date(0), lease_token: 'mine' }).where(eq(translationJobsTable.id, job.id)).execute();
+
+    const stop = startHeartbeat({ job_id: job.id, token: 'mine' }, 1000);
+    await Bun.sleep(400);
+    stop();
+
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(leaseExpired(saved.heartbeat_at, 1000)).toBe(false);
+  });
+
+  it('should not renew a lease another worker has taken over', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable).set({ heartbeat_at: new Date(0), lease_token: 'theirs' }).where(eq(translationJobsTable.id, job.id)).execute();
+
+    const stop = startHeartbeat({ job_id: job.id, token: 'mine' }, 1000);
+    await Bun.sleep(400);
+    stop();
+
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.heartbeat_at!.getTime()).toBe(0);
+  });
+
+  it('should give every claim a new lease token', async () => {
+    const job = await createTestJob();
+    const first = await claimNextJob();
+    await db.update(translationJobsTable).set({ heartbeat_at: new Date(0) }).where(eq(translationJobsTable.id, job.id)).execute();
+
+    const second = await claimNextJob();
+
+    expect(first!.lease_token).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second!.lease_token).not.toEqual(first!.lease_token);
+  });
+
+  it('should drop the writes of a worker whose job was taken over', async () => {
+    const job = await createTestJob();
+    const claimed = await claimNextJob();
+    const slow: PipelineStage = {
+      name: 'slow',
+      run: async () => {
+        // The lease runs out and another worker claims the job meanwhile
+        await db.update(translationJobsTable).set({ heartbeat_at: new Date(0) }).where(eq(translationJobsTable.id, job.id)).execute();
+        expect((await claimNextJob())!.id).toBe(job.id);
+        return { job: { translated_file_path: '/outputs/stale.mp4' } };
+      }
+    };
+    const next: PipelineStage = { name: 'next', run: async () => { throw new Error('should not run'); } };
+
+    const result = await processJob(claimed!, [slow, next], noRetries);
+
+    expect(result.status).toBe('processing');
+    expect(result.translated_file_path).toBeNull();
+    const stages = await db.select().from(jobStagesTable).orderBy(asc(jobStagesTable.position)).execute();
+    expect(stages.map(stage => [stage.name, stage.state])).toEqual([['slow', 'running'], ['next', 'pending']]);
+  });
+
+  it('should drive a job through all stages with local providers', async () => {
+    const job = await createTestJob();
+    const worker = createWorker({ stages: localStages });
+
+    const result = await worker.runOnce();
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toBe(job.id);
+    expect(result!.status).toBe('completed');
+    expect(result!.detected_language).toBe('en');
+    expect(result!.transcript).toMatch(/^This is the narration of worker-test\. Reference [0-9a-f]{8}\.$/);
+    expect(result!.translated_transcript).toBe(result!.transcript!.split(/(?<=\.) /).map(line => `[es] ${line}`).join(' '));
+    expect(result!.error_message).toBeNull();
+    expect(result!.translated_file_path).toBe(`/outputs/videos/${job.id}_es_worker-test.mp4`);
+
+    // Output file is written to storage
+    const output = await readFile(`./storage${result!.translated_file_path}`);
+    expect(output.equals(videoContent)).toBe(true);
+
+    // Final state is persisted
+    const saved = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    expect(saved[0].status).toBe('completed');
+  });
+
+  it('should store the transcript as timed segments', async () => {
+    const job = await createTestJob();
+    const worker = createWorker({ stages: localStages });
+
+    await worker.runOnce();
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments.map(segment => [segment.index, segment.start_ms, segment.end_ms])).toEqual([[0, 0, 2500], [1, 2500, 5000]]);
+    expect(segments[0].source_text).toEqual('This is the narration of worker-test.');
+    expect(segments[0].translated_text).toEqual('[es] This is the narration of worker-test.');
+    const [saved] = await db.select().from(translationJobsTable).where(eq(translationJobsTable.id, job.id)).execute();
+    expect(saved.transcript_source).toEqual('asr');
+  });
+
+  it('should keep a recognizer transcript without timings as one segment', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ media_info: { container: 'mp4', duration_ms: 42_000, video: null, audio_tracks: [] } })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    const stages = createStages({
+      recognizer: { name: 'untimed', transcribe: async () => ({ language: 'en', text: 'Just the text.', segments: [] }) },
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: pseudoTranslator,
+      synthesizer: toneSynthesizer
+    });
+
+    const result = await createWorker({ stages }).runOnce();
+
+    const segments = await db.select().from(transcriptSegmentsTable).execute();
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ start_ms: 0, end_ms: 42_000, source_text: 'Just the text.' });
+    expect(result!.translated_transcript).toEqual('[es] Just the text.');
+  });
+
+  it('should skip speech recognition for jobs with imported subtitles', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, source_text: 'Imported caption.' })
+      .execute();
+    const stages = createStages({
+      recognizer: { name: 'unused', transcribe: async () => { throw new Error('The recognizer should not run'); } },
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: pseudoTranslator,
+      synthesizer: toneSynthesizer
+    });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    expect(result!.transcript_source).toBe('subtitles');
+    expect(result!.translated_transcript).toEqual('[es] Imported caption.');
+    const transcribe = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.name, 'transcribe'))
+      .execute();
+    expect(transcribe[0]).toMatchObject({ state: 'skipped', percent: 100, attempts: 0 });
+  });
+
+  it('should keep glossary terms out of the translator', async () => {
+    const [glossary] = await db.insert(glossariesTable)
+      .values({ name: 'Product', source_language: 'en', target_language: 'es' })
+      .returning()
+      .execute();
+    await db.insert(glossaryEntriesTable)
+      .values([
+        { glossary_id: glossary.id, source_term: 'Acme', do_not_translate: true, case_sensitive: true },
+        { glossary_id: glossary.id, source_term: 'dashboard', target_term: 'panel' }
+      ])
+      .execute();
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles', glossary_id: glossary.id })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, source_text: 'Open the Acme Dashboard.' })
+      .execute();
+    const seen: string[] = [];
+    const stages = createStages({
+      recognizer: localRecognizer,
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      // Shouts everything, so any term that reached it would come back altered
+      translator: {
+        name: 'shouting',
+        translate: async ({ texts }) => {
+          seen.push(...texts);
+          return texts.map(text => text.toUpperCase());
+        }
+      },
+      synthesizer: toneSynthesizer
+    });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    expect(seen).toEqual(['Open the __TERM_0__ __TERM_1__.']);
+    expect(result!.translated_transcript).toEqual('OPEN THE Acme panel.');
+  });
+
+  it('should reuse exact memory matches and suggest fuzzy ones', async () => {
+    await rememberTranslations([
+      { source_language: 'en', target_language: 'es', source_text: 'Welcome back, everyone.', target_text: 'Bienvenidos de nuevo.' },
+      { source_language: 'en', target_language: 'es', source_text: 'Thanks for watching the show.', target_text: 'Gracias por ver el programa.' }
+    ]);
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, source_text: 'welcome back,  everyone.' },
+        { job_id: job.id, index: 1, start_ms: 1500, end_ms: 3000, source_text: 'Thanks for watching this show.' }
+      ])
+      .execute();
+    const seen: string[] = [];
+    const stages = createStages({
+      recognizer: localRecognizer,
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: {
+        name: 'recording',
+        translate: async ({ texts }) => {
+          seen.push(...texts);
+          return texts.map(text => `[es] ${text}`);
+        }
+      },
+      synthesizer: toneSynthesizer
+    }, undefined, { fuzzy_threshold: 75 });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    expect(seen).toEqual(['Thanks for watching this show.']);
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments[0]).toMatchObject({ translated_text: 'Bienvenidos de nuevo.', memory_match: 100, memory_suggestion: null });
+    expect(segments[1]).toMatchObject({
+      translated_text: '[es] Thanks for watching this show.',
+      memory_match: 93,
+      memory_suggestion: 'Gracias por ver el programa.'
+    });
+  });
+
+  it('should translate again exact memory matches that break a glossary term', async () => {
+    await rememberTranslations([
+      { source_language: 'en', target_language: 'es', source_text: 'Open the dashboard.', target_text: 'Abre el tablero.' },
+      { source_language: 'en', target_language: 'es', source_text: 'Welcome back.', target_text: 'Bienvenidos de nuevo.' }
+    ]);
+    const [glossary] = await db.insert(glossariesTable)
+      .values({ name: 'Product', source_language: 'en', target_language: 'es' })
+      .returning()
+      .execute();
+    await db.insert(glossaryEntriesTable)
+      .values({ glossary_id: glossary.id, source_term: 'dashboard', target_term: 'panel' })
+      .execute();
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles', glossary_id: glossary.id })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, source_text: 'Open the dashboard.' },
+        { job_id: job.id, index: 1, start_ms: 1500, end_ms: 3000, source_text: 'Welcome back.' }
+      ])
+      .execute();
+    const seen: string[] = [];
+    const stages = createStages({
+      recognizer: localRecognizer,
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: {
+        name: 'recording',
+        translate: async ({ texts }) => {
+          seen.push(...texts);
+          return texts.map(text => text.replace('Open the', 'Abre el'));
+        }
+      },
+      synthesizer: toneSynthesizer
+    });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    expect(seen).toEqual(['Open the __TERM_0__.']);
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments[0]).toMatchObject({ translated_text: 'Abre el panel.', memory_match: null });
+    expect(segments[1]).toMatchObject({ translated_text: 'Bienvenidos de nuevo.', memory_match: 100 });
+  });
+
+  it('should tell speakers apart and dub each in its assigned voice', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles', voice: 'es-cedar' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, source_text: 'How did you start?' },
+        { job_id: job.id, index: 1, start_ms: 1500, end_ms: 3000, source_text: 'By accident.' },
+        { job_id: job.id, index: 2, start_ms: 5000, end_ms: 6000, source_text: 'Really.' }
+      ])
+      .execute();
+    // Settings made for a label before diarization are kept
+    await db.insert(jobSpeakersTable)
+      .values({ job_id: job.id, label: 'SPEAKER_2', name: 'Guest', voice: 'alto', gender: 'female', style: 'cheerful' })
+      .execute();
+    const requests: SynthesisInput[] = [];
+    const stages = createStages({
+      recognizer: localRecognizer,
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: pseudoTranslator,
+      synthesizer: {
+        name: 'recording',
+        synthesize: async (input) => {
+          requests.push(input);
+          return toneSynthesizer.synthesize(input);
+        }
+      }
+    });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments.map(segment => segment.speaker)).toEqual(['SPEAKER_1', 'SPEAKER_2', 'SPEAKER_1']);
+    const speakers = await db.select()
+      .from(jobSpeakersTable)
+      .where(eq(jobSpeakersTable.job_id, job.id))
+      .orderBy(asc(jobSpeakersTable.label))
+      .execute();
+    expect(speakers.map(speaker => [speaker.label, speaker.name, speaker.voice])).toEqual([
+      ['SPEAKER_1', 'Speaker 1', null],
+      ['SPEAKER_2', 'Guest', 'alto']
+    ]);
+    // Speakers without a voice of their own use the job's
+    expect(requests.map(request => [request.voice, request.gender, request.style])).toEqual([
+      ['es-cedar', undefined, undefined],
+      ['alto', 'female', 'cheerful'],
+      ['es-cedar', undefined, undefined]
+    ]);
+  });
+
+  it('should keep the speakers named by imported subtitles', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 1500, speaker: 'Ana', source_text: 'Hello?' },
+        { job_id: job.id, index: 1, start_ms: 1500, end_ms: 3000, source_text: 'Music plays' }
+      ])
+      .execute();
+
+    await createWorker({ stages: localStages, retryPolicy: noRetries }).runOnce();
+
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments.map(segment => segment.speaker)).toEqual(['Ana', null]);
+    const speakers = await db.select().from(jobSpeakersTable).where(eq(jobSpeakersTable.job_id, job.id)).execute();
+    expect(speakers.map(speaker => speaker.name)).toEqual(['Ana']);
+  });
+
+  it('should transcribe an upload dubbed into several languages once', async () => {
+    const first = await createTestJob();
+    const [project] = await db.insert(projectsTable)
+      .values({ original_filename: first.original_filename, original_file_path: first.original_file_path })
+      .returning()
+      .execute();
+    await db.update(translationJobsTable)
+      .set({ project_id: project.id })
+      .where(eq(translationJobsTable.id, first.id))
+      .execute();
+    const [second] = await db.insert(translationJobsTable)
+      .values({
+        original_filename: first.original_filename,
+        original_file_path: first.original_file_path,
+        target_language: 'fr',
+        project_id: project.id
+      })
+      .returning()
+      .execute();
+    let recognized = 0;
+    const stages = createStages({
+      recognizer: { name: 'counting', transcribe: async (input) => { recognized++; return localRecognizer.transcribe(input); } },
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: pseudoTranslator,
+      synthesizer: toneSynthesizer
+    });
+    const worker = createWorker({ stages, retryPolicy: noRetries });
+
+    await worker.runOnce();
+    const result = await worker.runOnce();
+
+    expect(recognized).toBe(1);
+    expect(result!.id).toBe(second.id);
+    expect(result!.status).toBe('completed');
+    const [original] = await db.select()
+      .from(translationJobsTable)
+      .where(eq(translationJobsTable.id, first.id))
+      .execute();
+    expect(result!.detected_language).toBe(original.detected_language);
+    expect(result!.transcript).toBe(original.transcript);
+    expect(result!.translated_transcript).toMatch(/^\[fr\] /);
+  });
+
+  it('should fit long speech into its segment and warn about overruns', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values([
+        { job_id: job.id, index: 0, start_ms: 0, end_ms: 2000, source_text: 'Short.' },
+        { job_id: job.id, index: 1, start_ms: 2000, end_ms: 3000, source_text: 'Long.' },
+        { job_id: job.id, index: 2, start_ms: 4000, end_ms: 6000, source_text: 'Slightly long.' }
+      ])
+      .execute();
+    // At 65 ms per character: 1300 ms, 3900 ms and 2275 ms of speech, each
+    // about 1 ms shorter once the quiet ends of its fades are trimmed
+    const translations: Record<string, string> = {
+      'Short.': 'x'.repeat(20),
+      'Long.': 'x'.repeat(60),
+      'Slightly long.': 'x'.repeat(35)
+    };
+    const stages = createStages({
+      recognizer: localRecognizer,
+      diarizer: turnTakingDiarizer,
+      separator: centerChannelSeparator,
+      translator: { name: 'fixed', translate: async ({ texts }) => texts.map(text => translations[text]) },
+      synthesizer: toneSynthesizer
+    });
+
+    const result = await createWorker({ stages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    const segments = await db.select()
+      .from(transcriptSegmentsTable)
+      .where(eq(transcriptSegmentsTable.job_id, job.id))
+      .orderBy(asc(transcriptSegmentsTable.index))
+      .execute();
+    expect(segments.map(segment => [segment.speech_rate, segment.dub_start_ms, segment.dub_end_ms, segment.overrun_ms])).toEqual([
+      [1, 0, 1299, 0],
+      // 3119 ms at the fastest rate: 900 ms from the gap after, 601 ms from
+      // the gap before and 618 ms too long
+      [1.25, 1399, 4518, 618],
+      [1.14, 4000, 5995, 0]
+    ]);
+
+    const listed = await getTranslationJob({ id: job.id });
+    expect(listed!.timing_warnings).toEqual([{ segment_id: segments[1].id, index: 1, overrun_ms: 618 }]);
+  });
+
+  it('should keep the background of the original under the dub', async () => {
+    const job = await createTestJob('worker-test.wav');
+    // Two seconds of stereo: a centered voice over music out of phase
+    // between the channels
+    const frames = 96000;
+    const source = new Int16Array(frames * 2);
+    for (let i = 0; i < frames; i++) {
+      const voice = 6000 * Math.sin((2 * Math.PI * 440 * i) / 48000);
+      const music = 3000 * Math.sin((2 * Math.PI * 1500 * i) / 48000);
+      source[2 * i] = Math.round(voice + music);
+      source[2 * i + 1] = Math.round(voice - music);
+    }
+    await writeFile(`./storage${job.original_file_path}`, encodeWav(source, 48000, 2));
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hi.' })
+      .execute();
+
+    const result = await createWorker({ stages: localStages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    const [separate] = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.name, 'separate'))
+      .execute();
+    expect(separate.output).toEqual({
+      speech_stem: `/outputs/audio/${job.id}/stems/speech.wav`,
+      background_stem: `/outputs/audio/${job.id}/stems/background.wav`
+    });
+
+    const track = decodeWav(await readFile(`./storage/outputs/audio/${job.id}_es.wav`))!;
+    expect(track.channels).toBe(2);
+    expect(track.sample_rate).toBe(48000);
+    expect(track.samples.length).toBe(frames * 2);
+    expect(integratedLoudness(toPlanar(track))).toBeCloseTo(-23, 0);
+    // Once the dub is over only the music is left, still out of phase: the
+    // original voice went with the speech stem
+    const tail = toPlanar(track).planes.map(plane => plane.slice(frames - 9600, frames - 4800));
+    const level = Math.max(...tail[0].map(Math.abs));
+    expect(level).toBeGreaterThan(0.05);
+    expect(Math.max(...tail[0].map((sample, i) => Math.abs(sample + tail[1][i])))).toBeLessThan(level / 10);
+  });
+
+  it('should warn when the separator cannot decode the audio', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({
+        detected_language: 'en',
+        transcript_source: 'subtitles',
+        media_info: {
+          container: 'mp4',
+          duration_ms: 1000,
+          video: null,
+          audio_tracks: [{ codec: 'aac', channels: 2, channel_layout: 'stereo', sample_rate: 48000, language: null }]
+        }
+      })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hi.' })
+      .execute();
+
+    const result = await createWorker({ stages: localStages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    const [separate] = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.name, 'separate'))
+      .execute();
+    expect(separate.output).toEqual({ background_warning: 'The local separator cannot decode aac audio; the dub has no background' });
+    expect(existsSync(`./storage/outputs/audio/${job.id}/stems`)).toBe(false);
+  });
+
+  it('should mux every language of a combined project into one file', async () => {
+    const first = await createTestJob('worker-test.wav');
+    await writeFile(`./storage${first.original_file_path}`, encodeWav(new Int16Array(48000), 48000));
+    const [project] = await db.insert(projectsTable)
+      .values({
+        original_filename: first.original_filename,
+        original_file_path: first.original_file_path,
+        output_mode: 'combined',
+        embed_subtitles: true
+      })
+      .returning()
+      .execute();
+    const [second] = await db.insert(translationJobsTable)
+      .values({ original_filename: first.original_filename, original_file_path: first.original_file_path, target_language: 'fr' })
+      .returning()
+      .execute();
+    for (const job of [first, second]) {
+      await db.update(translationJobsTable)
+        .set({ project_id: project.id, detected_language: 'en', transcript_source: 'subtitles' })
+        .where(eq(translationJobsTable.id, job.id))
+        .execute();
+      await db.insert(transcriptSegmentsTable)
+        .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 800, source_text: 'Hi.' })
+        .execute();
+    }
+    const worker = createWorker({ stages: localStages, retryPolicy: noRetries });
+
+    await worker.runOnce();
+    const afterFirst = (await buildNextCombinedOutput())!;
+    expect(afterFirst.combined_languages).toEqual(['es']);
+    await worker.runOnce();
+    await buildNextCombinedOutput();
+
+    const [combined] = await db.select().from(projectsTable).where(eq(projectsTable.id, project.id)).execute();
+    expect(combined.combined_file_path).toMatch(new RegExp(`^/outputs/projects/${project.id}/[0-9a-f-]+/worker-test_dubbed\\.mkv$`));
+    expect(combined.combined_languages).toEqual(['es', 'fr']);
+    const tracks = demux(await readFile(`./storage${combined.combined_file_path}`))!;
+    expect(tracks.map(track => [track.type, track.language, track.language_bcp47 ?? null, track.name])).toEqual([
+      ['audio', 'eng', null, 'Original'],
+      ['audio', 'spa', 'es', 'Spanish (dubbed)'],
+      ['audio', 'fre', 'fr', 'French (dubbed)'],
+      ['subtitle', 'eng', 'en', 'English'],
+      ['subtitle', 'spa', 'es', 'Spanish'],
+      ['subtitle', 'fre', 'fr', 'French']
+    ]);
+    expect(tracks[5].frames.map(frame => frame.data.toString('utf8'))).toEqual(['[fr] Hi.']);
+    // Each job still has its own output
+    const jobs = await db.select().from(translationJobsTable).orderBy(asc(translationJobsTable.id)).execute();
+    expect(jobs.map(job => job.translated_file_path)).toEqual([
+      `/outputs/videos/${first.id}_es_worker-test.mkv`,
+      `/outputs/videos/${second.id}_fr_worker-test.mkv`
+    ]);
+  });
+
+  it('should mux the dub into the video next to the original audio', async () => {
+    const job = await createTestJob();
+    await writeFile(`./storage${job.original_file_path}`, buildMp4({ duration_ms: 2000, samples: true }));
+    await db.update(translationJobsTable)
+      .set({ detected_language: 'en', transcript_source: 'subtitles' })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    await db.insert(transcriptSegmentsTable)
+      .values({ job_id: job.id, index: 0, start_ms: 0, end_ms: 1000, source_text: 'Hi.' })
+      .execute();
+
+    const result = await createWorker({ stages: localStages, retryPolicy: noRetries }).runOnce();
+
+    expect(result!.translated_file_path).toBe(`/outputs/videos/${job.id}_es_worker-test.mkv`);
+    const tracks = demux(await readFile(`./storage${result!.translated_file_path}`))!;
+    expect(tracks.map(track => [track.type, track.codec_id, track.language, track.name, track.default])).toEqual([
+      ['video', 'V_MPEG4/ISO/AVC', 'und', null, true],
+      ['audio', 'A_PCM/INT/LIT', 'spa', 'Spanish (dubbed)', true],
+      ['audio', 'A_AAC', 'eng', 'Original', false]
+    ]);
+    const dub = decodeWav(await readFile(`./storage/outputs/audio/${job.id}_es.wav`))!;
+    expect(trackPcm(tracks[1])!.samples).toEqual(dub.samples);
+  });
+
+  it('should package the dub for streaming', async () => {
+    const job = await createTestJob('worker-test.wav');
+    await writeFile(`./storage${job.original_file_path}`, encodeWav(new Int16Array(2 * 16000), 16000));
+    const worker = createWorker({ stages: localStages, retryPolicy: noRetries });
+
+    await worker.runOnce();
+
+    const [stage] = await db.select().from(jobStagesTable)
+      .where(eq(jobStagesTable.name, 'package'))
+      .execute();
+    expect(stage.state).toBe('completed');
+    expect(stage.output).toEqual({ hls_playlist: `/outputs/hls/${job.id}/master.m3u8` });
+    const master = await readFile(`./storage/outputs/hls/${job.id}/master.m3u8`, 'utf8');
+    expect(master).toContain('NAME="Original",LANGUAGE="en",DEFAULT=NO');
+    expect(master).toContain('NAME="Spanish (dubbed)",LANGUAGE="es",DEFAULT=YES,AUTOSELECT=YES,URI="audio/es.m3u8"');
+    expect(master).toContain('NAME="Spanish",LANGUAGE="es",DEFAULT=NO,AUTOSELECT=NO,URI="subtitles/target.m3u8"');
+    expect(existsSync(`./storage/outputs/hls/${job.id}/audio/es/0.m4s`)).toBe(true);
+  });
+
+  it('should not package sources it cannot stream', async () => {
+    await createTestJob();
+    const worker = createWorker({ stages: localStages, retryPolicy: noRetries });
+
+    const result = await worker.runOnce();
+
+    expect(result!.status).toBe('completed');
+    const [stage] = await db.select().from(jobStagesTable)
+      .where(eq(jobStagesTable.name, 'package'))
+      .execute();
+    expect(stage.state).toBe('completed');
+    expect(stage.output).toBeNull();
+  });
+
+  it('should remember the translations of completed jobs', async () => {
+    const job = await createTestJob();
+
+    await createWorker({ stages: localStages }).runOnce();
+
+    const entries = await db.select().from(translationMemoryTable).execute();
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.every(entry => entry.job_id === job.id && entry.target_language === 'es')).toBe(true);
+  });
+
+  it('should pause after translation until the job is approved', async () => {
+    const job = await createTestJob();
+    await db.update(translationJobsTable)
+      .set({ requires_review: true })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+
+    const paused = await createWorker({ stages: localStages }).runOnce();
+
+    expect(paused!.status).toBe('awaiting_review');
+    expect(paused!.translated_transcript).not.toBeNull();
+    expect(paused!.translated_file_path).toBeNull();
+    const stages = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+    expect(stages.map(stage => stage.state)).toEqual(['completed', 'completed', 'completed', 'pending', 'pending', 'pending', 'pending', 'pending', 'pending', 'pending']);
+    expect(await createWorker({ stages: localStages }).runOnce()).toBeNull();
+
+    await db.update(translationJobsTable)
+      .set({ status: 'retrying', approved_at: new Date(), next_attempt_at: new Date() })
+      .where(eq(translationJobsTable.id, job.id))
+      .execute();
+    const result = await createWorker({ stages: localStages }).runOnce();
+
+    expect(result!.status).toBe('completed');
+    expect(result!.translated_file_path).not.toBeNull();
+  });
+
+  it('should return null when the queue is empty', async () => {
+    const worker = createWorker({ stages: localStages });
+
+    expect(await worker.runOnce()).toBeNull();
+  });
+
+  it('should mark the job failed when a stage throws', async () => {
+    await createTestJob();
+    const failingStage: PipelineStage = {
+      name: 'translate',
+      run: async () => {
+        throw new Error('Translation service unavailable');
+      }
+    };
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, [localStages[0], failingStage], noRetries);
+
+    expect(result.status).toBe('failed');
+    expect(result.error_message).toBe('translate: Translation service unavailable');
+    // Output of stages before the failure is kept
+    expect(result.transcript).not.toBeNull();
+    expect(result.translated_transcript).toBeNull();
+  });
+
+  it('should share artifacts between stages', async () => {
+    await createTestJob();
+    const seen: Record<string, string>[] = [];
+    const stages: PipelineStage[] = [
+      { name: 'first', run: async () => ({ artifacts: { audio: '/outputs/audio/a.wav' } }) },
+      { name: 'second', run: async ({ artifacts }) => {
+        seen.push(artifacts);
+        return { job: { translated_file_path: '/outputs/videos/a.mp4' } };
+      } }
+    ];
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, stages);
+
+    expect(result.status).toBe('completed');
+    expect(seen[0]).toEqual({ audio: '/outputs/audio/a.wav' });
+  });
+
+  it('should fail a job whose stages produced no output file', async () => {
+    await createTestJob();
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, [{ name: 'noop', run: async () => ({}) }]);
+
+    expect(result.status).toBe('failed');
+    expect(result.error_message).toMatch(/requires translated_file_path/);
+  });
+
+  it('should record the progress of every stage', async () => {
+    const job = await createTestJob();
+    const worker = createWorker({ stages: localStages });
+
+    await worker.runOnce();
+
+    const stages = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+
+    expect(stages.map(stage => stage.name)).toEqual(['transcribe', 'diarize', 'translate', 'review', 'separate', 'synthesize', 'fit', 'mix', 'mux', 'package']);
+    expect(stages.map(stage => stage.state)).toEqual(['completed', 'completed', 'completed', 'skipped', 'completed', 'completed', 'completed', 'completed', 'completed', 'completed']);
+    stages.forEach(stage => {
+      expect(stage.percent).toBe(100);
+      expect(stage.started_at).toBeInstanceOf(Date);
+      expect(stage.finished_at!.getTime()).toBeGreaterThanOrEqual(stage.started_at!.getTime());
+    });
+  });
+
+  it('should add the stages a job is missing and keep the ones it has', async () => {
+    const job = await createTestJob();
+    await db.insert(jobStagesTable)
+      .values({ job_id: job.id, name: 'first', position: 0, state: 'completed', percent: 100, attempts: 1 })
+      .execute();
+    const ran: string[] = [];
+    const stages: PipelineStage[] = [
+      { name: 'first', run: async () => {
+        ran.push('first');
+        return {};
+      } },
+      { name: 'second', run: async () => {
+        ran.push('second');
+        return { job: { translated_file_path: '/outputs/videos/a.mp4' } };
+      } }
+    ];
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, stages);
+
+    expect(result.status).toBe('completed');
+    expect(ran).toEqual(['second']);
+    const saved = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+    expect(saved.map(stage => [stage.name, stage.state, stage.attempts])).toEqual([['first', 'completed', 1], ['second', 'completed', 1]]);
+  });
+
+  it('should persist progress reported by a stage and mark failed stages', async () => {
+    const job = await createTestJob();
+    const stages: PipelineStage[] = [
+      { name: 'first', run: async ({ reportProgress }) => {
+        await reportProgress(42.4);
+        throw new Error('Interrupted');
+      } },
+      { name: 'second', run: async () => ({}) }
+    ];
+
+    const claimed = await claimNextJob();
+    await processJob(claimed!, stages, noRetries);
+
+    const saved = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+
+    expect(saved[0].state).toBe('failed');
+    expect(saved[0].percent).toBe(42);
+    expect(saved[0].finished_at).toBeInstanceOf(Date);
+    expect(saved[1].state).toBe('pending');
+    expect(saved[1].started_at).toBeNull();
+  });
+
+  it('should record the status transitions it makes', async () => {
+    const job = await createTestJob();
+    const worker = createWorker({ stages: localStages });
+
+    await worker.runOnce();
+
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, job.id))
+      .orderBy(asc(jobEventsTable.id))
+      .execute();
+
+    expect(events.map(event => [event.from_status, event.to_status])).toEqual([
+      ['pending', 'processing'],
+      ['processing', 'completed']
+    ]);
+  });
+
+  it('should schedule a retry with backoff when a stage fails', async () => {
+    const job = await createTestJob();
+    const failing: PipelineStage = { name: 'flaky', run: async () => { throw new Error('Timeout'); } };
+    const policy = () => ({ ...defaultRetryPolicy, max_attempts: 3, backoff_ms: 60000 });
+
+    const claimed = await claimNextJob();
+    const before = Date.now();
+    const result = await processJob(claimed!, [failing], policy);
+
+    expect(result.status).toBe('retrying');
+    expect(result.error_message).toBe('flaky: Timeout');
+    expect(result.next_attempt_at!.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    // Not claimable before the backoff has elapsed
+    expect(await claimNextJob()).toBeNull();
+
+    const events = await db.select()
+      .from(jobEventsTable)
+      .where(eq(jobEventsTable.job_id, job.id))
+      .orderBy(asc(jobEventsTable.id))
+      .execute();
+    expect(events[1].to_status).toBe('retrying');
+    expect(events[1].message).toMatch(/attempt 2 of 3/);
+  });
+
+  it('should fail the job once the retry budget is spent', async () => {
+    await createTestJob();
+    let calls = 0;
+    const failing: PipelineStage = { name: 'flaky', run: async () => {
+      calls++;
+      throw new Error('Timeout');
+    } };
+    const worker = createWorker({ stages: [failing], retryPolicy: immediateRetries });
+
+    const first = await worker.runOnce();
+    const second = await worker.runOnce();
+
+    expect(first!.status).toBe('retrying');
+    expect(second!.status).toBe('failed');
+    expect(calls).toBe(2);
+    expect(await worker.runOnce()).toBeNull();
+  });
+
+  it('should resume after the last completed stage', async () => {
+    const job = await createTestJob();
+    const runs: string[] = [];
+    let failNext = true;
+    const stages: PipelineStage[] = [
+      { name: 'produce', run: async () => {
+        runs.push('produce');
+        return { artifacts: { audio: '/outputs/audio/resumed.wav' } };
+      } },
+      { name: 'consume', run: async ({ artifacts }) => {
+        runs.push('consume');
+        if (failNext) {
+          failNext = false;
+          throw new Error('Transient');
+        }
+        return { job: { translated_file_path: artifacts['audio'].replace('.wav', '.mp4') } };
+      } }
+    ];
+    const worker = createWorker({ stages, retryPolicy: immediateRetries });
+
+    await worker.runOnce();
+    const result = await worker.runOnce();
+
+    expect(result!.id).toBe(job.id);
+    expect(result!.status).toBe('completed');
+    // The first stage ran once; its stored artifact fed the retried stage
+    expect(runs).toEqual(['produce', 'consume', 'consume']);
+    expect(result!.translated_file_path).toBe('/outputs/audio/resumed.mp4');
+
+    const saved = await db.select()
+      .from(jobStagesTable)
+      .where(eq(jobStagesTable.job_id, job.id))
+      .orderBy(asc(jobStagesTable.position))
+      .execute();
+    expect(saved[0].attempts).toBe(1);
+    expect(saved[0].output).toEqual({ audio: '/outputs/audio/resumed.wav' });
+    expect(saved[1].attempts).toBe(2);
+  });
+
+  it('should stop between stages when the job is cancelled', async () => {
+    const job = await createTestJob();
+    const runs: string[] = [];
+    const stages: PipelineStage[] = [
+      { name: 'first', run: async () => {
+        runs.push('first');
+        // Cancel while the first stage is running
+        await db.update(translationJobsTable)
+          .set({ status: 'cancelled' })
+          .where(eq(translationJobsTable.id, job.id))
+          .execute();
+        return {};
+      } },
+      { name: 'second', run: async () => {
+        runs.push('second');
+        return {};
+      } }
+    ];
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, stages);
+
+    expect(result.status).toBe('cancelled');
+    expect(runs).toEqual(['first']);
+  });
+
+  it('should keep a cancellation that arrives during the last stage', async () => {
+    const job = await createTestJob();
+    const stages: PipelineStage[] = [
+      { name: 'only', run: async () => {
+        await db.update(translationJobsTable)
+          .set({ status: 'cancelled' })
+          .where(eq(translationJobsTable.id, job.id))
+          .execute();
+        return { job: { translated_file_path: '/outputs/videos/late.mp4' } };
+      } }
+    ];
+
+    const claimed = await claimNextJob();
+    const result = await processJob(claimed!, stages);
+
+    expect(result.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,75 @@
+export interface TimingConfig {
+  // Fastest speech relative to the synthesized rate, e.g. 1.25 = 25% faster
+  max_rate: number;
+  // Pause kept to a neighbouring line when speech spills into a gap
+  min_gap_ms: number;
+}
+
+export const defaultTimingConfig: TimingConfig = { max_rate: 1.25, min_gap_ms: 100 };
+
+// TIMING_MAX_RATE bounds the speed-up (1-2); TIMING_MIN_GAP_MS sets the
+// pause left between lines when one borrows time from a gap
+export const loadTimingConfig = (env: NodeJS.ProcessEnv = process.env): TimingConfig => {
+  const rate = Number(env['TIMING_MAX_RATE']);
+  const gap = Number(env['TIMING_MIN_GAP_MS']);
+  return {
+    max_rate: env['TIMING_MAX_RATE'] && Number.isFinite(rate)
+      ? Math.min(2, Math.max(1, rate))
+      : defaultTimingConfig.max_rate,
+    min_gap_ms: env['TIMING_MIN_GAP_MS'] && Number.isFinite(gap)
+      ? Math.max(0, Math.round(gap))
+      : defaultTimingConfig.min_gap_ms
+  };
+};
+
+export interface FitInput {
+  // The segment's window in the source
+  start_ms: number;
+  end_ms: number;
+  // Length of its synthesized speech with the silence trimmed
+  duration_ms: number;
+}
+
+export interface SegmentFit {
+  // Speed-up applied to the speech; 1 when it fits as synthesized
+  rate: number;
+  // Where the fitted speech plays
+  start_ms: number;
+  end_ms: number;
+  // How far the speech still runs past the time it may use; 0 when it fits
+  overrun_ms: number;
+}
+
+// Decide how each segment's speech fits its window, in order. Speech that is
+// too long is first sped up, at most to max_rate; what still does not fit
+// spills into the gap after the segment and then the gap before it, keeping
+// min_gap_ms to the neighbouring lines. The last segment may run to the end
+// of the media. Whatever is left over is reported as an overrun.
+export const planFit = (segments: FitInput[], mediaDurationMs: number, config: TimingConfig = defaultTimingConfig): SegmentFit[] => {
+  const fits: SegmentFit[] = [];
+  for (const [position, segment] of segments.entries()) {
+    const window = segment.end_ms - segment.start_ms;
+    // In hundredths, rounded up so the sped-up speech does fit
+    const needed = window > 0 ? Math.ceil((segment.duration_ms / window) * 100 - 1e-9) / 100 : Infinity;
+    const rate = Math.min(config.max_rate, Math.max(1, needed));
+    const length = Math.round(segment.duration_ms / rate);
+    const overflow = Math.max(0, length - window);
+
+    const next = segments[position + 1];
+    const previous = fits[position - 1];
+    const latest = Math.max(segment.end_ms, next ? next.start_ms - config.min_gap_ms : mediaDurationMs);
+    const earliest = Math.min(segment.start_ms, previous ? previous.end_ms + config.min_gap_ms : 0);
+
+    const after = Math.min(overflow, latest - segment.end_ms);
+    const before = Math.min(overflow - after, segment.start_ms - earliest);
+    const start = segment.start_ms - before;
+
+    fits.push({
+      rate,
+      start_ms: start,
+      end_ms: start + length,
+      overrun_ms: overflow - after - before
+    });
+  }
+  return fits;
+};
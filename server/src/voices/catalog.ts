@@ -0,0 +1,51 @@
+import { type SupportedLanguage, type Voice } from '../schema';
+import { UnknownVoiceError } from '../errors';
+import { getProviders } from '../providers/registry';
+import { type SpeechSynthesizer } from '../providers/types';
+
+// Spoken by previewVoice when no text is given
+const PREVIEW_TEXTS: Record<SupportedLanguage, string> = {
+  en: 'Hello! This is how I sound when I read your video.',
+  es: '¡Hola! Así sueno cuando leo tu vídeo.',
+  fr: 'Bonjour ! Voici ma voix quand je lis votre vidéo.',
+  de: 'Hallo! So klinge ich, wenn ich Ihr Video spreche.',
+  it: 'Ciao! Ecco come suono quando leggo il tuo video.',
+  pt: 'Olá! É assim que eu soo ao narrar o seu vídeo.',
+  ru: 'Привет! Так звучит мой голос в вашем видео.',
+  ja: 'こんにちは！あなたの動画ではこんな声で話します。',
+  ko: '안녕하세요! 영상에서 제 목소리는 이렇게 들려요.',
+  zh: '你好！这就是我为你的视频配音时的声音。',
+  ar: 'مرحبًا! هكذا يبدو صوتي عند قراءة الفيديو الخاص بك.',
+  hi: 'नमस्ते! आपके वीडियो में मेरी आवाज़ ऐसी सुनाई देगी।'
+};
+
+export const previewText = (language: SupportedLanguage): string => PREVIEW_TEXTS[language];
+
+// The synthesizer's voices, optionally for one language, sorted by language
+// and name. Empty when the synthesizer cannot list them.
+export const listVoices = async (
+  language?: SupportedLanguage,
+  synthesizer: SpeechSynthesizer = getProviders().synthesizer
+): Promise<Voice[]> => {
+  const voices = (await synthesizer.listVoices?.()) ?? [];
+  return voices
+    .filter(voice => !language || voice.language === language)
+    .map(voice => ({ ...voice, provider: synthesizer.name }))
+    .sort((a, b) => a.language.localeCompare(b.language) || a.name.localeCompare(b.name));
+};
+
+// Check that the synthesizer offers a voice for the language. Voices of
+// synthesizers that cannot list them are accepted as given.
+export const assertVoiceFor = async (
+  voice: string,
+  language: SupportedLanguage,
+  synthesizer: SpeechSynthesizer = getProviders().synthesizer
+): Promise<void> => {
+  if (!synthesizer.listVoices) {
+    return;
+  }
+  const voices = await synthesizer.listVoices();
+  if (!voices.some(entry => entry.id === voice && entry.language === language)) {
+    throw new UnknownVoiceError(voice, language);
+  }
+};